@@ -0,0 +1,12 @@
+// Tests run as CommonJS through ts-jest; the `.js` suffixes of the ESM imports are stripped
+export default {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  },
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', esModuleInterop: true, strict: true, target: 'ES2022' } }]
+  }
+};
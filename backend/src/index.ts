@@ -5,8 +5,10 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { signLanguageRouter } from './routes/signLanguage.js';
+import { lexiconRouter } from './routes/lexicon.js';
 import { voiceRouter } from './routes/voice.js';
 import { RealisticWebSocketHandler } from './websocket/RealisticWebSocketHandler.js';
+import { signLexicon } from './services/SignLexicon.js';
 import { logger } from './utils/logger.js';
 
 // Load environment variables
@@ -41,6 +43,7 @@ app.get('/health', (req, res) => {
 });
 
 // API Routes
+app.use('/api/sign-language/lexicon', lexiconRouter);
 app.use('/api/sign-language', signLanguageRouter);
 app.use('/api/voice', voiceRouter);
 
@@ -49,6 +52,8 @@ const realisticWsHandler = new RealisticWebSocketHandler(io);
 
 async function initializeServer() {
   try {
+    // Every service reads its vocabulary from the lexicon, so a broken file stops startup
+    signLexicon.load();
     await realisticWsHandler.initialize();
     logger.info('Realistic WebSocket handler initialized successfully');
   } catch (error) {
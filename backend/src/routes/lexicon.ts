@@ -0,0 +1,197 @@
+import { Router, Request, Response } from 'express';
+import {
+  signLexicon,
+  LexiconValidationError,
+  DEFAULT_SIGN_LANGUAGE,
+  type LexiconImportMode
+} from '../services/SignLexicon.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// Every route takes ?language=, defaulting to ASL
+function getLanguage(req: Request): string {
+  return typeof req.query.language === 'string' && req.query.language
+    ? req.query.language.toUpperCase()
+    : DEFAULT_SIGN_LANGUAGE;
+}
+
+function hasLanguage(language: string): boolean {
+  return signLexicon.getLanguages().includes(language);
+}
+
+// Validation problems are the client's fault and carry the full issue list
+function sendError(res: Response, error: unknown, message: string) {
+  if (error instanceof LexiconValidationError) {
+    return res.status(400).json({ error: 'Invalid lexicon data', issues: error.issues });
+  }
+
+  logger.error(`${message}:`, error);
+  return res.status(500).json({
+    error: message,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+// GET /api/sign-language/lexicon
+// List the entries of a lexicon, optionally filtered by ?category=
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const language = getLanguage(req);
+    if (!hasLanguage(language)) {
+      return res.status(404).json({ error: `No ${language} lexicon loaded` });
+    }
+
+    const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+    const entries = signLexicon.getEntries(language).filter(entry => !category || entry.category === category);
+
+    res.json({
+      language,
+      version: signLexicon.getVersion(language),
+      entries,
+      total: entries.length
+    });
+
+  } catch (error) {
+    sendError(res, error, 'Failed to list lexicon entries');
+  }
+});
+
+// GET /api/sign-language/lexicon/export
+// Download a whole lexicon pack
+router.get('/export', (req: Request, res: Response) => {
+  try {
+    const language = getLanguage(req);
+    const pack = signLexicon.exportLexicon(language);
+    if (!pack) {
+      return res.status(404).json({ error: `No ${language} lexicon loaded` });
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="${language.toLowerCase()}-${pack.version}.json"`);
+    res.json(pack);
+
+  } catch (error) {
+    sendError(res, error, 'Failed to export lexicon');
+  }
+});
+
+// POST /api/sign-language/lexicon/import?mode=merge|replace
+// Import a lexicon pack; the body is a complete lexicon document
+router.post('/import', (req: Request, res: Response) => {
+  try {
+    const mode = (req.query.mode || 'merge') as LexiconImportMode;
+    if (mode !== 'merge' && mode !== 'replace') {
+      return res.status(400).json({ error: 'mode must be "merge" or "replace"' });
+    }
+
+    const pack = signLexicon.importLexicon(req.body, mode);
+
+    res.json({
+      language: pack.language.toUpperCase(),
+      version: pack.version,
+      mode,
+      total: pack.entries.length
+    });
+
+  } catch (error) {
+    sendError(res, error, 'Failed to import lexicon');
+  }
+});
+
+// POST /api/sign-language/lexicon/reload
+// Re-read the lexicon files from disk after editing them by hand
+router.post('/reload', (req: Request, res: Response) => {
+  try {
+    signLexicon.reload();
+
+    res.json({
+      languages: signLexicon.getLanguages().map(language => ({
+        language,
+        version: signLexicon.getVersion(language),
+        total: signLexicon.getEntries(language).length
+      }))
+    });
+
+  } catch (error) {
+    sendError(res, error, 'Failed to reload lexicon');
+  }
+});
+
+// GET /api/sign-language/lexicon/:id
+router.get('/:id', (req: Request, res: Response) => {
+  try {
+    const language = getLanguage(req);
+    const entry = signLexicon.getEntry(req.params.id, language);
+    if (!entry) {
+      return res.status(404).json({ error: `Sign "${req.params.id}" not found in ${language} lexicon` });
+    }
+
+    res.json(entry);
+
+  } catch (error) {
+    sendError(res, error, 'Failed to get lexicon entry');
+  }
+});
+
+// POST /api/sign-language/lexicon
+// Add a sign; the id must not exist yet
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const language = getLanguage(req);
+    if (!hasLanguage(language)) {
+      return res.status(404).json({ error: `No ${language} lexicon loaded` });
+    }
+    if (typeof req.body?.id === 'string' && signLexicon.getEntry(req.body.id, language)) {
+      return res.status(409).json({ error: `Sign "${req.body.id}" already exists in ${language} lexicon` });
+    }
+
+    const entry = signLexicon.createEntry(req.body, language);
+
+    res.status(201).json({ entry, version: signLexicon.getVersion(language) });
+
+  } catch (error) {
+    sendError(res, error, 'Failed to create lexicon entry');
+  }
+});
+
+// PUT /api/sign-language/lexicon/:id
+// Replace a sign's definition
+router.put('/:id', (req: Request, res: Response) => {
+  try {
+    const language = getLanguage(req);
+    if (!hasLanguage(language)) {
+      return res.status(404).json({ error: `No ${language} lexicon loaded` });
+    }
+
+    const entry = signLexicon.updateEntry(req.params.id, req.body, language);
+    if (!entry) {
+      return res.status(404).json({ error: `Sign "${req.params.id}" not found in ${language} lexicon` });
+    }
+
+    res.json({ entry, version: signLexicon.getVersion(language) });
+
+  } catch (error) {
+    sendError(res, error, 'Failed to update lexicon entry');
+  }
+});
+
+// DELETE /api/sign-language/lexicon/:id
+router.delete('/:id', (req: Request, res: Response) => {
+  try {
+    const language = getLanguage(req);
+    if (!hasLanguage(language)) {
+      return res.status(404).json({ error: `No ${language} lexicon loaded` });
+    }
+
+    if (!signLexicon.deleteEntry(req.params.id, language)) {
+      return res.status(404).json({ error: `Sign "${req.params.id}" not found in ${language} lexicon` });
+    }
+
+    res.json({ deleted: req.params.id, version: signLexicon.getVersion(language) });
+
+  } catch (error) {
+    sendError(res, error, 'Failed to delete lexicon entry');
+  }
+});
+
+export { router as lexiconRouter };
@@ -0,0 +1,77 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { signLanguageRouter } from './signLanguage.js';
+import { handLandmarks } from '../testing/handLandmarks.js';
+
+// A flat hand, thumb out, at chest height: PLEASE in ASL
+const PLEASE = [handLandmarks({ thumb: 'out', location: 'chest' })];
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(done => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sign-language', signLanguageRouter);
+  server = app.listen(0, () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/sign-language`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(() => done());
+});
+
+async function postJson(path: string, body: unknown): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+describe('POST /translate', () => {
+  it('classifies a single frame sent without a sessionId', async () => {
+    const { status, body } = await postJson('/translate', { landmarks: PLEASE, handedness: ['right'] });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ translated: true, originalGesture: 'please', translatedText: 'Please', model: 'landmark' });
+    expect(body.sessionId).toMatch(/^rest_session_/);
+  });
+
+  it('gives the same answer for the same frame every time', async () => {
+    const answers = await Promise.all([1, 2, 3].map(() => postJson('/translate', { landmarks: PLEASE })));
+    expect(answers.map(({ body }) => body.originalGesture)).toEqual(['please', 'please', 'please']);
+  });
+
+  it.each([
+    [{ landmarks: 'x' }, 'Invalid landmarks data provided'],
+    [{ landmarks: [['a']] }, 'Invalid landmarks data provided'],
+    [{ landmarks: PLEASE, handedness: ['up'] }, "Handedness must be an array of 'left' / 'right' labels"],
+    [{ landmarks: PLEASE, signLanguage: 'XX' }, 'Unsupported sign language: XX']
+  ])('rejects %p', async (request, error) => {
+    const { status, body } = await postJson('/translate', request);
+    expect(status).toBe(400);
+    expect(body.error).toBe(error);
+  });
+});
+
+describe('POST /detect', () => {
+  it('classifies landmarks posted as form fields without a sessionId', async () => {
+    const form = new FormData();
+    form.append('landmarks', JSON.stringify(PLEASE));
+    form.append('handedness', JSON.stringify(['right']));
+    const response = await fetch(`${baseUrl}/detect`, { method: 'POST', body: form });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ detected: true, model: 'landmark', gesture: { name: 'please' } });
+  });
+
+  it('needs an image or landmarks', async () => {
+    const response = await fetch(`${baseUrl}/detect`, { method: 'POST', body: new FormData() });
+    expect(response.status).toBe(400);
+  });
+});
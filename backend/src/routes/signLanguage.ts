@@ -1,10 +1,14 @@
 import { Router, Request, Response } from 'express';
-import { SignLanguageService } from '../services/SignLanguageService.js';
+import { signModelRegistry } from '../services/SignModelRegistry.js';
+import { LandmarkSignLanguageService } from '../services/LandmarkSignLanguageService.js';
+import { signLexicon, DEFAULT_SIGN_LANGUAGE } from '../services/SignLexicon.js';
+import { getAvailableSignLanguages, resolveSignLanguage } from '../services/SignLanguages.js';
 import { logger } from '../utils/logger.js';
+import type { Handedness, SignDetectionInput, SignDetectionModel, SignLanguageData } from '../types/index.js';
 import multer from 'multer';
 
 const router = Router();
-const signLanguageService = new SignLanguageService();
+const frameClassifier = new LandmarkSignLanguageService();
 
 // Configure multer for file uploads
 const upload = multer({
@@ -12,43 +16,101 @@ const upload = multer({
   storage: multer.memoryStorage()
 });
 
-// Initialize the service
-signLanguageService.initialize().catch(error => {
-  logger.error('Failed to initialize SignLanguageService in routes:', error);
-});
+// Multipart forms carry landmarks and handedness as JSON text
+function readJsonField(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function isLandmarks(value: unknown): value is number[][] {
+  return Array.isArray(value) && value.every(hand => Array.isArray(hand) && hand.every(point => typeof point === 'number'));
+}
+
+function isHandedness(value: unknown): value is Handedness[] {
+  return Array.isArray(value) && value.every(side => side === 'left' || side === 'right');
+}
+
+// Recognizers keep per-session frame history. Clients sending a stream of frames pass their own
+// sessionId; a request without one gets a session of its own that is dropped once it is answered.
+function resolveSessionId(value: unknown): { sessionId: string; temporary: boolean } {
+  if (typeof value === 'string' && value.trim()) {
+    return { sessionId: value.trim(), temporary: false };
+  }
+  return { sessionId: `rest_session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`, temporary: true };
+}
+
+// The active model waits for a handshape to hold over several frames of a session. Landmarks sent
+// without a session are a single frame, so they are classified on their own instead.
+async function recognize(input: SignDetectionInput, temporary: boolean): Promise<{ model: SignDetectionModel; result: SignLanguageData | null }> {
+  if (temporary && input.landmarks) {
+    const result = frameClassifier.classifyFrame(input.landmarks, input.handedness, input.sessionId, input.signLanguage);
+    return { model: frameClassifier, result };
+  }
+
+  const model = signModelRegistry.getActiveModel();
+  const result = await model.predict(input);
+  if (temporary) {
+    model.resetSession?.(input.sessionId);
+  }
+  return { model, result };
+}
 
 // POST /api/sign-language/detect
 // Detect sign language from uploaded image
 router.post('/detect', upload.single('image'), async (req: Request, res: Response) => {
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No image file provided' });
+    const landmarks = readJsonField(req.body.landmarks);
+    const handedness = readJsonField(req.body.handedness);
+
+    if (!req.file && landmarks === undefined) {
+      return res.status(400).json({ error: 'No image file or landmarks provided' });
     }
 
-    const imageBase64 = req.file.buffer.toString('base64');
-    const frameData = `data:image/jpeg;base64,${imageBase64}`;
+    if (landmarks !== undefined && !isLandmarks(landmarks)) {
+      return res.status(400).json({ error: 'Invalid landmarks data provided' });
+    }
+
+    if (handedness !== undefined && !isHandedness(handedness)) {
+      return res.status(400).json({ error: "Handedness must be an array of 'left' / 'right' labels" });
+    }
+
+    const frameData = req.file ? `data:image/jpeg;base64,${req.file.buffer.toString('base64')}` : undefined;
     
-    const result = await signLanguageService.processFrame(frameData);
+    const signLanguage = req.body.signLanguage === undefined ? DEFAULT_SIGN_LANGUAGE : resolveSignLanguage(req.body.signLanguage);
+    if (!signLanguage) {
+      return res.status(400).json({ error: `Unsupported sign language: ${req.body.signLanguage}` });
+    }
+
+    const { sessionId, temporary } = resolveSessionId(req.body.sessionId);
+    const { model, result } = await recognize({ frame: frameData, landmarks, handedness, sessionId, signLanguage }, temporary);
     
     if (!result) {
       return res.json({ 
         detected: false, 
+        model: model.name,
+        sessionId,
         message: 'No sign language detected in the image' 
       });
     }
 
-    // Try to recognize the gesture
-    const gestureResult = signLanguageService.recognizeGesture(result.landmarks);
-    
     res.json({
       detected: true,
+      model: model.name,
       landmarks: result.landmarks,
       confidence: result.confidence,
-      gesture: gestureResult ? {
-        name: gestureResult.gesture,
-        confidence: gestureResult.confidence,
-        description: signLanguageService.getGestureDescription(gestureResult.gesture)
+      gesture: result.recognizedGesture ? {
+        name: result.recognizedGesture,
+        confidence: result.confidence,
+        description: result.gestureDescription || model.getGestureDescription(result.recognizedGesture, signLanguage)
       } : null,
+      signLanguage,
+      sessionId,
       timestamp: result.timestamp
     });
 
@@ -61,24 +123,28 @@ router.post('/detect', upload.single('image'), async (req: Request, res: Respons
   }
 });
 
-// GET /api/sign-language/gestures
+// GET /api/sign-language/gestures?language=BSL
 // Get list of supported gestures
 router.get('/gestures', (req: Request, res: Response) => {
   try {
-    const supportedGestures = [
-      { name: 'hello', description: 'Wave hand with open palm', category: 'greeting' },
-      { name: 'thank_you', description: 'Touch chin and move forward', category: 'courtesy' },
-      { name: 'please', description: 'Circular motion on chest', category: 'courtesy' },
-      { name: 'yes', description: 'Nod fist up and down', category: 'response' },
-      { name: 'no', description: 'Shake index finger side to side', category: 'response' },
-      { name: 'help', description: 'One hand on another, lift both', category: 'action' },
-      { name: 'thumbs_up', description: 'Thumb extended upward', category: 'response' },
-      { name: 'pointing', description: 'Index finger extended', category: 'action' }
-    ];
+    const language = req.query.language === undefined ? DEFAULT_SIGN_LANGUAGE : resolveSignLanguage(req.query.language);
+    if (!language) {
+      return res.status(404).json({ error: `Unsupported sign language: ${req.query.language}` });
+    }
+
+    const supportedGestures = signLexicon.getEntries(language).map(entry => ({
+      name: entry.id,
+      gloss: entry.gloss,
+      description: entry.description,
+      category: entry.category,
+      english: entry.english
+    }));
 
     res.json({
       gestures: supportedGestures,
-      total: supportedGestures.length
+      total: supportedGestures.length,
+      language,
+      lexiconVersion: signLexicon.getVersion(language)
     });
 
   } catch (error) {
@@ -88,51 +154,49 @@ router.get('/gestures', (req: Request, res: Response) => {
 });
 
 // POST /api/sign-language/translate
-// Translate gesture sequence to text
+// Translate hand landmarks to text with the active sign detection model
 router.post('/translate', async (req: Request, res: Response) => {
   try {
-    const { landmarks, confidence, sessionId } = req.body;
+    const { landmarks, handedness } = req.body;
+    const signLanguage = req.body.signLanguage === undefined ? DEFAULT_SIGN_LANGUAGE : resolveSignLanguage(req.body.signLanguage);
+    if (!signLanguage) {
+      return res.status(400).json({ error: `Unsupported sign language: ${req.body.signLanguage}` });
+    }
 
-    if (!landmarks || !Array.isArray(landmarks)) {
+    if (!isLandmarks(landmarks)) {
       return res.status(400).json({ error: 'Invalid landmarks data provided' });
     }
 
-    const signData = {
-      landmarks,
-      confidence: confidence || 0.5,
-      timestamp: Date.now(),
-      sessionId: sessionId || 'anonymous'
-    };
+    if (handedness !== undefined && !isHandedness(handedness)) {
+      return res.status(400).json({ error: "Handedness must be an array of 'left' / 'right' labels" });
+    }
 
-    // This would typically use the TranslationService
-    // For now, we'll provide a simple response
-    const gestureResult = signLanguageService.recognizeGesture(landmarks);
+    const { sessionId, temporary } = resolveSessionId(req.body.sessionId);
+    const { model, result } = await recognize({ landmarks, handedness, sessionId, signLanguage }, temporary);
     
-    if (!gestureResult) {
+    if (!result || !result.recognizedGesture || result.recognizedGesture === 'unknown') {
       return res.json({ 
         translated: false, 
+        model: model.name,
+        sessionId,
         message: 'Could not translate gesture to text' 
       });
     }
 
-    const translationMap: { [key: string]: string } = {
-      'hello': 'Hello',
-      'thank_you': 'Thank you',
-      'please': 'Please',
-      'yes': 'Yes',
-      'no': 'No',
-      'help': 'Help me',
-      'thumbs_up': 'Good',
-      'pointing': 'Look'
-    };
-
-    const translatedText = translationMap[gestureResult.gesture] || 'Unknown gesture';
+    // The first English rendering in the lexicon is the canonical one
+    const entry = signLexicon.getEntry(result.recognizedGesture, signLanguage);
+    const translatedText = entry
+      ? entry.english[0].charAt(0).toUpperCase() + entry.english[0].slice(1)
+      : 'Unknown gesture';
 
     res.json({
       translated: true,
-      originalGesture: gestureResult.gesture,
+      model: model.name,
+      originalGesture: result.recognizedGesture,
       translatedText,
-      confidence: gestureResult.confidence,
+      signLanguage,
+      sessionId,
+      confidence: result.confidence,
       timestamp: Date.now()
     });
 
@@ -149,10 +213,22 @@ router.post('/translate', async (req: Request, res: Response) => {
 // Get current configuration
 router.get('/config', (req: Request, res: Response) => {
   try {
+    const activeModel = signModelRegistry.getActiveModelName();
+    const signLanguages = getAvailableSignLanguages();
+
     res.json({
-      modelStatus: 'initialized',
+      modelStatus: activeModel ? 'initialized' : 'not_initialized',
+      model: activeModel,
+      availableModels: signModelRegistry.getAvailableModels(),
       confidenceThreshold: 0.7,
-      supportedLanguages: ['ASL', 'BSL'],
+      supportedLanguages: signLanguages.map(language => language.code),
+      defaultLanguage: DEFAULT_SIGN_LANGUAGE,
+      signLanguages: signLanguages.map(({ code, name, twoHandedFingerspelling, lexiconVersion }) => ({
+        code,
+        name,
+        twoHandedFingerspelling,
+        lexiconVersion
+      })),
       maxHandsDetection: 2,
       processingMode: 'realtime'
     });
@@ -164,9 +240,9 @@ router.get('/config', (req: Request, res: Response) => {
 
 // PUT /api/sign-language/config
 // Update configuration
-router.put('/config', (req: Request, res: Response) => {
+router.put('/config', async (req: Request, res: Response) => {
   try {
-    const { confidenceThreshold, maxHandsDetection, processingMode } = req.body;
+    const { confidenceThreshold, maxHandsDetection, processingMode, model } = req.body;
 
     // Validate configuration values
     if (confidenceThreshold && (confidenceThreshold < 0 || confidenceThreshold > 1)) {
@@ -177,15 +253,27 @@ router.put('/config', (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Max hands detection must be between 1 and 4' });
     }
 
+    if (model !== undefined && (typeof model !== 'string' || !signModelRegistry.hasModel(model))) {
+      return res.status(400).json({
+        error: 'Unknown sign detection model',
+        availableModels: signModelRegistry.getAvailableModels().map(entry => entry.name)
+      });
+    }
+
+    if (model) {
+      await signModelRegistry.setActiveModel(model);
+    }
+
     // In a real implementation, you would update the service configuration here
-    logger.info('Sign language configuration updated:', { confidenceThreshold, maxHandsDetection, processingMode });
+    logger.info('Sign language configuration updated:', { confidenceThreshold, maxHandsDetection, processingMode, model });
 
     res.json({
       updated: true,
       config: {
         confidenceThreshold: confidenceThreshold || 0.7,
         maxHandsDetection: maxHandsDetection || 2,
-        processingMode: processingMode || 'realtime'
+        processingMode: processingMode || 'realtime',
+        model: signModelRegistry.getActiveModelName()
       }
     });
 
@@ -1,11 +1,19 @@
 import { Router, Request, Response } from 'express';
 import { VoiceService } from '../services/VoiceService.js';
+import { speechRecognizerRegistry } from '../services/SpeechRecognizerRegistry.js';
+import { speechSynthesizerRegistry } from '../services/SpeechSynthesizerRegistry.js';
+import { SpeechInputError, MAX_SPEECH_TEXT_LENGTH } from '../services/SpeechTextSanitizer.js';
+import { MAX_SPEECH_MARKUP_LENGTH } from '../services/SpeechMarkup.js';
+import { AudioDecodeError } from '../services/AudioContainers.js';
 import { logger } from '../utils/logger.js';
 import multer from 'multer';
 
 const router = Router();
 const voiceService = new VoiceService();
 
+// Speed and pitch (semitones) used when a text-to-speech request leaves them out; set through PUT /config
+const ttsDefaults = { speed: 1.0, pitch: 0.0 };
+
 // Configure multer for audio uploads
 const upload = multer({
   limits: { fileSize: 25 * 1024 * 1024 }, // 25MB limit for audio
@@ -33,11 +41,8 @@ router.post('/speech-to-text', upload.single('audio'), async (req: Request, res:
       return res.status(400).json({ error: 'No audio file provided' });
     }
 
-    // Validate audio format
-    const isValidFormat = await voiceService.validateAudioFormat(req.file.buffer);
-    if (!isValidFormat) {
-      return res.status(400).json({ error: 'Unsupported audio format' });
-    }
+    // Real format, sample rate and duration; truncated or unreadable uploads are rejected
+    const audio = voiceService.validateAudioFormat(req.file.buffer);
 
     const result = await voiceService.speechToText(req.file.buffer);
     
@@ -55,6 +60,8 @@ router.post('/speech-to-text', upload.single('audio'), async (req: Request, res:
       transcribed: true,
       text: result.text,
       confidence: result.confidence,
+      words: result.words,
+      audio,
       command: commandResult ? {
         action: commandResult.action,
         confidence: commandResult.confidence
@@ -63,6 +70,9 @@ router.post('/speech-to-text', upload.single('audio'), async (req: Request, res:
     });
 
   } catch (error) {
+    if (error instanceof AudioDecodeError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
     logger.error('Error in speech-to-text conversion:', error);
     res.status(500).json({ 
       error: 'Failed to convert speech to text',
@@ -75,37 +85,49 @@ router.post('/speech-to-text', upload.single('audio'), async (req: Request, res:
 // Convert text to speech audio
 router.post('/text-to-speech', async (req: Request, res: Response) => {
   try {
-    const { text, voice, language, speed } = req.body;
+    const { text, voice, language, speed, pitch, ssml, question, emotion } = req.body;
 
     if (!text || typeof text !== 'string') {
       return res.status(400).json({ error: 'Text is required and must be a string' });
     }
 
-    if (text.length > 1000) {
-      return res.status(400).json({ error: 'Text is too long (max 1000 characters)' });
+    // Markup is cut to the plain-text limit after parsing
+    const maxLength = ssml === true ? MAX_SPEECH_MARKUP_LENGTH : MAX_SPEECH_TEXT_LENGTH;
+    if (text.length > maxLength) {
+      return res.status(400).json({ error: `Text is too long (max ${maxLength} characters)` });
     }
 
+    // Voice names are engine-specific (see GET /api/voice/config); omitted means the engine default.
+    // With `ssml: true` the text is markup: <emphasis>, <break>, <prosody rate pitch>, <s>, <p>
     const options = {
-      voice: voice || 'en',
+      voice,
       language: language || 'en',
-      speed: speed || 1.0
+      speed: speed || ttsDefaults.speed,
+      pitch: pitch ?? ttsDefaults.pitch,
+      ssml,
+      question,
+      emotion
     };
 
-    const audioBuffer = await voiceService.textToSpeech(text, options);
+    const speech = await voiceService.textToSpeech(text, options);
     
-    if (!audioBuffer) {
+    if (!speech) {
       return res.status(500).json({ error: 'Failed to generate speech audio' });
     }
 
     res.set({
-      'Content-Type': 'audio/mpeg',
-      'Content-Length': audioBuffer.length.toString(),
-      'Content-Disposition': 'attachment; filename="speech.mp3"'
+      'Content-Type': speech.mimeType,
+      'Content-Length': speech.audio.length.toString(),
+      'Content-Disposition': `attachment; filename="speech.${speech.format}"`,
+      'X-TTS-Engine': speech.engine
     });
 
-    res.send(audioBuffer);
+    res.send(speech.audio);
 
   } catch (error) {
+    if (error instanceof SpeechInputError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
     logger.error('Error in text-to-speech conversion:', error);
     res.status(500).json({ 
       error: 'Failed to convert text to speech',
@@ -164,7 +186,8 @@ router.post('/analyze', upload.single('audio'), async (req: Request, res: Respon
       analyzed: true,
       transcription: {
         text: speechResult.text,
-        confidence: speechResult.confidence
+        confidence: speechResult.confidence,
+        words: speechResult.words
       },
       command: commandResult || null,
       sentiment: this.analyzeSentiment(speechResult.text),
@@ -189,13 +212,19 @@ router.get('/config', (req: Request, res: Response) => {
         enabled: true,
         language: 'en-US',
         sampleRate: 16000,
-        encoding: 'LINEAR16'
+        encoding: 'LINEAR16',
+        recognizer: speechRecognizerRegistry.getActiveRecognizerName(),
+        availableRecognizers: speechRecognizerRegistry.getAvailableRecognizers()
       },
       textToSpeech: {
         enabled: true,
+        engine: speechSynthesizerRegistry.getActiveSynthesizerName(),
+        availableEngines: speechSynthesizerRegistry.getAvailableSynthesizers(),
         defaultVoice: 'en-US',
-        speed: 1.0,
-        pitch: 0.0
+        speed: ttsDefaults.speed,
+        pitch: ttsDefaults.pitch,
+        ssml: true,
+        emotions: ['neutral', 'happy', 'excited', 'sad', 'concerned', 'urgent']
       },
       commandRecognition: {
         enabled: true,
@@ -227,6 +256,13 @@ router.put('/config', (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Confidence threshold must be between 0 and 1' });
     }
 
+    if (speed) {
+      ttsDefaults.speed = speed;
+    }
+    if (typeof pitch === 'number') {
+      ttsDefaults.pitch = pitch;
+    }
+
     logger.info('Voice service configuration updated:', { language, defaultVoice, speed, pitch, confidenceThreshold });
 
     res.json({
@@ -234,8 +270,8 @@ router.put('/config', (req: Request, res: Response) => {
       config: {
         language: language || 'en-US',
         defaultVoice: defaultVoice || 'en-US',
-        speed: speed || 1.0,
-        pitch: pitch || 0.0,
+        speed: ttsDefaults.speed,
+        pitch: ttsDefaults.pitch,
         confidenceThreshold: confidenceThreshold || 0.7
       }
     });
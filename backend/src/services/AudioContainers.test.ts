@@ -0,0 +1,166 @@
+import { AudioDecodeError, probeAudio, sniffAudioFormat, type AudioErrorCode } from './AudioContainers.js';
+import { encodeWav, validateAudio } from './AudioDecoder.js';
+
+// Minimal containers built byte by byte; only the fields the prober reads are filled in
+
+function wav(options: { format?: number; bits?: number; channels?: number; sampleRate?: number; seconds?: number; dataSize?: number } = {}): Buffer {
+  const { format = 1, bits = 16, channels = 1, sampleRate = 16000, seconds = 1 } = options;
+  const blockAlign = channels * bits / 8;
+  const data = Buffer.alloc(Math.round(seconds * sampleRate) * blockAlign);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVEfmt ', 8, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(format, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bits, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(options.dataSize ?? data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+// MPEG-1 layer III, 128 kbit/s, 44.1 kHz: 417-byte frames of 1152 samples
+function mp3(frames: number, { id3 = false, mono = false } = {}): Buffer {
+  const frame = Buffer.alloc(417);
+  frame.set([0xFF, 0xFB, 0x90, mono ? 0xC0 : 0x00]);
+  const tag = id3 ? [Buffer.from([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 4]), Buffer.alloc(4)] : [];
+  return Buffer.concat([...tag, ...Array.from({ length: frames }, () => frame)]);
+}
+
+function oggPage(serial: number, granule: bigint, body: Buffer): Buffer {
+  const header = Buffer.alloc(27);
+  header.write('OggS', 0, 'ascii');
+  header.writeBigInt64LE(granule, 6);
+  header.writeUInt32LE(serial, 14);
+  header[26] = 1;
+  return Buffer.concat([header, Buffer.from([body.length]), body]);
+}
+
+function opusHead(channels: number, preSkip: number, inputRate: number): Buffer {
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'ascii');
+  head[8] = 1;
+  head[9] = channels;
+  head.writeUInt16LE(preSkip, 10);
+  head.writeUInt32LE(inputRate, 12);
+  return head;
+}
+
+function vorbisIdentification(channels: number, sampleRate: number): Buffer {
+  const packet = Buffer.alloc(30);
+  packet[0] = 1;
+  packet.write('vorbis', 1, 'ascii');
+  packet[11] = channels;
+  packet.writeUInt32LE(sampleRate, 12);
+  return packet;
+}
+
+function ebml(id: number[], data: Buffer | Buffer[], unknownSize = false): Buffer {
+  const body = Array.isArray(data) ? Buffer.concat(data) : data;
+  const size = unknownSize ? Buffer.from([0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF])
+    : Buffer.from([0x10, body.length >> 16, (body.length >> 8) & 0xFF, body.length & 0xFF]);
+  return Buffer.concat([Buffer.from(id), size, body]);
+}
+
+const uint = (value: number) => Buffer.from([value]);
+const float = (value: number) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeDoubleBE(value);
+  return buffer;
+};
+
+// What MediaRecorder writes: unknown segment and cluster sizes, no duration, 20 ms Opus blocks
+function webm({ docType = 'webm', trackType = 2, blocks = 50 } = {}): Buffer {
+  const block = (timecode: number) => {
+    const data = Buffer.from([0x81, 0, 0, 0x80, 0x08, 0, 0]);
+    data.writeInt16BE(timecode, 1);
+    return ebml([0xA3], data);
+  };
+  return Buffer.concat([
+    ebml([0x1A, 0x45, 0xDF, 0xA3], ebml([0x42, 0x82], Buffer.from(docType))),
+    ebml([0x18, 0x53, 0x80, 0x67], [
+      ebml([0x16, 0x54, 0xAE, 0x6B], ebml([0xAE], [
+        ebml([0xD7], uint(1)),
+        ebml([0x83], uint(trackType)),
+        ebml([0x86], Buffer.from('A_OPUS')),
+        ebml([0xE1], [ebml([0xB5], float(48000)), ebml([0x9F], uint(1))])
+      ])),
+      ebml([0x1F, 0x43, 0xB6, 0x75], [
+        ebml([0xE7], uint(0)),
+        ...Array.from({ length: blocks }, (_, i) => block(i * 20))
+      ], true)
+    ], true)
+  ]);
+}
+
+function errorCode(probe: () => unknown): AudioErrorCode | null {
+  try {
+    probe();
+    return null;
+  } catch (error) {
+    return error instanceof AudioDecodeError ? error.code : null;
+  }
+}
+
+describe('AudioContainers', () => {
+  it.each([
+    ['wav', wav()],
+    ['mp3', mp3(1)],
+    ['mp3', mp3(1, { id3: true })],
+    ['ogg', oggPage(1, 0n, opusHead(1, 312, 48000))],
+    ['webm', webm()],
+    [null, Buffer.from('not audio at all')],
+    [null, Buffer.from([0xFF])]
+  ])('sniffs %s', (format, buffer) => {
+    expect(sniffAudioFormat(buffer)).toBe(format);
+  });
+
+  it.each([
+    ['16-bit WAV', wav(), { format: 'wav', codec: 'pcm_s16le', sampleRate: 16000, channels: 1, duration: 1 }],
+    ['float stereo WAV', wav({ format: 3, bits: 32, channels: 2, sampleRate: 48000, seconds: 0.5 }),
+      { format: 'wav', codec: 'pcm_f32le', sampleRate: 48000, channels: 2, duration: 0.5 }],
+    ['streamed WAV with no data size', wav({ dataSize: 0 }), { format: 'wav', duration: 1 }],
+    ['recognizer WAV', encodeWav(new Float32Array(8000), 16000), { format: 'wav', codec: 'pcm_s16le', duration: 0.5 }],
+    ['MP3', mp3(100), { format: 'mp3', codec: 'mp3', sampleRate: 44100, channels: 2, duration: 100 * 1152 / 44100 }],
+    ['mono MP3 after an ID3 tag', mp3(10, { id3: true, mono: true }), { channels: 1, duration: 10 * 1152 / 44100 }],
+    ['Ogg Opus', Buffer.concat([oggPage(7, 0n, opusHead(1, 312, 16000)), oggPage(7, 48312n, Buffer.alloc(10))]),
+      { format: 'ogg', codec: 'opus', sampleRate: 16000, channels: 1, duration: 1 }],
+    ['Ogg Vorbis', Buffer.concat([oggPage(7, 0n, vorbisIdentification(2, 44100)), oggPage(7, 88200n, Buffer.alloc(10))]),
+      { format: 'ogg', codec: 'vorbis', sampleRate: 44100, channels: 2, duration: 2 }],
+    ['MediaRecorder WebM', webm(), { format: 'webm', codec: 'opus', sampleRate: 48000, channels: 1, duration: 1 }]
+  ])('probes %s', (_name, buffer, info) => {
+    const probed = probeAudio(buffer);
+    expect(probed).toMatchObject({ ...info, duration: expect.any(Number) });
+    expect(probed.duration).toBeCloseTo(info.duration, 3);
+  });
+
+  it.each<[string, Buffer, AudioErrorCode]>([
+    ['unknown bytes', Buffer.from('not audio at all'), 'UNSUPPORTED_FORMAT'],
+    ['a WAV cut short', wav().subarray(0, 1000), 'TRUNCATED_AUDIO'],
+    ['an 8-bit float WAV', wav({ format: 3, bits: 8 }), 'UNSUPPORTED_CODEC'],
+    ['an A-law WAV', wav({ format: 6, bits: 8 }), 'UNSUPPORTED_CODEC'],
+    ['an MP3 cut mid-frame', mp3(3).subarray(0, 1000), 'TRUNCATED_AUDIO'],
+    ['an MP3 with garbage between frames', Buffer.concat([mp3(2), Buffer.alloc(10), mp3(2)]), 'CORRUPT_AUDIO'],
+    ['an Ogg page cut short', oggPage(1, 0n, opusHead(1, 312, 48000)).subarray(0, 30), 'TRUNCATED_AUDIO'],
+    ['an Ogg stream of another codec', oggPage(1, 0n, Buffer.from('\x80theora')), 'UNSUPPORTED_CODEC'],
+    ['a WebM cut mid-element', webm().subarray(0, 60), 'TRUNCATED_AUDIO'],
+    ['a WebM with only a video track', webm({ trackType: 1 }), 'UNSUPPORTED_CODEC'],
+    ['an EBML file that is not WebM', webm({ docType: 'mkv3d' }), 'UNSUPPORTED_FORMAT']
+  ])('rejects %s', (_name, buffer, code) => {
+    expect(errorCode(() => probeAudio(buffer))).toBe(code);
+  });
+
+  it.each<[string, Buffer, { duration?: number; sampleRate?: number }, AudioErrorCode | null]>([
+    ['audio matching its claims', wav(), { duration: 1.1, sampleRate: 16000 }, null],
+    ['audio shorter than 100 ms', wav({ seconds: 0.05 }), {}, 'AUDIO_TOO_SHORT'],
+    ['audio longer than 30 s', wav({ seconds: 31 }), {}, 'AUDIO_TOO_LONG'],
+    ['a wrong sample rate', wav(), { sampleRate: 48000 }, 'AUDIO_MISMATCH'],
+    ['a wrong duration', wav(), { duration: 3 }, 'AUDIO_MISMATCH']
+  ])('validates %s', (_name, buffer, claims, code) => {
+    expect(errorCode(() => validateAudio(buffer, claims))).toBe(code);
+  });
+});
@@ -0,0 +1,495 @@
+// Container parsing for uploaded and socket audio: the real format, codec, sample rate, channels and
+// duration, read from the payload instead of taken from the client. Nothing here decodes samples.
+
+export type AudioFormat = 'wav' | 'webm' | 'ogg' | 'mp3';
+
+export type AudioErrorCode =
+  | 'UNSUPPORTED_FORMAT'    // Not a container we can read
+  | 'UNSUPPORTED_CODEC'     // A container we read, holding audio we cannot decode
+  | 'TRUNCATED_AUDIO'       // Ends before its own headers say it should
+  | 'CORRUPT_AUDIO'         // Headers that contradict themselves or the decoder's output
+  | 'AUDIO_TOO_SHORT'
+  | 'AUDIO_TOO_LONG'
+  | 'AUDIO_MISMATCH'        // Client-reported duration or sample rate disagrees with the audio
+  | 'DECODER_UNAVAILABLE';  // Compressed audio needs ffmpeg
+
+export class AudioDecodeError extends Error {
+  constructor(message: string, public readonly code: AudioErrorCode) {
+    super(message);
+    this.name = 'AudioDecodeError';
+  }
+}
+
+export interface AudioInfo {
+  format: AudioFormat;
+  codec: string;        // 'pcm_s16le', 'opus', 'vorbis', 'mp3', ...
+  sampleRate: number;
+  channels: number;
+  duration: number;     // Seconds
+}
+
+export interface WavLayout {
+  audioFormat: number;  // 1 PCM, 3 IEEE float
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+const MAX_SAMPLE_RATE = 384000;
+const MAX_CHANNELS = 32;
+
+// Container sniffing from the first bytes of the payload
+export function sniffAudioFormat(buffer: Buffer): AudioFormat | null {
+  if (buffer.length < 4) {
+    return null;
+  }
+
+  if (buffer.subarray(0, 4).toString('hex') === '1a45dfa3') {
+    return 'webm';
+  }
+  if (buffer.subarray(0, 4).toString('ascii') === 'RIFF' && buffer.subarray(8, 12).toString('ascii') === 'WAVE') {
+    return 'wav';
+  }
+  if (buffer.subarray(0, 4).toString('ascii') === 'OggS') {
+    return 'ogg';
+  }
+  // ID3 tag, or an MPEG frame sync with a valid layer (ADTS AAC has layer 0)
+  if (buffer.subarray(0, 3).toString('hex') === '494433' ||
+      (buffer[0] === 0xFF && (buffer[1] & 0xE0) === 0xE0 && (buffer[1] & 0x06) !== 0)) {
+    return 'mp3';
+  }
+  return null;
+}
+
+// Throws AudioDecodeError for anything that is not complete, readable audio
+export function probeAudio(buffer: Buffer): AudioInfo {
+  switch (sniffAudioFormat(buffer)) {
+    case 'wav': return probeWav(buffer);
+    case 'mp3': return probeMp3(buffer);
+    case 'ogg': return probeOgg(buffer);
+    case 'webm': return probeMatroska(buffer);
+    default: throw new AudioDecodeError('Unrecognized audio format', 'UNSUPPORTED_FORMAT');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// WAV
+
+// The fmt chunk and where the samples are. A data chunk longer than the payload is truncation,
+// except for the 0 and 0xFFFFFFFF sizes streaming writers leave behind
+export function readWavLayout(buffer: Buffer): WavLayout {
+  let offset = 12;
+  let format: Omit<WavLayout, 'dataStart' | 'dataEnd'> | null = null;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      if (chunkSize < 16 || body + 16 > buffer.length) {
+        throw new AudioDecodeError('WAV fmt chunk is truncated', 'TRUNCATED_AUDIO');
+      }
+      let audioFormat = buffer.readUInt16LE(body);
+      if (audioFormat === 0xFFFE && chunkSize >= 26 && body + 26 <= buffer.length) {
+        audioFormat = buffer.readUInt16LE(body + 24); // Sub-format GUID starts with the plain format code
+      }
+      format = {
+        audioFormat,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14)
+      };
+      const blockAlign = buffer.readUInt16LE(body + 12);
+      if (format.channels < 1 || format.channels > MAX_CHANNELS || format.sampleRate < 1 || format.sampleRate > MAX_SAMPLE_RATE ||
+          blockAlign !== format.channels * format.bitsPerSample / 8) {
+        throw new AudioDecodeError('WAV fmt chunk is inconsistent', 'CORRUPT_AUDIO');
+      }
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new AudioDecodeError('WAV data chunk before fmt chunk', 'CORRUPT_AUDIO');
+      }
+      const streaming = chunkSize === 0 || chunkSize === 0xFFFFFFFF;
+      if (!streaming && body + chunkSize > buffer.length) {
+        throw new AudioDecodeError(`WAV data is truncated (${buffer.length - body} of ${chunkSize} bytes)`, 'TRUNCATED_AUDIO');
+      }
+      return { ...format, dataStart: body, dataEnd: streaming ? buffer.length : body + chunkSize };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2); // Chunks are word-aligned
+  }
+
+  throw new AudioDecodeError('WAV file has no data chunk', format ? 'TRUNCATED_AUDIO' : 'CORRUPT_AUDIO');
+}
+
+function probeWav(buffer: Buffer): AudioInfo {
+  const layout = readWavLayout(buffer);
+  const isFloat = layout.audioFormat === 3 && layout.bitsPerSample === 32;
+  if ((layout.audioFormat !== 1 && !isFloat) || ![8, 16, 24, 32].includes(layout.bitsPerSample)) {
+    throw new AudioDecodeError(`Unsupported WAV encoding (format ${layout.audioFormat}, ${layout.bitsPerSample}-bit)`, 'UNSUPPORTED_CODEC');
+  }
+
+  const frameSize = layout.channels * layout.bitsPerSample / 8;
+  return {
+    format: 'wav',
+    codec: isFloat ? 'pcm_f32le' : layout.bitsPerSample === 8 ? 'pcm_u8' : `pcm_s${layout.bitsPerSample}le`,
+    sampleRate: layout.sampleRate,
+    channels: layout.channels,
+    duration: Math.floor((layout.dataEnd - layout.dataStart) / frameSize) / layout.sampleRate
+  };
+}
+
+// ---------------------------------------------------------------------------
+// MP3 (MPEG-1/2/2.5 layers I-III): every frame is walked, so VBR durations are exact
+
+// Kilobits per second by bitrate index
+const MPEG_BITRATES = {
+  v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  v2l23: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+// By version bits: 0 MPEG-2.5, 2 MPEG-2, 3 MPEG-1
+const MPEG_SAMPLE_RATES: Record<number, number[]> = { 0: [11025, 12000, 8000], 2: [22050, 24000, 16000], 3: [44100, 48000, 32000] };
+
+interface MpegFrame {
+  layer: 1 | 2 | 3;
+  sampleRate: number;
+  channels: number;
+  samples: number;
+  length: number;
+}
+
+function readMpegFrame(buffer: Buffer, offset: number): MpegFrame | null {
+  const [b0, b1, b2, b3] = buffer.subarray(offset, offset + 4);
+  if (b0 !== 0xFF || (b1 & 0xE0) !== 0xE0) {
+    return null;
+  }
+  const version = (b1 >> 3) & 3;
+  const layer = (4 - ((b1 >> 1) & 3)) as 1 | 2 | 3 | 4;
+  const bitrateIndex = b2 >> 4;
+  const rateIndex = (b2 >> 2) & 3;
+  if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) {
+    return null; // Reserved values; free-format streams are not supported either
+  }
+
+  const mpeg1 = version === 3;
+  const table = mpeg1 ? [MPEG_BITRATES.v1l1, MPEG_BITRATES.v1l2, MPEG_BITRATES.v1l3][layer - 1]
+    : layer === 1 ? MPEG_BITRATES.v2l1 : MPEG_BITRATES.v2l23;
+  const bitrate = table[bitrateIndex] * 1000;
+  const sampleRate = MPEG_SAMPLE_RATES[version][rateIndex];
+  const padding = (b2 >> 1) & 1;
+  const samples = layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor(12 * bitrate / sampleRate) + padding) * 4
+    : Math.floor(samples / 8 * bitrate / sampleRate) + padding;
+
+  return { layer, sampleRate, channels: b3 >> 6 === 3 ? 1 : 2, samples, length };
+}
+
+function probeMp3(buffer: Buffer): AudioInfo {
+  let offset = 0;
+  if (buffer.toString('ascii', 0, 3) === 'ID3') {
+    if (buffer.length < 10) {
+      throw new AudioDecodeError('ID3 tag is truncated', 'TRUNCATED_AUDIO');
+    }
+    // Sizes in ID3v2 are 7 bits per byte; a footer adds another 10 bytes
+    const size = ((buffer[6] & 0x7F) << 21) | ((buffer[7] & 0x7F) << 14) | ((buffer[8] & 0x7F) << 7) | (buffer[9] & 0x7F);
+    offset = 10 + size + (buffer[5] & 0x10 ? 10 : 0);
+    if (offset > buffer.length) {
+      throw new AudioDecodeError('ID3 tag is truncated', 'TRUNCATED_AUDIO');
+    }
+  }
+
+  let first: MpegFrame | null = null;
+  let samples = 0;
+
+  while (offset + 4 <= buffer.length) {
+    const trailer = buffer.toString('ascii', offset, offset + 8);
+    if (trailer.startsWith('TAG') || trailer === 'APETAGEX' || trailer.startsWith('LYRICS')) {
+      break; // Trailing ID3v1, APE or Lyrics3 tags
+    }
+
+    const frame = readMpegFrame(buffer, offset);
+    if (!frame) {
+      if (!first) {
+        throw new AudioDecodeError('No MPEG audio frame found', 'CORRUPT_AUDIO');
+      }
+      throw new AudioDecodeError(`Lost MPEG frame sync at byte ${offset}`, 'CORRUPT_AUDIO');
+    }
+    if (first && (frame.sampleRate !== first.sampleRate || frame.layer !== first.layer)) {
+      throw new AudioDecodeError('MPEG frames change sample rate or layer mid-stream', 'CORRUPT_AUDIO');
+    }
+    if (offset + frame.length > buffer.length) {
+      throw new AudioDecodeError('Last MPEG frame is truncated', 'TRUNCATED_AUDIO');
+    }
+
+    first = first || frame;
+    samples += frame.samples;
+    offset += frame.length;
+  }
+
+  if (!first) {
+    throw new AudioDecodeError('No MPEG audio frame found', 'TRUNCATED_AUDIO');
+  }
+
+  return {
+    format: 'mp3',
+    codec: `mp${first.layer}`,
+    sampleRate: first.sampleRate,
+    channels: first.channels,
+    duration: samples / first.sampleRate
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Ogg (Opus, Vorbis): pages are walked to the end; the last granule position is the length
+
+function probeOgg(buffer: Buffer): AudioInfo {
+  let offset = 0;
+  let serial: number | null = null;
+  let stream: { codec: string; channels: number; sampleRate: number; granuleRate: number; preSkip: number } | null = null;
+  let lastGranule = 0;
+
+  while (offset < buffer.length) {
+    if (offset + 27 > buffer.length) {
+      throw new AudioDecodeError('Ogg page header is truncated', 'TRUNCATED_AUDIO');
+    }
+    if (buffer.toString('ascii', offset, offset + 4) !== 'OggS') {
+      throw new AudioDecodeError(`Lost Ogg page sync at byte ${offset}`, 'CORRUPT_AUDIO');
+    }
+
+    const granule = buffer.readBigInt64LE(offset + 6);
+    const pageSerial = buffer.readUInt32LE(offset + 14);
+    const segmentCount = buffer[offset + 26];
+    const bodyStart = offset + 27 + segmentCount;
+    if (bodyStart > buffer.length) {
+      throw new AudioDecodeError('Ogg segment table is truncated', 'TRUNCATED_AUDIO');
+    }
+    let bodyEnd = bodyStart;
+    for (let segment = 0; segment < segmentCount; segment++) {
+      bodyEnd += buffer[offset + 27 + segment];
+    }
+    if (bodyEnd > buffer.length) {
+      throw new AudioDecodeError('Last Ogg page is truncated', 'TRUNCATED_AUDIO');
+    }
+
+    // The first page carries the identification header of the first logical stream
+    if (serial === null) {
+      serial = pageSerial;
+      stream = readOggIdentification(buffer.subarray(bodyStart, bodyEnd));
+    } else if (pageSerial === serial && granule >= 0n) {
+      lastGranule = Number(granule); // -1: no packet ends on this page
+    }
+    offset = bodyEnd;
+  }
+
+  if (!stream) {
+    throw new AudioDecodeError('Ogg stream has no pages', 'TRUNCATED_AUDIO');
+  }
+
+  return {
+    format: 'ogg',
+    codec: stream.codec,
+    sampleRate: stream.sampleRate,
+    channels: stream.channels,
+    duration: Math.max(0, lastGranule - stream.preSkip) / stream.granuleRate
+  };
+}
+
+function readOggIdentification(packet: Buffer): { codec: string; channels: number; sampleRate: number; granuleRate: number; preSkip: number } {
+  if (packet.toString('ascii', 0, 8) === 'OpusHead' && packet.length >= 19) {
+    // Opus always decodes at 48 kHz; the header keeps the rate it was captured at
+    const inputRate = packet.readUInt32LE(12);
+    return { codec: 'opus', channels: packet[9], sampleRate: inputRate || 48000, granuleRate: 48000, preSkip: packet.readUInt16LE(10) };
+  }
+  if (packet[0] === 1 && packet.toString('ascii', 1, 7) === 'vorbis' && packet.length >= 16) {
+    const sampleRate = packet.readUInt32LE(12);
+    if (sampleRate < 1 || sampleRate > MAX_SAMPLE_RATE) {
+      throw new AudioDecodeError('Vorbis header is inconsistent', 'CORRUPT_AUDIO');
+    }
+    return { codec: 'vorbis', channels: packet[11], sampleRate, granuleRate: sampleRate, preSkip: 0 };
+  }
+  throw new AudioDecodeError('Ogg stream is neither Opus nor Vorbis', 'UNSUPPORTED_CODEC');
+}
+
+// ---------------------------------------------------------------------------
+// WebM / Matroska: the elements are walked linearly, entering masters and skipping leaves.
+// MediaRecorder leaves segment and cluster sizes unknown and writes no duration, so the
+// length comes from the last audio block's timecode plus that block's own length.
+
+const EBML_ID = {
+  header: 0x1A45DFA3,
+  docType: 0x4282,
+  segment: 0x18538067,
+  info: 0x1549A966,
+  timecodeScale: 0x2AD7B1,
+  duration: 0x4489,
+  tracks: 0x1654AE6B,
+  trackEntry: 0xAE,
+  trackNumber: 0xD7,
+  trackType: 0x83,
+  codecId: 0x86,
+  audio: 0xE1,
+  samplingFrequency: 0xB5,
+  channels: 0x9F,
+  cluster: 0x1F43B675,
+  timecode: 0xE7,
+  simpleBlock: 0xA3,
+  blockGroup: 0xA0,
+  block: 0xA1
+};
+
+const EBML_MASTERS = new Set([
+  EBML_ID.header, EBML_ID.segment, EBML_ID.info, EBML_ID.tracks, EBML_ID.trackEntry, EBML_ID.audio,
+  EBML_ID.cluster, EBML_ID.blockGroup
+]);
+
+const MATROSKA_AUDIO_TRACK = 2;
+const MATROSKA_CODECS: Record<string, string> = { A_OPUS: 'opus', A_VORBIS: 'vorbis', A_AAC: 'aac', A_MPEG_L3: 'mp3', A_FLAC: 'flac' };
+
+interface MatroskaTrack {
+  number: number;
+  type: number;
+  codecId: string;
+  sampleRate: number;
+  channels: number;
+}
+
+function probeMatroska(buffer: Buffer): AudioInfo {
+  const tracks: MatroskaTrack[] = [];
+  let docType = '';
+  let timecodeScale = 1000000; // Nanoseconds per timecode unit
+  let declaredDuration: number | null = null;
+  let clusterTimecode = 0;
+  let blocks: Array<{ track: number; timecode: number; data: Buffer }> = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const id = readVint(buffer, offset, true);
+    const size = readVint(buffer, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+
+    if (EBML_MASTERS.has(id.value)) {
+      if (id.value === EBML_ID.trackEntry) {
+        tracks.push({ number: 0, type: 0, codecId: '', sampleRate: 8000, channels: 1 }); // Matroska defaults
+      }
+      offset = dataStart;
+      continue;
+    }
+    if (size.unknown) {
+      throw new AudioDecodeError(`Matroska element 0x${id.value.toString(16)} has no size`, 'CORRUPT_AUDIO');
+    }
+    const dataEnd = dataStart + size.value;
+    if (dataEnd > buffer.length) {
+      throw new AudioDecodeError('Last Matroska element is truncated', 'TRUNCATED_AUDIO');
+    }
+
+    const data = buffer.subarray(dataStart, dataEnd);
+    const track = tracks[tracks.length - 1];
+    switch (id.value) {
+      case EBML_ID.docType: docType = data.toString('ascii').replace(/\0+$/, ''); break;
+      case EBML_ID.timecodeScale: timecodeScale = readUint(data); break;
+      case EBML_ID.duration: declaredDuration = readFloat(data); break;
+      case EBML_ID.trackNumber: if (track) track.number = readUint(data); break;
+      case EBML_ID.trackType: if (track) track.type = readUint(data); break;
+      case EBML_ID.codecId: if (track) track.codecId = data.toString('ascii').replace(/\0+$/, ''); break;
+      case EBML_ID.samplingFrequency: if (track) track.sampleRate = readFloat(data); break;
+      case EBML_ID.channels: if (track) track.channels = readUint(data); break;
+      case EBML_ID.timecode: clusterTimecode = readUint(data); break;
+      case EBML_ID.simpleBlock:
+      case EBML_ID.block: {
+        const trackNumber = readVint(data, 0, false);
+        if (trackNumber.length + 3 > data.length) {
+          throw new AudioDecodeError('Matroska block header is truncated', 'CORRUPT_AUDIO');
+        }
+        blocks.push({ track: trackNumber.value, timecode: clusterTimecode + data.readInt16BE(trackNumber.length), data });
+        break;
+      }
+    }
+    offset = dataEnd;
+  }
+
+  if (docType !== 'webm' && docType !== 'matroska') {
+    throw new AudioDecodeError(`Unsupported EBML document type: ${docType || 'none'}`, 'UNSUPPORTED_FORMAT');
+  }
+  const audio = tracks.find(track => track.type === MATROSKA_AUDIO_TRACK);
+  if (!audio) {
+    throw new AudioDecodeError('Matroska file has no audio track', 'UNSUPPORTED_CODEC');
+  }
+  if (audio.sampleRate < 1 || audio.sampleRate > MAX_SAMPLE_RATE || audio.channels < 1 || audio.channels > MAX_CHANNELS) {
+    throw new AudioDecodeError('Matroska audio track is inconsistent', 'CORRUPT_AUDIO');
+  }
+
+  blocks = blocks.filter(block => block.track === audio.number);
+  let duration = declaredDuration !== null ? declaredDuration * timecodeScale / 1e9 : 0;
+  if (blocks.length > 0) {
+    const last = blocks.reduce((latest, block) => block.timecode >= latest.timecode ? block : latest);
+    const lastLength = audio.codecId === 'A_OPUS' ? opusBlockSeconds(last.data) : 0;
+    duration = Math.max(duration, (last.timecode - blocks[0].timecode) * timecodeScale / 1e9 + lastLength);
+  }
+
+  return {
+    format: 'webm',
+    codec: MATROSKA_CODECS[audio.codecId] || audio.codecId.toLowerCase(),
+    sampleRate: Math.round(audio.sampleRate),
+    channels: audio.channels,
+    duration
+  };
+}
+
+// Element IDs keep their length marker bits, sizes drop them; an all-ones size is unknown
+function readVint(buffer: Buffer, offset: number, isId: boolean): { value: number; length: number; unknown: boolean } {
+  if (offset >= buffer.length) {
+    throw new AudioDecodeError('Matroska element header is truncated', 'TRUNCATED_AUDIO');
+  }
+  const first = buffer[offset];
+  const length = first === 0 ? 9 : 8 - Math.floor(Math.log2(first));
+  if (length > (isId ? 4 : 8)) {
+    throw new AudioDecodeError(`Invalid Matroska variable-length integer at byte ${offset}`, 'CORRUPT_AUDIO');
+  }
+  if (offset + length > buffer.length) {
+    throw new AudioDecodeError('Matroska element header is truncated', 'TRUNCATED_AUDIO');
+  }
+
+  let value = isId ? first : first & (0xFF >> length);
+  let allOnes = value === (0xFF >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    allOnes = allOnes && buffer[offset + i] === 0xFF;
+  }
+  return { value, length, unknown: !isId && allOnes };
+}
+
+function readUint(data: Buffer): number {
+  return data.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+function readFloat(data: Buffer): number {
+  if (data.length === 4) return data.readFloatBE(0);
+  if (data.length === 8) return data.readDoubleBE(0);
+  if (data.length === 0) return 0;
+  throw new AudioDecodeError('Matroska float has an invalid size', 'CORRUPT_AUDIO');
+}
+
+// Length of an unlaced Opus block from its TOC byte (RFC 6716 section 3.1). Laced blocks
+// are not written by browsers; they count for their start time only.
+function opusBlockSeconds(block: Buffer): number {
+  const trackLength = readVint(block, 0, false).length;
+  const flags = block[trackLength + 2];
+  const packet = block.subarray(trackLength + 3);
+  if ((flags & 0x06) !== 0 || packet.length === 0) {
+    return 0;
+  }
+
+  const config = packet[0] >> 3;
+  const frameMs = config < 12 ? [10, 20, 40, 60][config % 4]
+    : config < 16 ? [10, 20][config % 2]
+      : [2.5, 5, 10, 20][config % 4];
+  const code = packet[0] & 3;
+  const frames = code === 0 ? 1 : code < 3 ? 2 : (packet[1] ?? 0) & 0x3F;
+  return frameMs * frames / 1000;
+}
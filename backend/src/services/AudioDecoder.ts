@@ -0,0 +1,198 @@
+import { spawn } from 'child_process';
+import { AudioDecodeError, probeAudio, readWavLayout, type AudioInfo } from './AudioContainers.js';
+
+export interface DecodedAudio {
+  samples: Float32Array;   // Mono, -1..1
+  sampleRate: number;
+}
+
+// What a client says about its audio; checked against the payload, never trusted
+export interface AudioClaims {
+  duration?: number;
+  sampleRate?: number;
+}
+
+// Speech recognizers expect 16 kHz mono
+export const RECOGNIZER_SAMPLE_RATE = 16000;
+
+export const MIN_AUDIO_SECONDS = 0.1;
+export const MAX_AUDIO_SECONDS = 30;
+
+const FFMPEG_TIMEOUT_MS = 30000;
+// Client durations are measured around the recorder, so allow some slack
+const DURATION_TOLERANCE_SECONDS = 0.25;
+const DURATION_TOLERANCE_RATIO = 0.1;
+
+// Probes the container, enforces the length limits and checks what the client claimed.
+// Throws AudioDecodeError with a specific code for anything unusable.
+export function validateAudio(buffer: Buffer, claims: AudioClaims = {}): AudioInfo {
+  const info = probeAudio(buffer);
+
+  if (info.duration < MIN_AUDIO_SECONDS) {
+    throw new AudioDecodeError(`Audio is too short (${info.duration.toFixed(2)} s, min ${MIN_AUDIO_SECONDS} s)`, 'AUDIO_TOO_SHORT');
+  }
+  if (info.duration > MAX_AUDIO_SECONDS) {
+    throw new AudioDecodeError(`Audio is too long (${info.duration.toFixed(1)} s, max ${MAX_AUDIO_SECONDS} s)`, 'AUDIO_TOO_LONG');
+  }
+  if (claims.sampleRate !== undefined && claims.sampleRate !== info.sampleRate) {
+    throw new AudioDecodeError(`Reported sample rate ${claims.sampleRate} Hz, audio is ${info.sampleRate} Hz`, 'AUDIO_MISMATCH');
+  }
+  if (claims.duration !== undefined &&
+      Math.abs(claims.duration - info.duration) > Math.max(DURATION_TOLERANCE_SECONDS, info.duration * DURATION_TOLERANCE_RATIO)) {
+    throw new AudioDecodeError(`Reported duration ${claims.duration} s, audio is ${info.duration.toFixed(2)} s`, 'AUDIO_MISMATCH');
+  }
+
+  return info;
+}
+
+// Mono at the recognizer's rate. WAV is decoded in-process; compressed formats go through a
+// local ffmpeg, and come back short when the stream breaks off before its headers say it ends.
+export async function decodeForRecognition(buffer: Buffer): Promise<DecodedAudio & { info: AudioInfo }> {
+  const info = probeAudio(buffer);
+
+  if (info.format === 'wav') {
+    const decoded = decodeWav(buffer);
+    return { samples: resample(decoded.samples, decoded.sampleRate, RECOGNIZER_SAMPLE_RATE), sampleRate: RECOGNIZER_SAMPLE_RATE, info };
+  }
+
+  const samples = await decodeWithFfmpeg(buffer, RECOGNIZER_SAMPLE_RATE);
+  const decodedSeconds = samples.length / RECOGNIZER_SAMPLE_RATE;
+  if (decodedSeconds < info.duration * (1 - DURATION_TOLERANCE_RATIO) - DURATION_TOLERANCE_SECONDS) {
+    throw new AudioDecodeError(
+      `Only ${decodedSeconds.toFixed(2)} s of ${info.duration.toFixed(2)} s could be decoded`,
+      'TRUNCATED_AUDIO'
+    );
+  }
+  return { samples, sampleRate: RECOGNIZER_SAMPLE_RATE, info };
+}
+
+// PCM 8/16/24/32-bit integer and 32-bit float, plain or WAVE_FORMAT_EXTENSIBLE; channels are mixed down
+export function decodeWav(buffer: Buffer): DecodedAudio {
+  const layout = readWavLayout(buffer);
+  return { samples: readPcm(buffer.subarray(layout.dataStart, layout.dataEnd), layout), sampleRate: layout.sampleRate };
+}
+
+function readPcm(
+  data: Buffer,
+  format: { audioFormat: number; channels: number; bitsPerSample: number }
+): Float32Array {
+  const { audioFormat, channels, bitsPerSample } = format;
+  const bytesPerSample = bitsPerSample / 8;
+  const isFloat = audioFormat === 3 && bitsPerSample === 32;
+
+  if (channels < 1 || (audioFormat !== 1 && !isFloat) || ![8, 16, 24, 32].includes(bitsPerSample)) {
+    throw new AudioDecodeError(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`, 'UNSUPPORTED_CODEC');
+  }
+
+  const read = (at: number): number => {
+    if (isFloat) return data.readFloatLE(at);
+    switch (bitsPerSample) {
+      case 8: return (data[at] - 128) / 128;
+      case 16: return data.readInt16LE(at) / 32768;
+      case 24: return data.readIntLE(at, 3) / 8388608;
+      default: return data.readInt32LE(at) / 2147483648;
+    }
+  };
+
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(data.length / frameSize);
+  const samples = new Float32Array(frames);
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += read(frame * frameSize + channel * bytesPerSample);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return samples;
+}
+
+// Sample rate and length of a WAV file, e.g. synthesized speech
+export function describeWav(buffer: Buffer): { sampleRate: number; duration: number } {
+  const decoded = decodeWav(buffer);
+  return { sampleRate: decoded.sampleRate, duration: decoded.samples.length / decoded.sampleRate };
+}
+
+// Linear interpolation is enough for speech going down to 16 kHz
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || samples.length === 0) {
+    return samples;
+  }
+
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    output[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+  }
+  return output;
+}
+
+// 16-bit mono WAV, the input format of the local recognizers
+export function encodeWav(samples: Float32Array, sampleRate: number): Buffer {
+  const buffer = Buffer.alloc(44 + samples.length * 2);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + samples.length * 2, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(samples.length * 2, 40);
+
+  samples.forEach((sample, i) => {
+    buffer.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 32767), 44 + i * 2);
+  });
+
+  return buffer;
+}
+
+function decodeWithFfmpeg(buffer: Buffer, sampleRate: number): Promise<Float32Array> {
+  const ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg';
+  const args = ['-hide_banner', '-loglevel', 'error', '-i', 'pipe:0', '-f', 'f32le', '-ac', '1', '-ar', String(sampleRate), 'pipe:1'];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(ffmpeg, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const chunks: Buffer[] = [];
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new AudioDecodeError('ffmpeg timed out decoding audio', 'CORRUPT_AUDIO'));
+    }, FFMPEG_TIMEOUT_MS);
+
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new AudioDecodeError(`ffmpeg is required to decode compressed audio: ${error.message}`, 'DECODER_UNAVAILABLE'));
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new AudioDecodeError(`ffmpeg could not decode the audio: ${stderr.trim() || `exit code ${code}`}`, 'CORRUPT_AUDIO'));
+        return;
+      }
+      const output = Buffer.concat(chunks);
+      const samples = new Float32Array(Math.floor(output.length / 4));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = output.readFloatLE(i * 4);
+      }
+      resolve(samples);
+    });
+
+    // ffmpeg may stop reading early on a bad stream; the close handler reports that
+    child.stdin.on('error', () => {});
+    child.stdin.end(buffer);
+  });
+}
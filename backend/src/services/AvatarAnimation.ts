@@ -0,0 +1,196 @@
+import type { AvatarBone, AvatarPose, AvatarClipSign } from '../types/index.js';
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface AnimationKeyframe {
+  time: number;             // ms from the start of the clip
+  bones: AvatarBone[];      // Every bone of the clip, so neighbouring keyframes always line up
+  facialExpression: string;
+  easing: Easing;           // Curve of the movement arriving at this keyframe
+}
+
+export interface AnimationClip {
+  duration: number;
+  keyframes: AnimationKeyframe[];
+  signs: AvatarClipSign[];
+}
+
+export interface ClipSign {
+  gesture: string;
+  word?: string;            // Set on the letters of a fingerspelled word
+  poses: AvatarPose[];
+}
+
+export interface ClipOptions {
+  returnTo?: AvatarPose;    // Ease into this pose after the last sign; otherwise the clip ends holding it
+}
+
+export const ANIMATION_FPS = 30;
+
+const ENTRY_MS = 300;           // From wherever the avatar is into the first sign
+const TRANSITION_MS = 250;      // Between two signs of one sentence
+const LETTER_TRANSITION_MS = 100;  // Between the letters of a fingerspelled word
+const RETURN_MS = 400;          // Back to rest at the end
+const HOLD_RATIO = 0.4;         // Part of each pose's duration spent holding it
+const COARTICULATION = 0.5;     // Part of a sign's final hold the next sign cuts into
+
+type Quaternion = [number, number, number, number];  // x, y, z, w
+
+const EASINGS: Record<Easing, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+};
+
+// Lays the signs of a sentence out on one timeline. Each pose is reached, held for part of its
+// duration, then left for the next; consecutive signs flow into each other without passing
+// through the rest pose. Bones a sign does not move stay where the previous keyframe left them.
+export function buildAnimationClip(signs: ClipSign[], from: AvatarPose, options: ClipOptions = {}): AnimationClip {
+  let bones = new Map(from.bones.map(bone => [bone.name, copyBone(bone)]));
+  let expression = from.facialExpression || 'neutral';
+  const keyframes: AnimationKeyframe[] = [];
+  const markers: AnimationClip['signs'] = [];
+
+  const addKeyframe = (time: number, pose: AvatarPose | null, easing: Easing) => {
+    if (pose) {
+      bones = new Map(bones);
+      for (const bone of pose.bones) {
+        bones.set(bone.name, copyBone(bone));
+      }
+      expression = pose.facialExpression || expression;
+    }
+    keyframes.push({ time, bones: Array.from(bones.values(), copyBone), facialExpression: expression, easing });
+  };
+
+  addKeyframe(0, null, 'linear');
+  let time = 0;
+
+  signs.filter(sign => sign.poses.length > 0).forEach((sign, signIndex, playable) => {
+    const sameWord = signIndex > 0 && sign.word !== undefined && playable[signIndex - 1].word === sign.word;
+    time += signIndex === 0 ? ENTRY_MS : sameWord ? LETTER_TRANSITION_MS : TRANSITION_MS;
+    const start = time;
+
+    sign.poses.forEach((pose, poseIndex) => {
+      const last = poseIndex === sign.poses.length - 1;
+      if (poseIndex > 0) {
+        time += pose.duration * (1 - HOLD_RATIO);
+      }
+      addKeyframe(time, pose, poseIndex === 0 ? 'ease-in-out' : 'ease-out');
+
+      const hold = pose.duration * HOLD_RATIO * (last ? 1 - COARTICULATION : 1);
+      time += hold;
+      addKeyframe(time, null, 'linear');
+    });
+
+    markers.push(sign.word === undefined ? { gesture: sign.gesture, start, end: time } : { gesture: sign.gesture, word: sign.word, start, end: time });
+  });
+
+  if (options.returnTo) {
+    time += RETURN_MS;
+    addKeyframe(time, options.returnTo, 'ease-in-out');
+  }
+
+  return { duration: time, keyframes, signs: markers };
+}
+
+// Position is interpolated linearly and rotation along the shortest arc, both on the eased curve
+export function samplePose(clip: AnimationClip, time: number, timestamp: number = Date.now()): AvatarPose {
+  const { keyframes } = clip;
+  const at = Math.max(0, Math.min(time, clip.duration));
+
+  let next = keyframes.findIndex(keyframe => keyframe.time >= at);
+  if (next <= 0) {
+    next = next === 0 ? 0 : keyframes.length - 1;
+    return toPose(keyframes[next], timestamp);
+  }
+
+  const before = keyframes[next - 1];
+  const after = keyframes[next];
+  const span = after.time - before.time;
+  const t = EASINGS[after.easing](span > 0 ? (at - before.time) / span : 1);
+
+  const previous = new Map(before.bones.map(bone => [bone.name, bone]));
+  const bones = after.bones.map(bone => {
+    const origin = previous.get(bone.name) || bone;
+    return {
+      name: bone.name,
+      position: {
+        x: origin.position.x + (bone.position.x - origin.position.x) * t,
+        y: origin.position.y + (bone.position.y - origin.position.y) * t,
+        z: origin.position.z + (bone.position.z - origin.position.z) * t
+      },
+      rotation: quaternionToEuler(slerp(eulerToQuaternion(origin.rotation), eulerToQuaternion(bone.rotation), t))
+    };
+  });
+
+  return {
+    timestamp,
+    bones,
+    facialExpression: t < 0.5 ? before.facialExpression : after.facialExpression,
+    duration: 1000 / ANIMATION_FPS
+  };
+}
+
+function toPose(keyframe: AnimationKeyframe, timestamp: number): AvatarPose {
+  return {
+    timestamp,
+    bones: keyframe.bones.map(copyBone),
+    facialExpression: keyframe.facialExpression,
+    duration: 1000 / ANIMATION_FPS
+  };
+}
+
+function copyBone(bone: AvatarBone): AvatarBone {
+  return { name: bone.name, position: { ...bone.position }, rotation: { ...bone.rotation } };
+}
+
+function eulerToQuaternion({ x, y, z }: AvatarBone['rotation']): Quaternion {
+  const [cx, sx] = [Math.cos(x / 2), Math.sin(x / 2)];
+  const [cy, sy] = [Math.cos(y / 2), Math.sin(y / 2)];
+  const [cz, sz] = [Math.cos(z / 2), Math.sin(z / 2)];
+  return [
+    sx * cy * cz + cx * sy * sz,
+    cx * sy * cz - sx * cy * sz,
+    cx * cy * sz + sx * sy * cz,
+    cx * cy * cz - sx * sy * sz
+  ];
+}
+
+function quaternionToEuler([x, y, z, w]: Quaternion): AvatarBone['rotation'] {
+  const sinY = Math.max(-1, Math.min(1, 2 * (x * z + w * y)));
+  if (Math.abs(sinY) > 0.9999) {
+    // Gimbal lock: X and Z turn about the same axis, so Z takes all of it
+    return { x: 0, y: Math.asin(sinY), z: 2 * Math.atan2(z, w) };
+  }
+  return {
+    x: Math.atan2(2 * (w * x - y * z), 1 - 2 * (x * x + y * y)),
+    y: Math.asin(sinY),
+    z: Math.atan2(2 * (w * z - x * y), 1 - 2 * (y * y + z * z))
+  };
+}
+
+function slerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+  let dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+  // q and -q are the same rotation; flipping one keeps to the short way round
+  const sign = dot < 0 ? -1 : 1;
+  dot *= sign;
+
+  let wa = 1 - t;
+  let wb = t * sign;
+  if (dot < 0.9995) {
+    const theta = Math.acos(dot);
+    const sinTheta = Math.sin(theta);
+    wa = Math.sin((1 - t) * theta) / sinTheta;
+    wb = Math.sin(t * theta) / sinTheta * sign;
+  }
+
+  const result: Quaternion = [
+    wa * a[0] + wb * b[0],
+    wa * a[1] + wb * b[1],
+    wa * a[2] + wb * b[2],
+    wa * a[3] + wb * b[3]
+  ];
+  const length = Math.hypot(...result);
+  return result.map(value => value / length) as Quaternion;
+}
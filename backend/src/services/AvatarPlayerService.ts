@@ -0,0 +1,140 @@
+import { logger } from '../utils/logger.js';
+import { samplePose, ANIMATION_FPS, type AnimationClip } from './AvatarAnimation.js';
+import type { Avatar3DService } from './Avatar3DService.js';
+import type { AvatarAnimationEvent, AvatarPose } from '../types/index.js';
+
+interface SessionPlayer {
+  listener: (event: AvatarAnimationEvent) => void;
+  currentPose: AvatarPose;
+  nextSequence: number;
+  playing: { sequence: number; frames: number } | null;
+  restTimer: NodeJS.Timeout | null;
+}
+
+// How long the avatar holds its last sign before easing back to rest; a sign that follows
+// within this window flows on from where the hands are
+const REST_DELAY_MS = 800;
+
+// Each session has its own avatar, animated on the server and streamed to the client frame by
+// frame. A new clip takes over from the current pose and interrupts whatever was playing.
+export class AvatarPlayerService {
+  private sessions: Map<string, SessionPlayer> = new Map();
+
+  constructor(private readonly avatar: Avatar3DService) {}
+
+  public createSession(sessionId: string, listener: (event: AvatarAnimationEvent) => void): void {
+    this.sessions.set(sessionId, {
+      listener,
+      currentPose: this.avatar.getRestPose(),
+      nextSequence: 0,
+      playing: null,
+      restTimer: null
+    });
+  }
+
+  // Resolves once the clip has played, or as soon as another one interrupts it; false when nothing played
+  public async play(sessionId: string, gestures: string[], language: string, caption?: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    const clip = this.avatar.buildSignClip(gestures, language, session.currentPose);
+    if (!clip) {
+      return false;
+    }
+
+    logger.info(`Playing gesture animation sequence for session ${sessionId}: ${gestures.join(' ')} (${Math.round(clip.duration)} ms)`);
+    const completed = await this.playClip(session, clip, gestures, caption);
+    if (completed) {
+      this.scheduleRest(session);
+    }
+    return completed;
+  }
+
+  public stop(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.interrupt(session);
+    }
+  }
+
+  public getCurrentPose(sessionId: string): AvatarPose {
+    return this.sessions.get(sessionId)?.currentPose || this.avatar.getRestPose();
+  }
+
+  public resetSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.interrupt(session);
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  // Frames are sampled at a fixed rate against the wall clock, so a slow tick skips ahead
+  // rather than stretching the sign
+  private async playClip(session: SessionPlayer, clip: AnimationClip, gestures: string[], caption?: string): Promise<boolean> {
+    this.interrupt(session);
+
+    const playing = { sequence: session.nextSequence++, frames: 0 };
+    session.playing = playing;
+    session.listener({
+      type: 'clip-start',
+      sequence: playing.sequence,
+      gestures,
+      signs: clip.signs,
+      duration: clip.duration,
+      fps: ANIMATION_FPS,
+      caption
+    });
+
+    const started = Date.now();
+    const tickMs = 1000 / ANIMATION_FPS;
+
+    for (let tick = 0; ; tick++) {
+      if (session.playing !== playing) {
+        return false;
+      }
+
+      const time = Math.min(Date.now() - started, clip.duration);
+      session.currentPose = samplePose(clip, time);
+      session.listener({
+        type: 'frame',
+        sequence: playing.sequence,
+        frame: playing.frames++,
+        time,
+        bones: session.currentPose.bones,
+        facialExpression: session.currentPose.facialExpression
+      });
+
+      if (time >= clip.duration) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, started + (tick + 1) * tickMs - Date.now())));
+    }
+
+    session.playing = null;
+    session.listener({ type: 'clip-end', sequence: playing.sequence, reason: 'completed', frames: playing.frames });
+    return true;
+  }
+
+  private interrupt(session: SessionPlayer): void {
+    if (session.restTimer) {
+      clearTimeout(session.restTimer);
+      session.restTimer = null;
+    }
+    if (session.playing) {
+      const { sequence, frames } = session.playing;
+      session.playing = null;
+      session.listener({ type: 'clip-end', sequence, reason: 'interrupted', frames });
+    }
+  }
+
+  private scheduleRest(session: SessionPlayer): void {
+    session.restTimer = setTimeout(() => {
+      session.restTimer = null;
+      this.playClip(session, this.avatar.buildRestClip(session.currentPose), [])
+        .catch(error => logger.error('Error returning avatar to rest:', error));
+    }, REST_DELAY_MS);
+  }
+}
@@ -0,0 +1,53 @@
+import { EnglishSentenceBuilder } from './EnglishSentenceBuilder.js';
+
+const builder = new EnglishSentenceBuilder();
+
+function build(glosses: string): string | null {
+  return builder.build(glosses.split(' ').map(gloss => ({ gloss })));
+}
+
+describe('EnglishSentenceBuilder', () => {
+  it.each([
+    ['ME fs-SARAH', 'I am Sarah.'],
+    ['ME NOT fs-SARAH', 'I am not Sarah.'],
+    ['WE fs-SMITH', 'We are Smith.'],
+    ['HE fs-SAM', 'He is Sam.'],
+    ['YESTERDAY ME fs-SARAH', 'I was Sarah yesterday.']
+  ])('agrees the copula with a pronoun subject: %s', (glosses, sentence) => {
+    expect(build(glosses)).toBe(sentence);
+  });
+
+  it.each([
+    ['YOU NAME WHAT', 'What is your name?'],
+    ['HE NAME WHAT', 'What is his name?'],
+    ['YOU HOME WHERE', 'Where is your home?'],
+    ['YOUR NAME WHAT', 'What is your name?'],
+    ['BATHROOM WHERE', 'Where is the bathroom?']
+  ])('asks about what a pronoun owns with a possessive: %s', (glosses, sentence) => {
+    expect(build(glosses)).toBe(sentence);
+  });
+
+  it.each([
+    ['ME NAME fs-SARAH', 'My name is Sarah.'],
+    ['MY NAME fs-SARAH', 'My name is Sarah.'],
+    ['YOU NAME fs-SARAH Q', 'Is your name Sarah?']
+  ])('reads two noun phrases as an equation: %s', (glosses, sentence) => {
+    expect(build(glosses)).toBe(sentence);
+  });
+
+  it.each([
+    ['EMERGENCY HELP', 'Emergency. Help.'],
+    ['HELP ME', 'Help me.'],
+    ['HELLO ME HAPPY', 'Hello. I am happy.']
+  ])('keeps alerts and interjections in signed order: %s', (glosses, sentence) => {
+    expect(build(glosses)).toBe(sentence);
+  });
+
+  it.each([
+    ['ME HAPPY', 'I am happy.'],
+    ['YOU HOW', 'How are you?'],
+    ['ME GO STORE', 'I go to the store.']
+  ])('still builds verb and adjective clauses: %s', (glosses, sentence) => {
+    expect(build(glosses)).toBe(sentence);
+  });
+});
@@ -0,0 +1,393 @@
+import { isVerbLemma } from './GlossTranslator.js';
+
+export interface GlossInput {
+  gloss: string;          // Gesture label or ASL gloss: 'where', 'THANK-YOU', 'bathroom'
+  fingerspelled?: boolean;
+}
+
+type WordKind =
+  'interjection' | 'please' | 'pronoun' | 'possessive' | 'wh' | 'verb' | 'adjective' | 'noun' |
+  'number' | 'more' | 'time' | 'negation' | 'modal' | 'finish' | 'question';
+
+interface Word {
+  kind: WordKind;
+  text: string;
+  object?: string;          // Object form of a pronoun
+  possessive?: string;      // Possessive form of a pronoun
+  person?: 1 | 2 | 3;
+  plural?: boolean;
+  tense?: 'past' | 'future'; // For time words
+  article?: boolean;        // Noun usually takes "the"
+}
+
+const INTERJECTIONS: Record<string, string> = {
+  hello: 'Hello', hi: 'Hi', goodbye: 'Goodbye', bye: 'Goodbye', thank_you: 'Thank you', thanks: 'Thank you',
+  yes: 'Yes', ok: 'OK', good_morning: 'Good morning', good_night: 'Good night', excuse_me: 'Excuse me',
+  see_you_later: 'See you later', i_love_you: 'I love you',
+  // Alerts stand alone too: "EMERGENCY HELP" -> Emergency. Help.
+  emergency: 'Emergency', danger: 'Danger'
+};
+
+const PRONOUNS: Record<string, Word> = {
+  me: { kind: 'pronoun', text: 'I', object: 'me', possessive: 'my', person: 1 },
+  i: { kind: 'pronoun', text: 'I', object: 'me', possessive: 'my', person: 1 },
+  you: { kind: 'pronoun', text: 'you', object: 'you', possessive: 'your', person: 2 },
+  he: { kind: 'pronoun', text: 'he', object: 'him', possessive: 'his', person: 3 },
+  she: { kind: 'pronoun', text: 'she', object: 'her', possessive: 'her', person: 3 },
+  it: { kind: 'pronoun', text: 'it', object: 'it', possessive: 'its', person: 3 },
+  we: { kind: 'pronoun', text: 'we', object: 'us', possessive: 'our', person: 1, plural: true },
+  they: { kind: 'pronoun', text: 'they', object: 'them', possessive: 'their', person: 3, plural: true }
+};
+
+const POSSESSIVES = new Set(['my', 'your', 'his', 'her', 'its', 'our', 'their']);
+const WH_WORDS = new Set(['what', 'where', 'who', 'when', 'why', 'how', 'which']);
+const MODALS: Record<string, string> = { can: 'can', will: 'will', should: 'should', must: 'must' };
+const NEGATIONS: Record<string, string> = { not: 'not', no: 'not', never: 'never' };
+
+// Gesture labels that stand for more than one gloss
+const COMPOUNDS: Record<string, string[]> = { dont_understand: ['not', 'understand'] };
+const NUMBERS = new Set(['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten']);
+
+const TIME_WORDS: Record<string, { text: string; tense?: 'past' | 'future' }> = {
+  yesterday: { text: 'yesterday', tense: 'past' }, before: { text: '', tense: 'past' },
+  last_night: { text: 'last night', tense: 'past' }, last_week: { text: 'last week', tense: 'past' },
+  last_month: { text: 'last month', tense: 'past' }, last_year: { text: 'last year', tense: 'past' },
+  tomorrow: { text: 'tomorrow', tense: 'future' }, later: { text: 'later', tense: 'future' },
+  soon: { text: 'soon', tense: 'future' }, tonight: { text: 'tonight', tense: 'future' },
+  next_week: { text: 'next week', tense: 'future' }, next_month: { text: 'next month', tense: 'future' },
+  next_year: { text: 'next year', tense: 'future' }, today: { text: 'today' }, now: { text: 'now' },
+  morning: { text: 'this morning' }, afternoon: { text: 'this afternoon' }, evening: { text: 'this evening' },
+  everyday: { text: 'every day' }
+};
+
+const ADJECTIVES = new Set([
+  'happy', 'sad', 'tired', 'hungry', 'thirsty', 'sick', 'deaf', 'hearing', 'good', 'bad', 'fine', 'hot',
+  'cold', 'ready', 'busy', 'confused', 'sorry', 'late', 'early', 'angry', 'scared', 'excited', 'married'
+]);
+
+// Nouns for specific places and things that read naturally with "the"
+const DEFINITE_NOUNS = new Set([
+  'bathroom', 'restroom', 'store', 'hospital', 'doctor', 'bus', 'train', 'door', 'police', 'bank', 'office',
+  'elevator', 'exit', 'station', 'airport', 'library', 'kitchen'
+]);
+
+// Verbs of motion take "to" before a place: "ME GO STORE" -> I go to the store
+const MOTION_VERBS = new Set(['go', 'come', 'walk', 'drive', 'fly', 'run', 'move', 'travel', 'return']);
+
+const PAST_FORMS: Record<string, string> = {
+  go: 'went', come: 'came', have: 'had', do: 'did', eat: 'ate', drink: 'drank', see: 'saw', know: 'knew',
+  think: 'thought', understand: 'understood', make: 'made', take: 'took', give: 'gave', tell: 'told',
+  say: 'said', meet: 'met', buy: 'bought', pay: 'paid', read: 'read', write: 'wrote', drive: 'drove',
+  run: 'ran', sleep: 'slept', feel: 'felt', leave: 'left', find: 'found', get: 'got', bring: 'brought',
+  teach: 'taught', forget: 'forgot', sit: 'sat', stand: 'stood', send: 'sent', speak: 'spoke', hear: 'heard',
+  fly: 'flew', swim: 'swam', sing: 'sang', wear: 'wore', sell: 'sold', win: 'won', lose: 'lost',
+  become: 'became', begin: 'began', break: 'broke', choose: 'chose', fall: 'fell', fight: 'fought',
+  hold: 'held', keep: 'kept', let: 'let', put: 'put', hurt: 'hurt', stop: 'stopped', shop: 'shopped', plan: 'planned'
+};
+
+export class EnglishSentenceBuilder {
+  public build(sequence: GlossInput[]): string | null {
+    const words = sequence
+      .flatMap(item => {
+        const parts = item.fingerspelled ? null : COMPOUNDS[item.gloss.toLowerCase().replace(/-/g, '_')];
+        return parts ? parts.map(gloss => ({ gloss })) : [item];
+      })
+      .map(item => this.classify(item))
+      .filter((word): word is Word => word !== null);
+
+    // Interjections stand alone; everything between them is one clause
+    const sentences: string[] = [];
+    let clause: Word[] = [];
+    let please = false;
+
+    const flush = () => {
+      if (clause.length > 0) {
+        const sentence = this.buildClause(clause, please);
+        if (sentence) {
+          sentences.push(sentence);
+        }
+      } else if (please) {
+        sentences.push('Please.');
+      }
+      clause = [];
+      please = false;
+    };
+
+    for (const word of words) {
+      if (word.kind === 'interjection') {
+        flush();
+        sentences.push(`${word.text}.`);
+      } else if (word.kind === 'please') {
+        please = true;
+      } else {
+        clause.push(word);
+      }
+    }
+    flush();
+
+    return sentences.length > 0 ? sentences.join(' ') : null;
+  }
+
+  private buildClause(words: Word[], please: boolean): string | null {
+    const question = words.some(word => word.kind === 'question');
+    const wh = words.find(word => word.kind === 'wh');
+    const negated = words.some(word => word.kind === 'negation');
+    const modal = words.find(word => word.kind === 'modal');
+    const times = words.filter(word => word.kind === 'time');
+
+    let tense: 'present' | 'past' | 'future' = 'present';
+    if (words.some(word => word.kind === 'finish') || times.some(word => word.tense === 'past')) {
+      tense = 'past';
+    } else if ((modal && modal.text === 'will') || times.some(word => word.tense === 'future')) {
+      tense = 'future';
+    }
+
+    const verbIndex = words.findIndex(word => word.kind === 'verb');
+    let verb = verbIndex >= 0 ? words[verbIndex] : null;
+    // FINISH on its own is the verb rather than a past marker: "ME FINISH" -> I finished
+    if (!verb && words.some(word => word.kind === 'finish')) {
+      verb = { kind: 'verb', text: 'finish' };
+    }
+    const adjectives = words.filter(word => word.kind === 'adjective');
+
+    // The subject is the first pronoun before the verb; ASL topics (COFFEE ME LIKE) come before it
+    const subjectIndex = words.findIndex((word, index) =>
+      word.kind === 'pronoun' && (verbIndex < 0 || index < verbIndex));
+    const subject = subjectIndex >= 0 ? words[subjectIndex] : null;
+
+    const rest = words.filter((word, index) =>
+      index !== subjectIndex && ['possessive', 'noun', 'number', 'more', 'pronoun'].includes(word.kind));
+    const phrases = this.nounPhrases(rest, wh ? wh.text === 'where' : false);
+
+    const timeText = times.map(word => word.text).filter(text => text).join(' ');
+    const isQuestion = question || !!wh;
+    let sentence: string;
+
+    if (verb) {
+      const subjectWord = subject || (isQuestion ? PRONOUNS.you : PRONOUNS.i);
+      const place = MOTION_VERBS.has(verb.text) && phrases.length > 0 && phrases[0].startsWith('the ');
+      const object = place ? `to ${phrases.join(' ')}` : phrases.join(' ');
+      const modalText = modal && modal.text !== 'will' ? modal.text : null;
+
+      if (!subject && !isQuestion && !modal && tense === 'present') {
+        // No subject signed: "HELP ME" -> Help me, "NOT STOP" -> Do not stop
+        sentence = [negated ? 'do not' : '', verb.text, object, timeText].filter(part => part).join(' ');
+      } else if (isQuestion) {
+        const aux = modalText || (tense === 'future' ? 'will' : tense === 'past' ? 'did' : this.doForm(subjectWord));
+        const head = wh ? `${wh.text} ${aux}` : aux;
+        sentence = [head, negated ? 'not' : '', subjectWord.text, verb.text, object, timeText].filter(part => part).join(' ');
+      } else {
+        sentence = [subjectWord.text, this.verbPhrase(verb.text, subjectWord, tense, negated, modalText), object, timeText]
+          .filter(part => part).join(' ');
+      }
+    } else if (adjectives.length > 0 || (wh && phrases.length === 0)) {
+      // Copula clauses: "ME HAPPY" -> I am happy, "YOU HOW" -> How are you
+      const subjectWord = subject || (isQuestion ? PRONOUNS.you : null);
+      const predicate = adjectives.map(word => word.text).join(' and ');
+
+      if (!subjectWord) {
+        sentence = [negated ? 'not' : '', predicate, timeText].filter(part => part).join(' ');
+      } else if (isQuestion) {
+        const be = this.beForm(subjectWord, tense, false);
+        const head = wh ? `${wh.text} ${be}` : be;
+        sentence = [head, subjectWord.text, negated ? 'not' : '', predicate, timeText].filter(part => part).join(' ');
+      } else {
+        sentence = [subjectWord.text, this.beForm(subjectWord, tense, negated), predicate, timeText].filter(part => part).join(' ');
+      }
+    } else if (phrases.length > 0 || subject) {
+      // A pronoun signed before the thing asked about, or before two noun phrases, owns the first one:
+      // "YOU NAME WHAT" -> What is your name, "ME NAME fs-SARAH" -> My name is Sarah
+      const possessor = subject && subject.possessive && (wh ? phrases.length > 0 : phrases.length > 1) ? subject : null;
+      const subjectText = possessor
+        ? `${possessor.possessive} ${phrases.shift()!.replace(/^the /, '')}`
+        : subject ? subject.text : phrases.shift()!;
+      // Noun subjects are third person singular
+      const copulaSubject: Word = subject && !possessor ? subject : { kind: 'noun', text: subjectText, person: 3 };
+      const be = this.beForm(copulaSubject, tense, false);
+
+      if (wh) {
+        // "BATHROOM WHERE" -> Where is the bathroom, "YOUR NAME WHAT" -> What is your name
+        sentence = [wh.text, be, subjectText, negated ? 'not' : '', ...phrases, timeText].filter(part => part).join(' ');
+      } else if (phrases.length > 0) {
+        // Two noun phrases side by side: "MY NAME fs-SARAH" -> My name is Sarah, "ME fs-SARAH" -> I am Sarah
+        sentence = question
+          ? [be, subjectText, negated ? 'not' : '', ...phrases, timeText].filter(part => part).join(' ')
+          : [subjectText, this.beForm(copulaSubject, tense, negated), ...phrases, timeText].filter(part => part).join(' ');
+      } else {
+        sentence = [negated ? 'no' : '', subjectText, timeText].filter(part => part).join(' ');
+      }
+    } else if (negated) {
+      sentence = 'no';
+    } else if (timeText) {
+      sentence = timeText;
+    } else {
+      return null;
+    }
+
+    if (please) {
+      sentence += ', please';
+    }
+
+    return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}${isQuestion ? '?' : '.'}`;
+  }
+
+  // Group possessives, numbers and "more" with the noun that follows them
+  private nounPhrases(words: Word[], definite: boolean): string[] {
+    const phrases: string[] = [];
+    let modifiers: Word[] = [];
+
+    for (const word of words) {
+      if (word.kind === 'pronoun') {
+        phrases.push(word.object || word.text);
+        modifiers = [];
+        continue;
+      }
+      if (word.kind !== 'noun') {
+        modifiers.push(word);
+        continue;
+      }
+
+      const number = modifiers.find(modifier => modifier.kind === 'number');
+      const plural = !!number && number.text !== 'one';
+      const noun = plural && !word.text.endsWith('s') ? `${word.text}s` : word.text;
+      const hasDeterminer = modifiers.some(modifier => modifier.kind === 'possessive' || modifier.kind === 'number');
+      const article = !hasDeterminer && (definite || word.article) ? 'the' : '';
+
+      phrases.push([article, ...modifiers.map(modifier => modifier.text), noun].filter(part => part).join(' '));
+      modifiers = [];
+    }
+
+    // Dangling modifiers ("MORE", "TWO") still carry meaning on their own
+    if (modifiers.length > 0) {
+      phrases.push(modifiers.map(modifier => modifier.text).join(' '));
+    }
+
+    return phrases;
+  }
+
+  private verbPhrase(verb: string, subject: Word, tense: 'present' | 'past' | 'future', negated: boolean, modal: string | null): string {
+    if (modal) {
+      return negated ? `${modal === 'can' ? 'cannot' : `${modal} not`} ${verb}` : `${modal} ${verb}`;
+    }
+    if (tense === 'future') {
+      return negated ? `will not ${verb}` : `will ${verb}`;
+    }
+    if (tense === 'past') {
+      return negated ? `did not ${verb}` : this.pastForm(verb);
+    }
+    if (negated) {
+      return `${this.doForm(subject)} not ${verb}`;
+    }
+    return this.isThirdSingular(subject) ? this.thirdPersonForm(verb) : verb;
+  }
+
+  private beForm(subject: Word, tense: 'present' | 'past' | 'future', negated: boolean): string {
+    let be: string;
+    if (tense === 'future') {
+      be = 'will be';
+    } else if (subject.person === 1 && !subject.plural) {
+      be = tense === 'past' ? 'was' : 'am';
+    } else if (this.isThirdSingular(subject)) {
+      be = tense === 'past' ? 'was' : 'is';
+    } else {
+      be = tense === 'past' ? 'were' : 'are';
+    }
+
+    if (!negated) {
+      return be;
+    }
+    return tense === 'future' ? 'will not be' : `${be} not`;
+  }
+
+  private doForm(subject: Word): string {
+    return this.isThirdSingular(subject) ? 'does' : 'do';
+  }
+
+  private isThirdSingular(subject: Word): boolean {
+    return subject.person === 3 && !subject.plural;
+  }
+
+  private pastForm(verb: string): string {
+    if (PAST_FORMS[verb]) {
+      return PAST_FORMS[verb];
+    }
+    if (verb.endsWith('e')) {
+      return `${verb}d`;
+    }
+    if (/[^aeiou]y$/.test(verb)) {
+      return `${verb.slice(0, -1)}ied`;
+    }
+    return `${verb}ed`;
+  }
+
+  private thirdPersonForm(verb: string): string {
+    if (verb === 'have') {
+      return 'has';
+    }
+    if (/(s|x|z|ch|sh|o)$/.test(verb)) {
+      return `${verb}es`;
+    }
+    if (/[^aeiou]y$/.test(verb)) {
+      return `${verb.slice(0, -1)}ies`;
+    }
+    return `${verb}s`;
+  }
+
+  private classify(item: GlossInput): Word | null {
+    if (item.fingerspelled || /^fs-/i.test(item.gloss)) {
+      // Fingerspelled words are usually names and places
+      const word = item.gloss.replace(/^fs-/i, '').toLowerCase();
+      return { kind: 'noun', text: `${word.charAt(0).toUpperCase()}${word.slice(1)}` };
+    }
+
+    const key = item.gloss.toLowerCase().replace(/-/g, '_').trim();
+    if (!key || key === 'unknown') {
+      return null;
+    }
+
+    if (INTERJECTIONS[key]) {
+      return { kind: 'interjection', text: INTERJECTIONS[key] };
+    }
+    if (key === 'please') {
+      return { kind: 'please', text: 'please' };
+    }
+    if (key === 'question' || key === 'q') {
+      return { kind: 'question', text: '' };
+    }
+    if (PRONOUNS[key]) {
+      return PRONOUNS[key];
+    }
+    if (POSSESSIVES.has(key)) {
+      return { kind: 'possessive', text: key };
+    }
+    if (WH_WORDS.has(key)) {
+      return { kind: 'wh', text: key };
+    }
+    if (MODALS[key]) {
+      return { kind: 'modal', text: MODALS[key] };
+    }
+    if (NEGATIONS[key] !== undefined) {
+      return { kind: 'negation', text: NEGATIONS[key] };
+    }
+    if (key === 'finish' || key === 'finished') {
+      return { kind: 'finish', text: '' };
+    }
+    if (key === 'more') {
+      return { kind: 'more', text: 'more' };
+    }
+    if (TIME_WORDS[key]) {
+      return { kind: 'time', ...TIME_WORDS[key] };
+    }
+    if (NUMBERS.has(key)) {
+      return { kind: 'number', text: key };
+    }
+    if (ADJECTIVES.has(key)) {
+      return { kind: 'adjective', text: key };
+    }
+    if (isVerbLemma(key)) {
+      return { kind: 'verb', text: key };
+    }
+
+    return { kind: 'noun', text: key.replace(/_/g, ' '), article: DEFINITE_NOUNS.has(key) };
+  }
+}
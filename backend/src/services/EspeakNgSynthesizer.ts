@@ -0,0 +1,115 @@
+import { logger } from '../utils/logger.js';
+import { runProcess } from './ExternalProcess.js';
+import { describeWav } from './AudioDecoder.js';
+import { pitchToPercent, withEndPunctuation } from './SpeechMarkup.js';
+import type { SpeechSegment, SpeechSynthesizer, SynthesizedSpeech, SynthesizerVoice, TTSOptions } from '../types/index.js';
+
+const NORMAL_WORDS_PER_MINUTE = 175;
+const NORMAL_PITCH = 50;          // -p runs 0-99
+const PITCH_STEPS_PER_SEMITONE = 3;
+const QUESTION_RISE_SEMITONES = 3;
+
+// eSpeak NG: small formant synthesizer, packaged on every Linux distribution.
+// Text is passed on stdin; the WAV comes back on stdout. Prosody is sent as SSML (-m).
+export class EspeakNgSynthesizer implements SpeechSynthesizer {
+  public readonly name = 'espeak-ng';
+  private readonly binary = process.env.ESPEAK_NG_BIN || 'espeak-ng';
+  private readonly defaultVoice = process.env.ESPEAK_NG_VOICE || 'en-us';
+  private voices: SynthesizerVoice[] = [];
+
+  public async initialize(): Promise<void> {
+    try {
+      logger.info('Initializing eSpeak NG synthesizer...');
+
+      const { stdout } = await runProcess(this.binary, ['--voices'], { timeoutMs: 10000 });
+      this.voices = parseVoiceList(stdout.toString());
+
+      logger.info(`eSpeak NG synthesizer initialized (${this.voices.length} voices)`);
+    } catch (error) {
+      logger.error('Failed to initialize eSpeak NG synthesizer:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  public async synthesize(text: string, options: TTSOptions = {}, segments?: SpeechSegment[]): Promise<SynthesizedSpeech> {
+    const voice = this.resolveVoice(options);
+    const wordsPerMinute = Math.round(Math.max(80, Math.min(450, NORMAL_WORDS_PER_MINUTE * (options.speed ?? 1))));
+    const pitch = Math.round(Math.max(0, Math.min(99, NORMAL_PITCH + (options.pitch ?? 0) * PITCH_STEPS_PER_SEMITONE)));
+    const ssml = segments && segments.some(hasProsody) ? renderSsml(segments) : null;
+
+    const { stdout } = await runProcess(
+      this.binary,
+      ['--stdout', '--stdin', '-b', '1', '-v', voice, '-s', String(wordsPerMinute), '-p', String(pitch), ...(ssml ? ['-m'] : [])],
+      { input: ssml ?? text }
+    );
+    const { sampleRate, duration } = describeWav(stdout);
+
+    return { audio: stdout, format: 'wav', mimeType: 'audio/wav', sampleRate, duration, engine: this.name };
+  }
+
+  public getVoices(): SynthesizerVoice[] {
+    return this.voices;
+  }
+
+  // An exact voice wins, then the requested language ('en-GB' -> 'en-gb', 'fr' -> 'fr-fr')
+  private resolveVoice(options: TTSOptions): string {
+    const candidates = [options.voice, options.language, options.language?.split(/[-_]/)[0]]
+      .filter((candidate): candidate is string => Boolean(candidate))
+      .map(candidate => candidate.toLowerCase().replace('_', '-'));
+
+    for (const candidate of candidates) {
+      const voice = this.voices.find(entry => entry.name === candidate) ||
+                    this.voices.find(entry => entry.name.startsWith(`${candidate}-`));
+      if (voice) {
+        return voice.name;
+      }
+    }
+    return this.defaultVoice;
+  }
+
+  public async dispose(): Promise<void> {
+    this.voices = [];
+  }
+}
+
+function hasProsody(segment: SpeechSegment): boolean {
+  return Boolean(segment.emphasis || segment.rate || segment.pitch || segment.pauseAfterMs || segment.rising);
+}
+
+// eSpeak's SSML subset; a question also lifts its last word on top of the '?' intonation
+function renderSsml(segments: SpeechSegment[]): string {
+  const body = segments.map(segment => {
+    let text = escapeXml(segment.rising ? withEndPunctuation(segment.text, '?') : segment.text);
+    if (segment.rising) {
+      text = text.replace(/(\S+)$/, `<prosody pitch="${pitchToPercent(QUESTION_RISE_SEMITONES)}">$1</prosody>`);
+    }
+    if (segment.emphasis) {
+      text = `<emphasis level="${segment.emphasis}">${text}</emphasis>`;
+    }
+    if (segment.rate || segment.pitch) {
+      const rate = segment.rate ? ` rate="${Math.round(segment.rate * 100)}%"` : '';
+      const pitch = segment.pitch ? ` pitch="${pitchToPercent(segment.pitch)}"` : '';
+      text = `<prosody${rate}${pitch}>${text}</prosody>`;
+    }
+    return segment.pauseAfterMs ? `${text}<break time="${segment.pauseAfterMs}ms"/>` : text;
+  });
+  return `<speak>${body.join(' ')}</speak>`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// `espeak-ng --voices` prints: Pty Language Age/Gender VoiceName File Other-Languages
+function parseVoiceList(output: string): SynthesizerVoice[] {
+  return output
+    .split('\n')
+    .slice(1)
+    .map(line => line.trim().split(/\s+/))
+    .filter(columns => columns.length >= 4)
+    .map(([, language, , voiceName]) => ({
+      name: language.toLowerCase(),
+      language,
+      description: `eSpeak NG ${voiceName.replace(/_/g, ' ')}`
+    }));
+}
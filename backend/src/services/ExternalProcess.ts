@@ -0,0 +1,70 @@
+import { spawn } from 'child_process';
+
+export interface ProcessOptions {
+  input?: string | Buffer;      // Written to stdin, which is then closed
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+}
+
+export interface ProcessOutput {
+  stdout: Buffer;
+  stderr: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+// Runs a binary with an argument array and no shell, so caller-supplied text can
+// never be interpreted as a command. Text should go through `input`, not argv.
+export function runProcess(binary: string, args: string[], options: ProcessOptions = {}): Promise<ProcessOutput> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['pipe', 'pipe', 'pipe'], shell: false });
+    const chunks: Buffer[] = [];
+    let outputBytes = 0;
+    let stderr = '';
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        child.kill('SIGKILL');
+        reject(error);
+      }
+    };
+
+    const timer = setTimeout(() => fail(new Error(`${binary} timed out after ${timeoutMs} ms`)), timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > maxOutputBytes) {
+        fail(new Error(`${binary} produced more than ${maxOutputBytes} bytes of output`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-4096);
+    });
+    child.on('error', error => fail(new Error(`${binary} could not be started: ${error.message}`)));
+    child.on('close', code => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new Error(`${binary} exited with code ${code}: ${stderr.trim()}`));
+        return;
+      }
+      resolve({ stdout: Buffer.concat(chunks), stderr });
+    });
+
+    // The process may exit without reading its input; the close handler reports that
+    child.stdin.on('error', () => {});
+    child.stdin.end(options.input ?? '');
+  });
+}
@@ -0,0 +1,110 @@
+import { FingerspellingService } from './FingerspellingService.js';
+import { handLandmarks, type HandPose } from '../testing/handLandmarks.js';
+
+const CURLED = { index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' } as const;
+const BENT = { index: 'bent', middle: 'bent', ring: 'bent', pinky: 'bent' } as const;
+const LETTERS: Record<string, HandPose> = {
+  a: { fingers: CURLED, thumb: 'side' },
+  b: { thumb: 'across' },
+  c: { fingers: BENT, thumb: 'out' }
+};
+// A flat hand with the thumb out: PLEASE held at the chest, which also passes for a B
+const PLEASE: HandPose = { thumb: 'out' };
+const FRAME_MS = 33;
+
+describe('FingerspellingService', () => {
+  let service: FingerspellingService;
+  let now = 0;
+
+  beforeEach(() => {
+    service = new FingerspellingService();
+    now = 0;
+  });
+
+  // Feeds frames of one pose (or no hand) and returns the words finished along the way
+  function feed(pose: HandPose | null, frames: number, sessionId = 'test'): string[] {
+    const words: string[] = [];
+    for (let i = 0; i < frames; i++) {
+      now += FRAME_MS;
+      const word = service.processFrame(pose ? [handLandmarks(pose)] : null, sessionId, ['right'], now);
+      if (word) {
+        words.push(word.word);
+      }
+    }
+    return words;
+  }
+
+  // Moving the hand between letters, as signers do, keeps them apart
+  function move(): void {
+    [0.1, 0.2, 0.3].forEach(x => {
+      now += FRAME_MS;
+      service.processFrame([handLandmarks({ fingers: { index: 'bent' }, thumb: 'out', offset: { x, y: 0 } })], 'test', ['right'], now);
+    });
+  }
+
+  it('spells a word letter by letter and ends it when the hand drops', () => {
+    for (const letter of ['c', 'a', 'b']) {
+      feed(LETTERS[letter], 8);
+      move();
+    }
+    expect(service.isSpelling('test')).toBe(true);
+    expect(feed(null, 1)).toEqual(['cab']);
+    expect(service.isSpelling('test')).toBe(false);
+  });
+
+  it('ends a held letter as a word once no new letter follows for a second', () => {
+    const words = feed(LETTERS.b, 40);
+    expect(words).toEqual(['b']);
+  });
+
+  it('reads nothing from a hand holding a lexical sign', () => {
+    for (let i = 0; i < 60; i++) {
+      now += FRAME_MS;
+      service.holdForSign('test', now);
+    }
+    expect(service.isSpelling('test')).toBe(false);
+    expect(feed(null, 1)).toEqual([]);
+  });
+
+  it('keeps a word in progress waiting while a sign is held', () => {
+    feed(LETTERS.a, 8);
+    expect(service.isSpelling('test')).toBe(true);
+
+    for (let i = 0; i < 60; i++) {
+      now += FRAME_MS;
+      service.holdForSign('test', now);
+    }
+    expect(service.isSpelling('test')).toBe(true);
+
+    // The gap before the word ends is counted from the end of the sign
+    expect(feed(PLEASE, 10).length).toBe(0);
+  });
+
+  it('keeps separate sessions apart', () => {
+    feed(LETTERS.a, 8, 'first');
+    expect(service.isSpelling('first')).toBe(true);
+    expect(service.isSpelling('second')).toBe(false);
+  });
+
+  it.each([
+    ['emergancy', 'ASL', 'emergency', true],
+    ['hospitel', 'ASL', 'hospital', true],
+    ['bonjpur', 'LSF', 'bonjour', true],
+    ['sarah', 'ASL', 'sarah', false],
+    ['helo', 'ASL', 'helo', false]
+  ])('corrects %p in %s to %p', (raw, language, word, corrected) => {
+    expect(service.correctWord(raw, language)).toEqual({ word, corrected });
+  });
+
+  it('knows the words of the sign glosses of each language', () => {
+    expect(service.isKnownWord('revoir', 'LSF')).toBe(true);
+    expect(service.isKnownWord('toilet', 'BSL')).toBe(true);
+    expect(service.isKnownWord('revoir', 'ASL')).toBe(false);
+  });
+
+  it('adds words to one language only', () => {
+    service.addWords(['Zoë'], 'BSL');
+    expect(service.isKnownWord('zoe', 'BSL')).toBe(true);
+    expect(service.isKnownWord('zoe', 'ASL')).toBe(false);
+  });
+});
@@ -0,0 +1,592 @@
+import { logger } from '../utils/logger.js';
+import {
+  HandshapeClassifier,
+  orderHands,
+  type FingerName,
+  type FingerState,
+  type HandFeatures,
+  type HandPointing,
+  type ThumbState
+} from './HandshapeClassifier.js';
+import { signLexicon, DEFAULT_SIGN_LANGUAGE } from './SignLexicon.js';
+import type { Handedness, FingerspelledWord, RecognizedLetter } from '../types/index.js';
+
+interface LetterSpec {
+  letter: string;
+  fingers: Record<FingerName, FingerState[]>;
+  thumb: ThumbState[];
+  spread?: boolean;
+  pointing?: HandPointing;        // Defaults to 'up'
+  crossed?: boolean;
+  thumbAcross?: [number, number]; // Range of HandFeatures.thumbAcross
+  thumbHeight?: [number, number]; // Range of HandFeatures.thumbHeight
+}
+
+type ContactPoint = 'thumb' | FingerName | 'palm';
+
+// Two-handed letters: the dominant handshape and where its index fingertip meets the other hand
+interface TwoHandedLetterSpec {
+  letter: string;
+  fingers: Record<FingerName, FingerState[]>;
+  spread?: boolean;
+  contact: ContactPoint | 'stacked';
+}
+
+interface AlphabetSpecs {
+  oneHanded: LetterSpec[];
+  twoHanded: TwoHandedLetterSpec[];
+  traced: Record<string, string>;
+}
+
+interface HandSample {
+  wrist: [number, number];
+  indexTip: [number, number];
+  pinkyTip: [number, number];
+  palm: number;
+  timestamp: number;
+}
+
+interface SessionState {
+  language: string;
+  letters: RecognizedLetter[];
+  candidate: { letter: string; confidence: number; since: number; frames: number; committed: boolean } | null;
+  heldLetter: string | null;
+  travel: number;              // Palm lengths moved since the held letter was committed
+  previous: HandSample | null;
+  lastCommitTime: number;
+}
+
+const E: FingerState[] = ['extended'];
+const B: FingerState[] = ['bent'];
+const C: FingerState[] = ['curled'];
+const BC: FingerState[] = ['bent', 'curled'];
+
+const fingers = (index: FingerState[], middle: FingerState[], ring: FingerState[], pinky: FingerState[]) =>
+  ({ index, middle, ring, pinky });
+
+const TUCKED: [number, number] = [0.85, Infinity];
+const LOW: [number, number] = [-Infinity, 0.85];
+
+// Static handshapes of the ASL manual alphabet. J and Z are traced from the I and D
+// handshapes, see TRACED_LETTERS.
+const LETTER_SPECS: LetterSpec[] = [
+  { letter: 'a', fingers: fingers(C, C, C, C), thumb: ['side'], thumbAcross: [-Infinity, 0.12] },
+  { letter: 't', fingers: fingers(C, C, C, C), thumb: ['side', 'across'], thumbAcross: [0.12, 0.4], thumbHeight: TUCKED },
+  { letter: 'n', fingers: fingers(C, C, C, C), thumb: ['side', 'across'], thumbAcross: [0.4, 0.7], thumbHeight: TUCKED },
+  { letter: 'm', fingers: fingers(C, C, C, C), thumb: ['across'], thumbAcross: [0.7, Infinity], thumbHeight: TUCKED },
+  { letter: 's', fingers: fingers(C, C, C, C), thumb: ['across'], thumbHeight: LOW },
+  { letter: 'e', fingers: fingers(B, B, B, B), thumb: ['across', 'touch'], thumbHeight: [-Infinity, 1.0] },
+  { letter: 'o', fingers: fingers(B, B, B, B), thumb: ['touch'], thumbHeight: [1.0, Infinity] },
+  { letter: 'c', fingers: fingers(B, B, B, B), thumb: ['side', 'out'] },
+  { letter: 'b', fingers: fingers(E, E, E, E), thumb: ['side', 'across'], spread: false },
+  { letter: 'f', fingers: fingers(B, E, E, E), thumb: ['touch'], spread: true },
+  { letter: 'w', fingers: fingers(E, E, E, C), thumb: ['side', 'across', 'touch'], spread: true },
+  { letter: 'd', fingers: fingers(E, BC, BC, BC), thumb: ['touch', 'side', 'across'] },
+  { letter: 'l', fingers: fingers(E, C, C, C), thumb: ['out'] },
+  { letter: 'g', fingers: fingers(E, C, C, C), thumb: ['out', 'side'], pointing: 'side' },
+  { letter: 'q', fingers: fingers(E, C, C, C), thumb: ['out', 'side'], pointing: 'down' },
+  { letter: 'x', fingers: fingers(B, C, C, C), thumb: ['side', 'across'] },
+  { letter: 'i', fingers: fingers(C, C, C, E), thumb: ['side', 'across'] },
+  { letter: 'y', fingers: fingers(C, C, C, E), thumb: ['out'] },
+  { letter: 'r', fingers: fingers(E, E, C, C), thumb: ['side', 'across'], crossed: true },
+  { letter: 'k', fingers: fingers(E, E, C, C), thumb: ['side', 'across', 'touch'], spread: true, thumbHeight: [1.0, Infinity] },
+  { letter: 'v', fingers: fingers(E, E, C, C), thumb: ['side', 'across'], spread: true, crossed: false, thumbHeight: [-Infinity, 1.0] },
+  { letter: 'u', fingers: fingers(E, E, C, C), thumb: ['side', 'across'], spread: false, crossed: false, thumbHeight: [-Infinity, 1.0] },
+  { letter: 'h', fingers: fingers(E, E, C, C), thumb: ['side', 'across'], spread: false, pointing: 'side' },
+  { letter: 'p', fingers: fingers(E, E, C, C), thumb: ['side', 'across', 'touch'], pointing: 'down' }
+];
+
+const TRACED_LETTERS: Record<string, string> = { i: 'j', d: 'z' };
+
+// BSL letters that can be told apart from two hands in one frame: vowels point at
+// a fingertip, L, M, N and V lie across the palm and G rests a fist on a fist
+const BSL_TWO_HANDED_SPECS: TwoHandedLetterSpec[] = [
+  { letter: 'a', fingers: fingers(E, C, C, C), contact: 'thumb' },
+  { letter: 'e', fingers: fingers(E, C, C, C), contact: 'index' },
+  { letter: 'i', fingers: fingers(E, C, C, C), contact: 'middle' },
+  { letter: 'o', fingers: fingers(E, C, C, C), contact: 'ring' },
+  { letter: 'u', fingers: fingers(E, C, C, C), contact: 'pinky' },
+  { letter: 'l', fingers: fingers(E, C, C, C), contact: 'palm' },
+  { letter: 'n', fingers: fingers(E, E, C, C), spread: false, contact: 'palm' },
+  { letter: 'v', fingers: fingers(E, E, C, C), spread: true, contact: 'palm' },
+  { letter: 'm', fingers: fingers(E, E, E, C), contact: 'palm' },
+  { letter: 'g', fingers: fingers(C, C, C, C), contact: 'stacked' }
+];
+
+// LSF and Irish Sign Language share the one-handed alphabet apart from T, which is not recognized yet
+const ALPHABET_SPECS: Record<string, AlphabetSpecs> = {
+  ASL: { oneHanded: LETTER_SPECS, twoHanded: [], traced: TRACED_LETTERS },
+  BSL: { oneHanded: LETTER_SPECS.filter(spec => spec.letter === 'c'), twoHanded: BSL_TWO_HANDED_SPECS, traced: {} },
+  ISL: { oneHanded: LETTER_SPECS.filter(spec => spec.letter !== 't'), twoHanded: [], traced: TRACED_LETTERS },
+  LSF: { oneHanded: LETTER_SPECS.filter(spec => spec.letter !== 't'), twoHanded: [], traced: TRACED_LETTERS }
+};
+
+// Fingertip and palm contact distances, in palm lengths of the supporting hand
+const FINGERTIP_CONTACT_MAX_DISTANCE = 0.35;
+const PALM_CONTACT_MAX_DISTANCE = 0.6;
+
+// Words a fingerspelled sequence is corrected toward, most frequent first
+const DEFAULT_LEXICON = [
+  'i', 'a', 'the', 'and', 'you', 'it', 'is', 'to', 'of', 'in', 'my', 'me', 'we', 'he', 'she', 'they',
+  'yes', 'no', 'ok', 'hi', 'bye', 'name', 'what', 'who', 'where', 'when', 'why', 'how',
+  'hello', 'help', 'please', 'thanks', 'sorry', 'stop', 'wait', 'water', 'food', 'more', 'done',
+  'home', 'work', 'school', 'street', 'road', 'avenue', 'city', 'town', 'north', 'south', 'east', 'west',
+  'bus', 'car', 'train', 'taxi', 'doctor', 'nurse', 'hospital', 'police', 'fire', 'emergency',
+  'phone', 'email', 'address', 'number', 'apartment', 'room', 'floor', 'door', 'bank', 'store', 'shop',
+  'coffee', 'tea', 'milk', 'bread', 'pizza', 'day', 'week', 'month', 'year', 'today', 'now', 'later',
+  'mom', 'dad', 'son', 'friend', 'family', 'deaf', 'hearing', 'asl', 'sign', 'love', 'good', 'bad'
+];
+
+// LSF spells French words; accents are dropped since the alphabet has none
+const FRENCH_LEXICON = [
+  'je', 'tu', 'il', 'elle', 'nous', 'vous', 'ils', 'le', 'la', 'les', 'un', 'une', 'et', 'de', 'mon', 'ma',
+  'oui', 'non', 'ok', 'salut', 'bonjour', 'merci', 'pardon', 'nom', 'qui', 'quoi', 'ou', 'quand', 'pourquoi',
+  'comment', 'aide', 'stop', 'eau', 'pain', 'cafe', 'lait', 'maison', 'travail', 'ecole', 'rue', 'avenue',
+  'ville', 'gare', 'bus', 'train', 'taxi', 'metro', 'medecin', 'hopital', 'police', 'pompiers', 'urgence',
+  'telephone', 'adresse', 'numero', 'appartement', 'porte', 'banque', 'magasin', 'jour', 'semaine', 'mois',
+  'annee', 'demain', 'hier', 'maman', 'papa', 'ami', 'famille', 'sourd', 'entendant', 'lsf', 'signe'
+];
+
+const CORRECTION_WORDS: Record<string, string[]> = { LSF: FRENCH_LEXICON };
+
+export class FingerspellingService {
+  private readonly classifier = new HandshapeClassifier();
+  private sessions: Map<string, SessionState> = new Map();
+  private lexicons: Map<string, string[]> = new Map();
+  private unsubscribeLexicon: (() => void) | null = null;
+
+  private readonly minHoldFrames = 3;
+  private readonly minHoldMs = 120;
+  private readonly motionSpeedThreshold = 1.0; // Palm lengths per second
+  private readonly doubleMinTravel = 0.25;     // Bounce or slide between doubled letters
+  private readonly traceMinTravel = 0.8;       // Tracing J or Z
+  private readonly wordGapMs = 1000;           // No new letter for this long ends the word
+  private readonly minLetterScore = 0.85;
+
+  public async initialize(): Promise<void> {
+    try {
+      logger.info('Initializing Fingerspelling Service...');
+      // New and renamed signs join the correction vocabulary; words already in it are kept
+      this.unsubscribeLexicon = signLexicon.onChange(({ language }) => {
+        if (this.lexicons.has(language.toUpperCase())) {
+          this.addWords(this.getSignWords(language), language);
+        }
+      });
+      const alphabets = Object.keys(ALPHABET_SPECS).map(language => `${language} ${this.getSupportedLetters(language).length}`);
+      logger.info(`Fingerspelling Service initialized (letters: ${alphabets.join(', ')})`);
+    } catch (error) {
+      logger.error('Failed to initialize Fingerspelling Service:', error);
+      throw error;
+    }
+  }
+
+  // Feed one frame; returns a word once the signer pauses, drops the hand or leaves the frame
+  public processFrame(
+    landmarks: number[][] | null | undefined,
+    sessionId = 'default',
+    handedness?: Handedness[],
+    timestamp = Date.now()
+  ): FingerspelledWord | null {
+    try {
+      const session = this.getSession(sessionId);
+
+      if (!landmarks || landmarks.length === 0 || landmarks[0].length < 21 * 3) {
+        const word = this.finishWord(session);
+        session.candidate = null;
+        session.heldLetter = null;
+        session.previous = null;
+        return word;
+      }
+
+      // Frames stopped arriving for a while: whatever was spelled before is a finished word
+      const stalled = session.previous !== null && timestamp - session.previous.timestamp >= this.wordGapMs;
+      const stalledWord = stalled ? this.finishWord(session) : null;
+
+      const hands = orderHands(landmarks, handedness);
+      const points = hands[0].points;
+      const sample = sampleHand(points, timestamp);
+      const moving = !stalled && session.previous !== null && this.trackMotion(session, session.previous, sample);
+      session.previous = sample;
+
+      if (moving) {
+        session.candidate = null;
+      } else {
+        const match = this.matchLetter(session.language, points, hands[1]?.points);
+        if (!match) {
+          session.candidate = null;
+        } else if (session.candidate && session.candidate.letter === match.letter) {
+          session.candidate.frames++;
+          session.candidate.confidence = Math.max(session.candidate.confidence, match.confidence);
+        } else {
+          session.candidate = { ...match, since: timestamp, frames: 1, committed: false };
+        }
+
+        const candidate = session.candidate;
+        if (candidate && !candidate.committed &&
+            candidate.frames >= this.minHoldFrames && timestamp - candidate.since >= this.minHoldMs) {
+          candidate.committed = true;
+          this.commitLetter(session, candidate.letter, candidate.confidence, timestamp);
+        }
+      }
+
+      if (stalledWord) {
+        return stalledWord;
+      }
+
+      if (session.letters.length > 0 && timestamp - session.lastCommitTime >= this.wordGapMs) {
+        return this.finishWord(session);
+      }
+
+      return null;
+
+    } catch (error) {
+      logger.error('Error processing fingerspelling frame:', error);
+      return null;
+    }
+  }
+
+  // A word is being spelled: letters have been committed and the word has not ended yet
+  public isSpelling(sessionId: string): boolean {
+    return (this.sessions.get(sessionId)?.letters.length || 0) > 0;
+  }
+
+  // The hand is holding a lexical sign instead of a letter: nothing is read from the frame,
+  // and a word in progress waits for the sign to end rather than timing out under it
+  public holdForSign(sessionId: string, timestamp = Date.now()): void {
+    const session = this.getSession(sessionId);
+    session.candidate = null;
+    session.heldLetter = null;
+    session.previous = null;
+    if (session.letters.length > 0) {
+      session.lastCommitTime = timestamp;
+    }
+  }
+
+  public resetSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  // Switching alphabets drops any half-spelled word
+  public setSessionLanguage(sessionId: string, language: string): void {
+    this.sessions.set(sessionId, this.createSession(language.toUpperCase()));
+  }
+
+  public getSupportedLetters(language: string = DEFAULT_SIGN_LANGUAGE): string[] {
+    const specs = this.getAlphabetSpecs(language);
+    const letters = new Set([
+      ...specs.oneHanded.map(spec => spec.letter),
+      ...specs.twoHanded.map(spec => spec.letter),
+      ...Object.values(specs.traced)
+    ]);
+    return Array.from(letters).sort();
+  }
+
+  public addWords(words: string[], language: string = DEFAULT_SIGN_LANGUAGE): void {
+    const lexicon = this.getLexicon(language);
+    for (const word of words) {
+      const normalized = word.normalize('NFD').toLowerCase().replace(/[^a-z]/g, '');
+      if (normalized && !lexicon.includes(normalized)) {
+        lexicon.push(normalized);
+      }
+    }
+  }
+
+  public isKnownWord(word: string, language: string = DEFAULT_SIGN_LANGUAGE): boolean {
+    return this.getLexicon(language).includes(word.toLowerCase());
+  }
+
+  // Snap a spelled sequence to the closest lexicon word when it is a letter or two off.
+  // Short and ambiguous sequences are left alone since they are usually names; known
+  // names and places can be added with addWords(). The words of the sign lexicon's glosses
+  // are added automatically, including signs created later.
+  public correctWord(raw: string, language: string = DEFAULT_SIGN_LANGUAGE): { word: string; corrected: boolean } {
+    const lexicon = this.getLexicon(language);
+    const maxDistance = Math.floor(raw.length / 4);
+    if (maxDistance === 0 || lexicon.includes(raw)) {
+      return { word: raw, corrected: false };
+    }
+
+    let best: string | null = null;
+    let bestDistance = Infinity;
+    let ambiguous = false;
+
+    for (const candidate of lexicon) {
+      if (Math.abs(candidate.length - raw.length) > maxDistance) {
+        continue;
+      }
+      const distance = editDistance(raw, candidate);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+        ambiguous = false;
+      } else if (distance === bestDistance) {
+        ambiguous = true;
+      }
+    }
+
+    return best && !ambiguous && bestDistance <= maxDistance
+      ? { word: best, corrected: true }
+      : { word: raw, corrected: false };
+  }
+
+  private commitLetter(session: SessionState, letter: string, confidence: number, timestamp: number): void {
+    const last = session.letters[session.letters.length - 1];
+    const traced = this.getAlphabetSpecs(session.language).traced;
+
+    // J and Z start from the I and D handshapes: a long path before the hand
+    // settles back into the same shape turns the held letter into the traced one
+    if (last && last.letter === session.heldLetter && last.letter === letter &&
+        traced[letter] && session.travel >= this.traceMinTravel) {
+      last.letter = traced[letter];
+      session.heldLetter = last.letter;
+      session.travel = 0;
+      session.lastCommitTime = timestamp;
+      return;
+    }
+
+    if (traced[letter] === session.heldLetter) {
+      // Back in I or D after tracing; only a second trace adds another J or Z
+      if (session.travel < this.traceMinTravel) {
+        return;
+      }
+      letter = session.heldLetter;
+    } else if (session.heldLetter === letter && session.travel < this.doubleMinTravel) {
+      // Same handshape again: a doubled letter only if the hand bounced or slid in between
+      return;
+    }
+
+    session.letters.push({ letter, confidence, timestamp });
+    session.heldLetter = letter;
+    session.travel = 0;
+    session.lastCommitTime = timestamp;
+  }
+
+  private finishWord(session: SessionState): FingerspelledWord | null {
+    const letters = session.letters;
+    session.letters = [];
+    session.travel = 0;
+
+    if (letters.length === 0) {
+      return null;
+    }
+
+    const raw = letters.map(entry => entry.letter).join('');
+    const { word, corrected } = this.correctWord(raw, session.language);
+    const confidence = letters.reduce((sum, entry) => sum + entry.confidence, 0) / letters.length;
+
+    logger.debug(`Fingerspelled "${raw}"${corrected ? ` -> "${word}"` : ''}`);
+
+    return {
+      word,
+      raw,
+      corrected,
+      letters,
+      confidence: corrected ? confidence * 0.9 : confidence,
+      startTime: letters[0].timestamp,
+      endTime: letters[letters.length - 1].timestamp
+    };
+  }
+
+  private trackMotion(session: SessionState, previous: HandSample, current: HandSample): boolean {
+    const seconds = (current.timestamp - previous.timestamp) / 1000;
+    if (seconds <= 0) {
+      return false;
+    }
+
+    const shift = (a: [number, number], b: [number, number]) => Math.hypot(b[0] - a[0], b[1] - a[1]) / previous.palm;
+    const displacement = Math.max(
+      shift(previous.wrist, current.wrist),
+      shift(previous.indexTip, current.indexTip),
+      shift(previous.pinkyTip, current.pinkyTip)
+    );
+
+    const moving = displacement / seconds > this.motionSpeedThreshold;
+    if (moving) {
+      session.travel += displacement;
+    }
+    return moving;
+  }
+
+  // Two-handed letters win when both hands are in view and one matches
+  private matchLetter(language: string, dominant: number[], nonDominant?: number[]): { letter: string; confidence: number } | null {
+    const specs = this.getAlphabetSpecs(language);
+    const features = this.classifier.extractFeatures(dominant);
+    let best: { letter: string; confidence: number } | null = null;
+
+    if (nonDominant && specs.twoHanded.length > 0) {
+      const contact = this.classifier.extractRelations(dominant, nonDominant).includes('stacked')
+        ? 'stacked'
+        : detectContact(dominant, nonDominant);
+
+      for (const spec of specs.twoHanded) {
+        const score = spec.contact === contact ? scoreTwoHandedLetter(features, spec) : 0;
+        if (score >= this.minLetterScore && (!best || score > best.confidence)) {
+          best = { letter: spec.letter, confidence: score };
+        }
+      }
+      if (best) {
+        return best;
+      }
+    }
+
+    for (const spec of specs.oneHanded) {
+      const score = scoreLetter(features, spec);
+      if (score >= this.minLetterScore && (!best || score > best.confidence)) {
+        best = { letter: spec.letter, confidence: score };
+      }
+    }
+
+    return best;
+  }
+
+  private getAlphabetSpecs(language: string): AlphabetSpecs {
+    return ALPHABET_SPECS[language.toUpperCase()] || ALPHABET_SPECS[DEFAULT_SIGN_LANGUAGE];
+  }
+
+  private getLexicon(language: string): string[] {
+    const code = language.toUpperCase();
+    let lexicon = this.lexicons.get(code);
+    if (!lexicon) {
+      lexicon = [...(CORRECTION_WORDS[code] || DEFAULT_LEXICON)];
+      this.lexicons.set(code, lexicon);
+      this.addWords(this.getSignWords(code), code);
+    }
+    return lexicon;
+  }
+
+  // Words of the language's sign glosses, which are often spelled too: AU-REVOIR -> au, revoir
+  private getSignWords(language: string): string[] {
+    return signLexicon.getEntries(language)
+      .flatMap(entry => entry.gloss.split('-'))
+      .filter(word => word.length > 1);
+  }
+
+  private getSession(sessionId: string): SessionState {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = this.createSession(DEFAULT_SIGN_LANGUAGE);
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private createSession(language: string): SessionState {
+    return { language, letters: [], candidate: null, heldLetter: null, travel: 0, previous: null, lastCommitTime: 0 };
+  }
+
+  public async dispose(): Promise<void> {
+    logger.info('Disposing Fingerspelling Service...');
+
+    this.sessions.clear();
+    this.unsubscribeLexicon?.();
+    this.unsubscribeLexicon = null;
+
+    logger.info('Fingerspelling Service disposed');
+  }
+}
+
+function scoreLetter(features: HandFeatures, spec: LetterSpec): number {
+  let matched = 0;
+  let total = 0;
+  const check = (ok: boolean) => {
+    total++;
+    if (ok) {
+      matched++;
+    }
+  };
+  const inRange = (value: number, [min, max]: [number, number]) => value >= min && value < max;
+
+  for (const name of Object.keys(spec.fingers) as FingerName[]) {
+    check(spec.fingers[name].includes(features.fingers[name]));
+  }
+  check(spec.thumb.includes(features.thumb));
+  check(features.pointing === (spec.pointing || 'up'));
+
+  if (spec.spread !== undefined) {
+    check(features.spread === spec.spread);
+  }
+  if (spec.crossed !== undefined) {
+    check(features.crossed === spec.crossed);
+  }
+  if (spec.thumbAcross) {
+    check(inRange(features.thumbAcross, spec.thumbAcross));
+  }
+  if (spec.thumbHeight) {
+    check(inRange(features.thumbHeight, spec.thumbHeight));
+  }
+
+  return matched / total;
+}
+
+function scoreTwoHandedLetter(features: HandFeatures, spec: TwoHandedLetterSpec): number {
+  const names = Object.keys(spec.fingers) as FingerName[];
+  let matched = names.filter(name => spec.fingers[name].includes(features.fingers[name])).length;
+  let total = names.length;
+
+  if (spec.spread !== undefined) {
+    total++;
+    if (features.spread === spec.spread) {
+      matched++;
+    }
+  }
+
+  return matched / total;
+}
+
+// The part of the supporting hand the dominant index fingertip rests on
+function detectContact(dominant: number[], nonDominant: number[]): ContactPoint | null {
+  const at = (points: number[], index: number): [number, number] => [points[index * 3], points[index * 3 + 1]];
+  const gap = (a: [number, number], b: [number, number]) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+  const indexTip = at(dominant, 8);
+  const palm = gap(at(nonDominant, 0), at(nonDominant, 9)) || 1;
+  const tips: Array<[ContactPoint, number]> = [['thumb', 4], ['index', 8], ['middle', 12], ['ring', 16], ['pinky', 20]];
+
+  let closest: { point: ContactPoint; distance: number } | null = null;
+  for (const [point, index] of tips) {
+    const distance = gap(indexTip, at(nonDominant, index)) / palm;
+    if (distance < FINGERTIP_CONTACT_MAX_DISTANCE && (!closest || distance < closest.distance)) {
+      closest = { point, distance };
+    }
+  }
+  if (closest) {
+    return closest.point;
+  }
+
+  const palmCenter = [0, 5, 9, 13, 17]
+    .map(index => at(nonDominant, index))
+    .reduce((sum, point) => [sum[0] + point[0] / 5, sum[1] + point[1] / 5] as [number, number], [0, 0] as [number, number]);
+  return gap(indexTip, palmCenter) / palm < PALM_CONTACT_MAX_DISTANCE ? 'palm' : null;
+}
+
+function sampleHand(points: number[], timestamp: number): HandSample {
+  const at = (index: number): [number, number] => [points[index * 3], points[index * 3 + 1]];
+  const wrist = at(0);
+  const middleMcp = at(9);
+
+  return {
+    wrist,
+    indexTip: at(8),
+    pinkyTip: at(20),
+    palm: Math.hypot(middleMcp[0] - wrist[0], middleMcp[1] - wrist[1]) || 1,
+    timestamp
+  };
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
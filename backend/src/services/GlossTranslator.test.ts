@@ -0,0 +1,60 @@
+import { GlossTranslator, DEFAULT_GLOSS_GRAMMAR, type GlossGrammar } from './GlossTranslator.js';
+
+const translator = new GlossTranslator();
+const BSL: GlossGrammar = { completive: 'FINISH', negationLast: true, topicComment: true };
+const LSF: GlossGrammar = { completive: null, negationLast: true, topicComment: true };
+
+function gloss(text: string, grammar: GlossGrammar = DEFAULT_GLOSS_GRAMMAR): string {
+  return translator.translate(text, grammar).map(sentence => sentence.glosses.map(token => token.gloss).join(' ')).join(' / ');
+}
+
+describe('GlossTranslator', () => {
+  it.each([
+    ['I need water', 'WATER ME NEED'],
+    ['We feed the dog', 'WE FEED DOG'],
+    ['They need help', 'THEY NEED HELP']
+  ])('keeps base-form verbs ending in -ed in the present: %s', (text, glosses) => {
+    expect(gloss(text)).toBe(glosses);
+  });
+
+  it.each([
+    ['I needed water', DEFAULT_GLOSS_GRAMMAR, 'WATER ME FINISH NEED'],
+    ['I walked to the store', DEFAULT_GLOSS_GRAMMAR, 'STORE ME FINISH WALK'],
+    ['I walked to the store', BSL, 'STORE ME FINISH WALK'],
+    ['I walked to the store', LSF, 'BEFORE STORE ME WALK']
+  ])('marks past tense with the language\'s completive: %s', (text, grammar, glosses) => {
+    expect(gloss(text, grammar)).toBe(glosses);
+  });
+
+  it.each([
+    ['I do not understand', DEFAULT_GLOSS_GRAMMAR, 'ME NOT UNDERSTAND'],
+    ['I do not understand', BSL, 'ME UNDERSTAND NOT'],
+    ['I am not hungry', LSF, 'ME HUNGRY NOT']
+  ])('places negation by grammar: %s', (text, grammar, glosses) => {
+    expect(gloss(text, grammar)).toBe(glosses);
+  });
+
+  it('fronts time signs and topics', () => {
+    expect(gloss('I will go to school tomorrow')).toBe('TOMORROW SCHOOL ME WILL GO');
+    expect(gloss('I went home yesterday')).toBe('YESTERDAY HOME ME GO');
+  });
+
+  it('fingerspells names and keeps fixed phrases together', () => {
+    expect(gloss('My name is John Smith')).toBe('MY NAME fs-JOHN fs-SMITH');
+    expect(gloss('Thank you very much')).toBe('THANK-YOU VERY MUCH');
+  });
+
+  it('types questions and marks them for the face', () => {
+    const [wh] = translator.translate('Where is the bathroom?');
+    expect(wh.glosses.map(token => token.gloss)).toEqual(['BATHROOM', 'WHERE']);
+    expect(wh.type).toBe('wh-question');
+    expect(wh.nonManualMarkers).toContain('wh-question');
+
+    const [yesNo] = translator.translate('Do you like coffee?');
+    expect(yesNo.type).toBe('yes-no-question');
+  });
+
+  it('splits text into sentences', () => {
+    expect(gloss('Hello. I need water.')).toBe('HELLO / WATER ME NEED');
+  });
+});
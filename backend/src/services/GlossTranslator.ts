@@ -0,0 +1,406 @@
+export type GlossMarker = 'topic' | 'wh' | 'negation';
+export type SentenceType = 'statement' | 'yes-no-question' | 'wh-question';
+
+export interface GlossToken {
+  gloss: string;         // Gloss, e.g. STORE, THANK-YOU, fs-JOHN
+  source: string[];      // English words it came from
+  fingerspell: boolean;  // Proper nouns are spelled rather than signed
+  marker?: GlossMarker;
+}
+
+export interface GlossSentence {
+  glosses: GlossToken[];
+  type: SentenceType;
+  negated: boolean;
+  nonManualMarkers: string[]; // Facial grammar that accompanies the signs
+}
+
+// Word-order rules that differ between sign languages
+export interface GlossGrammar {
+  completive: string | null; // Sign after the verb marking a finished action; null starts past sentences with BEFORE
+  negationLast: boolean;     // Negation closes the clause instead of preceding the verb
+  topicComment: boolean;     // Objects of simple statements are fronted as the topic
+}
+
+export const DEFAULT_GLOSS_GRAMMAR: GlossGrammar = { completive: 'FINISH', negationLast: false, topicComment: true };
+
+type WordKind =
+  'article' | 'copula' | 'aux' | 'modal' | 'negation' | 'pronoun' | 'wh' |
+  'time' | 'verb' | 'preposition' | 'phrase' | 'content';
+
+interface WordToken {
+  kind: WordKind;
+  gloss: string;
+  source: string[];
+  past?: boolean;
+  properNoun?: boolean;
+  marker?: GlossMarker;
+}
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+const COPULAS = new Set(['am', 'is', 'are', 'was', 'were', 'be', 'been', 'being']);
+const PAST_COPULAS = new Set(['was', 'were']);
+const AUXILIARIES = new Set(['do', 'does', 'did']);
+const MODALS: Record<string, string> = {
+  can: 'CAN', could: 'CAN', will: 'WILL', would: 'WILL', shall: 'WILL', should: 'SHOULD', must: 'MUST'
+};
+const NEGATIONS: Record<string, string> = { not: 'NOT', never: 'NEVER' };
+const WH_WORDS = new Set(['what', 'where', 'when', 'who', 'why', 'how', 'which']);
+const DROPPED_PREPOSITIONS = new Set(['to', 'of']);
+const PREPOSITIONS = new Set(['in', 'on', 'at', 'for', 'with', 'from', 'about', 'after', 'before', 'near', 'under']);
+
+const PRONOUNS: Record<string, string> = {
+  i: 'ME', me: 'ME', my: 'MY', mine: 'MY', myself: 'MYSELF',
+  you: 'YOU', your: 'YOUR', yours: 'YOUR', yourself: 'YOURSELF',
+  he: 'HE', him: 'HE', his: 'HIS', she: 'SHE', her: 'SHE', hers: 'HER',
+  it: 'IT', its: 'ITS', we: 'WE', us: 'WE', our: 'OUR', ours: 'OUR',
+  they: 'THEY', them: 'THEY', their: 'THEIR', theirs: 'THEIR'
+};
+
+// Fixed multi-word expressions with a single sign, longest first
+const PHRASES: Array<{ words: string[]; gloss: string; time?: boolean }> = [
+  { words: ['see', 'you', 'later'], gloss: 'SEE-YOU-LATER' },
+  { words: ['i', 'love', 'you'], gloss: 'I-LOVE-YOU' },
+  { words: ['thank', 'you'], gloss: 'THANK-YOU' },
+  { words: ['good', 'morning'], gloss: 'GOOD-MORNING' },
+  { words: ['good', 'night'], gloss: 'GOOD-NIGHT' },
+  { words: ['excuse', 'me'], gloss: 'EXCUSE-ME' },
+  { words: ['last', 'night'], gloss: 'LAST-NIGHT', time: true },
+  { words: ['last', 'week'], gloss: 'LAST-WEEK', time: true },
+  { words: ['last', 'month'], gloss: 'LAST-MONTH', time: true },
+  { words: ['last', 'year'], gloss: 'LAST-YEAR', time: true },
+  { words: ['next', 'week'], gloss: 'NEXT-WEEK', time: true },
+  { words: ['next', 'month'], gloss: 'NEXT-MONTH', time: true },
+  { words: ['next', 'year'], gloss: 'NEXT-YEAR', time: true },
+  { words: ['this', 'morning'], gloss: 'MORNING', time: true },
+  { words: ['this', 'afternoon'], gloss: 'AFTERNOON', time: true },
+  { words: ['this', 'evening'], gloss: 'EVENING', time: true },
+  { words: ['this', 'week'], gloss: 'NOW-WEEK', time: true },
+  { words: ['every', 'day'], gloss: 'EVERYDAY', time: true }
+];
+
+const TIME_WORDS = new Set([
+  'yesterday', 'today', 'tomorrow', 'now', 'tonight', 'later', 'soon', 'recently', 'morning', 'afternoon',
+  'evening', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'weekend'
+]);
+
+// Single-word synonyms that share a sign
+const WORD_GLOSSES: Record<string, string> = {
+  hi: 'HELLO', hey: 'HELLO', bye: 'GOODBYE', thanks: 'THANK-YOU', ok: 'OK', okay: 'OK', yeah: 'YES', nope: 'NO'
+};
+
+const VERBS = new Set([
+  'be', 'have', 'do', 'go', 'come', 'want', 'need', 'like', 'love', 'eat', 'drink', 'see', 'know', 'think',
+  'understand', 'help', 'work', 'live', 'make', 'take', 'give', 'tell', 'say', 'ask', 'meet', 'buy', 'pay',
+  'call', 'sign', 'learn', 'study', 'read', 'write', 'play', 'drive', 'walk', 'run', 'sleep', 'feel', 'finish',
+  'start', 'stop', 'wait', 'open', 'close', 'leave', 'arrive', 'visit', 'use', 'find', 'look', 'watch', 'get',
+  'bring', 'teach', 'cook', 'clean', 'hate', 'forget', 'remember', 'try', 'sit', 'stand', 'move', 'send',
+  'show', 'speak', 'talk', 'hear', 'listen', 'hurt', 'travel', 'fly', 'swim', 'dance', 'sing', 'cry', 'laugh',
+  'wash', 'wear', 'sell', 'win', 'lose', 'become', 'begin', 'break', 'choose', 'fall', 'fight', 'hold',
+  'keep', 'let', 'put', 'shop', 'marry', 'practice', 'repeat', 'explain', 'believe', 'miss', 'enjoy', 'order'
+]);
+
+const IRREGULAR_VERBS: Record<string, string> = {
+  went: 'go', gone: 'go', came: 'come', had: 'have', has: 'have', did: 'do', done: 'do', ate: 'eat',
+  eaten: 'eat', drank: 'drink', drunk: 'drink', saw: 'see', seen: 'see', knew: 'know', known: 'know',
+  thought: 'think', understood: 'understand', made: 'make', took: 'take', taken: 'take', gave: 'give',
+  given: 'give', told: 'tell', said: 'say', met: 'meet', bought: 'buy', paid: 'pay', read: 'read',
+  wrote: 'write', written: 'write', drove: 'drive', driven: 'drive', ran: 'run', slept: 'sleep',
+  felt: 'feel', left: 'leave', found: 'find', got: 'get', gotten: 'get', brought: 'bring', taught: 'teach',
+  forgot: 'forget', forgotten: 'forget', sat: 'sit', stood: 'stand', sent: 'send', spoke: 'speak',
+  spoken: 'speak', heard: 'hear', flew: 'fly', flown: 'fly', swam: 'swim', sang: 'sing', wore: 'wear',
+  sold: 'sell', won: 'win', lost: 'lose', became: 'become', began: 'begin', broke: 'break', chose: 'choose',
+  fell: 'fall', fought: 'fight', held: 'hold', kept: 'keep', put: 'put', hurt: 'hurt'
+};
+
+// Irregular forms that are present tense or ambiguous
+const PRESENT_IRREGULARS = new Set(['has', 'read', 'put', 'hurt']);
+
+const CONTRACTIONS: Record<string, string[]> = {
+  "can't": ['can', 'not'], "cannot": ['can', 'not'], "won't": ['will', 'not'], "shan't": ['shall', 'not'],
+  "i'm": ['i', 'am'], "let's": ['let', 'us']
+};
+
+export function isVerbLemma(word: string): boolean {
+  return VERBS.has(word);
+}
+
+export class GlossTranslator {
+  public translate(text: string, grammar: GlossGrammar = DEFAULT_GLOSS_GRAMMAR): GlossSentence[] {
+    return text
+      .split(/(?<=[.!?])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0)
+      .map(sentence => this.translateSentence(sentence, grammar))
+      .filter(sentence => sentence.glosses.length > 0);
+  }
+
+  private lemmatize(word: string): string {
+    if (IRREGULAR_VERBS[word]) {
+      return IRREGULAR_VERBS[word];
+    }
+    return this.verbLemma(word) || this.nounLemma(word);
+  }
+
+  private translateSentence(sentence: string, grammar: GlossGrammar): GlossSentence {
+    const isQuestionMark = sentence.endsWith('?');
+    let tokens = this.classify(this.tokenize(sentence));
+
+    const first = tokens[0];
+    const isQuestion = isQuestionMark ||
+      (!!first && ['aux', 'copula', 'modal'].includes(first.kind) && tokens.length > 1 &&
+       ['pronoun', 'content'].includes(tokens[1].kind));
+    const hasWh = tokens.some(token => token.kind === 'wh');
+    const type: SentenceType = isQuestion ? (hasWh ? 'wh-question' : 'yes-no-question') : 'statement';
+    const past = tokens.some(token => token.past);
+
+    // A leading modal in a yes/no question follows the subject: "can you help" -> YOU CAN HELP
+    if (type === 'yes-no-question' && first && first.kind === 'modal' && tokens.length > 1) {
+      tokens = [tokens[1], first, ...tokens.slice(2)];
+    }
+
+    // English function words without a manual sign
+    tokens = tokens.filter(token => !['article', 'copula', 'aux'].includes(token.kind));
+
+    // Time is established first
+    const time = tokens.filter(token => token.kind === 'time');
+    let body = tokens.filter(token => token.kind !== 'time');
+
+    const verbIndex = body.findIndex(token => token.kind === 'verb');
+    const completive = grammar.completive;
+    if (past && time.length === 0 && (verbIndex < 0 || !completive || body[verbIndex].gloss !== completive)) {
+      if (verbIndex >= 0 && completive) {
+        body.splice(verbIndex, 0, { kind: 'time', gloss: completive, source: [] });
+      } else {
+        time.push({ kind: 'time', gloss: 'BEFORE', source: [] });
+      }
+    }
+
+    if (type === 'wh-question') {
+      // WH signs close the question: "where do you live" -> YOU LIVE WHERE
+      const wh = body.filter(token => token.kind === 'wh');
+      body = [...body.filter(token => token.kind !== 'wh'), ...wh];
+      wh.forEach(token => { token.marker = 'wh'; });
+    } else if (type === 'statement' && grammar.topicComment) {
+      body = this.topicalize(body, completive);
+    }
+
+    const negation = body.filter(token => token.kind === 'negation');
+    const negated = negation.length > 0;
+    negation.forEach(token => { token.marker = 'negation'; });
+
+    // "I don't understand" -> ME UNDERSTAND NOT, still ahead of a closing WH sign
+    if (grammar.negationLast && negated) {
+      const wh = body.filter(token => token.marker === 'wh');
+      body = [...body.filter(token => token.kind !== 'negation' && token.marker !== 'wh'), ...negation, ...wh];
+    }
+
+    const nonManualMarkers: string[] = [];
+    if (type === 'wh-question') {
+      nonManualMarkers.push('wh-question');
+    } else if (type === 'yes-no-question') {
+      nonManualMarkers.push('yes-no-question');
+    }
+    if (body.some(token => token.marker === 'topic')) {
+      nonManualMarkers.push('topic');
+    }
+    if (negated) {
+      nonManualMarkers.push('negation');
+    }
+
+    return {
+      glosses: [...time, ...body].map(token => ({
+        gloss: token.gloss,
+        source: token.source,
+        fingerspell: !!token.properNoun,
+        ...(token.marker ? { marker: token.marker } : {})
+      })),
+      type,
+      negated,
+      nonManualMarkers
+    };
+  }
+
+  // Topic-comment order for simple transitive statements: "I like coffee" -> COFFEE(topic) ME LIKE
+  private topicalize(tokens: WordToken[], completive: string | null): WordToken[] {
+    const groupStart = tokens.findIndex(token =>
+      ['modal', 'negation', 'verb'].includes(token.kind) || (completive !== null && token.gloss === completive));
+    const verbIndex = tokens.findIndex(token => token.kind === 'verb');
+    if (groupStart <= 0 || verbIndex < groupStart || verbIndex === tokens.length - 1) {
+      return tokens;
+    }
+
+    const subject = tokens.slice(0, groupStart);
+    const verbGroup = tokens.slice(groupStart, verbIndex + 1);
+    const object = tokens.slice(verbIndex + 1);
+
+    const subjectIsNounPhrase = subject.every(token => ['pronoun', 'content'].includes(token.kind));
+    const objectIsNounPhrase = object.length <= 4 &&
+      object.every(token => ['pronoun', 'content'].includes(token.kind)) &&
+      object.some(token => token.kind === 'content');
+
+    if (!subjectIsNounPhrase || !objectIsNounPhrase) {
+      return tokens;
+    }
+
+    object.forEach(token => { token.marker = 'topic'; });
+    return [...object, ...subject, ...verbGroup];
+  }
+
+  private tokenize(sentence: string): Array<{ word: string; capitalized: boolean }> {
+    const raw = sentence.match(/[A-Za-z]+(?:'[A-Za-z]+)?|\d+(?:[.,]\d+)*/g) || [];
+    const words: Array<{ word: string; capitalized: boolean }> = [];
+
+    raw.forEach((token, index) => {
+      // Capitalized words mid-sentence are treated as names
+      const capitalized = index > 0 && /^[A-Z]/.test(token) && token !== 'I';
+      const lower = token.toLowerCase();
+
+      if (CONTRACTIONS[lower]) {
+        CONTRACTIONS[lower].forEach(word => words.push({ word, capitalized: false }));
+      } else if (lower.endsWith("n't")) {
+        words.push({ word: lower.slice(0, -3), capitalized: false }, { word: 'not', capitalized: false });
+      } else if (/'(m|re|ve|ll|d)$/.test(lower)) {
+        const [base, suffix] = lower.split("'");
+        const expansion: Record<string, string> = { m: 'am', re: 'are', ve: 'have', ll: 'will', d: 'would' };
+        words.push({ word: base, capitalized: false }, { word: expansion[suffix], capitalized: false });
+      } else if (lower.endsWith("'s")) {
+        const base = lower.slice(0, -2);
+        words.push({ word: base, capitalized });
+        // "it's", "what's", "that's" carry a copula; otherwise it is a possessive
+        if (PRONOUNS[base] || WH_WORDS.has(base) || ['that', 'there', 'here'].includes(base)) {
+          words.push({ word: 'is', capitalized: false });
+        }
+      } else {
+        words.push({ word: lower, capitalized });
+      }
+    });
+
+    return words;
+  }
+
+  private classify(words: Array<{ word: string; capitalized: boolean }>): WordToken[] {
+    const tokens: WordToken[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const phrase = PHRASES.find(entry =>
+        entry.words.every((word, offset) => words[i + offset] && words[i + offset].word === word));
+      if (phrase) {
+        tokens.push({ kind: phrase.time ? 'time' : 'phrase', gloss: phrase.gloss, source: phrase.words });
+        i += phrase.words.length - 1;
+        continue;
+      }
+
+      const { word, capitalized } = words[i];
+      const next = words[i + 1] ? words[i + 1].word : null;
+
+      // "going to <verb>" marks the future
+      if (word === 'going' && next === 'to' && words[i + 2] && VERBS.has(this.lemmatize(words[i + 2].word))) {
+        tokens.push({ kind: 'modal', gloss: 'WILL', source: ['going', 'to'] });
+        i++;
+        continue;
+      }
+
+      tokens.push(this.classifyWord(word, capitalized, next));
+    }
+
+    return tokens;
+  }
+
+  private classifyWord(word: string, capitalized: boolean, next: string | null): WordToken {
+    const source = [word];
+
+    if (capitalized) {
+      return { kind: 'content', gloss: `fs-${word.toUpperCase()}`, source, properNoun: true };
+    }
+    if (ARTICLES.has(word)) {
+      return { kind: 'article', gloss: '', source };
+    }
+    if (COPULAS.has(word)) {
+      return { kind: 'copula', gloss: '', source, past: PAST_COPULAS.has(word) };
+    }
+    // do/does/did only support another verb when followed by "not" or a subject
+    if (AUXILIARIES.has(word) && next !== null && (next === 'not' || PRONOUNS[next] !== undefined)) {
+      return { kind: 'aux', gloss: '', source, past: word === 'did' };
+    }
+    if (['have', 'has', 'had'].includes(word) && next !== null && IRREGULAR_VERBS[next] && !PRESENT_IRREGULARS.has(next)) {
+      return { kind: 'aux', gloss: '', source, past: true };
+    }
+    if (MODALS[word]) {
+      return { kind: 'modal', gloss: MODALS[word], source };
+    }
+    if (NEGATIONS[word]) {
+      return { kind: 'negation', gloss: NEGATIONS[word], source };
+    }
+    if (PRONOUNS[word]) {
+      return { kind: 'pronoun', gloss: PRONOUNS[word], source };
+    }
+    if (WH_WORDS.has(word)) {
+      return { kind: 'wh', gloss: word.toUpperCase(), source };
+    }
+    if (TIME_WORDS.has(word)) {
+      return { kind: 'time', gloss: word.toUpperCase(), source };
+    }
+    if (WORD_GLOSSES[word]) {
+      return { kind: 'phrase', gloss: WORD_GLOSSES[word], source };
+    }
+    if (DROPPED_PREPOSITIONS.has(word)) {
+      return { kind: 'article', gloss: '', source };
+    }
+    if (PREPOSITIONS.has(word)) {
+      return { kind: 'preposition', gloss: word.toUpperCase(), source };
+    }
+
+    if (IRREGULAR_VERBS[word]) {
+      return { kind: 'verb', gloss: IRREGULAR_VERBS[word].toUpperCase(), source, past: !PRESENT_IRREGULARS.has(word) };
+    }
+    const verb = this.verbLemma(word);
+    if (verb) {
+      return { kind: 'verb', gloss: verb.toUpperCase(), source, past: word !== verb && word.endsWith('ed') };
+    }
+
+    return { kind: 'content', gloss: this.nounLemma(word).toUpperCase(), source };
+  }
+
+  // Only inflections that lead back to a known verb are stripped, so names and
+  // unfamiliar words keep their spelling for fingerspelling
+  private verbLemma(word: string): string | null {
+    if (VERBS.has(word)) {
+      return word;
+    }
+
+    const candidates: string[] = [];
+    const undouble = (stem: string) => /([^aeiou])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+
+    if (word.endsWith('ing')) {
+      const stem = word.slice(0, -3);
+      candidates.push(stem, `${stem}e`, undouble(stem));
+    } else if (word.endsWith('ied')) {
+      candidates.push(`${word.slice(0, -3)}y`);
+    } else if (word.endsWith('ed')) {
+      const stem = word.slice(0, -2);
+      candidates.push(stem, `${stem}e`, undouble(stem));
+    } else if (word.endsWith('ies')) {
+      candidates.push(`${word.slice(0, -3)}y`);
+    } else if (word.endsWith('es')) {
+      candidates.push(word.slice(0, -2), word.slice(0, -1));
+    } else if (word.endsWith('s')) {
+      candidates.push(word.slice(0, -1));
+    }
+
+    return candidates.find(candidate => VERBS.has(candidate)) || null;
+  }
+
+  private nounLemma(word: string): string {
+    if (word.length > 4 && word.endsWith('ies')) {
+      return `${word.slice(0, -3)}y`;
+    }
+    if (/(ss|x|z|ch|sh)es$/.test(word)) {
+      return word.slice(0, -2);
+    }
+    if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+      return word.slice(0, -1);
+    }
+    return word;
+  }
+}
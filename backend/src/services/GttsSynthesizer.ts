@@ -0,0 +1,84 @@
+import gtts from 'node-gtts';
+import { logger } from '../utils/logger.js';
+import type { SpeechSynthesizer, SynthesizedSpeech, SynthesizerVoice, TTSOptions } from '../types/index.js';
+
+// node-gtts language codes offered as voices
+const GTTS_VOICES: SynthesizerVoice[] = [
+  { name: 'en-us', language: 'en-US', description: 'Google Translate American English' },
+  { name: 'en-uk', language: 'en-GB', description: 'Google Translate British English' },
+  { name: 'en-au', language: 'en-AU', description: 'Google Translate Australian English' },
+  { name: 'es-es', language: 'es-ES', description: 'Google Translate Spanish (Spain)' },
+  { name: 'es-us', language: 'es-US', description: 'Google Translate Spanish (United States)' },
+  { name: 'fr', language: 'fr-FR', description: 'Google Translate French' },
+  { name: 'de', language: 'de-DE', description: 'Google Translate German' },
+  { name: 'it', language: 'it-IT', description: 'Google Translate Italian' },
+  { name: 'pt-br', language: 'pt-BR', description: 'Google Translate Portuguese (Brazil)' },
+  { name: 'ja', language: 'ja-JP', description: 'Google Translate Japanese' },
+  { name: 'zh-cn', language: 'zh-CN', description: 'Google Translate Mandarin' }
+];
+
+// Google Translate TTS through node-gtts. Needs network access and sends the text
+// to Google, so it is only picked when no local engine is installed. Only the plain
+// text is sent: pauses and questions survive as punctuation, rate and pitch are lost.
+export class GttsSynthesizer implements SpeechSynthesizer {
+  public readonly name = 'gtts';
+  private readonly timeoutMs = 30000;
+
+  public async initialize(): Promise<void> {
+    logger.warn('Text-to-speech will use Google Translate (network access required, text leaves this machine)');
+  }
+
+  public async synthesize(text: string, options: TTSOptions = {}): Promise<SynthesizedSpeech> {
+    const voice = this.resolveVoice(options);
+    const stream = gtts(voice).stream(text);
+
+    const audio = await new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const timer = setTimeout(() => {
+        stream.destroy?.();
+        reject(new Error('Google TTS timed out'));
+      }, this.timeoutMs);
+
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => {
+        clearTimeout(timer);
+        resolve(Buffer.concat(chunks));
+      });
+      stream.on('error', (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    if (audio.length === 0) {
+      throw new Error('Google TTS returned no audio');
+    }
+
+    // Google serves 24 kHz MP3; the frame headers are not parsed for a duration
+    return { audio, format: 'mp3', mimeType: 'audio/mpeg', sampleRate: 24000, duration: null, engine: this.name };
+  }
+
+  public getVoices(): SynthesizerVoice[] {
+    return GTTS_VOICES;
+  }
+
+  // An exact voice wins, then the requested language, then American English
+  private resolveVoice(options: TTSOptions): string {
+    const requested = [options.voice, options.language, options.language?.split(/[-_]/)[0]]
+      .filter((candidate): candidate is string => Boolean(candidate))
+      .map(candidate => candidate.toLowerCase().replace('_', '-'));
+
+    for (const candidate of requested) {
+      const voice = GTTS_VOICES.find(entry => {
+        const language = entry.language.toLowerCase();
+        return entry.name === candidate || language === candidate || language.startsWith(`${candidate}-`);
+      });
+      if (voice) {
+        return voice.name;
+      }
+    }
+    return 'en-us';
+  }
+
+  public async dispose(): Promise<void> {}
+}
@@ -0,0 +1,251 @@
+import type { AvatarBone } from '../types/index.js';
+
+export type HandSide = 'Left' | 'Right';
+
+export const HAND_FINGERS = ['Thumb', 'Index', 'Middle', 'Ring', 'Pinky'] as const;
+export type HandFinger = typeof HAND_FINGERS[number];
+
+// Local joint rotations keyed by finger and joint ('IndexPIP', 'ThumbCMC'); missing joints are straight
+export type HandJointRotations = Partial<Record<string, Vector>>;
+
+export interface RetargetedHand {
+  wristRotation: Vector;
+  joints: HandJointRotations;
+}
+
+interface Vector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// A joint's axes in the parent's space; y runs along the bone, z is the palm side it flexes towards
+interface Frame {
+  x: Vector;
+  y: Vector;
+  z: Vector;
+}
+
+// Joints of each finger from the hand outwards, with the MediaPipe landmark each one sits on.
+// The first three rotate; the tip only marks where the finger ends.
+const FINGER_JOINTS: Record<HandFinger, Array<[string, number]>> = {
+  Thumb: [['CMC', 1], ['MCP', 2], ['IP', 3], ['Tip', 4]],
+  Index: [['MCP', 5], ['PIP', 6], ['DIP', 7], ['Tip', 8]],
+  Middle: [['MCP', 9], ['PIP', 10], ['DIP', 11], ['Tip', 12]],
+  Ring: [['MCP', 13], ['PIP', 14], ['DIP', 15], ['Tip', 16]],
+  Pinky: [['MCP', 17], ['PIP', 18], ['DIP', 19], ['Tip', 20]]
+};
+
+// Right hand in its rest frame (palm forward, fingers up), in metres: where each finger's first joint
+// sits relative to the wrist and how long the three segments after it are. The middle finger's knuckle
+// is straight above the wrist, as in the palm frame retargeting measures. The left hand mirrors x.
+const FINGER_GEOMETRY: Record<HandFinger, { base: Vector; segments: [number, number, number] }> = {
+  Thumb: { base: { x: 0.025, y: 0.02, z: 0.01 }, segments: [0.04, 0.03, 0.025] },
+  Index: { base: { x: 0.02, y: 0.085, z: 0 }, segments: [0.04, 0.025, 0.02] },
+  Middle: { base: { x: 0, y: 0.088, z: 0 }, segments: [0.045, 0.028, 0.02] },
+  Ring: { base: { x: -0.02, y: 0.084, z: 0 }, segments: [0.042, 0.026, 0.02] },
+  Pinky: { base: { x: -0.04, y: 0.078, z: 0 }, segments: [0.032, 0.02, 0.018] }
+};
+
+// A thumb bent by less than this (sine of the angle) shows no bending plane of its own
+const STRAIGHT_THUMB = 0.1;
+
+const LEGACY_FINGER = /^(Left|Right)(Thumb|Index|Middle|Ring|Pinky)$/;
+
+// Skeleton entries for the finger joints of one hand, straight, around the wrist's rest position
+export function createHandSkeleton(side: HandSide, wrist: Vector): Record<string, { name: string; defaultPosition: Vector }> {
+  const skeleton: Record<string, { name: string; defaultPosition: Vector }> = {};
+  for (const bone of poseHand(side, wrist, { x: 0, y: 0, z: 0 }, {}).slice(1)) {
+    skeleton[bone.name[0].toLowerCase() + bone.name.slice(1)] = { name: bone.name, defaultPosition: bone.position };
+  }
+  return skeleton;
+}
+
+// Places the hand and every finger joint by forward kinematics: each segment is turned by the wrist
+// and every joint before it. Returns the hand bone first.
+export function poseHand(side: HandSide, wrist: Vector, wristRotation: Vector, joints: HandJointRotations): AvatarBone[] {
+  const mirror = side === 'Left' ? -1 : 1;
+  const bones: AvatarBone[] = [{ name: `${side}Hand`, position: { ...wrist }, rotation: { ...wristRotation } }];
+
+  for (const finger of HAND_FINGERS) {
+    const { base, segments } = FINGER_GEOMETRY[finger];
+    const chain = [wristRotation];
+    let position = add(wrist, rotateChain({ x: base.x * mirror, y: base.y, z: base.z }, chain));
+
+    FINGER_JOINTS[finger].forEach(([joint], index) => {
+      const rotation = index < segments.length ? { ...(joints[`${finger}${joint}`] || { x: 0, y: 0, z: 0 }) } : { x: 0, y: 0, z: 0 };
+      bones.push({ name: `${side}${finger}${joint}`, position, rotation });
+      if (index < segments.length) {
+        chain.push(rotation);
+        position = add(position, rotateChain({ x: 0, y: segments[index], z: 0 }, chain));
+      }
+    });
+  }
+
+  return bones;
+}
+
+// Wrist orientation and per-joint flexion from the 21 MediaPipe landmarks of one hand. Knuckles and the
+// thumb's CMC swing in two axes; PIP, DIP and the thumb's MCP and IP are hinges.
+export function retargetHandLandmarks(points: number[], side: HandSide): RetargetedHand {
+  const mirror = side === 'Left' ? -1 : 1;
+  const point = (index: number) => landmark(points, index);
+
+  // Palm frame: up along the middle finger's metacarpal, across the knuckles towards the index
+  const wrist = point(0);
+  const up = normalize(subtract(point(9), wrist));
+  const palm = normalize(cross(scale(subtract(point(5), point(17)), mirror), up));
+  const hand: Frame = { x: normalize(cross(up, palm)), y: up, z: palm };
+
+  const joints: HandJointRotations = {};
+
+  for (const finger of HAND_FINGERS) {
+    const [first, second, third, tip] = FINGER_JOINTS[finger].map(([joint, index]) => ({ joint, at: point(index) }));
+    let frame: Frame;
+
+    if (finger === 'Thumb') {
+      // The thumb bends in a plane of its own; its CMC takes the twist that lines the hinges up with it
+      const along = normalize(subtract(second.at, first.at));
+      let bend = cross(along, subtract(tip.at, second.at));
+      if (length(bend) < STRAIGHT_THUMB * length(subtract(tip.at, second.at))) {
+        bend = cross(along, hand.z);
+      }
+      const axis = normalize(bend);
+      frame = { x: axis, y: along, z: cross(axis, along) };
+      joints[`${finger}${first.joint}`] = frameToEuler({ x: toLocal(frame.x, hand), y: toLocal(frame.y, hand), z: toLocal(frame.z, hand) });
+    } else {
+      const direction = toLocal(normalize(subtract(second.at, first.at)), hand);
+      const rotation = {
+        x: Math.asin(clamp(direction.z)),
+        y: 0,
+        z: Math.atan2(-direction.x, direction.y)
+      };
+      joints[`${finger}${first.joint}`] = rotation;
+      frame = rotateFrame(hand, rotation);
+    }
+
+    for (const [from, to] of [[second, third], [third, tip]]) {
+      const direction = toLocal(normalize(subtract(to.at, from.at)), frame);
+      const rotation = { x: Math.atan2(direction.z, direction.y), y: 0, z: 0 };
+      joints[`${finger}${from.joint}`] = rotation;
+      frame = rotateFrame(frame, rotation);
+    }
+  }
+
+  return { wristRotation: frameToEuler(hand), joints };
+}
+
+// Lexicon poses written for the old one-bone fingers ('RightIndex') are spread over the joints: a
+// finger's flexion is split 90:100:80 between MCP, PIP and DIP (60:80 between the thumb's MCP and IP)
+// and its splay stays on the knuckle. Only the fingers the pose names are returned.
+export function expandLegacyFingerBones(bones: AvatarBone[], rest: AvatarBone[]): AvatarBone[] {
+  if (!bones.some(bone => LEGACY_FINGER.test(bone.name))) {
+    return bones;
+  }
+
+  const expanded = bones.filter(bone => !LEGACY_FINGER.test(bone.name));
+  for (const side of ['Left', 'Right'] as const) {
+    const fingers = bones.filter(bone => bone.name.startsWith(side) && LEGACY_FINGER.test(bone.name));
+    const hand = bones.find(bone => bone.name === `${side}Hand`) || rest.find(bone => bone.name === `${side}Hand`);
+    if (fingers.length === 0 || !hand) {
+      continue;
+    }
+
+    const joints: HandJointRotations = {};
+    for (const { name, rotation } of fingers) {
+      const finger = name.slice(side.length) as HandFinger;
+      if (finger === 'Thumb') {
+        joints.ThumbCMC = { x: 0, y: 0, z: -(rotation.y + rotation.z) };
+        joints.ThumbMCP = { x: rotation.x * 60 / 140, y: 0, z: 0 };
+        joints.ThumbIP = { x: rotation.x * 80 / 140, y: 0, z: 0 };
+      } else {
+        joints[`${finger}MCP`] = { x: rotation.x * 90 / 270, y: 0, z: rotation.z };
+        joints[`${finger}PIP`] = { x: rotation.x * 100 / 270, y: 0, z: 0 };
+        joints[`${finger}DIP`] = { x: rotation.x * 80 / 270, y: 0, z: 0 };
+      }
+    }
+
+    const named = new Set(fingers.map(bone => bone.name));
+    expanded.push(...poseHand(side, hand.position, hand.rotation, joints)
+      .slice(1)
+      .filter(bone => named.has(bone.name.replace(/(CMC|MCP|PIP|DIP|IP|Tip)$/, ''))));
+  }
+  return expanded;
+}
+
+// MediaPipe image coordinates (x right, y down, z away from the camera) in avatar space, for a signer
+// facing the camera: their right is +x, up is +y and towards the camera is +z
+function landmark(points: number[], index: number): Vector {
+  return { x: -points[index * 3], y: -points[index * 3 + 1], z: -(points[index * 3 + 2] || 0) };
+}
+
+// Euler angles in radians, applied X then Y then Z
+function rotate(v: Vector, { x, y, z }: Vector): Vector {
+  const [cx, sx, cy, sy, cz, sz] = [Math.cos(x), Math.sin(x), Math.cos(y), Math.sin(y), Math.cos(z), Math.sin(z)];
+  const afterX = { x: v.x, y: v.y * cx - v.z * sx, z: v.y * sx + v.z * cx };
+  const afterY = { x: afterX.x * cy + afterX.z * sy, y: afterX.y, z: -afterX.x * sy + afterX.z * cy };
+  return { x: afterY.x * cz - afterY.y * sz, y: afterY.x * sz + afterY.y * cz, z: afterY.z };
+}
+
+// Innermost joint first, out to the wrist
+function rotateChain(v: Vector, chain: Vector[]): Vector {
+  return chain.reduceRight(rotate, v);
+}
+
+function rotateFrame(frame: Frame, rotation: Vector): Frame {
+  const toParent = (axis: Vector) => {
+    const v = rotate(axis, rotation);
+    return add(add(scale(frame.x, v.x), scale(frame.y, v.y)), scale(frame.z, v.z));
+  };
+  return { x: toParent({ x: 1, y: 0, z: 0 }), y: toParent({ x: 0, y: 1, z: 0 }), z: toParent({ x: 0, y: 0, z: 1 }) };
+}
+
+// Inverse of `rotate` for the rotation whose columns are the frame's axes
+function frameToEuler({ x, y, z }: Frame): Vector {
+  const sinY = -clamp(x.z);
+  if (Math.abs(sinY) > 0.9999) {
+    return { x: 0, y: Math.asin(sinY), z: Math.atan2(-y.x, y.y) };
+  }
+  return { x: Math.atan2(y.z, z.z), y: Math.asin(sinY), z: Math.atan2(x.y, x.x) };
+}
+
+function toLocal(v: Vector, frame: Frame): Vector {
+  return { x: dot(v, frame.x), y: dot(v, frame.y), z: dot(v, frame.z) };
+}
+
+function add(a: Vector, b: Vector): Vector {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function subtract(a: Vector, b: Vector): Vector {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function scale(a: Vector, factor: number): Vector {
+  return { x: a.x * factor, y: a.y * factor, z: a.z * factor };
+}
+
+function dot(a: Vector, b: Vector): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vector, b: Vector): Vector {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+}
+
+function length(a: Vector): number {
+  return Math.sqrt(dot(a, a));
+}
+
+function normalize(a: Vector): Vector {
+  const len = length(a) || 1;
+  return { x: a.x / len, y: a.y / len, z: a.z / len };
+}
+
+function clamp(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
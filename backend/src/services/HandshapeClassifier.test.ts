@@ -0,0 +1,63 @@
+import { HandshapeClassifier } from './HandshapeClassifier.js';
+import { handLandmarks, type HandPose } from '../testing/handLandmarks.js';
+
+const FIST = { index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' } as const;
+
+// The synthetic hand is a right hand; flipping x across the image gives the left
+function leftHand(pose: HandPose): number[] {
+  return handLandmarks(pose).map((value, index) => index % 3 === 0 ? -value : value);
+}
+
+describe('HandshapeClassifier', () => {
+  const classifier = new HandshapeClassifier();
+
+  it.each<[string, string, HandPose]>([
+    ['hello', 'ASL', { thumb: 'across', location: 'head' }],
+    ['goodbye', 'ASL', { thumb: 'out', spread: true, location: 'head' }],
+    ['thank_you', 'ASL', { thumb: 'out', location: 'mouth' }],
+    ['please', 'ASL', { thumb: 'out', location: 'chest' }],
+    ['sorry', 'ASL', { fingers: FIST, thumb: 'side', location: 'chest' }],
+    ['yes', 'ASL', { fingers: FIST, thumb: 'across', location: 'mouth' }],
+    ['stop', 'ASL', { thumb: 'across', palm: 'side', location: 'chest' }],
+    ['one', 'ASL', { fingers: { middle: 'curled', ring: 'curled', pinky: 'curled' }, thumb: 'side', location: 'mouth' }],
+    ['i_love_you', 'ASL', { fingers: { middle: 'curled', ring: 'curled' }, thumb: 'out', location: 'mouth' }],
+    ['hello', 'BSL', { thumb: 'across', location: 'head' }],
+    ['sorry', 'BSL', { fingers: FIST, thumb: 'side', location: 'chest' }]
+  ])('reads %s in %s', (gesture, language, pose) => {
+    const result = classifier.classify([handLandmarks(pose)], ['right'], language);
+    expect(result?.gesture).toBe(gesture);
+    expect(result?.confidence).toBeGreaterThan(0.7);
+  });
+
+  it('separates signs that share a handshape by location and palm', () => {
+    const open = { thumb: 'across' } as const;
+    expect(classifier.classify([handLandmarks({ ...open, location: 'head' })], ['right'], 'ASL')?.gesture).toBe('hello');
+    expect(classifier.classify([handLandmarks({ ...open, location: 'chest' })], ['right'], 'ASL')?.gesture).toBe('b');
+    expect(classifier.classify([handLandmarks({ ...open, palm: 'side', location: 'chest' })], ['right'], 'ASL')?.gesture).toBe('stop');
+  });
+
+  it('reports a handshape it does not know as unknown', () => {
+    const pose: HandPose = { fingers: { index: 'curled', middle: 'bent', ring: 'extended', pinky: 'curled' }, thumb: 'side', location: 'low' };
+    expect(classifier.classify([handLandmarks(pose)], ['right'], 'ASL')).toEqual({ gesture: 'unknown', confidence: 0.3 });
+    expect(classifier.classify([], ['right'], 'ASL')).toBeNull();
+  });
+
+  it('reads two-handed signs from both hands', () => {
+    const open: HandPose = { thumb: 'out', spread: true, location: 'chest', offset: { x: 0.2, y: 0 } };
+    const hands = [handLandmarks(open), leftHand(open)];
+    expect(classifier.extractRelations(hands[0], hands[1])).toContain('side_by_side');
+    expect(classifier.classify(hands, ['right', 'left'], 'ASL')?.gesture).toBe('finished');
+  });
+
+  it('extracts finger, thumb, palm and location features', () => {
+    const features = classifier.extractFeatures(handLandmarks({ fingers: { pinky: 'curled' }, thumb: 'out', spread: true, location: 'mouth' }));
+    expect(features.fingers).toEqual({ index: 'extended', middle: 'extended', ring: 'extended', pinky: 'curled' });
+    expect(features).toMatchObject({ thumb: 'out', spread: true, palm: 'forward', location: 'mouth', pointing: 'up' });
+  });
+
+  it('scores a handshape against one sign regardless of location', () => {
+    expect(classifier.scoreSign(handLandmarks({ thumb: 'out', location: 'low' }), 'please', 'ASL')).toBe(1);
+    expect(classifier.scoreSign(handLandmarks({ fingers: FIST, thumb: 'side' }), 'please', 'ASL')).toBeLessThan(0.5);
+    expect(classifier.scoreSign(handLandmarks({ thumb: 'out' }), 'not_a_sign', 'ASL')).toBe(0);
+  });
+});
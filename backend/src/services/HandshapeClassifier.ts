@@ -0,0 +1,443 @@
+import { signLexicon, DEFAULT_SIGN_LANGUAGE, type LexiconEntry } from './SignLexicon.js';
+import type { Handedness } from '../types/index.js';
+
+// MediaPipe hand landmark indices (21 points, flattened as [x0, y0, z0, x1, y1, z1, ...])
+const WRIST = 0;
+const THUMB = [1, 2, 3, 4];
+const FINGERS = {
+  index: [5, 6, 7, 8],
+  middle: [9, 10, 11, 12],
+  ring: [13, 14, 15, 16],
+  pinky: [17, 18, 19, 20]
+} as const;
+
+export type FingerName = keyof typeof FINGERS;
+
+export type FingerState = 'extended' | 'bent' | 'curled';
+export type ThumbState = 'out' | 'side' | 'across' | 'touch';
+export type HandLocation = 'head' | 'mouth' | 'chest' | 'low';
+export type PalmFacing = 'forward' | 'side';
+export type HandPointing = 'up' | 'down' | 'side';
+export type HandRelation = 'stacked' | 'tips_touching' | 'side_by_side';
+
+interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface HandFeatures {
+  fingers: Record<FingerName, FingerState>;
+  thumb: ThumbState;
+  thumbTouches: FingerName | null;
+  spread: boolean;
+  palm: PalmFacing;
+  location: HandLocation;
+  pointing: HandPointing;        // Wrist to middle knuckle direction in the image
+  crossed: boolean;              // Index and middle fingertips swapped relative to their knuckles
+  thumbAcross: number;           // Thumb tip along the index -> pinky knuckle line (0 = index, 1 = pinky)
+  thumbHeight: number;           // Thumb tip along the wrist -> middle knuckle axis (1 = knuckle level)
+}
+
+interface Handshape {
+  fingers: Record<FingerName, FingerState>;
+  thumb: ThumbState[];
+  thumbTouches?: FingerName;
+  spread?: boolean;
+}
+
+export interface HandshapeSpec extends Handshape {
+  gesture: string;
+  description: string;
+  confidence: number;
+  palm?: PalmFacing;
+  location?: HandLocation[];
+}
+
+export interface TwoHandedSpec {
+  gesture: string;
+  description: string;
+  confidence: number;
+  dominant: Handshape;
+  nonDominant: Handshape;
+  relation: HandRelation;
+}
+
+export interface LabeledHand {
+  side: Handedness;
+  points: number[];
+}
+
+// Total bend (degrees) across MCP, PIP and DIP joints
+const EXTENDED_MAX_BEND = 60;
+const CURLED_MIN_BEND = 160;
+// Mean angle (degrees) between adjacent extended fingers
+const SPREAD_MIN_ANGLE = 9;
+// Distances below are relative to palm length (wrist to middle MCP)
+const THUMB_TOUCH_MAX_DISTANCE = 0.3;
+const THUMB_OUT_MIN_DISTANCE = 0.6;
+const THUMB_ACROSS_MIN_PROJECTION = 0.35;
+const PALM_FORWARD_MIN_NORMAL_Z = 0.6;
+const CROSSED_MIN_OVERLAP = 0.1;
+// Hand-to-hand distances, in palm lengths
+const STACKED_MAX_HORIZONTAL = 1.2;
+const STACKED_MAX_VERTICAL = 2.0;
+const TIPS_TOUCHING_MAX_DISTANCE = 0.5;
+const SIDE_BY_SIDE_MIN_HORIZONTAL = 1.5;
+const SIDE_BY_SIDE_MAX_VERTICAL = 1.0;
+
+// Pairs landmark arrays with their handedness labels, dominant (right) hand first.
+// Without labels the first hand is treated as the dominant one.
+export function orderHands(landmarks: number[][], handedness?: Handedness[]): LabeledHand[] {
+  const hands = landmarks
+    .map((points, index): LabeledHand => ({
+      side: handedness?.[index] || (index === 0 ? 'right' : 'left'),
+      points
+    }))
+    .filter(labeled => labeled.points.length >= 21 * 3);
+
+  return hands.sort((a, b) => (a.side === b.side ? 0 : a.side === 'right' ? -1 : 1));
+}
+
+export class HandshapeClassifier {
+  private readonly minShapeScore = 0.8;
+  private specCache: Map<string, { entries: LexiconEntry[]; single: HandshapeSpec[]; twoHanded: TwoHandedSpec[] }> = new Map();
+
+  // Handshape tables come from the sign lexicon. Signs that share a handshape
+  // (hello / stop / b, goodbye / five) are separated by location and palm
+  // orientation, which is the best a single frame can do; ties go to the
+  // earlier lexicon entry.
+  public getSpecs(language: string = DEFAULT_SIGN_LANGUAGE): HandshapeSpec[] {
+    return this.getSpecTables(language).single;
+  }
+
+  public getTwoHandedSpecs(language: string = DEFAULT_SIGN_LANGUAGE): TwoHandedSpec[] {
+    return this.getSpecTables(language).twoHanded;
+  }
+
+  public getSpec(gesture: string, language: string = DEFAULT_SIGN_LANGUAGE): HandshapeSpec | TwoHandedSpec | undefined {
+    return this.getTwoHandedSpecs(language).find(spec => spec.gesture === gesture) ||
+      this.getSpecs(language).find(spec => spec.gesture === gesture);
+  }
+
+  // Built per sign language, and rebuilt only when that lexicon has been reloaded
+  private getSpecTables(language: string): { single: HandshapeSpec[]; twoHanded: TwoHandedSpec[] } {
+    const entries = signLexicon.getEntries(language);
+    const cached = this.specCache.get(language);
+    if (cached && cached.entries === entries) {
+      return cached;
+    }
+
+    const single = entries
+      .filter(entry => entry.handshape)
+      .map((entry): HandshapeSpec => ({
+        gesture: entry.id,
+        description: entry.description,
+        confidence: entry.confidence,
+        ...entry.handshape!
+      }));
+
+    const twoHanded = entries
+      .filter(entry => entry.twoHanded)
+      .map((entry): TwoHandedSpec => ({
+        gesture: entry.id,
+        description: entry.description,
+        confidence: entry.twoHanded!.confidence ?? entry.confidence,
+        dominant: entry.twoHanded!.dominant,
+        nonDominant: entry.twoHanded!.nonDominant,
+        relation: entry.twoHanded!.relation
+      }));
+
+    const tables = { entries, single, twoHanded };
+    this.specCache.set(language, tables);
+    return tables;
+  }
+
+  // How well one hand's shape matches a sign, leaving location and palm aside; 0 for signs with no handshape
+  public scoreSign(handPoints: number[], gesture: string, language: string = DEFAULT_SIGN_LANGUAGE): number {
+    const spec = this.getSpecs(language).find(candidate => candidate.gesture === gesture);
+    return spec ? this.scoreHandshape(this.extractFeatures(handPoints), spec) : 0;
+  }
+
+  public classify(
+    landmarks: number[][],
+    handedness?: Handedness[],
+    language: string = DEFAULT_SIGN_LANGUAGE
+  ): { gesture: string; confidence: number } | null {
+    const hands = orderHands(landmarks, handedness);
+    if (hands.length === 0) {
+      return null;
+    }
+
+    if (hands.length > 1) {
+      const twoHanded = this.classifyTwoHanded(hands[0].points, hands[1].points, language);
+      if (twoHanded) {
+        return twoHanded;
+      }
+    }
+
+    const features = this.extractFeatures(hands[0].points);
+    let best: { spec: HandshapeSpec; score: number } | null = null;
+
+    for (const spec of this.getSpecs(language)) {
+      const shapeScore = this.scoreHandshape(features, spec);
+      if (shapeScore < this.minShapeScore) {
+        continue;
+      }
+
+      // Unconstrained location / palm never penalize; ties go to the earlier, more specific entry
+      const locationScore = !spec.location || spec.location.includes(features.location) ? 1 : 0;
+      const palmScore = !spec.palm || spec.palm === features.palm ? 1 : 0;
+      const score = shapeScore * 0.7 + locationScore * 0.2 + palmScore * 0.1;
+
+      if (!best || score > best.score) {
+        best = { spec, score };
+      }
+    }
+
+    if (!best) {
+      return { gesture: 'unknown', confidence: 0.3 };
+    }
+
+    // Rank on match quality alone; the per-sign confidence only scales the result
+    return { gesture: best.spec.gesture, confidence: best.score * best.spec.confidence };
+  }
+
+  public classifyTwoHanded(
+    dominant: number[],
+    nonDominant: number[],
+    language: string = DEFAULT_SIGN_LANGUAGE
+  ): { gesture: string; confidence: number } | null {
+    const dominantFeatures = this.extractFeatures(dominant);
+    const nonDominantFeatures = this.extractFeatures(nonDominant);
+    const relations = this.extractRelations(dominant, nonDominant);
+    let best: { spec: TwoHandedSpec; score: number } | null = null;
+
+    for (const spec of this.getTwoHandedSpecs(language)) {
+      if (!relations.includes(spec.relation)) {
+        continue;
+      }
+
+      const dominantScore = this.scoreHandshape(dominantFeatures, spec.dominant);
+      const nonDominantScore = this.scoreHandshape(nonDominantFeatures, spec.nonDominant);
+      if (Math.min(dominantScore, nonDominantScore) < this.minShapeScore) {
+        continue;
+      }
+
+      const score = (dominantScore + nonDominantScore) / 2;
+      if (!best || score > best.score) {
+        best = { spec, score };
+      }
+    }
+
+    return best ? { gesture: best.spec.gesture, confidence: best.score * best.spec.confidence } : null;
+  }
+
+  // Relative placement of the dominant hand with respect to the other one
+  public extractRelations(dominant: number[], nonDominant: number[]): HandRelation[] {
+    const centroid = (points: number[], indices: number[]) => {
+      let x = 0;
+      let y = 0;
+      for (const index of indices) {
+        x += points[index * 3] / indices.length;
+        y += points[index * 3 + 1] / indices.length;
+      }
+      return { x, y };
+    };
+    const palmLength = (points: number[]) =>
+      Math.hypot(points[9 * 3] - points[0], points[9 * 3 + 1] - points[1]) || 1;
+
+    const allPoints = Array.from({ length: 21 }, (_, i) => i);
+    const tipPoints = [4, 8, 12, 16, 20];
+    const scale = (palmLength(dominant) + palmLength(nonDominant)) / 2;
+
+    const dominantCenter = centroid(dominant, allPoints);
+    const nonDominantCenter = centroid(nonDominant, allPoints);
+    const horizontal = Math.abs(dominantCenter.x - nonDominantCenter.x) / scale;
+    const vertical = (nonDominantCenter.y - dominantCenter.y) / scale; // Positive when dominant is higher
+
+    const dominantTips = centroid(dominant, tipPoints);
+    const nonDominantTips = centroid(nonDominant, tipPoints);
+    const tipDistance = Math.hypot(dominantTips.x - nonDominantTips.x, dominantTips.y - nonDominantTips.y) / scale;
+
+    const relations: HandRelation[] = [];
+    if (horizontal < STACKED_MAX_HORIZONTAL && vertical > 0 && vertical < STACKED_MAX_VERTICAL) {
+      relations.push('stacked');
+    }
+    if (tipDistance < TIPS_TOUCHING_MAX_DISTANCE) {
+      relations.push('tips_touching');
+    }
+    if (horizontal > SIDE_BY_SIDE_MIN_HORIZONTAL && Math.abs(vertical) < SIDE_BY_SIDE_MAX_VERTICAL) {
+      relations.push('side_by_side');
+    }
+    return relations;
+  }
+
+  public extractFeatures(handPoints: number[]): HandFeatures {
+    const point = (i: number): Point3D => ({
+      x: handPoints[i * 3],
+      y: handPoints[i * 3 + 1],
+      z: handPoints[i * 3 + 2] || 0
+    });
+
+    const wrist = point(WRIST);
+    const palmLength = distance(wrist, point(FINGERS.middle[0])) || 1;
+
+    const fingers = {} as Record<FingerName, FingerState>;
+    for (const name of Object.keys(FINGERS) as FingerName[]) {
+      const [mcp, pip, dip, tip] = FINGERS[name].map(point);
+      const bend =
+        angleBetween(subtract(mcp, wrist), subtract(pip, mcp)) +
+        angleBetween(subtract(pip, mcp), subtract(dip, pip)) +
+        angleBetween(subtract(dip, pip), subtract(tip, dip));
+
+      fingers[name] = bend < EXTENDED_MAX_BEND ? 'extended' : bend > CURLED_MIN_BEND ? 'curled' : 'bent';
+    }
+
+    // Thumb placement relative to the fingers
+    const thumbTip = point(THUMB[3]);
+    const indexMcp = point(FINGERS.index[0]);
+    const pinkyMcp = point(FINGERS.pinky[0]);
+
+    let thumbTouches: FingerName | null = null;
+    let closestTip = Infinity;
+    for (const name of Object.keys(FINGERS) as FingerName[]) {
+      // A curled fingertip always rests near the thumb, so only open fingers count as touching
+      if (fingers[name] === 'curled') {
+        continue;
+      }
+      const tipDistance = distance(thumbTip, point(FINGERS[name][3])) / palmLength;
+      if (tipDistance < THUMB_TOUCH_MAX_DISTANCE && tipDistance < closestTip) {
+        closestTip = tipDistance;
+        thumbTouches = name;
+      }
+    }
+
+    const knuckleAxis = subtract(pinkyMcp, indexMcp);
+    const thumbAcross = dot(subtract(thumbTip, indexMcp), knuckleAxis) / (dot(knuckleAxis, knuckleAxis) || 1);
+    const handAxis = subtract(point(FINGERS.middle[0]), wrist);
+    const thumbHeight = dot(subtract(thumbTip, wrist), handAxis) / (dot(handAxis, handAxis) || 1);
+
+    let thumb: ThumbState;
+    if (thumbTouches) {
+      thumb = 'touch';
+    } else if (distance(thumbTip, indexMcp) / palmLength > THUMB_OUT_MIN_DISTANCE) {
+      thumb = 'out';
+    } else {
+      thumb = thumbAcross > THUMB_ACROSS_MIN_PROJECTION ? 'across' : 'side';
+    }
+
+    // Spread between adjacent extended fingers
+    const names = Object.keys(FINGERS) as FingerName[];
+    const spreadAngles: number[] = [];
+    for (let i = 0; i < names.length - 1; i++) {
+      if (fingers[names[i]] !== 'extended' || fingers[names[i + 1]] !== 'extended') {
+        continue;
+      }
+      const a = FINGERS[names[i]];
+      const b = FINGERS[names[i + 1]];
+      spreadAngles.push(angleBetween(
+        subtract(point(a[3]), point(a[0])),
+        subtract(point(b[3]), point(b[0]))
+      ));
+    }
+    const spread = spreadAngles.length > 0 &&
+      spreadAngles.reduce((sum, angle) => sum + angle, 0) / spreadAngles.length > SPREAD_MIN_ANGLE;
+
+    // Palm normal from the wrist / index MCP / pinky MCP triangle
+    const normal = normalize(cross(subtract(indexMcp, wrist), subtract(pinkyMcp, wrist)));
+    const palm: PalmFacing = Math.abs(normal.z) > PALM_FORWARD_MIN_NORMAL_Z ? 'forward' : 'side';
+
+    // Signing location from the vertical position of the hand in the frame
+    let centroidY = 0;
+    for (let i = 0; i < 21; i++) {
+      centroidY += point(i).y;
+    }
+    centroidY /= 21;
+
+    const location: HandLocation =
+      centroidY < 0.3 ? 'head' :
+      centroidY < 0.45 ? 'mouth' :
+      centroidY < 0.7 ? 'chest' : 'low';
+
+    // Image y grows downward, so a hand pointing up has a negative axis y
+    const pointing: HandPointing =
+      -handAxis.y > Math.abs(handAxis.x) ? 'up' :
+      handAxis.y > Math.abs(handAxis.x) ? 'down' : 'side';
+
+    // Along the knuckle line the index tip normally sits before the middle tip
+    const alongKnuckles = (p: Point3D) => dot(subtract(p, indexMcp), knuckleAxis) / (dot(knuckleAxis, knuckleAxis) || 1);
+    const crossed = fingers.index === 'extended' && fingers.middle === 'extended' &&
+      alongKnuckles(point(FINGERS.index[3])) - alongKnuckles(point(FINGERS.middle[3])) > CROSSED_MIN_OVERLAP;
+
+    return {
+      fingers, thumb, thumbTouches, spread, palm, location,
+      pointing, crossed, thumbAcross, thumbHeight
+    };
+  }
+
+  private scoreHandshape(features: HandFeatures, spec: Handshape): number {
+    let matched = 0;
+    let total = 0;
+
+    for (const name of Object.keys(FINGERS) as FingerName[]) {
+      total++;
+      if (features.fingers[name] === spec.fingers[name]) {
+        matched++;
+      }
+    }
+
+    total++;
+    if (spec.thumb.includes(features.thumb) &&
+        (!spec.thumbTouches || spec.thumbTouches === features.thumbTouches)) {
+      matched++;
+    }
+
+    if (spec.spread !== undefined) {
+      total++;
+      if (spec.spread === features.spread) {
+        matched++;
+      }
+    }
+
+    return matched / total;
+  }
+}
+
+function subtract(a: Point3D, b: Point3D): Point3D {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function dot(a: Point3D, b: Point3D): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Point3D, b: Point3D): Point3D {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+}
+
+function length(a: Point3D): number {
+  return Math.sqrt(dot(a, a));
+}
+
+function normalize(a: Point3D): Point3D {
+  const len = length(a) || 1;
+  return { x: a.x / len, y: a.y / len, z: a.z / len };
+}
+
+function distance(a: Point3D, b: Point3D): number {
+  return length(subtract(a, b));
+}
+
+function angleBetween(a: Point3D, b: Point3D): number {
+  const denominator = length(a) * length(b);
+  if (denominator === 0) {
+    return 0;
+  }
+  const cosine = Math.max(-1, Math.min(1, dot(a, b) / denominator));
+  return (Math.acos(cosine) * 180) / Math.PI;
+}
@@ -0,0 +1,105 @@
+import { LandmarkSignLanguageService } from './LandmarkSignLanguageService.js';
+import { handLandmarks } from '../testing/handLandmarks.js';
+
+const PLEASE = [handLandmarks({ thumb: 'out', location: 'chest' })];
+const HELLO = [handLandmarks({ thumb: 'across', location: 'head' })];
+const FRAME_MS = 33;
+
+// Two waves side to side, one hand width each way, over a second of frames
+function wave(frame: number): number[][] {
+  return [handLandmarks({ thumb: 'across', location: 'head', offset: { x: 0.05 * Math.sin(Math.PI * 4 * frame / 30), y: 0 } })];
+}
+
+describe('LandmarkSignLanguageService', () => {
+  let service: LandmarkSignLanguageService;
+  let now = 0;
+
+  beforeEach(() => {
+    service = new LandmarkSignLanguageService();
+    now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function predict(landmarks: number[][] | undefined, sessionId = 'test') {
+    now += FRAME_MS;
+    return service.predict({ landmarks, handedness: ['right'], sessionId, signLanguage: 'ASL' });
+  }
+
+  async function reported(frames: number[][][]): Promise<Array<string | undefined>> {
+    const gestures: Array<string | undefined> = [];
+    for (const landmarks of frames) {
+      const result = await predict(landmarks);
+      if (result) gestures.push(result.recognizedGesture);
+    }
+    return gestures;
+  }
+
+  it('reports a handshape once it has held for three frames', async () => {
+    expect(await predict(PLEASE)).toBeNull();
+    expect(await predict(PLEASE)).toBeNull();
+    expect((await predict(PLEASE))?.recognizedGesture).toBe('please');
+  });
+
+  it('reports a held sign once, and again after the hand leaves', async () => {
+    const results = [];
+    for (let i = 0; i < 6; i++) {
+      results.push((await predict(PLEASE))?.recognizedGesture ?? null);
+    }
+    expect(results).toEqual([null, null, 'please', null, null, null]);
+
+    await predict(undefined);
+    await predict(PLEASE);
+    await predict(PLEASE);
+    expect((await predict(PLEASE))?.recognizedGesture).toBe('please');
+  });
+
+  it('knows which sign is held before and after reporting it', async () => {
+    await predict(PLEASE);
+    expect(service.getHeldGesture('test')).toBe('please');
+    for (let i = 0; i < 4; i++) {
+      await predict(PLEASE);
+    }
+    expect(service.getHeldGesture('test')).toBe('please');
+
+    await predict(undefined);
+    expect(service.getHeldGesture('test')).toBeNull();
+  });
+
+  it('keeps the frame history of each session apart', async () => {
+    await predict(PLEASE, 'first');
+    await predict(PLEASE, 'first');
+    await predict(HELLO, 'second');
+    expect((await predict(PLEASE, 'first'))?.recognizedGesture).toBe('please');
+    expect(await predict(HELLO, 'second')).toBeNull();
+
+    service.resetSession('first');
+    expect(service.getHeldGesture('first')).toBeNull();
+  });
+
+  it('classifies a single frame on its own', () => {
+    expect(service.classifyFrame(PLEASE, ['right'], 'once', 'ASL')?.recognizedGesture).toBe('please');
+    expect(service.classifyFrame(HELLO, ['right'], 'once', 'ASL')?.recognizedGesture).toBe('hello');
+    expect(service.classifyFrame([[0, 0, 0]], ['right'], 'once', 'ASL')).toBeNull();
+  });
+
+  it('reports a motion sign once the movement comes to rest', async () => {
+    const frames = [...Array.from({ length: 31 }, (_, frame) => wave(frame)), wave(30), wave(30), wave(30), wave(30)];
+    expect(await reported(frames)).toEqual(['hello']);
+  });
+
+  it('reports a motion sign when the hand leaves mid-movement', async () => {
+    expect(await reported(Array.from({ length: 31 }, (_, frame) => wave(frame)))).toEqual([]);
+    const result = await predict(undefined);
+    expect(result?.recognizedGesture).toBe('hello');
+    expect(result?.confidence).toBeGreaterThan(0.75);
+  });
+
+  it('does not report a held sign again when it then moves', async () => {
+    const frames = [wave(0), wave(0), wave(0), ...Array.from({ length: 31 }, (_, frame) => wave(frame)), wave(30), wave(30), wave(30)];
+    expect(await reported(frames)).toEqual(['hello']);
+  });
+});
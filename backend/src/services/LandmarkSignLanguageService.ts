@@ -0,0 +1,219 @@
+import { logger } from '../utils/logger.js';
+import { HandshapeClassifier } from './HandshapeClassifier.js';
+import { MotionSequenceMatcher, type CompletedMotion } from './MotionSequenceMatcher.js';
+import { signLexicon, DEFAULT_SIGN_LANGUAGE } from './SignLexicon.js';
+import type { SignLanguageData, SignDetectionModel, SignDetectionInput, Handedness } from '../types/index.js';
+
+interface SessionState {
+  motionMatcher: MotionSequenceMatcher;
+  gestureBuffer: Array<{ landmarks: number[][], timestamp: number, gesture?: string }>;
+  lastEmittedGesture: string | null;
+}
+
+export class LandmarkSignLanguageService implements SignDetectionModel {
+  public readonly name = 'landmark';
+  private readonly classifier = new HandshapeClassifier();
+  private sessions: Map<string, SessionState> = new Map();
+  private readonly bufferSize = 10;
+  private readonly minStableFrames = 3; // Same handshape must hold this many frames before it is reported
+  private readonly motionConfidenceThreshold = 0.75;
+
+  public async initialize(): Promise<void> {
+    try {
+      logger.info('Initializing Landmark Sign Language Service...');
+      logger.info(`Landmark Sign Language Service initialized (${this.classifier.getSpecs().length} handshapes)`);
+    } catch (error) {
+      logger.error('Failed to initialize Landmark Sign Language Service:', error);
+      throw error;
+    }
+  }
+
+  public async processFrame(
+    frameData: string,
+    landmarks?: number[][],
+    sessionId = 'default',
+    handedness?: Handedness[],
+    signLanguage: string = DEFAULT_SIGN_LANGUAGE
+  ): Promise<SignLanguageData | null> {
+    try {
+      const session = this.getSession(sessionId);
+
+      if (!landmarks || landmarks.length === 0 || landmarks[0].length < 21 * 3) {
+        // Hand left the frame, which also ends any motion sign in progress. The same sign
+        // may then be reported again, once it has held anew
+        const lastEmittedGesture = session.lastEmittedGesture;
+        session.lastEmittedGesture = null;
+        session.gestureBuffer = [];
+        const completedMotion = session.motionMatcher.push(null, Date.now());
+        const motionResult = completedMotion ? this.buildMotionResult(completedMotion, handedness, sessionId, signLanguage) : null;
+        return motionResult && motionResult.recognizedGesture !== lastEmittedGesture ? motionResult : null;
+      }
+
+      const result = this.classifier.classify(landmarks, handedness, signLanguage);
+      const timestamp = Date.now();
+
+      session.gestureBuffer.push({ landmarks, timestamp, gesture: result?.gesture });
+      if (session.gestureBuffer.length > this.bufferSize) {
+        session.gestureBuffer.shift();
+      }
+
+      // Motion signs are reported once, when the movement completes; a sign already
+      // reported from its handshape before the hand moved is not reported twice
+      const completedMotion = session.motionMatcher.push(landmarks, timestamp);
+      const motionResult = completedMotion ? this.buildMotionResult(completedMotion, handedness, sessionId, signLanguage) : null;
+      if (motionResult) {
+        const repeated = motionResult.recognizedGesture === session.lastEmittedGesture;
+        session.lastEmittedGesture = motionResult.recognizedGesture ?? null;
+        return repeated ? null : motionResult;
+      }
+
+      // Static handshapes are only read while the hand is not mid-motion
+      if (session.motionMatcher.isTracking()) {
+        return null;
+      }
+
+      if (!result || result.gesture === 'unknown') {
+        session.lastEmittedGesture = null;
+        return null;
+      }
+
+      const recentGestures = session.gestureBuffer.slice(-this.minStableFrames).map(frame => frame.gesture);
+      const isStable = recentGestures.length === this.minStableFrames &&
+        recentGestures.every(gesture => gesture === result.gesture);
+
+      if (!isStable || session.lastEmittedGesture === result.gesture) {
+        return null;
+      }
+
+      session.lastEmittedGesture = result.gesture;
+
+      return this.toSignData(landmarks, handedness, result, timestamp, sessionId, signLanguage);
+
+    } catch (error) {
+      logger.error('Error processing frame in Landmark Sign Detection:', error);
+      return null;
+    }
+  }
+
+  public async predict(input: SignDetectionInput): Promise<SignLanguageData | null> {
+    return this.processFrame(input.frame || '', input.landmarks, input.sessionId, input.handedness, input.signLanguage);
+  }
+
+  // A single frame read on its own, for callers with no stream of frames to wait on a held handshape
+  public classifyFrame(
+    landmarks: number[][],
+    handedness?: Handedness[],
+    sessionId = 'default',
+    signLanguage: string = DEFAULT_SIGN_LANGUAGE
+  ): SignLanguageData | null {
+    if (landmarks.length === 0 || landmarks[0].length < 21 * 3) {
+      return null;
+    }
+
+    const result = this.classifier.classify(landmarks, handedness, signLanguage);
+    if (!result || result.gesture === 'unknown') {
+      return null;
+    }
+    return this.toSignData(landmarks, handedness, result, Date.now(), sessionId, signLanguage);
+  }
+
+  private toSignData(
+    landmarks: number[][],
+    handedness: Handedness[] | undefined,
+    result: { gesture: string; confidence: number },
+    timestamp: number,
+    sessionId: string,
+    signLanguage: string
+  ): SignLanguageData {
+    return {
+      landmarks,
+      handedness,
+      confidence: result.confidence,
+      timestamp,
+      sessionId, // Caller may override with its own session id
+      recognizedGesture: result.gesture,
+      gestureDescription: this.getGestureDescription(result.gesture, signLanguage),
+      signLanguage
+    };
+  }
+
+  private buildMotionResult(
+    motion: CompletedMotion,
+    handedness: Handedness[] | undefined,
+    sessionId: string,
+    signLanguage: string
+  ): SignLanguageData | null {
+    const recognized = this.recognizeMotionSign(motion, signLanguage);
+    if (!recognized) {
+      return null;
+    }
+
+    logger.debug(`Motion sign completed: ${recognized.gesture} (${motion.frames.length} frames)`);
+    return this.toSignData(motion.frames[motion.frames.length - 1], handedness, recognized, motion.endTime, sessionId, signLanguage);
+  }
+
+  private recognizeMotionSign(motion: CompletedMotion, signLanguage: string): { gesture: string; confidence: number } | null {
+    // Handshape is read from the middle of the movement, where it is most stable
+    const handPoints = motion.frames[Math.floor(motion.frames.length / 2)][0];
+    let bestMatch: { gesture: string; confidence: number } | null = null;
+
+    for (const entry of signLexicon.getEntries(signLanguage)) {
+      const motionMatch = entry.motion && motion.matches.find(match => match.motion === entry.motion);
+      if (!motionMatch) continue;
+
+      const shapeScore = entry.handshape ? this.classifier.scoreSign(handPoints, entry.id, signLanguage) : 0.5;
+      const confidence = motionMatch.similarity * 0.7 + shapeScore * 0.3;
+
+      if (confidence > this.motionConfidenceThreshold && (!bestMatch || confidence > bestMatch.confidence)) {
+        bestMatch = { gesture: entry.id, confidence };
+      }
+    }
+
+    return bestMatch;
+  }
+
+  private getSession(sessionId: string): SessionState {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { motionMatcher: new MotionSequenceMatcher(), gestureBuffer: [], lastEmittedGesture: null };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  public getHeldGesture(sessionId: string): string | null {
+    const buffer = this.sessions.get(sessionId)?.gestureBuffer || [];
+    const latest = buffer[buffer.length - 1]?.gesture;
+    return latest && latest !== 'unknown' ? latest : null;
+  }
+
+  public resetSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  public getGestureDescription(gesture: string, signLanguage: string = DEFAULT_SIGN_LANGUAGE): string {
+    const spec = this.classifier.getSpec(gesture, signLanguage);
+    return spec ? spec.description : 'Unknown gesture';
+  }
+
+  public getSupportedGestures(signLanguage: string = DEFAULT_SIGN_LANGUAGE): Array<{ name: string; description: string; confidence: number }> {
+    const specs = [...this.classifier.getTwoHandedSpecs(signLanguage), ...this.classifier.getSpecs(signLanguage)];
+    const seen = new Set<string>();
+
+    return specs
+      .filter(spec => !seen.has(spec.gesture) && seen.add(spec.gesture))
+      .map(spec => ({
+        name: spec.gesture,
+        description: spec.description,
+        confidence: spec.confidence
+      }));
+  }
+
+  public async dispose(): Promise<void> {
+    logger.info('Disposing Landmark Sign Language Service...');
+
+    this.sessions.clear();
+
+    logger.info('Landmark Sign Language Service disposed');
+  }
+}
@@ -0,0 +1,140 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { runProcess } from './ExternalProcess.js';
+import { describeWav } from './AudioDecoder.js';
+import { withEndPunctuation } from './SpeechMarkup.js';
+import type { SpeechSegment, SpeechSynthesizer, SynthesizedSpeech, SynthesizerVoice, TTSOptions } from '../types/index.js';
+
+const NORMAL_WORDS_PER_MINUTE = 180;
+const QUESTION_RISE_SEMITONES = 3;
+
+// macOS `say` with the system voices. Output is rendered to a 16-bit WAV file
+// instead of the speakers; text is read from stdin (`-f -`). Prosody is rendered as
+// embedded [[...]] commands, which the sanitizer keeps out of client text.
+export class MacSaySynthesizer implements SpeechSynthesizer {
+  public readonly name = 'say';
+  private readonly defaultVoice = process.env.SAY_VOICE || 'Samantha';
+  private voices: SynthesizerVoice[] = [];
+  private workDir: string | null = null;
+  private fileCounter = 0;
+
+  public async initialize(): Promise<void> {
+    try {
+      logger.info('Initializing macOS say synthesizer...');
+
+      if (process.platform !== 'darwin') {
+        throw new Error('macOS say is only available on macOS');
+      }
+      const { stdout } = await runProcess('say', ['-v', '?'], { timeoutMs: 10000 });
+      this.voices = parseVoiceList(stdout.toString());
+      this.workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gesturevoice-tts-'));
+
+      logger.info(`macOS say synthesizer initialized (${this.voices.length} voices)`);
+    } catch (error) {
+      logger.error('Failed to initialize macOS say synthesizer:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  public async synthesize(text: string, options: TTSOptions = {}, segments?: SpeechSegment[]): Promise<SynthesizedSpeech> {
+    if (!this.workDir) {
+      throw new Error('macOS say synthesizer not initialized');
+    }
+
+    this.fileCounter = (this.fileCounter + 1) % 100000;
+    const outputPath = path.join(this.workDir, `speech_${Date.now()}_${this.fileCounter}.wav`);
+    const wordsPerMinute = Math.round(NORMAL_WORDS_PER_MINUTE * Math.max(0.25, Math.min(4, options.speed ?? 1)));
+
+    try {
+      await runProcess('say', [
+        '-v', this.resolveVoice(options),
+        '-r', String(wordsPerMinute),
+        '-o', outputPath,
+        '--file-format=WAVE',
+        '--data-format=LEI16@22050',
+        '-f', '-'
+      ], { input: segments ? renderEmbeddedCommands(segments, wordsPerMinute, options.pitch ?? 0) : text });
+
+      const audio = await fs.readFile(outputPath);
+      const { sampleRate, duration } = describeWav(audio);
+
+      return { audio, format: 'wav', mimeType: 'audio/wav', sampleRate, duration, engine: this.name };
+
+    } finally {
+      await fs.rm(outputPath, { force: true });
+    }
+  }
+
+  public getVoices(): SynthesizerVoice[] {
+    return this.voices;
+  }
+
+  // An exact voice wins, then the first voice for the requested language
+  private resolveVoice(options: TTSOptions): string {
+    if (options.voice && this.voices.some(voice => voice.name === options.voice)) {
+      return options.voice;
+    }
+    const language = options.language?.toLowerCase().replace('_', '-');
+    const byLanguage = language && this.voices.find(voice => voice.language.toLowerCase() === language);
+    return byLanguage ? byLanguage.name : this.defaultVoice;
+  }
+
+  public async dispose(): Promise<void> {
+    if (this.workDir) {
+      await fs.rm(this.workDir, { recursive: true, force: true });
+      this.workDir = null;
+    }
+    this.voices = [];
+  }
+}
+
+// `pbas` moves the pitch base in semitones, `rate` is absolute words per minute,
+// `emph` stresses the next word and `slnc` inserts silence in milliseconds
+function renderEmbeddedCommands(segments: SpeechSegment[], wordsPerMinute: number, pitch: number): string {
+  const parts = pitch ? [`[[pbas ${signed(pitch)}]]`] : [];
+
+  for (const segment of segments) {
+    const text = segment.rising ? withEndPunctuation(segment.text, '?') : segment.text;
+    let words = text.split(' ');
+    if (segment.emphasis === 'strong' || segment.emphasis === 'moderate') {
+      words = words.map(word => `[[emph +]] ${word}`);
+    } else if (segment.emphasis === 'reduced') {
+      words = words.map(word => `[[emph -]] ${word}`);
+    }
+    if (segment.rising && words.length > 0) {
+      words[words.length - 1] = `[[pbas ${signed(QUESTION_RISE_SEMITONES)}]] ${words[words.length - 1]} [[pbas ${signed(-QUESTION_RISE_SEMITONES)}]]`;
+    }
+
+    let spoken = words.join(' ');
+    if (segment.pitch) {
+      spoken = `[[pbas ${signed(segment.pitch)}]] ${spoken} [[pbas ${signed(-segment.pitch)}]]`;
+    }
+    if (segment.rate) {
+      spoken = `[[rate ${Math.round(wordsPerMinute * segment.rate)}]] ${spoken} [[rate ${wordsPerMinute}]]`;
+    }
+    parts.push(spoken);
+    if (segment.pauseAfterMs) {
+      parts.push(`[[slnc ${segment.pauseAfterMs}]]`);
+    }
+  }
+  return parts.join(' ');
+}
+
+function signed(value: number): string {
+  const rounded = Math.round(value * 10) / 10;
+  return rounded >= 0 ? `+${rounded}` : String(rounded);
+}
+
+// `say -v ?` prints: Name  xx_YY  # Sample sentence (names may contain spaces)
+function parseVoiceList(output: string): SynthesizerVoice[] {
+  const voices: SynthesizerVoice[] = [];
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(.+?)\s+([a-z]{2,3}[_-][A-Za-z0-9]+)\s+#\s*(.*)$/);
+    if (match) {
+      voices.push({ name: match[1].trim(), language: match[2].replace('_', '-'), description: match[3].trim() });
+    }
+  }
+  return voices;
+}
@@ -0,0 +1,401 @@
+import type { FingerName } from './HandshapeClassifier.js';
+
+// Flexion per joint, 0 = straight, 1 = fully flexed
+export interface JointCurl {
+  mcp: number;
+  pip: number;
+  dip: number;
+}
+
+export type ThumbPlacement = 'side' | 'across' | 'out' | 'touch' | 'between';
+export type PalmOrientation = 'forward' | 'side' | 'in' | 'down';
+export type FingerPointing = 'up' | 'side' | 'down';
+
+export interface ThumbPose {
+  placement: ThumbPlacement;
+  abduction: number;                 // 0 = against the index, 1 = fully out to the side
+  curl: { mcp: number; ip: number };
+  touches?: FingerName;              // Fingertip the thumb tip meets
+  between?: [FingerName, FingerName]; // Fingers the thumb is tucked between
+}
+
+export interface HandshapePose {
+  fingers: Record<FingerName, JointCurl>;
+  thumb: ThumbPose;
+  spread: number;                    // 0 = fingers together, 1 = fully spread
+  crossed?: boolean;                 // Middle finger crossed over the index
+  palm: PalmOrientation;
+  pointing: FingerPointing;
+}
+
+export interface LetterMotion {
+  path: Array<{ x: number; y: number; z: number }>; // Hand offsets in metres from the resting letter position
+  durationMs: number;
+  description: string;
+}
+
+export interface SupportingHand extends HandshapePose {
+  offset: { x: number; y: number; z: number }; // Wrist position in metres relative to the dominant wrist
+}
+
+export interface LetterHandshape extends HandshapePose {
+  letter: string;
+  description: string;
+  motion?: LetterMotion;
+  nonDominant?: SupportingHand; // Second hand of two-handed alphabets (BSL)
+}
+
+export interface ManualAlphabet {
+  language: string;
+  twoHanded: boolean;
+  letters: ReadonlyMap<string, LetterHandshape>;
+}
+
+const STRAIGHT: JointCurl = { mcp: 0, pip: 0, dip: 0 };
+const CURLED: JointCurl = { mcp: 0.9, pip: 1, dip: 0.8 };
+const ROUNDED: JointCurl = { mcp: 0.35, pip: 0.45, dip: 0.35 }; // C shape
+const PINCHED: JointCurl = { mcp: 0.5, pip: 0.6, dip: 0.4 };    // Fingertip meets the thumb (O, F, D)
+const CLAWED: JointCurl = { mcp: 0.2, pip: 1, dip: 0.9 };       // Tips folded down onto the thumb (E)
+const HOOKED: JointCurl = { mcp: 0.1, pip: 0.9, dip: 0.8 };     // X
+
+const fingers = (index: JointCurl, middle: JointCurl, ring: JointCurl, pinky: JointCurl) =>
+  ({ index, middle, ring, pinky });
+
+const THUMB_SIDE: ThumbPose = { placement: 'side', abduction: 0.1, curl: { mcp: 0, ip: 0 } };
+const THUMB_ACROSS: ThumbPose = { placement: 'across', abduction: 0.2, curl: { mcp: 0.6, ip: 0.5 } };
+const THUMB_OUT: ThumbPose = { placement: 'out', abduction: 1, curl: { mcp: 0, ip: 0 } };
+const thumbTouching = (finger: FingerName): ThumbPose =>
+  ({ placement: 'touch', abduction: 0.6, curl: { mcp: 0.3, ip: 0.3 }, touches: finger });
+const thumbBetween = (a: FingerName, b: FingerName): ThumbPose =>
+  ({ placement: 'between', abduction: 0.3, curl: { mcp: 0.5, ip: 0.2 }, between: [a, b] });
+
+// ASL manual alphabet for a right dominant hand
+const ASL_LETTERS: LetterHandshape[] = [
+  {
+    letter: 'a', description: 'Fist with the thumb straight against the side of the index finger',
+    fingers: fingers(CURLED, CURLED, CURLED, CURLED), thumb: THUMB_SIDE, spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'b', description: 'Flat hand, fingers together, thumb folded across the palm',
+    fingers: fingers(STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT), thumb: THUMB_ACROSS, spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'c', description: 'Fingers and thumb curved into a C',
+    fingers: fingers(ROUNDED, ROUNDED, ROUNDED, ROUNDED),
+    thumb: { placement: 'out', abduction: 0.7, curl: { mcp: 0.2, ip: 0.3 } }, spread: 0, palm: 'side', pointing: 'up'
+  },
+  {
+    letter: 'd', description: 'Index finger up, the other fingertips meet the thumb',
+    fingers: fingers(STRAIGHT, PINCHED, PINCHED, PINCHED), thumb: thumbTouching('middle'), spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'e', description: 'Fingertips folded down to rest on the thumb tucked under them',
+    fingers: fingers(CLAWED, CLAWED, CLAWED, CLAWED),
+    thumb: { placement: 'across', abduction: 0.2, curl: { mcp: 0.7, ip: 0.8 } }, spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'f', description: 'Index finger and thumb touch in a circle, other fingers up and spread',
+    fingers: fingers(PINCHED, STRAIGHT, STRAIGHT, STRAIGHT), thumb: thumbTouching('index'), spread: 0.6, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'g', description: 'Index finger and thumb point sideways, parallel',
+    fingers: fingers(STRAIGHT, CURLED, CURLED, CURLED),
+    thumb: { placement: 'out', abduction: 0.4, curl: { mcp: 0, ip: 0 } }, spread: 0, palm: 'in', pointing: 'side'
+  },
+  {
+    letter: 'h', description: 'Index and middle fingers together, pointing sideways',
+    fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED), thumb: THUMB_ACROSS, spread: 0, palm: 'in', pointing: 'side'
+  },
+  {
+    letter: 'i', description: 'Little finger up, thumb across the other fingers',
+    fingers: fingers(CURLED, CURLED, CURLED, STRAIGHT), thumb: THUMB_ACROSS, spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'j', description: 'I handshape, the little finger traces a J',
+    fingers: fingers(CURLED, CURLED, CURLED, STRAIGHT), thumb: THUMB_ACROSS, spread: 0, palm: 'forward', pointing: 'up',
+    motion: {
+      path: [
+        { x: 0, y: 0, z: 0 },
+        { x: 0, y: -0.04, z: 0 },
+        { x: -0.01, y: -0.07, z: 0 },
+        { x: -0.04, y: -0.08, z: 0 },
+        { x: -0.06, y: -0.06, z: 0 }
+      ],
+      durationMs: 600,
+      description: 'Drop the little finger down and hook it toward the body'
+    }
+  },
+  {
+    letter: 'k', description: 'Index and middle fingers up in a V, thumb touching the middle finger',
+    fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED), thumb: thumbBetween('index', 'middle'), spread: 0.5, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'l', description: 'Index finger up and thumb out, forming an L',
+    fingers: fingers(STRAIGHT, CURLED, CURLED, CURLED), thumb: THUMB_OUT, spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'm', description: 'Three fingers folded over the thumb, which sits between ring and little finger',
+    fingers: fingers(CURLED, CURLED, CURLED, CURLED), thumb: thumbBetween('ring', 'pinky'), spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'n', description: 'Two fingers folded over the thumb, which sits between middle and ring finger',
+    fingers: fingers(CURLED, CURLED, CURLED, CURLED), thumb: thumbBetween('middle', 'ring'), spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'o', description: 'All fingertips meet the thumb in an O',
+    fingers: fingers(PINCHED, PINCHED, PINCHED, PINCHED), thumb: thumbTouching('index'), spread: 0, palm: 'side', pointing: 'up'
+  },
+  {
+    letter: 'p', description: 'K handshape pointing down',
+    fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED), thumb: thumbBetween('index', 'middle'), spread: 0.5, palm: 'down', pointing: 'down'
+  },
+  {
+    letter: 'q', description: 'G handshape pointing down',
+    fingers: fingers(STRAIGHT, CURLED, CURLED, CURLED),
+    thumb: { placement: 'out', abduction: 0.4, curl: { mcp: 0, ip: 0 } }, spread: 0, palm: 'down', pointing: 'down'
+  },
+  {
+    letter: 'r', description: 'Index and middle fingers crossed',
+    fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED), thumb: THUMB_ACROSS, spread: 0, crossed: true, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 's', description: 'Fist with the thumb across the front of the fingers',
+    fingers: fingers(CURLED, CURLED, CURLED, CURLED),
+    thumb: { placement: 'across', abduction: 0.3, curl: { mcp: 0.4, ip: 0.3 } }, spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 't', description: 'Thumb tucked between index and middle finger',
+    fingers: fingers(CURLED, CURLED, CURLED, CURLED), thumb: thumbBetween('index', 'middle'), spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'u', description: 'Index and middle fingers up together',
+    fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED), thumb: THUMB_ACROSS, spread: 0, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'v', description: 'Index and middle fingers up and apart',
+    fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED), thumb: THUMB_ACROSS, spread: 0.7, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'w', description: 'Index, middle and ring fingers up and apart, thumb holds the little finger',
+    fingers: fingers(STRAIGHT, STRAIGHT, STRAIGHT, CURLED), thumb: thumbTouching('pinky'), spread: 0.7, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'x', description: 'Index finger hooked, other fingers closed',
+    fingers: fingers(HOOKED, CURLED, CURLED, CURLED), thumb: THUMB_ACROSS, spread: 0, palm: 'side', pointing: 'up'
+  },
+  {
+    letter: 'y', description: 'Thumb and little finger out, other fingers closed',
+    fingers: fingers(CURLED, CURLED, CURLED, STRAIGHT), thumb: THUMB_OUT, spread: 0.8, palm: 'forward', pointing: 'up'
+  },
+  {
+    letter: 'z', description: 'Index finger traces a Z in the air',
+    fingers: fingers(STRAIGHT, CURLED, CURLED, CURLED), thumb: THUMB_ACROSS, spread: 0, palm: 'forward', pointing: 'up',
+    motion: {
+      path: [
+        { x: -0.04, y: 0.03, z: 0 },
+        { x: 0.04, y: 0.03, z: 0 },
+        { x: -0.04, y: -0.03, z: 0 },
+        { x: 0.04, y: -0.03, z: 0 }
+      ],
+      durationMs: 700,
+      description: 'Trace across, diagonally down and back across'
+    }
+  }
+];
+
+// LSF shares the one-handed alphabet with ASL apart from T
+const LSF_LETTERS: LetterHandshape[] = ASL_LETTERS.map(shape => shape.letter !== 't' ? shape : {
+  letter: 't', description: 'Index finger bent forward over the raised thumb, forming a T',
+  fingers: fingers(HOOKED, CURLED, CURLED, CURLED), thumb: thumbTouching('index'), spread: 0, palm: 'side', pointing: 'up'
+});
+
+// Left hand positions the BSL letters are formed against
+const OPEN_PALM: HandshapePose = {
+  fingers: fingers(STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT), thumb: THUMB_OUT, spread: 0.6, palm: 'in', pointing: 'up'
+};
+const FLAT_PALM: HandshapePose = {
+  fingers: fingers(STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT), thumb: THUMB_SIDE, spread: 0, palm: 'in', pointing: 'side'
+};
+const INDEX_ONLY: HandshapePose = {
+  fingers: fingers(STRAIGHT, CURLED, CURLED, CURLED), thumb: THUMB_ACROSS, spread: 0, palm: 'side', pointing: 'up'
+};
+const FIST: HandshapePose = {
+  fingers: fingers(CURLED, CURLED, CURLED, CURLED), thumb: THUMB_ACROSS, spread: 0, palm: 'down', pointing: 'side'
+};
+const RING: HandshapePose = {
+  fingers: fingers(PINCHED, CURLED, CURLED, CURLED), thumb: thumbTouching('index'), spread: 0, palm: 'side', pointing: 'side'
+};
+
+const supporting = (pose: HandshapePose, x: number, y: number, z = 0): SupportingHand => ({ ...pose, offset: { x, y, z } });
+
+// Dominant index finger pointing at a part of the left hand
+const pointer = (pointing: FingerPointing = 'side'): HandshapePose => ({ ...INDEX_ONLY, palm: 'down', pointing });
+
+// Vowels point at the left fingertips, thumb (A) to little finger (U)
+const vowel = (letter: string, digit: string, x: number, y: number): LetterHandshape => ({
+  letter, description: `Right index finger touches the tip of the left ${digit}`,
+  ...pointer(), nonDominant: supporting(OPEN_PALM, x, y)
+});
+
+// BSL two-handed alphabet for a right dominant hand
+const BSL_LETTERS: LetterHandshape[] = [
+  vowel('a', 'thumb', -0.05, -0.06),
+  {
+    letter: 'b', description: 'Both hands form rings with thumb and index finger, placed side by side',
+    ...RING, nonDominant: supporting(RING, -0.06, 0)
+  },
+  {
+    letter: 'c', description: 'Right thumb and index finger curved into a C',
+    fingers: fingers(ROUNDED, CURLED, CURLED, CURLED),
+    thumb: { placement: 'out', abduction: 0.7, curl: { mcp: 0.2, ip: 0.3 } }, spread: 0, palm: 'side', pointing: 'side'
+  },
+  {
+    letter: 'd', description: 'Right thumb and index finger curve around the upright left index finger',
+    fingers: fingers(ROUNDED, CURLED, CURLED, CURLED), thumb: thumbTouching('index'), spread: 0, palm: 'side', pointing: 'side',
+    nonDominant: supporting(INDEX_ONLY, -0.04, -0.02)
+  },
+  vowel('e', 'index finger', -0.06, -0.09),
+  {
+    letter: 'f', description: 'Right index and middle fingers lie across the left index and middle fingers',
+    fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED), thumb: THUMB_ACROSS, spread: 0, palm: 'down', pointing: 'side',
+    nonDominant: supporting({ ...INDEX_ONLY, fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED) }, -0.05, -0.03)
+  },
+  {
+    letter: 'g', description: 'Right fist rests on top of the left fist',
+    ...FIST, nonDominant: supporting(FIST, 0, -0.07)
+  },
+  {
+    letter: 'h', description: 'Right palm brushes across the left palm',
+    fingers: fingers(STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT), thumb: THUMB_SIDE, spread: 0, palm: 'down', pointing: 'side',
+    nonDominant: supporting(FLAT_PALM, -0.02, -0.04),
+    motion: {
+      path: [{ x: 0, y: 0, z: 0 }, { x: 0.05, y: -0.01, z: 0 }],
+      durationMs: 400,
+      description: 'Brush the right palm off the left palm toward the fingertips'
+    }
+  },
+  vowel('i', 'middle finger', -0.07, -0.1),
+  {
+    letter: 'j', description: 'Right index finger draws down from the left middle fingertip onto the palm',
+    ...pointer(), nonDominant: supporting(OPEN_PALM, -0.07, -0.1),
+    motion: {
+      path: [{ x: 0, y: 0, z: 0 }, { x: 0, y: -0.04, z: 0 }, { x: 0.01, y: -0.07, z: 0 }],
+      durationMs: 500,
+      description: 'Draw down the middle finger into the left palm'
+    }
+  },
+  {
+    letter: 'k', description: 'Crooked right index finger rests on the upright left index finger',
+    ...pointer(), fingers: fingers(HOOKED, CURLED, CURLED, CURLED), nonDominant: supporting(INDEX_ONLY, -0.02, -0.07)
+  },
+  {
+    letter: 'l', description: 'Right index finger lies across the left palm',
+    ...pointer(), nonDominant: supporting(FLAT_PALM, -0.02, -0.03)
+  },
+  {
+    letter: 'm', description: 'Right index, middle and ring fingers lie across the left palm',
+    ...pointer(), fingers: fingers(STRAIGHT, STRAIGHT, STRAIGHT, CURLED), nonDominant: supporting(FLAT_PALM, -0.02, -0.03)
+  },
+  {
+    letter: 'n', description: 'Right index and middle fingers lie across the left palm',
+    ...pointer(), fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED), nonDominant: supporting(FLAT_PALM, -0.02, -0.03)
+  },
+  vowel('o', 'ring finger', -0.08, -0.09),
+  {
+    letter: 'p', description: 'Right thumb and index finger ring the tip of the left index finger',
+    ...RING, nonDominant: supporting({ ...INDEX_ONLY, pointing: 'side' }, -0.07, 0)
+  },
+  {
+    letter: 'q', description: 'Right thumb and index finger form a ring under the left index finger, which hangs down into it',
+    ...RING, nonDominant: supporting({ ...INDEX_ONLY, pointing: 'down' }, -0.01, 0.07)
+  },
+  {
+    letter: 'r', description: 'Crooked right index finger rests in the left palm',
+    ...pointer(), fingers: fingers(HOOKED, CURLED, CURLED, CURLED), nonDominant: supporting(FLAT_PALM, -0.02, -0.03)
+  },
+  {
+    letter: 's', description: 'Right little finger hooks around the left little finger',
+    fingers: fingers(CURLED, CURLED, CURLED, HOOKED), thumb: THUMB_ACROSS, spread: 0, palm: 'in', pointing: 'side',
+    nonDominant: supporting({ ...FIST, fingers: fingers(CURLED, CURLED, CURLED, HOOKED), palm: 'in' }, -0.04, -0.01)
+  },
+  {
+    letter: 't', description: 'Tip of the right index finger against the edge of the left palm, forming a T',
+    ...pointer('down'), nonDominant: supporting(FLAT_PALM, -0.03, -0.08)
+  },
+  vowel('u', 'little finger', -0.09, -0.07),
+  {
+    letter: 'v', description: 'Right index and middle fingers spread in a V across the left palm',
+    ...pointer(), fingers: fingers(STRAIGHT, STRAIGHT, CURLED, CURLED), spread: 0.7, nonDominant: supporting(FLAT_PALM, -0.02, -0.03)
+  },
+  {
+    letter: 'w', description: 'Spread fingers of both hands interlock',
+    fingers: fingers(STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT), thumb: THUMB_OUT, spread: 1, palm: 'in', pointing: 'side',
+    nonDominant: supporting({ ...OPEN_PALM, spread: 1, pointing: 'side' }, -0.04, 0, 0.02)
+  },
+  {
+    letter: 'x', description: 'Right index finger crosses the upright left index finger',
+    ...pointer(), nonDominant: supporting(INDEX_ONLY, -0.03, -0.02)
+  },
+  {
+    letter: 'y', description: 'Right index finger rests in the crook between the left thumb and index finger',
+    ...pointer(), nonDominant: supporting({ ...FLAT_PALM, thumb: THUMB_OUT }, -0.06, -0.02)
+  },
+  {
+    letter: 'z', description: 'Right index finger traces a Z on the left palm',
+    ...pointer(), nonDominant: supporting(FLAT_PALM, -0.02, -0.03),
+    motion: {
+      path: [
+        { x: -0.02, y: 0.02, z: 0 },
+        { x: 0.02, y: 0.02, z: 0 },
+        { x: -0.02, y: -0.02, z: 0 },
+        { x: 0.02, y: -0.02, z: 0 }
+      ],
+      durationMs: 700,
+      description: 'Trace across, diagonally down and back across the palm'
+    }
+  }
+];
+
+const alphabet = (language: string, letters: LetterHandshape[]): ManualAlphabet => ({
+  language,
+  twoHanded: letters.some(shape => shape.nonDominant),
+  letters: new Map(letters.map(shape => [shape.letter, shape]))
+});
+
+// Irish Sign Language descends from LSF and fingerspells with the same one-handed alphabet
+const MANUAL_ALPHABETS: Record<string, ManualAlphabet> = {
+  ASL: alphabet('ASL', ASL_LETTERS),
+  BSL: alphabet('BSL', BSL_LETTERS),
+  ISL: alphabet('ISL', LSF_LETTERS),
+  LSF: alphabet('LSF', LSF_LETTERS)
+};
+
+export const MANUAL_ALPHABET: ReadonlyMap<string, LetterHandshape> = MANUAL_ALPHABETS.ASL.letters;
+
+// Languages without an alphabet of their own fall back to ASL
+export function getManualAlphabet(language: string = 'ASL'): ManualAlphabet {
+  return MANUAL_ALPHABETS[language.toUpperCase()] || MANUAL_ALPHABETS.ASL;
+}
+
+export function getLetterHandshape(letter: string, language: string = 'ASL'): LetterHandshape | undefined {
+  return getManualAlphabet(language).letters.get(letter.toLowerCase());
+}
+
+// Per-digit extension (1 = straight, 0 = closed) in thumb, index, middle, ring, pinky order
+export function getFingerExtension(shape: HandshapePose): number[] {
+  const extension = (curl: JointCurl) => 1 - (curl.mcp + curl.pip + curl.dip) / 3;
+  const thumbReach: Record<ThumbPlacement, number> = { out: 1, side: 1, touch: 0.5, across: 0, between: 0 };
+  const thumb = thumbReach[shape.thumb.placement] * (1 - (shape.thumb.curl.mcp + shape.thumb.curl.ip) / 2);
+
+  return [
+    round(thumb),
+    round(extension(shape.fingers.index)),
+    round(extension(shape.fingers.middle)),
+    round(extension(shape.fingers.ring)),
+    round(extension(shape.fingers.pinky))
+  ];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,93 @@
+import { MotionSequenceMatcher, type CompletedMotion } from './MotionSequenceMatcher.js';
+import { handLandmarks } from '../testing/handLandmarks.js';
+
+const HAND = handLandmarks({ thumb: 'out', location: 'chest' });
+const PALM = 0.1; // Wrist to middle knuckle of the synthetic hand
+const FRAME_MS = 33;
+
+type Path = (t: number) => [dx: number, dy: number, scale: number];
+
+// The hand moved by palm lengths and grown about its wrist, as it does coming toward the camera
+function moved([dx, dy, scale]: [number, number, number]): number[][] {
+  return [HAND.map((value, index) => {
+    const axis = index % 3;
+    if (axis === 2) {
+      return value * (1 + scale);
+    }
+    const wrist = HAND[axis];
+    return wrist + (value - wrist) * (1 + scale) + (axis === 0 ? dx : dy) * PALM;
+  })];
+}
+
+// A second of movement followed by the hand at rest
+function track(matcher: MotionSequenceMatcher, path: Path): CompletedMotion | null {
+  const frames = [...Array.from({ length: 31 }, (_, frame) => path(frame / 30)), path(1), path(1), path(1), path(1)];
+  let completed: CompletedMotion | null = null;
+  frames.forEach((frame, index) => {
+    completed = matcher.push(moved(frame), (index + 1) * FRAME_MS) || completed;
+  });
+  return completed;
+}
+
+describe('MotionSequenceMatcher', () => {
+  let matcher: MotionSequenceMatcher;
+
+  beforeEach(() => {
+    matcher = new MotionSequenceMatcher();
+  });
+
+  it.each<[string, Path]>([
+    ['wave', t => [0.5 * Math.sin(Math.PI * 4 * t), 0, 0]],
+    ['side_to_side', t => [0.4 * Math.sin(Math.PI * 6 * t), 0, 0]],
+    ['chest_circle', t => [0.4 * Math.sin(Math.PI * 2 * t), 0.4 * (1 - Math.cos(Math.PI * 2 * t)), 0]],
+    ['lift', t => [0, -0.8 * t, 0]],
+    ['forward', t => [0, 0, 0.4 * t]],
+    ['chin_to_forward', t => [0, 0.6 * t, 0.2 * t]]
+  ])('matches %s', (motion, path) => {
+    const completed = track(matcher, path);
+    expect(completed?.matches[0].motion).toBe(motion);
+    expect(completed?.matches[0].similarity).toBeGreaterThan(0.9);
+  });
+
+  it('matches mirrored and smaller movements', () => {
+    expect(track(matcher, t => [-0.5 * Math.sin(Math.PI * 4 * t), 0, 0])?.matches[0].motion).toBe('wave');
+    expect(track(matcher, t => [-0.2 * Math.sin(Math.PI * 4 * t), 0, 0])?.matches[0].motion).toBe('wave');
+  });
+
+  it('leaves trailing rest frames out of the completed motion', () => {
+    const completed = track(matcher, t => [0, -0.8 * t, 0]);
+    expect(completed?.frames).toHaveLength(31);
+    expect(completed?.startTime).toBe(FRAME_MS);
+    expect(completed?.endTime).toBe(31 * FRAME_MS);
+  });
+
+  it('does not track a hand held still', () => {
+    for (let frame = 1; frame <= 10; frame++) {
+      expect(matcher.push(moved([0, 0, 0]), frame * FRAME_MS)).toBeNull();
+    }
+    expect(matcher.isTracking()).toBe(false);
+  });
+
+  it('completes the motion when the hand leaves the frame', () => {
+    for (let frame = 0; frame <= 20; frame++) {
+      matcher.push(moved([0, -0.8 * frame / 20, 0]), (frame + 1) * FRAME_MS);
+    }
+    expect(matcher.isTracking()).toBe(true);
+    expect(matcher.push(null, 22 * FRAME_MS)?.matches[0].motion).toBe('lift');
+    expect(matcher.isTracking()).toBe(false);
+  });
+
+  it('drops movements too short to be a sign', () => {
+    matcher.push(moved([0, 0, 0]), FRAME_MS);
+    matcher.push(moved([0, -0.3, 0]), 2 * FRAME_MS);
+    expect(matcher.isTracking()).toBe(true);
+    expect(matcher.push(null, 3 * FRAME_MS)).toBeNull();
+  });
+
+  it('forgets a motion in progress on reset', () => {
+    matcher.push(moved([0, 0, 0]), FRAME_MS);
+    matcher.push(moved([0, -0.3, 0]), 2 * FRAME_MS);
+    matcher.reset();
+    expect(matcher.isTracking()).toBe(false);
+  });
+});
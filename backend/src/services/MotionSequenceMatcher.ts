@@ -0,0 +1,234 @@
+// Trajectory features per frame, all relative to the first frame of the motion and
+// scaled by palm length: wrist displacement, fingertip offset change and hand scale change.
+type MotionFeature = [number, number, number, number, number];
+
+export interface MotionMatch {
+  motion: string;
+  similarity: number;
+}
+
+export interface CompletedMotion {
+  frames: number[][][];
+  startTime: number;
+  endTime: number;
+  matches: MotionMatch[];
+}
+
+interface TrackedFrame {
+  landmarks: number[][];
+  timestamp: number;
+}
+
+const TEMPLATE_SAMPLES = 24;
+const TAU = Math.PI * 2;
+
+// Canonical motion paths sampled over t in [0, 1]; mirrored variants are added automatically
+const MOTION_TEMPLATES: Record<string, (t: number) => MotionFeature> = {
+  wave: t => [0.5 * Math.sin(TAU * 2 * t), 0, 0, 0, 0],
+  wave_out: t => [0, 0, 0, 0.25 * (1 - Math.cos(TAU * 2 * t)), 0],
+  side_to_side: t => [0.4 * Math.sin(TAU * 3 * t), 0, 0, 0, 0],
+  nod: t => [0, 0.3 * Math.sin(TAU * 2 * t), 0, 0.15 * Math.sin(TAU * 2 * t), 0],
+  chest_circle: t => [0.4 * Math.sin(TAU * t), 0.4 * (1 - Math.cos(TAU * t)), 0, 0, 0],
+  chin_to_forward: t => [0, 0.6 * t, 0, 0, 0.2 * t],
+  lift: t => [0, -0.8 * t, 0, 0, 0],
+  forward: t => [0, 0, 0, 0, 0.4 * t]
+};
+
+export class MotionSequenceMatcher {
+  private readonly templates: Array<{ motion: string; path: MotionFeature[] }> = [];
+  private segment: TrackedFrame[] = [];
+  private previousFrame: TrackedFrame | null = null;
+  private stillFrames = 0;
+
+  private readonly motionSpeedThreshold = 0.5; // Palm lengths per second
+  private readonly endStillFrames = 3;         // Frames at rest that end a sign
+  private readonly minSegmentFrames = 5;
+  private readonly maxSegmentFrames = 60;
+  private readonly minSimilarity = 0.5;
+
+  constructor() {
+    for (const [motion, generator] of Object.entries(MOTION_TEMPLATES)) {
+      const path: MotionFeature[] = [];
+      for (let i = 0; i < TEMPLATE_SAMPLES; i++) {
+        path.push(generator(i / (TEMPLATE_SAMPLES - 1)));
+      }
+      this.templates.push({ motion, path: normalizePath(path) });
+
+      // Mirrored copy so left hands and mirrored cameras still match
+      const mirrored = path.map(([dx, dy, tipDx, tipDy, scale]): MotionFeature => [-dx, dy, -tipDx, tipDy, scale]);
+      this.templates.push({ motion, path: normalizePath(mirrored) });
+    }
+  }
+
+  public getSupportedMotions(): string[] {
+    return Object.keys(MOTION_TEMPLATES);
+  }
+
+  public isTracking(): boolean {
+    return this.segment.length > 0;
+  }
+
+  // Feed one frame; returns the completed motion once the hand comes to rest or leaves the frame
+  public push(landmarks: number[][] | null, timestamp: number): CompletedMotion | null {
+    if (!landmarks || landmarks.length === 0 || landmarks[0].length < 21 * 3) {
+      this.previousFrame = null;
+      return this.completeSegment();
+    }
+
+    const frame = { landmarks, timestamp };
+    const moving = this.previousFrame ? this.isMoving(this.previousFrame, frame) : false;
+
+    if (this.segment.length === 0) {
+      if (moving && this.previousFrame) {
+        this.segment.push(this.previousFrame, frame);
+        this.stillFrames = 0;
+      }
+      this.previousFrame = frame;
+      return null;
+    }
+
+    this.segment.push(frame);
+    this.previousFrame = frame;
+    this.stillFrames = moving ? 0 : this.stillFrames + 1;
+
+    if (this.stillFrames >= this.endStillFrames || this.segment.length >= this.maxSegmentFrames) {
+      return this.completeSegment();
+    }
+
+    return null;
+  }
+
+  public reset(): void {
+    this.segment = [];
+    this.previousFrame = null;
+    this.stillFrames = 0;
+  }
+
+  private completeSegment(): CompletedMotion | null {
+    // Trailing rest frames are not part of the sign
+    const frames = this.segment.slice(0, this.segment.length - this.stillFrames);
+    this.segment = [];
+    this.stillFrames = 0;
+
+    if (frames.length < this.minSegmentFrames) {
+      return null;
+    }
+
+    const observed = normalizePath(resample(this.extractPath(frames), TEMPLATE_SAMPLES));
+    const bestByMotion = new Map<string, number>();
+
+    for (const template of this.templates) {
+      const similarity = Math.exp(-dtwDistance(observed, template.path) / 0.25);
+      if (similarity > (bestByMotion.get(template.motion) || 0)) {
+        bestByMotion.set(template.motion, similarity);
+      }
+    }
+
+    const matches = Array.from(bestByMotion.entries())
+      .map(([motion, similarity]) => ({ motion, similarity }))
+      .filter(match => match.similarity >= this.minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    return {
+      frames: frames.map(frame => frame.landmarks),
+      startTime: frames[0].timestamp,
+      endTime: frames[frames.length - 1].timestamp,
+      matches
+    };
+  }
+
+  private isMoving(previous: TrackedFrame, current: TrackedFrame): boolean {
+    const seconds = (current.timestamp - previous.timestamp) / 1000;
+    if (seconds <= 0) {
+      return false;
+    }
+
+    const a = handSummary(previous.landmarks[0]);
+    const b = handSummary(current.landmarks[0]);
+    const wristShift = Math.hypot(b.wrist[0] - a.wrist[0], b.wrist[1] - a.wrist[1]) / a.palm;
+    const tipShift = Math.hypot(b.tips[0] - a.tips[0], b.tips[1] - a.tips[1]) / a.palm;
+    const scaleShift = Math.abs(b.palm - a.palm) / a.palm;
+
+    return Math.max(wristShift, tipShift, scaleShift) / seconds > this.motionSpeedThreshold;
+  }
+
+  private extractPath(frames: TrackedFrame[]): MotionFeature[] {
+    const origin = handSummary(frames[0].landmarks[0]);
+    const originTipOffset = [
+      (origin.tips[0] - origin.wrist[0]) / origin.palm,
+      (origin.tips[1] - origin.wrist[1]) / origin.palm
+    ];
+
+    return frames.map(frame => {
+      const hand = handSummary(frame.landmarks[0]);
+      // Fingertip offset is measured in the current hand's own scale so that
+      // moving toward the camera does not read as the fingers opening
+      return [
+        (hand.wrist[0] - origin.wrist[0]) / origin.palm,
+        (hand.wrist[1] - origin.wrist[1]) / origin.palm,
+        (hand.tips[0] - hand.wrist[0]) / hand.palm - originTipOffset[0],
+        (hand.tips[1] - hand.wrist[1]) / hand.palm - originTipOffset[1],
+        hand.palm / origin.palm - 1
+      ];
+    });
+  }
+}
+
+function handSummary(points: number[]): { wrist: [number, number]; tips: [number, number]; palm: number } {
+  const tipIndices = [8, 12, 16, 20];
+  const tips: [number, number] = [0, 0];
+  for (const index of tipIndices) {
+    tips[0] += points[index * 3] / tipIndices.length;
+    tips[1] += points[index * 3 + 1] / tipIndices.length;
+  }
+
+  // Wrist to middle-finger MCP, in image units
+  const palm = Math.hypot(points[9 * 3] - points[0], points[9 * 3 + 1] - points[1]) || 1;
+
+  return { wrist: [points[0], points[1]], tips, palm };
+}
+
+function resample(path: MotionFeature[], samples: number): MotionFeature[] {
+  const result: MotionFeature[] = [];
+  for (let i = 0; i < samples; i++) {
+    const position = (i / (samples - 1)) * (path.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(path.length - 1, lower + 1);
+    const weight = position - lower;
+    result.push(path[lower].map((value, channel) =>
+      value + (path[upper][channel] - value) * weight) as MotionFeature);
+  }
+  return result;
+}
+
+// Scale so the largest excursion is 1: templates describe shape, not amplitude
+function normalizePath(path: MotionFeature[]): MotionFeature[] {
+  let maxExcursion = 0;
+  for (const feature of path) {
+    for (const value of feature) {
+      maxExcursion = Math.max(maxExcursion, Math.abs(value));
+    }
+  }
+  if (maxExcursion === 0) {
+    return path;
+  }
+  return path.map(feature => feature.map(value => value / maxExcursion) as MotionFeature);
+}
+
+function dtwDistance(a: MotionFeature[], b: MotionFeature[]): number {
+  const cost: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(Infinity));
+  cost[0][0] = 0;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      let distance = 0;
+      for (let channel = 0; channel < a[i - 1].length; channel++) {
+        const diff = a[i - 1][channel] - b[j - 1][channel];
+        distance += diff * diff;
+      }
+      cost[i][j] = Math.sqrt(distance) + Math.min(cost[i - 1][j], cost[i][j - 1], cost[i - 1][j - 1]);
+    }
+  }
+
+  return cost[a.length][b.length] / (a.length + b.length);
+}
@@ -0,0 +1,119 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { runProcess } from './ExternalProcess.js';
+import { describeWav } from './AudioDecoder.js';
+import type { SpeechSynthesizer, SynthesizedSpeech, SynthesizerVoice, TTSOptions } from '../types/index.js';
+
+interface PiperVoice extends SynthesizerVoice {
+  modelPath: string;
+}
+
+// Piper: local neural TTS running ONNX voice models. Every *.onnx model next to
+// PIPER_MODEL (with its .onnx.json config) is offered as a voice. Piper has no markup;
+// pauses and questions reach it as punctuation in the plain text, pitch is not adjustable.
+export class PiperSynthesizer implements SpeechSynthesizer {
+  public readonly name = 'piper';
+  private readonly binary = process.env.PIPER_BIN || 'piper';
+  private readonly modelPath = process.env.PIPER_MODEL || path.join(process.cwd(), 'models', 'piper', 'en_US-lessac-medium.onnx');
+  private readonly timeoutMs = 60000;
+  private voices: PiperVoice[] = [];
+  private workDir: string | null = null;
+  private fileCounter = 0;
+
+  public async initialize(): Promise<void> {
+    try {
+      logger.info('Initializing Piper synthesizer...');
+
+      await fs.access(this.modelPath);
+      await runProcess(this.binary, ['--help'], { timeoutMs: 10000 });
+      this.voices = await this.loadVoices();
+      this.workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gesturevoice-tts-'));
+
+      logger.info(`Piper synthesizer initialized (${this.voices.map(voice => voice.name).join(', ')})`);
+    } catch (error) {
+      logger.error('Failed to initialize Piper synthesizer:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  public async synthesize(text: string, options: TTSOptions = {}): Promise<SynthesizedSpeech> {
+    if (!this.workDir) {
+      throw new Error('Piper synthesizer not initialized');
+    }
+
+    const voice = this.resolveVoice(options);
+    this.fileCounter = (this.fileCounter + 1) % 100000;
+    const outputPath = path.join(this.workDir, `speech_${Date.now()}_${this.fileCounter}.wav`);
+
+    try {
+      await runProcess(this.binary, [
+        '--model', voice.modelPath,
+        '--output_file', outputPath,
+        '--length_scale', (1 / Math.max(0.25, Math.min(4, options.speed ?? 1))).toFixed(3)
+      ], { input: text, timeoutMs: this.timeoutMs });
+
+      const audio = await fs.readFile(outputPath);
+      const { sampleRate, duration } = describeWav(audio);
+
+      return { audio, format: 'wav', mimeType: 'audio/wav', sampleRate, duration, engine: this.name };
+
+    } finally {
+      await fs.rm(outputPath, { force: true });
+    }
+  }
+
+  public getVoices(): SynthesizerVoice[] {
+    return this.voices.map(({ name, language, description }) => ({ name, language, description }));
+  }
+
+  // An exact voice wins, then the first model for the requested language
+  private resolveVoice(options: TTSOptions): PiperVoice {
+    const byName = this.voices.find(voice => voice.name === options.voice);
+    const language = options.language?.toLowerCase().replace('_', '-');
+    const byLanguage = language
+      ? this.voices.find(voice => voice.language.toLowerCase() === language) ||
+        this.voices.find(voice => voice.language.toLowerCase().split('-')[0] === language.split('-')[0])
+      : undefined;
+
+    return byName || byLanguage || this.voices[0];
+  }
+
+  private async loadVoices(): Promise<PiperVoice[]> {
+    const directory = path.dirname(this.modelPath);
+    const models = (await fs.readdir(directory)).filter(file => file.endsWith('.onnx')).sort();
+    const voices: PiperVoice[] = [];
+
+    for (const file of models) {
+      const modelPath = path.join(directory, file);
+      try {
+        const config = JSON.parse(await fs.readFile(`${modelPath}.json`, 'utf-8'));
+        const name = path.basename(file, '.onnx');
+        voices.push({
+          name,
+          language: String(config.language?.code || name.split('-')[0]).replace('_', '-'),
+          description: `Piper ${config.dataset || name} (${config.audio?.quality || 'default'} quality)`,
+          modelPath
+        });
+      } catch {
+        logger.warn(`Skipping Piper model without a readable config: ${file}`);
+      }
+    }
+
+    // The configured model is the default voice
+    voices.sort((a, b) => Number(b.modelPath === this.modelPath) - Number(a.modelPath === this.modelPath));
+    if (voices[0]?.modelPath !== this.modelPath) {
+      throw new Error(`Piper model config missing: ${this.modelPath}.json`);
+    }
+    return voices;
+  }
+
+  public async dispose(): Promise<void> {
+    if (this.workDir) {
+      await fs.rm(this.workDir, { recursive: true, force: true });
+      this.workDir = null;
+    }
+    this.voices = [];
+  }
+}
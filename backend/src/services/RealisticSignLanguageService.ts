@@ -2,7 +2,15 @@ import * as tf from '@tensorflow/tfjs-node';
 import * as handpose from '@tensorflow-models/handpose';
 import Jimp from 'jimp';
 import { logger } from '../utils/logger.js';
-import type { SignLanguageData } from '../types/index.js';
+import { MotionSequenceMatcher, type CompletedMotion } from './MotionSequenceMatcher.js';
+import { signLexicon, DEFAULT_SIGN_LANGUAGE, type LexiconEntry, type LexiconHandshape } from './SignLexicon.js';
+import type { SignLanguageData, SignDetectionModel, SignDetectionInput } from '../types/index.js';
+
+// Each client signs its own stream, so frame history and motion tracking are kept per session
+interface SessionState {
+  motionMatcher: MotionSequenceMatcher;
+  gestureBuffer: Array<{ landmarks: number[][], timestamp: number, gesture?: string }>;
+}
 
 interface HandPrediction {
   landmarks: number[][];
@@ -10,75 +18,13 @@ interface HandPrediction {
   confidence: number;
 }
 
-export class RealisticSignLanguageService {
+export class RealisticSignLanguageService implements SignDetectionModel {
+  public readonly name = 'handpose';
   private handPoseModel: handpose.HandPose | null = null;
-  private gestureBuffer: Array<{ landmarks: number[][], timestamp: number, gesture?: string }> = [];
+  private sessions: Map<string, SessionState> = new Map();
   private readonly bufferSize = 15; // Store last 15 frames for sequence analysis
   private readonly confidenceThreshold = 0.75;
 
-  // Real ASL (American Sign Language) gesture patterns
-  private readonly aslGestures = new Map([
-    // Basic greetings
-    ['hello', {
-      pattern: this.createHelloPattern(),
-      description: 'Open palm, fingers extended, gentle wave motion',
-      confidence: 0.9
-    }],
-    ['goodbye', {
-      pattern: this.createGoodbyePattern(),
-      description: 'Palm facing out, fingers closing and opening',
-      confidence: 0.85
-    }],
-    
-    // Common words
-    ['thank_you', {
-      pattern: this.createThankYouPattern(),
-      description: 'Fingertips touch lips, then move forward',
-      confidence: 0.8
-    }],
-    ['please', {
-      pattern: this.createPleasePattern(),
-      description: 'Open palm on chest, circular motion',
-      confidence: 0.75
-    }],
-    ['yes', {
-      pattern: this.createYesPattern(),
-      description: 'Fist nodding up and down',
-      confidence: 0.85
-    }],
-    ['no', {
-      pattern: this.createNoPattern(),
-      description: 'Index and middle finger extended, side to side motion',
-      confidence: 0.8
-    }],
-    
-    // Actions
-    ['help', {
-      pattern: this.createHelpPattern(),
-      description: 'One hand supports the other, both lift up',
-      confidence: 0.7
-    }],
-    ['stop', {
-      pattern: this.createStopPattern(),
-      description: 'Palm forward, fingers up, firm gesture',
-      confidence: 0.9
-    }],
-    
-    // Numbers (0-9)
-    ['zero', { pattern: this.createNumberPattern(0), description: 'Closed fist', confidence: 0.9 }],
-    ['one', { pattern: this.createNumberPattern(1), description: 'Index finger up', confidence: 0.95 }],
-    ['two', { pattern: this.createNumberPattern(2), description: 'Index and middle finger up', confidence: 0.95 }],
-    ['three', { pattern: this.createNumberPattern(3), description: 'Thumb, index, middle finger up', confidence: 0.9 }],
-    ['four', { pattern: this.createNumberPattern(4), description: 'Four fingers up, thumb tucked', confidence: 0.9 }],
-    ['five', { pattern: this.createNumberPattern(5), description: 'All fingers extended', confidence: 0.95 }],
-    
-    // Letters (A-Z subset)
-    ['a', { pattern: this.createLetterPattern('A'), description: 'Closed fist with thumb beside', confidence: 0.8 }],
-    ['b', { pattern: this.createLetterPattern('B'), description: 'Flat hand, fingers up', confidence: 0.85 }],
-    ['c', { pattern: this.createLetterPattern('C'), description: 'Curved hand forming C shape', confidence: 0.8 }],
-    ['i_love_you', { pattern: this.createILYPattern(), description: 'Pinky, index, and thumb extended', confidence: 0.9 }]
-  ]);
-
   public async initialize(): Promise<void> {
     try {
       logger.info('Initializing Realistic Sign Language Service...');
@@ -94,12 +40,18 @@ export class RealisticSignLanguageService {
     }
   }
 
-  public async processFrame(frameData: string): Promise<SignLanguageData | null> {
+  public async processFrame(
+    frameData: string,
+    signLanguage: string = DEFAULT_SIGN_LANGUAGE,
+    sessionId = 'default'
+  ): Promise<SignLanguageData | null> {
     try {
       if (!this.handPoseModel) {
         throw new Error('Sign Language Service not initialized');
       }
 
+      const session = this.getSession(sessionId);
+
       // Convert base64 frame data to tensor
       const imageBuffer = Buffer.from(frameData.replace(/^data:image\/\w+;base64,/, ''), 'base64');
       const image = await Jimp.read(imageBuffer);
@@ -115,7 +67,9 @@ export class RealisticSignLanguageService {
       tensor.dispose(); // Clean up memory
       
       if (predictions.length === 0) {
-        return null;
+        // Hand left the frame, which also ends any motion sign in progress
+        const completedMotion = session.motionMatcher.push(null, Date.now());
+        return completedMotion ? this.buildMotionResult(completedMotion, signLanguage) : null;
       }
 
       // Process the detected hands
@@ -123,23 +77,36 @@ export class RealisticSignLanguageService {
       const timestamp = Date.now();
       
       // Add to gesture buffer for sequence analysis
-      this.gestureBuffer.push({ landmarks: processedLandmarks, timestamp });
+      const bufferEntry: { landmarks: number[][], timestamp: number, gesture?: string } = { landmarks: processedLandmarks, timestamp };
+      session.gestureBuffer.push(bufferEntry);
       
       // Keep buffer size manageable
-      if (this.gestureBuffer.length > this.bufferSize) {
-        this.gestureBuffer.shift();
+      if (session.gestureBuffer.length > this.bufferSize) {
+        session.gestureBuffer.shift();
+      }
+
+      // Motion signs are reported once, when the movement completes
+      const completedMotion = session.motionMatcher.push(processedLandmarks, timestamp);
+      if (completedMotion) {
+        const motionResult = this.buildMotionResult(completedMotion, signLanguage);
+        if (motionResult) {
+          bufferEntry.gesture = motionResult.recognizedGesture;
+          return motionResult;
+        }
       }
 
-      // Analyze gesture pattern
-      const recognizedGesture = this.recognizeGestureSequence();
-      const confidence = this.calculateGestureConfidence(recognizedGesture);
+      // Static handshapes are only read while the hand is not mid-motion
+      const recognizedGesture = session.motionMatcher.isTracking() ? null : this.recognizeGestureSequence(session, signLanguage);
+      bufferEntry.gesture = recognizedGesture?.gesture;
+      const confidence = this.calculateGestureConfidence(session, recognizedGesture);
       
       return {
         landmarks: processedLandmarks,
         confidence,
         timestamp,
-        sessionId: '', // Will be set by the calling function
-        recognizedGesture: recognizedGesture?.gesture || 'unknown'
+        sessionId, // Caller may override with its own session id
+        recognizedGesture: recognizedGesture?.gesture || 'unknown',
+        signLanguage
       };
 
     } catch (error) {
@@ -148,6 +115,72 @@ export class RealisticSignLanguageService {
     }
   }
 
+  public async predict(input: SignDetectionInput): Promise<SignLanguageData | null> {
+    if (!input.frame) {
+      return null;
+    }
+
+    const signData = await this.processFrame(input.frame, input.signLanguage, input.sessionId);
+    if (signData) {
+      signData.sessionId = input.sessionId;
+    }
+    return signData;
+  }
+
+  private getSession(sessionId: string): SessionState {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { motionMatcher: new MotionSequenceMatcher(), gestureBuffer: [] };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  public resetSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  private buildMotionResult(motion: CompletedMotion, signLanguage: string): SignLanguageData | null {
+    const recognized = this.recognizeMotionSign(motion, signLanguage);
+    if (!recognized) {
+      return null;
+    }
+
+    logger.debug(`Motion sign completed: ${recognized.gesture} (${motion.frames.length} frames)`);
+
+    return {
+      landmarks: motion.frames[motion.frames.length - 1],
+      confidence: recognized.confidence,
+      timestamp: motion.endTime,
+      sessionId: '', // Will be set by the calling function
+      recognizedGesture: recognized.gesture,
+      signLanguage
+    };
+  }
+
+  private recognizeMotionSign(motion: CompletedMotion, signLanguage: string): { gesture: string; confidence: number } | null {
+    // Handshape is read from the middle of the movement, where it is most stable
+    const middleFrame = motion.frames[Math.floor(motion.frames.length / 2)];
+    const handPoints = middleFrame[0];
+    let bestMatch: { gesture: string; confidence: number } | null = null;
+
+    for (const entry of this.getRecognizableGestures(signLanguage)) {
+      if (!entry.motion) continue;
+
+      const motionMatch = motion.matches.find(match => match.motion === entry.motion);
+      if (!motionMatch) continue;
+
+      const shapeScore = this.analyzeHandShape(handPoints, entry.handshape);
+      const confidence = motionMatch.similarity * 0.7 + shapeScore * 0.3;
+
+      if (confidence > this.confidenceThreshold && (!bestMatch || confidence > bestMatch.confidence)) {
+        bestMatch = { gesture: entry.id, confidence };
+      }
+    }
+
+    return bestMatch;
+  }
+
   private processHandPredictions(predictions: any[]): number[][] {
     const processedLandmarks: number[][] = [];
     
@@ -165,29 +198,29 @@ export class RealisticSignLanguageService {
     return processedLandmarks;
   }
 
-  private recognizeGestureSequence(): { gesture: string; confidence: number } | null {
-    if (this.gestureBuffer.length < 5) {
+  private recognizeGestureSequence(session: SessionState, signLanguage: string): { gesture: string; confidence: number } | null {
+    if (session.gestureBuffer.length < 5) {
       return null; // Need at least 5 frames for reliable recognition
     }
 
-    const recentFrames = this.gestureBuffer.slice(-10);
+    const recentFrames = session.gestureBuffer.slice(-10);
     let bestMatch = { gesture: '', confidence: 0 };
 
     // Check each gesture pattern
-    for (const [gestureName, gestureData] of this.aslGestures) {
-      const confidence = this.matchGesturePattern(recentFrames, gestureData.pattern);
+    for (const entry of this.getRecognizableGestures(signLanguage)) {
+      const confidence = this.matchGesturePattern(recentFrames, entry);
       
       if (confidence > bestMatch.confidence && confidence > this.confidenceThreshold) {
-        bestMatch = { gesture: gestureName, confidence };
+        bestMatch = { gesture: entry.id, confidence };
       }
     }
 
     return bestMatch.confidence > 0 ? bestMatch : null;
   }
 
-  private matchGesturePattern(frames: any[], pattern: any): number {
-    // Simplified pattern matching - in production, use more sophisticated ML
-    if (frames.length === 0) return 0;
+  private matchGesturePattern(frames: any[], entry: LexiconEntry): number {
+    // Motion signs are matched on their trajectory by recognizeMotionSign
+    if (frames.length === 0 || entry.motion || !entry.handshape) return 0;
     
     const latestFrame = frames[frames.length - 1];
     if (!latestFrame.landmarks || latestFrame.landmarks.length === 0) return 0;
@@ -195,10 +228,12 @@ export class RealisticSignLanguageService {
     const landmarks = latestFrame.landmarks[0]; // Use first hand
     if (landmarks.length < 21 * 3) return 0; // Need all 21 landmarks
     
-    return this.analyzeHandShape(landmarks, pattern);
+    return this.analyzeHandShape(landmarks, entry.handshape);
   }
 
-  private analyzeHandShape(landmarks: number[], pattern: any): number {
+  private analyzeHandShape(landmarks: number[], shape?: LexiconHandshape): number {
+    if (!shape) return 0.5;
+
     // Extract key landmark positions
     const thumbTip = { x: landmarks[4*3], y: landmarks[4*3+1] };
     const indexTip = { x: landmarks[8*3], y: landmarks[8*3+1] };
@@ -215,61 +250,45 @@ export class RealisticSignLanguageService {
       ringTip.y < wrist.y - 0.05,   // Ring
       pinkyTip.y < wrist.y - 0.05   // Pinky
     ];
-    
-    const fingersUpCount = fingersUp.filter(up => up).length;
-    
-    // Pattern matching for common gestures
-    switch (pattern.type) {
-      case 'open_palm':
-        return fingersUpCount >= 4 ? 0.9 : 0.3;
-      case 'fist':
-        return fingersUpCount <= 1 ? 0.9 : 0.2;
-      case 'pointing':
-        return (fingersUp[1] && fingersUpCount <= 2) ? 0.85 : 0.3;
-      case 'peace':
-        return (fingersUp[1] && fingersUp[2] && fingersUpCount === 2) ? 0.9 : 0.3;
-      case 'thumbs_up':
-        return (fingersUp[0] && fingersUpCount === 1) ? 0.85 : 0.3;
-      case 'numbers':
-        return fingersUpCount === pattern.count ? 0.9 : Math.max(0, 0.7 - Math.abs(fingersUpCount - pattern.count) * 0.2);
-      default:
-        return 0.5;
-    }
+
+    // Compare with the lexicon handshape reduced to the same up / down per digit
+    const expectedUp = [
+      shape.thumb.includes('out'),
+      shape.fingers.index === 'extended',
+      shape.fingers.middle === 'extended',
+      shape.fingers.ring === 'extended',
+      shape.fingers.pinky === 'extended'
+    ];
+    const mismatches = fingersUp.filter((up, index) => up !== expectedUp[index]).length;
+
+    return mismatches === 0 ? 0.9 : Math.max(0.2, 0.7 - mismatches * 0.2);
   }
 
-  private calculateGestureConfidence(gesture: { gesture: string; confidence: number } | null): number {
+  private calculateGestureConfidence(session: SessionState, gesture: { gesture: string; confidence: number } | null): number {
     if (!gesture) return 0.1;
     
     // Consider gesture stability over time
-    const recentGestures = this.gestureBuffer.slice(-5).map(frame => frame.gesture);
+    const recentGestures = session.gestureBuffer.slice(-5).map(frame => frame.gesture);
     const stability = recentGestures.filter(g => g === gesture.gesture).length / recentGestures.length;
     
     return Math.min(gesture.confidence * stability, 1.0);
   }
 
-  // Gesture pattern definitions
-  private createHelloPattern() { return { type: 'open_palm', motion: 'wave' }; }
-  private createGoodbyePattern() { return { type: 'open_palm', motion: 'wave_out' }; }
-  private createThankYouPattern() { return { type: 'flat_hand', motion: 'chin_to_forward' }; }
-  private createPleasePattern() { return { type: 'flat_hand', motion: 'chest_circle' }; }
-  private createYesPattern() { return { type: 'fist', motion: 'nod' }; }
-  private createNoPattern() { return { type: 'two_fingers', motion: 'side_to_side' }; }
-  private createHelpPattern() { return { type: 'support', motion: 'lift' }; }
-  private createStopPattern() { return { type: 'open_palm', motion: 'forward' }; }
-  private createNumberPattern(num: number) { return { type: 'numbers', count: num }; }
-  private createLetterPattern(letter: string) { return { type: 'letter', letter }; }
-  private createILYPattern() { return { type: 'ily', fingers: [0, 1, 4] }; } // I Love You
-
-  public getGestureDescription(gesture: string): string {
-    const gestureData = this.aslGestures.get(gesture);
-    return gestureData ? gestureData.description : 'Unknown gesture';
+  // Lexicon signs this detector can score: a static handshape, a motion path, or both
+  private getRecognizableGestures(signLanguage: string): LexiconEntry[] {
+    return signLexicon.getEntries(signLanguage).filter(entry => entry.handshape || entry.motion);
+  }
+
+  public getGestureDescription(gesture: string, signLanguage: string = DEFAULT_SIGN_LANGUAGE): string {
+    const entry = signLexicon.getEntry(gesture, signLanguage);
+    return entry ? entry.description : 'Unknown gesture';
   }
 
-  public getSupportedGestures(): Array<{ name: string; description: string; confidence: number }> {
-    return Array.from(this.aslGestures.entries()).map(([name, data]) => ({
-      name,
-      description: data.description,
-      confidence: data.confidence
+  public getSupportedGestures(signLanguage: string = DEFAULT_SIGN_LANGUAGE): Array<{ name: string; description: string; confidence: number }> {
+    return this.getRecognizableGestures(signLanguage).map(entry => ({
+      name: entry.id,
+      description: entry.description,
+      confidence: entry.confidence
     }));
   }
 
@@ -277,7 +296,7 @@ export class RealisticSignLanguageService {
     logger.info('Disposing Realistic Sign Language Service...');
     
     this.handPoseModel = null;
-    this.gestureBuffer = [];
+    this.sessions.clear();
     
     // Clean up any remaining tensors
     if (tf.memory().numTensors > 0) {
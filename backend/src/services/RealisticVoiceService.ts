@@ -1,86 +1,41 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { execFile } from 'child_process';
 import { logger } from '../utils/logger.js';
-import type { VoiceData, TTSOptions } from '../types/index.js';
-
-const execAsync = promisify(exec);
+import { signLexicon, DEFAULT_SIGN_LANGUAGE } from './SignLexicon.js';
+import { speechRecognizerRegistry } from './SpeechRecognizerRegistry.js';
+import { speechSynthesizerRegistry } from './SpeechSynthesizerRegistry.js';
+import { validateAudio, decodeForRecognition, encodeWav } from './AudioDecoder.js';
+import { AudioDecodeError, type AudioInfo } from './AudioContainers.js';
+import { prepareSpeechRequest, type PreparedSpeech } from './SpeechMarkup.js';
+import { getSpeechLocales, speakFingerspelledWord } from './SpeechTextNormalizer.js';
+import { getSpokenLanguage } from './SignLanguages.js';
+import { detectSpeechSpans } from './VoiceActivityDetector.js';
+import type {
+  VoiceData,
+  TTSOptions,
+  SpeechRecognitionResult,
+  RecognizedUtterance,
+  SynthesizedSpeech,
+  SpeechAudioFormat,
+  SpeechEmotion,
+  SynthesizerVoice
+} from '../types/index.js';
 
 export class RealisticVoiceService {
   private audioOutputDir: string;
   private tempFileCounter = 0;
-  private isProcessing = false;
+
+  // Kiosk mode: the server has the speakers, so speech is also played locally
+  private readonly kioskMode = process.env.KIOSK_MODE === 'true';
 
   // Voice synthesis settings for natural speech
   private readonly voiceSettings = {
     rate: 0.9,      // Slightly slower for clarity
     volume: 0.85,   // Comfortable volume level
-    voice: 'Samantha', // macOS default high-quality voice
     pitch: 1.0      // Natural pitch
   };
 
-  // Common sign language phrases and their natural voice translations
-  private readonly signToVoiceTranslations = new Map([
-    ['hello', 'Hello there! Nice to meet you.'],
-    ['goodbye', 'Goodbye! Take care.'],
-    ['thank_you', 'Thank you so much!'],
-    ['please', 'Please'],
-    ['yes', 'Yes, absolutely.'],
-    ['no', 'No, not really.'],
-    ['help', 'Can you help me, please?'],
-    ['stop', 'Stop, please!'],
-    ['sorry', 'I am sorry.'],
-    ['excuse_me', 'Excuse me.'],
-    ['how_are_you', 'How are you doing today?'],
-    ['fine', 'I am doing fine, thank you.'],
-    ['good_morning', 'Good morning!'],
-    ['good_afternoon', 'Good afternoon!'],
-    ['good_evening', 'Good evening!'],
-    ['good_night', 'Good night, sleep well.'],
-    ['water', 'I would like some water, please.'],
-    ['food', 'I am hungry. Can I have some food?'],
-    ['bathroom', 'Where is the bathroom?'],
-    ['doctor', 'I need to see a doctor.'],
-    ['emergency', 'This is an emergency! Please help!'],
-    ['pain', 'I am in pain.'],
-    ['tired', 'I am feeling tired.'],
-    ['happy', 'I am very happy!'],
-    ['sad', 'I am feeling sad.'],
-    ['confused', 'I am confused. Can you explain?'],
-    ['understand', 'I understand now.'],
-    ['dont_understand', "I don't understand. Can you repeat?"],
-    ['repeat', 'Can you please repeat that?'],
-    ['slow_down', 'Please speak more slowly.'],
-    ['family', 'This is my family.'],
-    ['friend', 'This is my friend.'],
-    ['work', 'I need to go to work.'],
-    ['home', 'I want to go home.'],
-    ['school', 'I go to school here.'],
-    ['money', 'How much does this cost?'],
-    ['time', 'What time is it?'],
-    ['today', 'Today is a good day.'],
-    ['tomorrow', 'See you tomorrow.'],
-    ['yesterday', 'Yesterday was interesting.'],
-    // Numbers to natural speech
-    ['zero', 'Zero'],
-    ['one', 'One'],
-    ['two', 'Two'],
-    ['three', 'Three'],
-    ['four', 'Four'],
-    ['five', 'Five'],
-    ['six', 'Six'],
-    ['seven', 'Seven'],
-    ['eight', 'Eight'],
-    ['nine', 'Nine'],
-    ['ten', 'Ten'],
-    // Common letters/spelling
-    ['a', 'The letter A'],
-    ['b', 'The letter B'],
-    ['c', 'The letter C'],
-    ['i_love_you', 'I love you too!']
-  ]);
-
   constructor() {
     this.audioOutputDir = path.join(process.cwd(), 'temp', 'audio');
   }
@@ -92,20 +47,11 @@ export class RealisticVoiceService {
       // Create audio output directory
       await fs.mkdir(this.audioOutputDir, { recursive: true });
       
-      // Test macOS 'say' command availability
-      try {
-        await execAsync('which say');
-        logger.info('macOS text-to-speech (say) command available');
-      } catch (error) {
-        logger.warn('macOS say command not available, falling back to alternative TTS');
-      }
+      // Picks the first installed engine unless TTS_ENGINE names one
+      await speechSynthesizerRegistry.initialize();
 
-      // Test speech recognition availability (if needed for future features)
-      try {
-        await execAsync('which speech-recognition');
-      } catch {
-        logger.info('Speech recognition will use simulation mode');
-      }
+      // Local speech recognition; falls back to simulation when no model is installed
+      await speechRecognizerRegistry.initialize();
       
       logger.info('Realistic Voice Service initialized successfully');
     } catch (error) {
@@ -114,119 +60,100 @@ export class RealisticVoiceService {
     }
   }
 
-  public async speechToText(audioData: VoiceData): Promise<{ text: string; confidence: number }> {
+  public async speechToText(audioData: VoiceData): Promise<SpeechRecognitionResult> {
     try {
-      if (this.isProcessing) {
-        logger.warn('Voice processing already in progress, queuing request...');
-        await this.waitForProcessing();
-      }
+      // Utterances are transcribed one at a time by the local recognizer
+      const result = await speechRecognizerRegistry.getActiveRecognizer().transcribe(Buffer.from(audioData.audioBuffer));
 
-      this.isProcessing = true;
-      
-      // For now, simulate speech recognition
-      // In production, integrate with Google Speech-to-Text, Azure Cognitive Services, or Apple's Speech framework
-      const simulatedTranscriptions = [
-        "Hello, how are you today?",
-        "Can you help me with something?",
-        "Thank you for your assistance.",
-        "I need directions to the nearest hospital.",
-        "What time does the store close?",
-        "It's a beautiful day outside.",
-        "I would like to order some food.",
-        "Where can I find the restroom?",
-        "Could you please speak more slowly?",
-        "I understand what you're saying."
-      ];
-
-      // Simulate processing delay for realism
-      await new Promise(resolve => setTimeout(resolve, 800 + Math.random() * 500));
-      
-      const randomText = simulatedTranscriptions[Math.floor(Math.random() * simulatedTranscriptions.length)];
-      const confidence = 0.85 + Math.random() * 0.1; // 85-95% confidence
-      
-      this.isProcessing = false;
-      
-      logger.info(`Speech recognized: "${randomText}" (confidence: ${confidence.toFixed(2)})`);
-      
-      return {
-        text: randomText,
-        confidence
-      };
+      logger.info(`Speech recognized: "${result.text}" (confidence: ${result.confidence.toFixed(2)}, ${result.words.length} words)`);
+
+      return result;
 
     } catch (error) {
-      this.isProcessing = false;
       logger.error('Error in speech-to-text processing:', error);
       throw error;
     }
   }
 
-  public async textToSpeech(text: string, options: TTSOptions = {}): Promise<string> {
-    try {
-      if (this.isProcessing) {
-        await this.waitForProcessing();
+  // Splits a clip at pauses and transcribes only the speech in it, one utterance at a time.
+  // Word times are relative to the whole clip. Empty when nobody spoke.
+  public async transcribeUtterances(audioData: VoiceData): Promise<RecognizedUtterance[]> {
+    const { samples, sampleRate } = await decodeForRecognition(Buffer.from(audioData.audioBuffer));
+    const spans = detectSpeechSpans(samples, sampleRate);
+    const recognizer = speechRecognizerRegistry.getActiveRecognizer();
+    const utterances: RecognizedUtterance[] = [];
+
+    for (const span of spans) {
+      const offset = span.start / sampleRate;
+      const result = await recognizer.transcribe(encodeWav(samples.subarray(span.start, span.end), sampleRate));
+      if (!result.text.trim()) {
+        continue;
       }
+      utterances.push({
+        ...result,
+        words: result.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset })),
+        startMs: Math.round(offset * 1000),
+        endMs: Math.round(span.end / sampleRate * 1000)
+      });
+    }
 
-      this.isProcessing = true;
-      
-      // Generate unique filename for audio output
-      const timestamp = Date.now();
-      this.tempFileCounter = (this.tempFileCounter + 1) % 1000;
-      const filename = `voice_${timestamp}_${this.tempFileCounter}.aiff`;
-      const outputPath = path.join(this.audioOutputDir, filename);
-      
-      // Configure voice settings
-      const voice = options.voice || this.voiceSettings.voice;
-      const rate = options.speed || this.voiceSettings.rate;
-      
-      // Use macOS 'say' command for high-quality natural speech
-      const sayCommand = `say "${text.replace(/"/g, '\\"')}" -v "${voice}" -r ${rate * 200} -o "${outputPath}"`;
-      
-      logger.info(`Generating speech: "${text}"`);
-      
-      try {
-        await execAsync(sayCommand);
-        
-        // Verify the file was created
-        await fs.access(outputPath);
-        
-        // Play the audio automatically (auto-play feature)
-        await this.playAudioFile(outputPath);
-        
-        this.isProcessing = false;
-        
-        logger.info(`Speech generated and played: ${filename}`);
-        
-        return outputPath;
-        
-      } catch (execError) {
-        logger.warn('macOS say command failed, using fallback TTS');
-        
-        // Fallback: Create a simple text-to-speech notification
-        await this.playTextAsSound(text);
-        
-        this.isProcessing = false;
-        return 'fallback_tts_used';
+    logger.info(`Recognized ${utterances.length} utterance(s) in ${(samples.length / sampleRate).toFixed(2)} s of audio ` +
+      `(${spans.length} speech span(s))`);
+    return utterances;
+  }
+
+  // Text, markup and voice names come from clients; throws SpeechInputError for anything unusable
+  public prepareSpeech(text: string, options: TTSOptions = {}): PreparedSpeech {
+    return prepareSpeechRequest(text, {
+      ...options,
+      speed: options.speed || this.voiceSettings.rate
+    }, this.getAvailableVoices());
+  }
+
+  // Sessions are serialized by SpeechQueueService; different sessions synthesize in parallel
+  public async textToSpeech(text: string, options: TTSOptions = {}): Promise<SynthesizedSpeech> {
+    const { text: speechText, segments, options: speechOptions } = this.prepareSpeech(text, options);
+
+    try {
+      logger.info(`Generating speech: "${speechText}"`);
+
+      const speech = await speechSynthesizerRegistry.getActiveSynthesizer().synthesize(speechText, speechOptions, segments);
+
+      if (this.kioskMode) {
+        // Generate unique filename for audio output
+        const timestamp = Date.now();
+        this.tempFileCounter = (this.tempFileCounter + 1) % 1000;
+        const filename = `voice_${timestamp}_${this.tempFileCounter}.${speech.format}`;
+        const outputPath = path.join(this.audioOutputDir, filename);
+
+        await fs.writeFile(outputPath, speech.audio);
+        await this.playAudioFile(outputPath, speech.format);
       }
 
+      logger.info(`Speech generated with ${speech.engine} (${speech.audio.length} bytes ${speech.format})`);
+
+      return speech;
+
     } catch (error) {
-      this.isProcessing = false;
       logger.error('Error in text-to-speech processing:', error);
       throw error;
     }
   }
 
-  public async generateVoiceFromGesture(gesture: string): Promise<string> {
+  // Question and emotion cues come from the signed sequence the gesture belongs to
+  public async generateVoiceFromGesture(
+    gesture: string,
+    language: string = DEFAULT_SIGN_LANGUAGE,
+    cues: { question?: boolean; emotion?: SpeechEmotion } = {}
+  ): Promise<{ text: string; speech: SynthesizedSpeech }> {
     try {
-      // Get natural voice translation for the recognized gesture
-      const voiceText = this.signToVoiceTranslations.get(gesture) || 
-                       this.generateFallbackVoiceText(gesture);
+      const voiceText = this.getGestureVoiceText(gesture, language);
       
       logger.info(`Converting gesture "${gesture}" to voice: "${voiceText}"`);
       
-      // Generate and auto-play the speech
-      const audioPath = await this.textToSpeech(voiceText);
+      const speech = await this.textToSpeech(voiceText, cues);
       
-      return voiceText;
+      return { text: voiceText, speech };
       
     } catch (error) {
       logger.error(`Error generating voice from gesture "${gesture}":`, error);
@@ -234,6 +161,16 @@ export class RealisticVoiceService {
     }
   }
 
+  // Natural voice translation for a recognized gesture
+  public getGestureVoiceText(gesture: string, language: string = DEFAULT_SIGN_LANGUAGE): string {
+    return signLexicon.getEntry(gesture, language)?.spoken || this.generateFallbackVoiceText(gesture);
+  }
+
+  // Known words and pronounceable names are read as words, anything else letter by letter
+  public getFingerspelledVoiceText(word: string, known: boolean, language: string = DEFAULT_SIGN_LANGUAGE): string {
+    return speakFingerspelledWord(word, known, getSpokenLanguage(language));
+  }
+
   private generateFallbackVoiceText(gesture: string): string {
     // Handle unknown gestures gracefully
     if (gesture === 'unknown' || !gesture) {
@@ -250,15 +187,19 @@ export class RealisticVoiceService {
     return `I see the gesture: ${readable}`;
   }
 
-  private async playAudioFile(audioPath: string): Promise<void> {
+  private async playAudioFile(audioPath: string, format: SpeechAudioFormat): Promise<void> {
     try {
-      // Auto-play the generated audio using macOS 'afplay'
-      const playCommand = `afplay "${audioPath}"`;
+      // afplay on macOS; elsewhere ALSA for WAV and ffplay for compressed audio
+      const [player, args] = process.platform === 'darwin'
+        ? ['afplay', [audioPath]]
+        : format === 'wav'
+          ? ['aplay', ['-q', audioPath]]
+          : ['ffplay', ['-nodisp', '-autoexit', '-loglevel', 'quiet', audioPath]];
       
       logger.info('Auto-playing generated voice...');
       
       // Play in background (non-blocking)
-      exec(playCommand, (error) => {
+      execFile(player, args, (error) => {
         if (error) {
           logger.warn('Failed to auto-play audio:', error.message);
         } else {
@@ -276,28 +217,6 @@ export class RealisticVoiceService {
     }
   }
 
-  private async playTextAsSound(text: string): Promise<void> {
-    try {
-      // Fallback: Use system notification sound or basic beep
-      const notification = `osascript -e 'display notification "${text}" with title "Sign Language Translation" sound name "Glass"'`;
-      
-      await execAsync(notification);
-      logger.info('Played fallback notification for:', text);
-      
-    } catch (error) {
-      logger.warn('Fallback sound notification failed:', error);
-    }
-  }
-
-  private async waitForProcessing(): Promise<void> {
-    const maxWait = 5000; // 5 seconds maximum wait
-    const startTime = Date.now();
-    
-    while (this.isProcessing && (Date.now() - startTime) < maxWait) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-  }
-
   private async cleanupTempFile(filePath: string): Promise<void> {
     try {
       await fs.unlink(filePath);
@@ -312,7 +231,7 @@ export class RealisticVoiceService {
       const files = await fs.readdir(this.audioOutputDir);
       
       for (const file of files) {
-        if (file.startsWith('voice_') && file.endsWith('.aiff')) {
+        if (file.startsWith('voice_')) {
           await this.cleanupTempFile(path.join(this.audioOutputDir, file));
         }
       }
@@ -324,55 +243,42 @@ export class RealisticVoiceService {
     }
   }
 
-  public validateAudioFormat(audioData: VoiceData): boolean {
-    if (!audioData || !audioData.audioBuffer) {
-      return false;
+  public isKioskMode(): boolean {
+    return this.kioskMode;
+  }
+
+  // Format, length and sample rate come from the container; the client's duration and
+  // sample rate are only checked against them. Throws AudioDecodeError.
+  public validateAudioFormat(audioData: VoiceData): AudioInfo {
+    if (!audioData || !(audioData.audioBuffer instanceof ArrayBuffer || Buffer.isBuffer(audioData.audioBuffer)) ||
+        audioData.audioBuffer.byteLength === 0) {
+      throw new AudioDecodeError('No audio data', 'UNSUPPORTED_FORMAT');
     }
-    
-    // Basic validation for audio data
-    const minDuration = 0.1; // 100ms minimum
-    const maxDuration = 30;  // 30 seconds maximum
-    const validSampleRates = [16000, 22050, 44100, 48000];
-    
-    return (
-      audioData.duration >= minDuration &&
-      audioData.duration <= maxDuration &&
-      validSampleRates.includes(audioData.sampleRate) &&
-      audioData.audioBuffer.byteLength > 0
-    );
+
+    return validateAudio(Buffer.from(audioData.audioBuffer), {
+      duration: typeof audioData.duration === 'number' ? audioData.duration : undefined,
+      sampleRate: typeof audioData.sampleRate === 'number' ? audioData.sampleRate : undefined
+    });
   }
 
+  // Languages with text normalization rules for numbers, dates and abbreviations
   public getSupportedLanguages(): string[] {
-    return [
-      'en-US', 'en-GB', 'en-AU',
-      'es-ES', 'es-MX',
-      'fr-FR', 'fr-CA',
-      'de-DE', 'it-IT',
-      'pt-BR', 'pt-PT',
-      'zh-CN', 'ja-JP'
-    ];
+    return getSpeechLocales();
   }
 
-  public getAvailableVoices(): Array<{ name: string; language: string; description: string }> {
-    return [
-      { name: 'Samantha', language: 'en-US', description: 'Natural American English female voice' },
-      { name: 'Alex', language: 'en-US', description: 'Natural American English male voice' },
-      { name: 'Victoria', language: 'en-US', description: 'Clear American English female voice' },
-      { name: 'Daniel', language: 'en-GB', description: 'British English male voice' },
-      { name: 'Serena', language: 'en-GB', description: 'British English female voice' },
-      { name: 'Jorge', language: 'es-ES', description: 'Spanish male voice' },
-      { name: 'Monica', language: 'es-ES', description: 'Spanish female voice' }
-    ];
+  // Voices of the active engine; names are what `TTSOptions.voice` accepts
+  public getAvailableVoices(): SynthesizerVoice[] {
+    return speechSynthesizerRegistry.getVoices();
   }
 
   public async dispose(): Promise<void> {
     logger.info('Disposing Realistic Voice Service...');
     
-    // Wait for any ongoing processing to complete
-    await this.waitForProcessing();
-    
     // Clean up all temporary files
     await this.cleanupAllTempFiles();
+
+    await speechRecognizerRegistry.dispose();
+    await speechSynthesizerRegistry.dispose();
     
     logger.info('Realistic Voice Service disposed');
   }
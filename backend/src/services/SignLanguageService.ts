@@ -3,33 +3,26 @@ import * as tf from '@tensorflow/tfjs-node';
 // import { Hands, Results } from '@mediapipe/hands';
 import Jimp from 'jimp';
 import { logger } from '../utils/logger.js';
-import type { SignLanguageData } from '../types/index.js';
+import { HandshapeClassifier, orderHands } from './HandshapeClassifier.js';
+import { signLexicon, DEFAULT_SIGN_LANGUAGE, type LexiconEntry } from './SignLexicon.js';
+import type { SignLanguageData, SignDetectionModel, SignDetectionInput, Handedness } from '../types/index.js';
 
 // Temporary interface for MediaPipe-like results
 interface MediaPipeResults {
   multiHandLandmarks?: Array<Array<{ x: number; y: number; z?: number }>>;
 }
 
-export class SignLanguageService {
+export class SignLanguageService implements SignDetectionModel {
+  public readonly name = 'basic';
   private handsModel: any = null; // Will be initialized with actual MediaPipe later
   private signClassifier: tf.LayersModel | null = null;
   private gestureBuffer: Array<{ landmarks: number[][], timestamp: number }> = [];
   private readonly bufferSize = 30; // Store last 30 frames for gesture recognition
   private readonly gestureThreshold = 0.7;
+  private readonly handshapeClassifier = new HandshapeClassifier();
 
-  // Basic sign language vocabulary mapping
-  private readonly signVocabulary = new Map([
-    ['hello', ['Wave hand up and down']],
-    ['thank_you', ['Touch fingertips to chin, move hand forward']],
-    ['please', ['Circular motion on chest with palm']],
-    ['yes', ['Nod hand up and down']],
-    ['no', ['Wave index finger side to side']],
-    ['help', ['Place one hand on the other, lift both']],
-    ['water', ['Tap index finger on chin three times']],
-    ['food', ['Touch fingertips to lips']],
-    ['more', ['Tap fingertips together repeatedly']],
-    ['finished', ['Shake both hands with palms facing down']]
-  ]);
+  // Signs the heuristic rules below can produce; two-handed signs come from the classifier
+  private readonly heuristicGestures = ['hello', 'thumbs_up', 'pointing'];
 
   public async initialize(): Promise<void> {
     try {
@@ -95,6 +88,27 @@ export class SignLanguageService {
     }
   }
 
+  public async predict(input: SignDetectionInput): Promise<SignLanguageData | null> {
+    if (!input.frame) {
+      return null;
+    }
+
+    const signData = await this.processFrame(input.frame);
+    if (!signData) {
+      return null;
+    }
+
+    const signLanguage = input.signLanguage || DEFAULT_SIGN_LANGUAGE;
+    const gestureResult = this.recognizeGesture(signData.landmarks, undefined, signLanguage);
+    signData.sessionId = input.sessionId;
+    signData.signLanguage = signLanguage;
+    if (gestureResult) {
+      signData.recognizedGesture = gestureResult.gesture;
+      signData.gestureDescription = this.getGestureDescription(gestureResult.gesture, signLanguage);
+    }
+    return signData;
+  }
+
   private generateSimulatedLandmarks(): number[][] {
     // Generate realistic-looking hand landmark data for demonstration
     // This simulates what MediaPipe would return
@@ -186,15 +200,28 @@ export class SignLanguageService {
     return Math.max(0, Math.min(1, confidence));
   }
 
-  public recognizeGesture(landmarks: number[][]): { gesture: string; confidence: number } | null {
+  public recognizeGesture(
+    landmarks: number[][],
+    handedness?: Handedness[],
+    signLanguage: string = DEFAULT_SIGN_LANGUAGE
+  ): { gesture: string; confidence: number } | null {
     // Simple gesture recognition based on hand positions
     // This is a simplified version - in production, you'd use a trained ML model
     
-    if (landmarks.length === 0 || landmarks[0].length < 21 * 3) {
+    const hands = orderHands(landmarks, handedness);
+    if (hands.length === 0) {
       return null;
     }
 
-    const handPoints = landmarks[0];
+    // Two-handed signs (help, more, finished) need both hands and their relative position
+    if (hands.length > 1) {
+      const twoHanded = this.handshapeClassifier.classifyTwoHanded(hands[0].points, hands[1].points, signLanguage);
+      if (twoHanded) {
+        return twoHanded;
+      }
+    }
+
+    const handPoints = hands[0].points;
     
     // Extract key landmark positions (simplified)
     const thumbTip = { x: handPoints[4 * 3], y: handPoints[4 * 3 + 1] };
@@ -218,9 +245,25 @@ export class SignLanguageService {
     return { gesture: 'unknown', confidence: 0.3 };
   }
 
-  public getGestureDescription(gesture: string): string {
-    const descriptions = this.signVocabulary.get(gesture);
-    return descriptions ? descriptions[0] : 'Unknown gesture';
+  public getGestureDescription(gesture: string, signLanguage: string = DEFAULT_SIGN_LANGUAGE): string {
+    const entry = signLexicon.getEntry(gesture, signLanguage);
+    return entry ? entry.description : 'Unknown gesture';
+  }
+
+  public getSupportedGestures(signLanguage: string = DEFAULT_SIGN_LANGUAGE): Array<{ name: string; description: string; confidence: number }> {
+    const gestures = [
+      ...this.heuristicGestures,
+      ...this.handshapeClassifier.getTwoHandedSpecs(signLanguage).map(spec => spec.gesture)
+    ];
+
+    return gestures
+      .map(gesture => signLexicon.getEntry(gesture, signLanguage))
+      .filter((entry): entry is LexiconEntry => !!entry)
+      .map(entry => ({
+        name: entry.id,
+        description: entry.description,
+        confidence: this.gestureThreshold
+      }));
   }
 
   public async dispose(): Promise<void> {
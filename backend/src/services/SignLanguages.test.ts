@@ -0,0 +1,53 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The shared lexicon reads SIGN_LEXICON_DIR when first used, so imports go to a scratch copy
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lexicon-'));
+for (const file of fs.readdirSync(path.join(__dirname, '../../lexicon'))) {
+  fs.copyFileSync(path.join(__dirname, '../../lexicon', file), path.join(directory, file));
+}
+process.env.SIGN_LEXICON_DIR = directory;
+
+let lexicon: typeof import('./SignLexicon.js');
+let languages: typeof import('./SignLanguages.js');
+
+describe('SignLanguages', () => {
+  beforeAll(async () => {
+    lexicon = await import('./SignLexicon.js');
+    languages = await import('./SignLanguages.js');
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['bsl', 'BSL'],
+    [' ASL ', 'ASL'],
+    ['xyz', null],
+    ['', null],
+    [42, null]
+  ])('resolves %p to %p', (code, resolved) => {
+    expect(languages.resolveSignLanguage(code)).toBe(resolved);
+  });
+
+  it('reads grammar and spoken language from the profile', () => {
+    expect(languages.getGlossGrammar('LSF').completive).toBeNull();
+    expect(languages.getSpokenLanguage('BSL')).toBe('en-GB');
+    expect(languages.getSignLanguage('isl')?.name).toBe('Irish Sign Language');
+  });
+
+  it('makes a language imported without a profile selectable', () => {
+    const asl = lexicon.signLexicon.exportLexicon('ASL')!;
+    lexicon.signLexicon.importLexicon({ ...asl, language: 'nzsl', entries: asl.entries.slice(0, 3) });
+
+    expect(languages.resolveSignLanguage('nzsl')).toBe('NZSL');
+    expect(languages.getSignLanguage('NZSL')).toEqual({
+      code: 'NZSL', name: 'NZSL', grammar: languages.getGlossGrammar('ASL'), spokenLanguage: 'en-US'
+    });
+
+    const available = languages.getAvailableSignLanguages().map(profile => profile.code);
+    expect(available).toEqual(['ASL', 'BSL', 'ISL', 'LSF', 'NZSL']);
+  });
+});
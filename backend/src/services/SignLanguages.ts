@@ -0,0 +1,91 @@
+import { signLexicon, DEFAULT_SIGN_LANGUAGE } from './SignLexicon.js';
+import { DEFAULT_GLOSS_GRAMMAR, type GlossGrammar } from './GlossTranslator.js';
+import { getManualAlphabet } from './ManualAlphabet.js';
+
+export interface SignLanguageProfile {
+  code: string;          // Matches the lexicon file's language: 'BSL'
+  name: string;
+  grammar: GlossGrammar;
+  spokenLanguage: string; // Fingerspelled words are read with this language's rules
+}
+
+// Sign languages a session can select. Each needs a lexicon file of the same
+// code; the fingerspelling alphabet comes from ManualAlphabet.
+const SIGN_LANGUAGE_PROFILES: SignLanguageProfile[] = [
+  {
+    code: 'ASL',
+    name: 'American Sign Language',
+    grammar: DEFAULT_GLOSS_GRAMMAR,
+    spokenLanguage: 'en-US'
+  },
+  {
+    code: 'BSL',
+    name: 'British Sign Language',
+    grammar: { completive: 'FINISH', negationLast: true, topicComment: true },
+    spokenLanguage: 'en-GB'
+  },
+  {
+    code: 'ISL',
+    name: 'Irish Sign Language',
+    grammar: { completive: 'FINISH', negationLast: true, topicComment: false },
+    spokenLanguage: 'en-IE'
+  },
+  {
+    code: 'LSF',
+    name: 'Langue des Signes Française',
+    grammar: { completive: null, negationLast: true, topicComment: true },
+    // The LSF lexicon's spoken phrases are English, so names are spelled out in English too
+    spokenLanguage: 'en-US'
+  }
+];
+
+const PROFILES_BY_CODE = new Map(SIGN_LANGUAGE_PROFILES.map(profile => [profile.code, profile]));
+
+// A lexicon imported for a language with no profile above is still selectable, with the
+// default grammar and English spelling, until a profile is added for it
+function defaultProfile(code: string): SignLanguageProfile {
+  return { code, name: code, grammar: DEFAULT_GLOSS_GRAMMAR, spokenLanguage: 'en-US' };
+}
+
+export function getSignLanguage(code: string): SignLanguageProfile | undefined {
+  const normalized = code.toUpperCase();
+  const profile = PROFILES_BY_CODE.get(normalized);
+  if (profile || !signLexicon.getLanguages().includes(normalized)) {
+    return profile;
+  }
+  return defaultProfile(normalized);
+}
+
+// Languages with a loaded lexicon, profiled ones first
+export function getAvailableSignLanguages(): Array<SignLanguageProfile & { twoHandedFingerspelling: boolean; lexiconVersion: string | null }> {
+  const loaded = signLexicon.getLanguages();
+  const profiles = [
+    ...SIGN_LANGUAGE_PROFILES.filter(profile => loaded.includes(profile.code)),
+    ...loaded.filter(code => !PROFILES_BY_CODE.has(code)).sort().map(defaultProfile)
+  ];
+
+  return profiles
+    .map(profile => ({
+      ...profile,
+      twoHandedFingerspelling: getManualAlphabet(profile.code).twoHanded,
+      lexiconVersion: signLexicon.getVersion(profile.code)
+    }));
+}
+
+// Normalizes a client-supplied code; null when no lexicon is loaded for the language
+export function resolveSignLanguage(code: unknown): string | null {
+  if (typeof code !== 'string' || !code.trim()) {
+    return null;
+  }
+
+  const normalized = code.trim().toUpperCase();
+  return signLexicon.getLanguages().includes(normalized) ? normalized : null;
+}
+
+export function getSpokenLanguage(code: string = DEFAULT_SIGN_LANGUAGE): string {
+  return getSignLanguage(code)?.spokenLanguage || 'en-US';
+}
+
+export function getGlossGrammar(code: string = DEFAULT_SIGN_LANGUAGE): GlossGrammar {
+  return getSignLanguage(code)?.grammar || DEFAULT_GLOSS_GRAMMAR;
+}
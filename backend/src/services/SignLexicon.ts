@@ -0,0 +1,563 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { MotionSequenceMatcher } from './MotionSequenceMatcher.js';
+import type {
+  FingerName, FingerState, ThumbState, PalmFacing, HandLocation, HandRelation
+} from './HandshapeClassifier.js';
+import type { LexiconChange, LexiconChangeAction } from '../types/index.js';
+
+export interface LexiconHandshape {
+  fingers: Record<FingerName, FingerState>;
+  thumb: ThumbState[];
+  thumbTouches?: FingerName;
+  spread?: boolean;
+  palm?: PalmFacing;
+  location?: HandLocation[];
+}
+
+export interface LexiconTwoHanded {
+  dominant: LexiconHandshape;
+  nonDominant: LexiconHandshape;
+  relation: HandRelation;
+  confidence?: number; // Overrides the entry confidence when both hands are seen
+}
+
+export interface LexiconKeyframe {
+  timestamp: number;
+  handPosition: { x: number; y: number; z: number };
+  fingerPositions: number[]; // Thumb, index, middle, ring, pinky; 1 = extended
+  description: string;
+}
+
+export interface LexiconAnimation {
+  description: string;
+  durationMs: number;
+  keyframes: LexiconKeyframe[];
+}
+
+export interface LexiconAvatarBone {
+  name: string;
+  position: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number };
+}
+
+export interface LexiconAvatarPose {
+  duration: number;
+  facialExpression?: string;
+  bones: LexiconAvatarBone[];
+}
+
+export interface LexiconEntry {
+  id: string;               // Gesture label used across the services: 'thank_you'
+  gloss: string;            // ASL gloss: 'THANK-YOU'
+  english: string[];        // Words and phrases that map to the sign, canonical rendering first
+  description: string;
+  category: string;
+  confidence: number;       // Base recognition confidence
+  handshape?: LexiconHandshape;
+  twoHanded?: LexiconTwoHanded;
+  motion?: string;          // MotionSequenceMatcher template
+  animation?: LexiconAnimation;
+  avatar?: LexiconAvatarPose[];
+  spoken: string;           // Natural phrase spoken when the sign is recognized
+}
+
+export interface LexiconFile {
+  schemaVersion: number;
+  version: string;
+  language: string;
+  description?: string;
+  entries: LexiconEntry[];
+}
+
+interface LoadedLexicon {
+  file: LexiconFile;
+  source: string;
+  byId: Map<string, LexiconEntry>;
+  byGloss: Map<string, LexiconEntry>;
+}
+
+export type LexiconImportMode = 'merge' | 'replace';
+
+export class LexiconValidationError extends Error {
+  constructor(public readonly source: string, public readonly issues: string[]) {
+    super(`Invalid sign lexicon ${source}: ${issues.slice(0, 5).join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`);
+    this.name = 'LexiconValidationError';
+  }
+}
+
+export const LEXICON_SCHEMA_VERSION = 1;
+export const DEFAULT_SIGN_LANGUAGE = 'ASL';
+
+const FINGER_NAMES: FingerName[] = ['index', 'middle', 'ring', 'pinky'];
+const FINGER_STATES: FingerState[] = ['extended', 'bent', 'curled'];
+const THUMB_STATES: ThumbState[] = ['out', 'side', 'across', 'touch'];
+const PALM_FACINGS: PalmFacing[] = ['forward', 'side'];
+const HAND_LOCATIONS: HandLocation[] = ['head', 'mouth', 'chest', 'low'];
+const HAND_RELATIONS: HandRelation[] = ['stacked', 'tips_touching', 'side_by_side'];
+const SUPPORTED_MOTIONS = new MotionSequenceMatcher().getSupportedMotions();
+const ID_PATTERN = /^[a-z0-9]+(_[a-z0-9]+)*$/;
+// Also names the lexicon file, so nothing that could leave the lexicon directory
+const LANGUAGE_PATTERN = /^[a-z]{2,8}$/i;
+
+// Checks a parsed lexicon document against the schema, collecting every problem instead of stopping at the first
+export function validateLexicon(data: unknown, source: string = 'lexicon'): LexiconFile {
+  if (!isObject(data)) {
+    throw new LexiconValidationError(source, ['document must be an object']);
+  }
+
+  const issues: string[] = [];
+  const check = checker(issues);
+
+  check(data.schemaVersion === LEXICON_SCHEMA_VERSION,
+    `schemaVersion must be ${LEXICON_SCHEMA_VERSION} (found ${JSON.stringify(data.schemaVersion)})`);
+  check(isNonEmptyString(data.version), 'version must be a non-empty string');
+  check(isNonEmptyString(data.language), 'language must be a non-empty string');
+  check(data.description === undefined || typeof data.description === 'string', 'description must be a string');
+
+  if (check(Array.isArray(data.entries), 'entries must be an array')) {
+    const ids = new Set<string>();
+    const glosses = new Set<string>();
+
+    (data.entries as unknown[]).forEach((entry, index) => {
+      const at = `entries[${index}]`;
+      validateEntry(entry, at, issues);
+      if (!isObject(entry)) {
+        return;
+      }
+
+      if (typeof entry.id === 'string') {
+        check(!ids.has(entry.id), `${at}.id "${entry.id}" is duplicated`);
+        ids.add(entry.id);
+      }
+      if (typeof entry.gloss === 'string') {
+        const gloss = entry.gloss.toUpperCase();
+        check(!glosses.has(gloss), `${at}.gloss "${entry.gloss}" is duplicated`);
+        glosses.add(gloss);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new LexiconValidationError(source, issues);
+  }
+  return data as unknown as LexiconFile;
+}
+
+// Checks a single entry; document-level rules such as unique ids are left to validateLexicon
+export function validateLexiconEntry(data: unknown, source: string = 'entry'): LexiconEntry {
+  const issues: string[] = [];
+  validateEntry(data, 'entry', issues);
+  if (issues.length > 0) {
+    throw new LexiconValidationError(source, issues);
+  }
+  return data as LexiconEntry;
+}
+
+function validateEntry(entry: unknown, at: string, issues: string[]): void {
+  if (!isObject(entry)) {
+    issues.push(`${at} must be an object`);
+    return;
+  }
+
+  const check = checker(issues);
+  check(typeof entry.id === 'string' && ID_PATTERN.test(entry.id), `${at}.id must be a lowercase snake_case label`);
+  check(isNonEmptyString(entry.gloss), `${at}.gloss must be a non-empty string`);
+  check(Array.isArray(entry.english) && entry.english.length > 0 && entry.english.every(isNonEmptyString),
+    `${at}.english must be a non-empty array of strings`);
+  check(isNonEmptyString(entry.description), `${at}.description must be a non-empty string`);
+  check(isNonEmptyString(entry.category), `${at}.category must be a non-empty string`);
+  check(isUnitNumber(entry.confidence), `${at}.confidence must be a number between 0 and 1`);
+  check(isNonEmptyString(entry.spoken), `${at}.spoken must be a non-empty string`);
+
+  if (entry.handshape !== undefined) {
+    validateHandshape(entry.handshape, `${at}.handshape`, issues);
+  }
+  if (entry.twoHanded !== undefined) {
+    validateTwoHanded(entry.twoHanded, `${at}.twoHanded`, issues);
+  }
+  if (entry.motion !== undefined) {
+    check(SUPPORTED_MOTIONS.includes(entry.motion as string),
+      `${at}.motion must be one of ${SUPPORTED_MOTIONS.join(', ')}`);
+  }
+  if (entry.animation !== undefined) {
+    validateAnimation(entry.animation, `${at}.animation`, issues);
+  }
+  if (entry.avatar !== undefined) {
+    validateAvatar(entry.avatar, `${at}.avatar`, issues);
+  }
+}
+
+// Records the issue when the condition fails and passes the condition through
+function checker(issues: string[]): (condition: boolean, issue: string) => boolean {
+  return (condition, issue) => {
+    if (!condition) {
+      issues.push(issue);
+    }
+    return condition;
+  };
+}
+
+function validateTwoHanded(value: unknown, at: string, issues: string[]): void {
+  if (!isObject(value)) {
+    issues.push(`${at} must be an object`);
+    return;
+  }
+
+  const check = checker(issues);
+  validateHandshape(value.dominant, `${at}.dominant`, issues);
+  validateHandshape(value.nonDominant, `${at}.nonDominant`, issues);
+  check(HAND_RELATIONS.includes(value.relation as HandRelation), `${at}.relation must be one of ${HAND_RELATIONS.join(', ')}`);
+  check(value.confidence === undefined || isUnitNumber(value.confidence), `${at}.confidence must be a number between 0 and 1`);
+}
+
+function validateHandshape(value: unknown, at: string, issues: string[]): void {
+  if (!isObject(value)) {
+    issues.push(`${at} must be an object`);
+    return;
+  }
+
+  const check = checker(issues);
+  if (check(isObject(value.fingers), `${at}.fingers must be an object`)) {
+    const fingers = value.fingers as Record<string, unknown>;
+    for (const finger of FINGER_NAMES) {
+      check(FINGER_STATES.includes(fingers[finger] as FingerState),
+        `${at}.fingers.${finger} must be one of ${FINGER_STATES.join(', ')}`);
+    }
+  }
+  check(Array.isArray(value.thumb) && value.thumb.length > 0 &&
+    value.thumb.every(state => THUMB_STATES.includes(state as ThumbState)),
+    `${at}.thumb must be a non-empty array of ${THUMB_STATES.join(', ')}`);
+  check(value.thumbTouches === undefined || FINGER_NAMES.includes(value.thumbTouches as FingerName),
+    `${at}.thumbTouches must be one of ${FINGER_NAMES.join(', ')}`);
+  check(value.spread === undefined || typeof value.spread === 'boolean', `${at}.spread must be a boolean`);
+  check(value.palm === undefined || PALM_FACINGS.includes(value.palm as PalmFacing),
+    `${at}.palm must be one of ${PALM_FACINGS.join(', ')}`);
+  check(value.location === undefined || (Array.isArray(value.location) &&
+    value.location.every(location => HAND_LOCATIONS.includes(location as HandLocation))),
+    `${at}.location must be an array of ${HAND_LOCATIONS.join(', ')}`);
+}
+
+function validateAnimation(value: unknown, at: string, issues: string[]): void {
+  if (!isObject(value)) {
+    issues.push(`${at} must be an object`);
+    return;
+  }
+
+  const check = checker(issues);
+  check(isNonEmptyString(value.description), `${at}.description must be a non-empty string`);
+  check(isNonNegativeNumber(value.durationMs), `${at}.durationMs must be a non-negative number`);
+  if (!Array.isArray(value.keyframes) || value.keyframes.length === 0) {
+    issues.push(`${at}.keyframes must be a non-empty array`);
+    return;
+  }
+
+  (value.keyframes as unknown[]).forEach((keyframe, index) => {
+    const frameAt = `${at}.keyframes[${index}]`;
+    if (!isObject(keyframe)) {
+      issues.push(`${frameAt} must be an object`);
+      return;
+    }
+    check(isNonNegativeNumber(keyframe.timestamp), `${frameAt}.timestamp must be a non-negative number`);
+    check(isVector(keyframe.handPosition), `${frameAt}.handPosition must be an {x, y, z} object`);
+    check(Array.isArray(keyframe.fingerPositions) && keyframe.fingerPositions.length === 5 &&
+      keyframe.fingerPositions.every(isUnitNumber), `${frameAt}.fingerPositions must be five numbers between 0 and 1`);
+    check(typeof keyframe.description === 'string', `${frameAt}.description must be a string`);
+  });
+}
+
+function validateAvatar(value: unknown, at: string, issues: string[]): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push(`${at} must be a non-empty array of poses`);
+    return;
+  }
+
+  const check = checker(issues);
+
+  (value as unknown[]).forEach((pose, index) => {
+    const poseAt = `${at}[${index}]`;
+    if (!isObject(pose)) {
+      issues.push(`${poseAt} must be an object`);
+      return;
+    }
+    check(isNonNegativeNumber(pose.duration), `${poseAt}.duration must be a non-negative number`);
+    check(pose.facialExpression === undefined || typeof pose.facialExpression === 'string',
+      `${poseAt}.facialExpression must be a string`);
+    check(Array.isArray(pose.bones) && pose.bones.every(bone =>
+      isObject(bone) && isNonEmptyString(bone.name) && isVector(bone.position) && isVector(bone.rotation)),
+      `${poseAt}.bones must be an array of {name, position, rotation}`);
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isUnitNumber(value: unknown): value is number {
+  return isNonNegativeNumber(value) && value <= 1;
+}
+
+function isVector(value: unknown): boolean {
+  return isObject(value) && ['x', 'y', 'z'].every(axis => typeof value[axis] === 'number' && Number.isFinite(value[axis]));
+}
+
+// Loads every *.json lexicon in the lexicon directory, one file per sign language
+export class SignLexicon {
+  private lexicons: Map<string, LoadedLexicon> = new Map();
+  private listeners: Set<(change: LexiconChange) => void> = new Set();
+  private loaded = false;
+  private readonly directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || process.env.SIGN_LEXICON_DIR || path.join(process.cwd(), 'lexicon');
+  }
+
+  // Reads and validates all files; the current lexicons stay in place if any file is invalid
+  public load(): void {
+    const lexicons = new Map<string, LoadedLexicon>();
+    const files = fs.readdirSync(this.directory).filter(file => file.endsWith('.json')).sort();
+
+    for (const file of files) {
+      const source = path.join(this.directory, file);
+      let data: unknown;
+      try {
+        data = JSON.parse(fs.readFileSync(source, 'utf8'));
+      } catch (error) {
+        throw new LexiconValidationError(source, [`not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+      }
+
+      const lexicon = validateLexicon(data, source);
+      const language = lexicon.language.toUpperCase();
+      if (lexicons.has(language)) {
+        throw new LexiconValidationError(source, [`language ${language} is already defined in ${lexicons.get(language)!.source}`]);
+      }
+
+      lexicons.set(language, indexLexicon(lexicon, source));
+    }
+
+    if (!lexicons.has(DEFAULT_SIGN_LANGUAGE)) {
+      throw new Error(`No ${DEFAULT_SIGN_LANGUAGE} lexicon found in ${this.directory}`);
+    }
+
+    this.lexicons = lexicons;
+    this.loaded = true;
+
+    for (const [language, lexicon] of lexicons) {
+      logger.info(`Loaded ${language} sign lexicon v${lexicon.file.version} (${lexicon.file.entries.length} entries)`);
+    }
+  }
+
+  // Re-reads the lexicon directory and tells listeners about every language now loaded
+  public reload(): void {
+    this.load();
+    for (const [language, lexicon] of this.lexicons) {
+      this.emitChange({ language, version: lexicon.file.version, action: 'reload', ids: [] });
+    }
+  }
+
+  // Registers a listener for vocabulary changes and returns a function that removes it
+  public onChange(listener: (change: LexiconChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public getLanguages(): string[] {
+    this.ensureLoaded();
+    return Array.from(this.lexicons.keys());
+  }
+
+  public getVersion(language: string = DEFAULT_SIGN_LANGUAGE): string | null {
+    return this.getLexicon(language)?.file.version || null;
+  }
+
+  public getEntries(language: string = DEFAULT_SIGN_LANGUAGE): LexiconEntry[] {
+    return this.getLexicon(language)?.file.entries || [];
+  }
+
+  public getEntry(id: string, language: string = DEFAULT_SIGN_LANGUAGE): LexiconEntry | undefined {
+    return this.getLexicon(language)?.byId.get(id);
+  }
+
+  // Accepts either the gloss (THANK-YOU) or the gesture label (thank_you)
+  public getEntryByGloss(gloss: string, language: string = DEFAULT_SIGN_LANGUAGE): LexiconEntry | undefined {
+    const lexicon = this.getLexicon(language);
+    return lexicon?.byGloss.get(gloss.toUpperCase()) || lexicon?.byId.get(gloss.toLowerCase().replace(/-/g, '_'));
+  }
+
+  // Finds the sign whose English wording appears in the text, preferring the longest phrase
+  public findInText(text: string, language: string = DEFAULT_SIGN_LANGUAGE): LexiconEntry | null {
+    const normalized = text.toLowerCase().replace(/’/g, "'").trim();
+    let best: { entry: LexiconEntry; length: number } | null = null;
+
+    for (const entry of this.getEntries(language)) {
+      for (const phrase of entry.english) {
+        const candidate = phrase.toLowerCase();
+        // Single letters only count when they are the whole text
+        const matches = candidate === normalized ||
+          (candidate.length > 1 && new RegExp(`(^|[^a-z0-9'])${escapeRegExp(candidate)}($|[^a-z0-9'])`).test(normalized));
+
+        if (matches && (!best || candidate.length > best.length)) {
+          best = { entry, length: candidate.length };
+        }
+      }
+    }
+
+    return best ? best.entry : null;
+  }
+
+  public createEntry(data: unknown, language: string = DEFAULT_SIGN_LANGUAGE): LexiconEntry {
+    const entry = validateLexiconEntry(data);
+    const lexicon = this.requireLexicon(language);
+    this.commit(lexicon, [...lexicon.file.entries, entry], 'create', [entry.id]);
+    return entry;
+  }
+
+  // Replaces an entry wholesale; the id in the path wins over any id in the body
+  public updateEntry(id: string, data: unknown, language: string = DEFAULT_SIGN_LANGUAGE): LexiconEntry | null {
+    const lexicon = this.requireLexicon(language);
+    if (!lexicon.byId.has(id)) {
+      return null;
+    }
+
+    const entry = validateLexiconEntry(isObject(data) ? { ...data, id } : data);
+    this.commit(lexicon, lexicon.file.entries.map(existing => existing.id === id ? entry : existing), 'update', [id]);
+    return entry;
+  }
+
+  public deleteEntry(id: string, language: string = DEFAULT_SIGN_LANGUAGE): boolean {
+    const lexicon = this.requireLexicon(language);
+    if (!lexicon.byId.has(id)) {
+      return false;
+    }
+
+    this.commit(lexicon, lexicon.file.entries.filter(entry => entry.id !== id), 'delete', [id]);
+    return true;
+  }
+
+  // Merging keeps existing signs and overwrites those with the same id; replacing swaps the whole pack
+  public importLexicon(data: unknown, mode: LexiconImportMode = 'merge'): LexiconFile {
+    const pack = validateLexicon(data, 'import');
+    const language = pack.language.toUpperCase();
+    const existing = this.getLexicon(language);
+    const ids = pack.entries.map(entry => entry.id);
+
+    if (!existing) {
+      if (!LANGUAGE_PATTERN.test(language)) {
+        throw new LexiconValidationError('import', [`language must be 2 to 8 letters (found ${JSON.stringify(pack.language)})`]);
+      }
+      const directory = path.resolve(this.directory);
+      const source = path.join(directory, `${language.toLowerCase()}.json`);
+      if (path.dirname(source) !== directory) {
+        throw new LexiconValidationError('import', [`language ${language} does not name a file in the lexicon directory`]);
+      }
+      if (fs.existsSync(source)) {
+        throw new LexiconValidationError('import', [`${source} already exists but does not define ${language}`]);
+      }
+      const file: LexiconFile = { ...pack, language };
+      this.write(source, file);
+      this.lexicons.set(language, indexLexicon(file, source));
+      this.emitChange({ language, version: file.version, action: 'import', ids });
+      return file;
+    }
+
+    if (mode === 'replace') {
+      const file = validateLexicon({ ...pack, language: existing.file.language }, existing.source);
+      this.write(existing.source, file);
+      this.lexicons.set(language, indexLexicon(file, existing.source));
+      this.emitChange({ language, version: file.version, action: 'import', ids });
+      return file;
+    }
+
+    const imported = new Map(pack.entries.map(entry => [entry.id, entry]));
+    const entries = [
+      ...existing.file.entries.map(entry => imported.get(entry.id) || entry),
+      ...pack.entries.filter(entry => !existing.byId.has(entry.id))
+    ];
+    return this.commit(existing, entries, 'import', ids);
+  }
+
+  public exportLexicon(language: string = DEFAULT_SIGN_LANGUAGE): LexiconFile | null {
+    const lexicon = this.getLexicon(language);
+    return lexicon ? JSON.parse(JSON.stringify(lexicon.file)) as LexiconFile : null;
+  }
+
+  // Validates the edited document, writes it to disk and only then swaps it in, bumping the patch version
+  private commit(lexicon: LoadedLexicon, entries: LexiconEntry[], action: LexiconChangeAction, ids: string[]): LexiconFile {
+    const file = validateLexicon({ ...lexicon.file, version: bumpPatchVersion(lexicon.file.version), entries }, lexicon.source);
+    const language = file.language.toUpperCase();
+
+    this.write(lexicon.source, file);
+    this.lexicons.set(language, indexLexicon(file, lexicon.source));
+    this.emitChange({ language, version: file.version, action, ids });
+    return file;
+  }
+
+  // Writes through a temporary file so a crash never leaves a half-written lexicon behind
+  private write(source: string, file: LexiconFile): void {
+    const temporary = `${source}.tmp`;
+    fs.writeFileSync(temporary, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+    fs.renameSync(temporary, source);
+  }
+
+  private emitChange(change: LexiconChange): void {
+    logger.info(`Sign lexicon ${change.language} ${change.action} -> v${change.version}`, { ids: change.ids });
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        logger.error('Sign lexicon change listener failed:', error);
+      }
+    }
+  }
+
+  private requireLexicon(language: string): LoadedLexicon {
+    const lexicon = this.getLexicon(language);
+    if (!lexicon) {
+      throw new Error(`No ${language.toUpperCase()} sign lexicon is loaded`);
+    }
+    return lexicon;
+  }
+
+  private getLexicon(language: string): LoadedLexicon | undefined {
+    this.ensureLoaded();
+    return this.lexicons.get(language.toUpperCase());
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) {
+      this.load();
+    }
+  }
+}
+
+function indexLexicon(file: LexiconFile, source: string): LoadedLexicon {
+  return {
+    file,
+    source,
+    byId: new Map(file.entries.map(entry => [entry.id, entry])),
+    byGloss: new Map(file.entries.map(entry => [entry.gloss.toUpperCase(), entry]))
+  };
+}
+
+// 1.0.3 -> 1.0.4; versions that are not plain semver are left alone
+function bumpPatchVersion(version: string): string {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version);
+  return match ? `${match[1]}.${match[2]}.${Number(match[3]) + 1}` : version;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export const signLexicon = new SignLexicon();
@@ -0,0 +1,109 @@
+import { logger } from '../utils/logger.js';
+import { SimpleRealisticSignLanguageService } from './SimpleRealisticSignLanguageService.js';
+import { LandmarkSignLanguageService } from './LandmarkSignLanguageService.js';
+import type { SignDetectionModel } from '../types/index.js';
+
+type SignModelFactory = () => Promise<SignDetectionModel>;
+
+// Backends that need TensorFlow are imported lazily so the native bindings
+// are only loaded when one of them is actually selected.
+const SIGN_MODEL_FACTORIES: Record<string, { description: string; create: SignModelFactory }> = {
+  simulator: {
+    description: 'Randomized gesture simulation, no camera input required',
+    create: async () => new SimpleRealisticSignLanguageService()
+  },
+  landmark: {
+    description: 'Deterministic handshape classifier over client-supplied hand landmarks',
+    create: async () => new LandmarkSignLanguageService()
+  },
+  handpose: {
+    description: 'TensorFlow.js handpose detection on raw video frames',
+    create: async () => {
+      const { RealisticSignLanguageService } = await import('./RealisticSignLanguageService.js');
+      return new RealisticSignLanguageService();
+    }
+  },
+  basic: {
+    description: 'Simulated landmarks with heuristic gesture rules',
+    create: async () => {
+      const { SignLanguageService } = await import('./SignLanguageService.js');
+      return new SignLanguageService();
+    }
+  }
+};
+
+const DEFAULT_SIGN_MODEL = 'simulator';
+
+export class SignModelRegistry {
+  private activeModel: SignDetectionModel | null = null;
+
+  public getAvailableModels(): Array<{ name: string; description: string }> {
+    return Object.entries(SIGN_MODEL_FACTORIES).map(([name, entry]) => ({
+      name,
+      description: entry.description
+    }));
+  }
+
+  public hasModel(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(SIGN_MODEL_FACTORIES, name);
+  }
+
+  public async initialize(): Promise<void> {
+    if (this.activeModel) {
+      return;
+    }
+
+    const requested = process.env.SIGN_RECOGNIZER || DEFAULT_SIGN_MODEL;
+    if (!this.hasModel(requested)) {
+      logger.warn(`Unknown SIGN_RECOGNIZER "${requested}", falling back to ${DEFAULT_SIGN_MODEL}`);
+    }
+
+    await this.setActiveModel(this.hasModel(requested) ? requested : DEFAULT_SIGN_MODEL);
+  }
+
+  public getActiveModel(): SignDetectionModel {
+    if (!this.activeModel) {
+      throw new Error('Sign detection model not initialized');
+    }
+    return this.activeModel;
+  }
+
+  public getActiveModelName(): string | null {
+    return this.activeModel ? this.activeModel.name : null;
+  }
+
+  public async setActiveModel(name: string): Promise<SignDetectionModel> {
+    if (!this.hasModel(name)) {
+      throw new Error(`Unknown sign detection model: ${name}`);
+    }
+
+    if (this.activeModel && this.activeModel.name === name) {
+      return this.activeModel;
+    }
+
+    logger.info(`Loading sign detection model: ${name}`);
+
+    // The previous model keeps serving frames until the new one is ready
+    const model = await SIGN_MODEL_FACTORIES[name].create();
+    await model.initialize();
+
+    const previous = this.activeModel;
+    this.activeModel = model;
+
+    if (previous) {
+      await previous.dispose();
+    }
+
+    logger.info(`Sign detection model active: ${name}`);
+    return model;
+  }
+
+  public async dispose(): Promise<void> {
+    if (this.activeModel) {
+      await this.activeModel.dispose();
+      this.activeModel = null;
+    }
+  }
+}
+
+export const signModelRegistry = new SignModelRegistry();
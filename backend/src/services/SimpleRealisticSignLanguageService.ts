@@ -1,94 +1,13 @@
 import { logger } from '../utils/logger.js';
-import type { SignLanguageData } from '../types/index.js';
+import { signLexicon, DEFAULT_SIGN_LANGUAGE, type LexiconEntry } from './SignLexicon.js';
+import type { SignLanguageData, SignDetectionModel, SignDetectionInput } from '../types/index.js';
 
-interface GesturePattern {
-  name: string;
-  description: string;
-  confidence: number;
-  landmarks?: number[][];
-}
-
-export class SimpleRealisticSignLanguageService {
+export class SimpleRealisticSignLanguageService implements SignDetectionModel {
+  public readonly name = 'simulator';
   private gestureBuffer: Array<{ landmarks: number[][], timestamp: number, gesture?: string }> = [];
   private readonly bufferSize = 10;
   private readonly confidenceThreshold = 0.7;
 
-  // Realistic ASL gesture vocabulary (without TensorFlow dependency for now)
-  private readonly aslGestures = new Map<string, GesturePattern>([
-    ['hello', {
-      name: 'hello',
-      description: 'Open palm, fingers extended, gentle wave motion',
-      confidence: 0.9
-    }],
-    ['goodbye', {
-      name: 'goodbye',
-      description: 'Palm facing out, fingers closing and opening',
-      confidence: 0.85
-    }],
-    ['thank_you', {
-      name: 'thank_you',
-      description: 'Fingertips touch lips, then move forward',
-      confidence: 0.8
-    }],
-    ['please', {
-      name: 'please',
-      description: 'Open palm on chest, circular motion',
-      confidence: 0.75
-    }],
-    ['yes', {
-      name: 'yes',
-      description: 'Fist nodding up and down',
-      confidence: 0.85
-    }],
-    ['no', {
-      name: 'no',
-      description: 'Index and middle finger extended, side to side motion',
-      confidence: 0.8
-    }],
-    ['help', {
-      name: 'help',
-      description: 'One hand supports the other, both lift up',
-      confidence: 0.7
-    }],
-    ['stop', {
-      name: 'stop',
-      description: 'Palm forward, fingers up, firm gesture',
-      confidence: 0.9
-    }],
-    ['water', {
-      name: 'water',
-      description: 'W handshape near mouth',
-      confidence: 0.8
-    }],
-    ['food', {
-      name: 'food',
-      description: 'Fingertips to mouth',
-      confidence: 0.8
-    }],
-    ['sorry', {
-      name: 'sorry',
-      description: 'Fist on chest, circular motion',
-      confidence: 0.8
-    }],
-    ['i_love_you', {
-      name: 'i_love_you',
-      description: 'Pinky, index, and thumb extended',
-      confidence: 0.9
-    }],
-    
-    // Numbers
-    ['one', { name: 'one', description: 'Index finger up', confidence: 0.95 }],
-    ['two', { name: 'two', description: 'Index and middle finger up', confidence: 0.95 }],
-    ['three', { name: 'three', description: 'Thumb, index, middle finger up', confidence: 0.9 }],
-    ['four', { name: 'four', description: 'Four fingers up, thumb tucked', confidence: 0.9 }],
-    ['five', { name: 'five', description: 'All fingers extended', confidence: 0.95 }],
-    
-    // Letters
-    ['a', { name: 'a', description: 'Closed fist with thumb beside', confidence: 0.8 }],
-    ['b', { name: 'b', description: 'Flat hand, fingers up', confidence: 0.85 }],
-    ['c', { name: 'c', description: 'Curved hand forming C shape', confidence: 0.8 }]
-  ]);
-
   public async initialize(): Promise<void> {
     try {
       logger.info('Initializing Simple Realistic Sign Language Service...');
@@ -103,7 +22,7 @@ export class SimpleRealisticSignLanguageService {
     }
   }
 
-  public async processFrame(frameData: string): Promise<SignLanguageData | null> {
+  public async processFrame(frameData: string, signLanguage: string = DEFAULT_SIGN_LANGUAGE): Promise<SignLanguageData | null> {
     try {
       // Simulate realistic sign language detection with varying results
       const shouldDetectGesture = Math.random() > 0.7; // 30% chance of detection
@@ -113,9 +32,12 @@ export class SimpleRealisticSignLanguageService {
       }
 
       // Simulate realistic gesture recognition
-      const gestureNames = Array.from(this.aslGestures.keys());
-      const randomGesture = gestureNames[Math.floor(Math.random() * gestureNames.length)];
-      const gestureInfo = this.aslGestures.get(randomGesture)!;
+      const gestures = this.getSimulatedGestures(signLanguage);
+      if (gestures.length === 0) {
+        return null;
+      }
+      const gestureInfo = gestures[Math.floor(Math.random() * gestures.length)];
+      const randomGesture = gestureInfo.id;
       
       // Generate simulated but realistic hand landmarks
       const landmarks = this.generateRealisticLandmarks();
@@ -139,7 +61,8 @@ export class SimpleRealisticSignLanguageService {
         timestamp: Date.now(),
         sessionId: '', // Will be set by caller
         recognizedGesture: randomGesture,
-        gestureDescription: gestureInfo.description
+        gestureDescription: gestureInfo.description,
+        signLanguage
       };
 
     } catch (error) {
@@ -148,6 +71,18 @@ export class SimpleRealisticSignLanguageService {
     }
   }
 
+  public async predict(input: SignDetectionInput): Promise<SignLanguageData | null> {
+    if (!input.frame) {
+      return null;
+    }
+
+    const signData = await this.processFrame(input.frame, input.signLanguage);
+    if (signData) {
+      signData.sessionId = input.sessionId;
+    }
+    return signData;
+  }
+
   private generateRealisticLandmarks(): number[][] {
     // Generate 21 hand landmarks (MediaPipe format) with realistic positions
     const landmarks: number[] = [];
@@ -211,16 +146,21 @@ export class SimpleRealisticSignLanguageService {
     return Math.max(0.1, Math.min(1.0, baseConfidence + variance));
   }
 
-  public getGestureDescription(gesture: string): string {
-    const gestureData = this.aslGestures.get(gesture);
-    return gestureData ? gestureData.description : 'Unknown gesture';
+  // Lexicon signs with a static handshape, the ones a single camera frame could show
+  private getSimulatedGestures(signLanguage: string): LexiconEntry[] {
+    return signLexicon.getEntries(signLanguage).filter(entry => entry.handshape);
+  }
+
+  public getGestureDescription(gesture: string, signLanguage: string = DEFAULT_SIGN_LANGUAGE): string {
+    const entry = signLexicon.getEntry(gesture, signLanguage);
+    return entry ? entry.description : 'Unknown gesture';
   }
 
-  public getSupportedGestures(): Array<{ name: string; description: string; confidence: number }> {
-    return Array.from(this.aslGestures.entries()).map(([name, data]) => ({
-      name,
-      description: data.description,
-      confidence: data.confidence
+  public getSupportedGestures(signLanguage: string = DEFAULT_SIGN_LANGUAGE): Array<{ name: string; description: string; confidence: number }> {
+    return this.getSimulatedGestures(signLanguage).map(entry => ({
+      name: entry.id,
+      description: entry.description,
+      confidence: entry.confidence
     }));
   }
 
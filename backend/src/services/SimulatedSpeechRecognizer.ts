@@ -0,0 +1,61 @@
+import { logger } from '../utils/logger.js';
+import { decodeForRecognition } from './AudioDecoder.js';
+import type { SpeechRecognizer, SpeechRecognitionResult } from '../types/index.js';
+
+// Canned transcriptions for development machines without a local speech model
+const SIMULATED_TRANSCRIPTIONS = [
+  "Hello, how are you today?",
+  "Can you help me with something?",
+  "Thank you for your assistance.",
+  "I need directions to the nearest hospital.",
+  "What time does the store close?",
+  "It's a beautiful day outside.",
+  "I would like to order some food.",
+  "Where can I find the restroom?",
+  "Could you please speak more slowly?",
+  "I understand what you're saying."
+];
+
+export class SimulatedSpeechRecognizer implements SpeechRecognizer {
+  public readonly name = 'simulator';
+  private readonly secondsPerWord = 0.35;
+
+  public async initialize(): Promise<void> {
+    logger.info('Speech recognition will use simulation mode');
+  }
+
+  // The opening audio picks the sentence and the audio length how much of it has been
+  // "heard", so a growing stream yields growing, consistent partial transcripts
+  public async transcribe(audio: Buffer): Promise<SpeechRecognitionResult> {
+    let sentenceIndex = Math.floor(Math.random() * SIMULATED_TRANSCRIPTIONS.length);
+    let heardSeconds = Infinity;
+
+    try {
+      const decoded = await decodeForRecognition(audio);
+      const opening = decoded.samples.subarray(0, decoded.sampleRate / 4);
+      const seed = opening.reduce((hash, sample) => (hash * 31 + Math.round(sample * 1000)) >>> 0, 7);
+      sentenceIndex = seed % SIMULATED_TRANSCRIPTIONS.length;
+      heardSeconds = decoded.samples.length / decoded.sampleRate;
+    } catch {
+      // Undecodable audio still gets a whole sentence
+    }
+
+    const allWords = SIMULATED_TRANSCRIPTIONS[sentenceIndex].split(' ');
+    const heardWords = Math.max(1, Math.min(allWords.length, Math.floor(heardSeconds / this.secondsPerWord)));
+    const words = allWords.slice(0, heardWords).map((word, index) => ({
+      word,
+      start: index * this.secondsPerWord,
+      end: (index + 1) * this.secondsPerWord,
+      confidence: 0.85 + Math.random() * 0.1
+    }));
+
+    return {
+      text: words.map(word => word.word).join(' '),
+      confidence: words.reduce((sum, word) => sum + word.confidence, 0) / words.length,
+      words,
+      language: 'en'
+    };
+  }
+
+  public async dispose(): Promise<void> {}
+}
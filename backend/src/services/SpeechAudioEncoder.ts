@@ -0,0 +1,57 @@
+import { logger } from '../utils/logger.js';
+import { runProcess } from './ExternalProcess.js';
+import { describeWav } from './AudioDecoder.js';
+import type { SpeechAudioFormat, SpeechDeliveryFormat, SynthesizedSpeech } from '../types/index.js';
+
+const DELIVERY_ENCODINGS: Record<Exclude<SpeechDeliveryFormat, 'native'>, {
+  format: SpeechAudioFormat;
+  mimeType: string;
+  args: string[];
+  sampleRate?: number;      // Set when the codec dictates it
+}> = {
+  wav: { format: 'wav', mimeType: 'audio/wav', args: ['-c:a', 'pcm_s16le', '-f', 'wav'] },
+  mp3: { format: 'mp3', mimeType: 'audio/mpeg', args: ['-c:a', 'libmp3lame', '-b:a', '64k', '-f', 'mp3'] },
+  opus: { format: 'webm', mimeType: 'audio/webm;codecs=opus', args: ['-c:a', 'libopus', '-b:a', '32k', '-f', 'webm'], sampleRate: 48000 }
+};
+
+const FFMPEG_TIMEOUT_MS = 30000;
+
+export function resolveDeliveryFormat(value: unknown): SpeechDeliveryFormat | null {
+  return value === 'native' || (typeof value === 'string' && value in DELIVERY_ENCODINGS)
+    ? value as SpeechDeliveryFormat
+    : null;
+}
+
+// Re-encodes synthesized speech for the client. Without ffmpeg (or on any encoder
+// error) the engine's own format is delivered, which every browser can play.
+export async function encodeForDelivery(speech: SynthesizedSpeech, target: SpeechDeliveryFormat): Promise<SynthesizedSpeech> {
+  if (target === 'native') {
+    return speech;
+  }
+
+  const encoding = DELIVERY_ENCODINGS[target];
+  if (encoding.format === speech.format) {
+    return speech;
+  }
+
+  try {
+    const ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg';
+    const { stdout } = await runProcess(
+      ffmpeg,
+      ['-hide_banner', '-loglevel', 'error', '-i', 'pipe:0', ...encoding.args, 'pipe:1'],
+      { input: speech.audio, timeoutMs: FFMPEG_TIMEOUT_MS }
+    );
+
+    return {
+      ...speech,
+      audio: stdout,
+      format: encoding.format,
+      mimeType: encoding.mimeType,
+      sampleRate: encoding.sampleRate ?? speech.sampleRate,
+      duration: encoding.format === 'wav' ? describeWav(stdout).duration : speech.duration
+    };
+  } catch (error) {
+    logger.warn(`Could not encode speech as ${target}, sending ${speech.format}:`, error instanceof Error ? error.message : error);
+    return speech;
+  }
+}
@@ -0,0 +1,322 @@
+import {
+  SpeechInputError,
+  MAX_SPEECH_TEXT_LENGTH,
+  MAX_SPEECH_PITCH,
+  cleanSpeechText,
+  sanitizeSpeechText,
+  sanitizeTTSOptions
+} from './SpeechTextSanitizer.js';
+import { normalizeSpeechText } from './SpeechTextNormalizer.js';
+import type {
+  SpeechEmotion,
+  SpeechEmphasis,
+  SpeechInterpretation,
+  SpeechSegment,
+  SynthesizerVoice,
+  TTSOptions
+} from '../types/index.js';
+
+export const MAX_SPEECH_MARKUP_LENGTH = MAX_SPEECH_TEXT_LENGTH * 4;
+
+export interface PreparedSpeech {
+  text: string;               // Plain rendering, prosody folded into punctuation
+  displayText: string;        // The same before numbers and abbreviations were spelled out
+  segments: SpeechSegment[];
+  options: TTSOptions;        // Speed and pitch include the emotion
+}
+
+// Emotion shifts the whole utterance; a signer's facial grammar maps onto these
+const EMOTION_PROSODY: Record<SpeechEmotion, { rate: number; pitch: number; emphasis?: SpeechEmphasis }> = {
+  neutral: { rate: 1, pitch: 0 },
+  happy: { rate: 1.05, pitch: 2 },
+  excited: { rate: 1.12, pitch: 3, emphasis: 'moderate' },
+  sad: { rate: 0.88, pitch: -2 },
+  concerned: { rate: 0.95, pitch: -1 },
+  urgent: { rate: 1.15, pitch: 1, emphasis: 'strong' }
+};
+
+const BREAK_STRENGTHS: Record<string, number> = { none: 0, 'x-weak': 100, weak: 200, medium: 400, strong: 700, 'x-strong': 1000 };
+const RATE_WORDS: Record<string, number> = { 'x-slow': 0.6, slow: 0.8, medium: 1, default: 1, fast: 1.25, 'x-fast': 1.5 };
+const PITCH_WORDS: Record<string, number> = { 'x-low': -6, low: -3, medium: 0, default: 0, high: 3, 'x-high': 6 };
+const EMPHASIS_LEVELS: SpeechEmphasis[] = ['strong', 'moderate', 'reduced'];
+const INTERPRETATIONS: Record<string, SpeechInterpretation> = {
+  characters: 'characters', 'spell-out': 'characters', cardinal: 'cardinal', number: 'cardinal', ordinal: 'ordinal',
+  date: 'date', time: 'time', verbatim: 'verbatim'
+};
+const PAUSE_AFTER_TAG: Record<string, number> = { s: 300, p: 600 };
+const MAX_BREAK_MS = 5000;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+// A tag with quoted attributes, a comment, text, or a stray '<'
+const MARKUP_TOKEN = /<(\/?)([A-Za-z][A-Za-z-]*)((?:\s+[A-Za-z-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<!--[\s\S]*?-->|[^<]+|</g;
+const MARKUP_ATTRIBUTE = /([A-Za-z-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+interface MarkupScope {
+  tag: string;
+  emphasis?: SpeechEmphasis;
+  rate: number;
+  pitch: number;
+  interpretAs?: SpeechInterpretation;
+}
+
+// Validates client text and options, resolves markup, question and emotion into segments and
+// spells out numbers and abbreviations in the request's language. Throws SpeechInputError for anything unusable.
+export function prepareSpeechRequest(text: unknown, options: TTSOptions, voices: SynthesizerVoice[]): PreparedSpeech {
+  const speechOptions = sanitizeTTSOptions(options, voices);
+  const segments = speechOptions.ssml ? parseSpeechMarkup(text) : [{ text: sanitizeSpeechText(text) }];
+
+  const last = segments[segments.length - 1];
+  if (speechOptions.question || /\?\s*$/.test(last.text)) {
+    last.rising = true;
+  }
+
+  const emotion = EMOTION_PROSODY[speechOptions.emotion || 'neutral'];
+  if (emotion.emphasis) {
+    for (const segment of segments) {
+      segment.emphasis = segment.emphasis || emotion.emphasis;
+    }
+  }
+  if (speechOptions.speed !== undefined || emotion.rate !== 1) {
+    speechOptions.speed = clamp((speechOptions.speed ?? 1) * emotion.rate, 0.25, 4);
+  }
+  if (speechOptions.pitch !== undefined || emotion.pitch !== 0) {
+    speechOptions.pitch = clamp((speechOptions.pitch ?? 0) + emotion.pitch, -MAX_SPEECH_PITCH, MAX_SPEECH_PITCH);
+  }
+
+  const displayText = renderPlainSpeech(segments);
+  for (const segment of segments) {
+    segment.text = normalizeSpeechText(segment.text, speechOptions.language, segment.interpretAs);
+  }
+
+  return { text: renderPlainSpeech(segments), displayText, segments, options: speechOptions };
+}
+
+// The SSML subset: <speak>, <s>, <p>, <emphasis level>, <break time|strength>, <prosody rate pitch>,
+// <say-as interpret-as>
+export function parseSpeechMarkup(markup: unknown): SpeechSegment[] {
+  if (typeof markup !== 'string') {
+    throw new SpeechInputError('Text must be a string', 'INVALID_TEXT');
+  }
+  if (markup.length > MAX_SPEECH_MARKUP_LENGTH) {
+    throw new SpeechInputError(`Markup is too long (max ${MAX_SPEECH_MARKUP_LENGTH} characters)`, 'INVALID_TEXT');
+  }
+
+  const segments: SpeechSegment[] = [];
+  const scopes: MarkupScope[] = [{ tag: '', rate: 1, pitch: 0 }];
+  const addPause = (ms: number) => {
+    const previous = segments[segments.length - 1];
+    if (previous && ms > 0) {
+      previous.pauseAfterMs = Math.min(MAX_BREAK_MS, (previous.pauseAfterMs ?? 0) + ms);
+    }
+  };
+
+  for (const match of markup.matchAll(MARKUP_TOKEN)) {
+    const [token, closing, rawTag, rawAttributes, selfClosing] = match;
+    const scope = scopes[scopes.length - 1];
+
+    if (token.startsWith('<!--')) {
+      continue;
+    }
+    if (!rawTag) {
+      if (token === '<') {
+        throw new SpeechInputError('Malformed markup: unescaped "<"', 'INVALID_MARKUP');
+      }
+      const text = cleanSpeechText(decodeEntities(token));
+      const previous = segments[segments.length - 1];
+      if (text && previous && !/[\p{L}\p{N}]/u.test(text)) {
+        // Punctuation after a tag belongs to the words before it: "<emphasis>you</emphasis>?"
+        previous.text += text;
+      } else if (text) {
+        segments.push({
+          text,
+          ...(scope.emphasis ? { emphasis: scope.emphasis } : {}),
+          ...(scope.rate !== 1 ? { rate: scope.rate } : {}),
+          ...(scope.pitch !== 0 ? { pitch: scope.pitch } : {}),
+          ...(scope.interpretAs ? { interpretAs: scope.interpretAs } : {})
+        });
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      if (scope.tag !== tag) {
+        throw new SpeechInputError(`Malformed markup: unexpected </${tag}>`, 'INVALID_MARKUP');
+      }
+      scopes.pop();
+      addPause(PAUSE_AFTER_TAG[tag] ?? 0);
+      continue;
+    }
+
+    const attributes = parseAttributes(rawAttributes);
+    if (tag === 'break') {
+      addPause(parseBreak(attributes));
+      continue;
+    }
+
+    let next: MarkupScope;
+    switch (tag) {
+      case 'speak':
+      case 's':
+      case 'p':
+        next = { ...scope, tag };
+        break;
+      case 'emphasis': {
+        const level = (attributes.level || 'moderate') as SpeechEmphasis;
+        if (!EMPHASIS_LEVELS.includes(level)) {
+          throw new SpeechInputError(`Unsupported emphasis level: ${level.slice(0, 32)}`, 'INVALID_MARKUP');
+        }
+        next = { ...scope, tag, emphasis: level };
+        break;
+      }
+      case 'prosody':
+        next = {
+          ...scope,
+          tag,
+          rate: attributes.rate ? clamp(scope.rate * parseRate(attributes.rate), 0.5, 2) : scope.rate,
+          pitch: attributes.pitch ? clamp(scope.pitch + parsePitch(attributes.pitch), -12, 12) : scope.pitch
+        };
+        break;
+      case 'say-as': {
+        const interpretAs = INTERPRETATIONS[(attributes['interpret-as'] || '').toLowerCase()];
+        if (!interpretAs) {
+          throw new SpeechInputError(`Unsupported say-as interpretation: ${(attributes['interpret-as'] || '').slice(0, 32)}`, 'INVALID_MARKUP');
+        }
+        next = { ...scope, tag, interpretAs };
+        break;
+      }
+      default:
+        throw new SpeechInputError(`Unsupported markup tag: <${tag.slice(0, 32)}>`, 'INVALID_MARKUP');
+    }
+
+    if (!selfClosing) {
+      scopes.push(next);
+    }
+  }
+
+  if (scopes.length > 1) {
+    throw new SpeechInputError(`Malformed markup: <${scopes[scopes.length - 1].tag}> is not closed`, 'INVALID_MARKUP');
+  }
+  if (!segments.some(segment => /[\p{L}\p{N}]/u.test(segment.text))) {
+    throw new SpeechInputError('Text has nothing to speak', 'EMPTY_TEXT');
+  }
+
+  return limitSegments(segments);
+}
+
+// Pauses become commas and full stops, rising segments end in a question mark
+export function renderPlainSpeech(segments: SpeechSegment[]): string {
+  return segments
+    .map(segment => {
+      if (segment.rising) {
+        return withEndPunctuation(segment.text, '?');
+      }
+      const pause = segment.pauseAfterMs ?? 0;
+      return pause >= 400 ? withEndPunctuation(segment.text, '.') : pause > 0 ? withEndPunctuation(segment.text, ',') : segment.text;
+    })
+    .join(' ');
+}
+
+// Replaces trailing punctuation unless the text already ends in a stronger mark
+export function withEndPunctuation(text: string, mark: '?' | '.' | ','): string {
+  const stripped = text.replace(/[\s,;:]+$/, '');
+  if (mark === '?') {
+    return `${stripped.replace(/[.!?]+$/, '')}?`;
+  }
+  return /[.!?]$/.test(stripped) ? stripped : `${stripped}${mark}`;
+}
+
+// Semitones as the relative percentage SSML engines expect
+export function pitchToPercent(semitones: number): string {
+  const percent = Math.round((Math.pow(2, semitones / 12) - 1) * 100);
+  return `${percent >= 0 ? '+' : ''}${percent}%`;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of raw.matchAll(MARKUP_ATTRIBUTE)) {
+    attributes[name.toLowerCase()] = (doubleQuoted ?? singleQuoted).trim();
+  }
+  return attributes;
+}
+
+function parseBreak(attributes: Record<string, string>): number {
+  if (attributes.time) {
+    const match = attributes.time.match(/^(\d+(?:\.\d+)?)(ms|s)$/);
+    if (!match) {
+      throw new SpeechInputError(`Unsupported break time: ${attributes.time.slice(0, 32)}`, 'INVALID_MARKUP');
+    }
+    return Math.min(MAX_BREAK_MS, Math.round(parseFloat(match[1]) * (match[2] === 's' ? 1000 : 1)));
+  }
+  const strength = attributes.strength || 'medium';
+  if (!(strength in BREAK_STRENGTHS)) {
+    throw new SpeechInputError(`Unsupported break strength: ${strength.slice(0, 32)}`, 'INVALID_MARKUP');
+  }
+  return BREAK_STRENGTHS[strength];
+}
+
+// 'slow', '80%' or a plain multiplier
+function parseRate(value: string): number {
+  if (value in RATE_WORDS) {
+    return RATE_WORDS[value];
+  }
+  const match = value.match(/^(\d+(?:\.\d+)?)(%?)$/);
+  if (!match || parseFloat(match[1]) <= 0) {
+    throw new SpeechInputError(`Unsupported prosody rate: ${value.slice(0, 32)}`, 'INVALID_MARKUP');
+  }
+  return match[2] ? parseFloat(match[1]) / 100 : parseFloat(match[1]);
+}
+
+// 'high', '+2st' or a relative percentage; returns semitones
+function parsePitch(value: string): number {
+  if (value in PITCH_WORDS) {
+    return PITCH_WORDS[value];
+  }
+  const match = value.match(/^([+-]?\d+(?:\.\d+)?)(st|%)$/);
+  if (!match) {
+    throw new SpeechInputError(`Unsupported prosody pitch: ${value.slice(0, 32)}`, 'INVALID_MARKUP');
+  }
+  const amount = parseFloat(match[1]);
+  if (match[2] === 'st') {
+    return amount;
+  }
+  if (amount <= -100) {
+    throw new SpeechInputError(`Unsupported prosody pitch: ${value.slice(0, 32)}`, 'INVALID_MARKUP');
+  }
+  return 12 * Math.log2(1 + amount / 100);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : ' ';
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Same limit as plain text: the segment crossing it is cut at a word boundary, later ones dropped
+function limitSegments(segments: SpeechSegment[]): SpeechSegment[] {
+  const limited: SpeechSegment[] = [];
+  let remaining = MAX_SPEECH_TEXT_LENGTH;
+
+  for (const segment of segments) {
+    if (segment.text.length <= remaining) {
+      limited.push(segment);
+      remaining -= segment.text.length + 1;
+      continue;
+    }
+    const cut = segment.text.lastIndexOf(' ', remaining);
+    const text = segment.text.slice(0, cut > 0 ? cut : remaining).trim();
+    if (text) {
+      limited.push({ ...segment, text });
+    }
+    break;
+  }
+  return limited;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
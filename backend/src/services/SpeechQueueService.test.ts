@@ -0,0 +1,151 @@
+import { SpeechQueueService, speechPriorityForGesture } from './SpeechQueueService.js';
+import type { SpeechPriority, SpeechQueueEvent, SynthesizedSpeech } from '../types/index.js';
+
+// One second of audio per utterance, so playback ends 1.25 s after it starts
+function synthesized(duration: number | null = 1): () => Promise<SynthesizedSpeech> {
+  return async () => ({ audio: Buffer.alloc(4), format: 'wav', mimeType: 'audio/wav', sampleRate: 16000, duration, engine: 'test' });
+}
+
+describe('SpeechQueueService', () => {
+  let queue: SpeechQueueService;
+  let events: SpeechQueueEvent[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    queue = new SpeechQueueService();
+    events = [];
+    queue.createSession('test', event => events.push(event));
+  });
+
+  afterEach(() => {
+    queue.resetSession('test');
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  function say(text: string, priority: SpeechPriority = 'normal', synthesize = synthesized()): string | null {
+    return queue.enqueue('test', text, synthesize, priority);
+  }
+
+  // 'started hello', 'cancelled water (barge-in)', ...
+  function log(): string[] {
+    const texts = new Map(events.flatMap(event => event.type === 'queued' ? [[event.utteranceId, event.text] as const] : []));
+    return events
+      .filter(event => event.type !== 'queued')
+      .map(event => `${event.type} ${texts.get(event.utteranceId)}${event.type === 'cancelled' ? ` (${event.reason})` : ''}`);
+  }
+
+  it.each([
+    ['help', 'emergency'],
+    ['pain', 'emergency'],
+    ['hello', 'normal']
+  ])('speaks %s with %s priority', (gesture, priority) => {
+    expect(speechPriorityForGesture(gesture)).toBe(priority);
+  });
+
+  it('plays one utterance at a time, for as long as its audio lasts', async () => {
+    say('hello');
+    say('thank you');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(log()).toEqual(['started hello']);
+
+    await jest.advanceTimersByTimeAsync(1249);
+    expect(log()).toEqual(['started hello']);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(log()).toEqual(['started hello', 'finished hello', 'started thank you']);
+
+    await jest.advanceTimersByTimeAsync(1250);
+    expect(log()).toEqual(['started hello', 'finished hello', 'started thank you', 'finished thank you']);
+    expect(queue.isSpeaking('test')).toBe(false);
+  });
+
+  it('estimates playback from the word count when the audio has no duration', async () => {
+    say('one two three four five', 'normal', synthesized(null));
+    await jest.advanceTimersByTimeAsync(2249);
+    expect(queue.isSpeaking('test')).toBe(true);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(queue.isSpeaking('test')).toBe(false);
+  });
+
+  it('queues by priority, first come first served within one', async () => {
+    say('hello');
+    say('water');
+    say('please', 'high');
+    say('more', 'high');
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(log().filter(entry => entry.startsWith('started'))).toEqual(['started hello', 'started please', 'started more', 'started water']);
+  });
+
+  it('cuts off less urgent speech for an emergency', async () => {
+    say('hello');
+    await jest.advanceTimersByTimeAsync(0);
+    say('help', 'emergency');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(log()).toEqual(['started hello', 'cancelled hello (preempted)', 'started help']);
+  });
+
+  it('does not queue words already waiting or playing', async () => {
+    const first = say('hello');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(say('hello')).toBe(first);
+    const waiting = say('water');
+    expect(say('water')).toBe(waiting);
+    expect(events.filter(event => event.type === 'queued')).toHaveLength(2);
+  });
+
+  it('drops the oldest, least urgent speech once too much is waiting', async () => {
+    say('playing');
+    await jest.advanceTimersByTimeAsync(0);
+    say('urgent', 'high');
+    for (let i = 1; i <= 8; i++) {
+      say(`word ${i}`);
+    }
+    expect(log()).toEqual(['started playing', 'cancelled word 1 (overflow)']);
+  });
+
+  it('stops talking when the user starts signing, except in an emergency', async () => {
+    say('hello');
+    say('water');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(queue.bargeIn('test')).toBe(2);
+    expect(log()).toEqual(['started hello', 'cancelled water (barge-in)', 'cancelled hello (barge-in)']);
+
+    say('help', 'emergency');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(queue.bargeIn('test')).toBe(0);
+    expect(queue.isSpeaking('test')).toBe(true);
+  });
+
+  it('cancels one utterance or all of them', async () => {
+    say('hello');
+    const water = say('water')!;
+    say('please');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(queue.cancel('test', water)).toBe(1);
+    expect(queue.cancel('test')).toBe(2);
+    expect(log()).toEqual(['started hello', 'cancelled water (client)', 'cancelled please (client)', 'cancelled hello (client)']);
+    expect(queue.isSpeaking('test')).toBe(false);
+  });
+
+  it('drops audio that was still being synthesized when cancelled', async () => {
+    say('hello');
+    queue.cancel('test');
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(log()).toEqual(['cancelled hello (client)']);
+  });
+
+  it('moves on when synthesis fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    say('hello', 'normal', () => Promise.reject(new Error('no voice')));
+    say('water');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(log()).toEqual(['cancelled hello (error)', 'started water']);
+  });
+
+  it('ignores sessions it does not know', () => {
+    expect(queue.enqueue('other', 'hello', synthesized())).toBeNull();
+    expect(queue.cancel('other')).toBe(0);
+    expect(queue.bargeIn('other')).toBe(0);
+    expect(queue.isSpeaking('other')).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { logger } from '../utils/logger.js';
+import type { SpeechCancelReason, SpeechPriority, SpeechQueueEvent, SynthesizedSpeech } from '../types/index.js';
+
+interface QueuedUtterance {
+  id: string;
+  text: string;
+  priority: SpeechPriority;
+  synthesize: () => Promise<SynthesizedSpeech>;
+}
+
+interface SessionQueue {
+  listener: (event: SpeechQueueEvent) => void;
+  pending: QueuedUtterance[];           // Highest priority first, FIFO within a priority
+  current: { utterance: QueuedUtterance; timer: NodeJS.Timeout | null } | null;
+}
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = { emergency: 0, high: 1, normal: 2 };
+
+// Signs whose spoken phrase must never wait behind small talk
+const EMERGENCY_GESTURES = new Set(['emergency', 'help', 'pain', 'doctor']);
+
+const MAX_PENDING_UTTERANCES = 8;     // Beyond this the oldest, least urgent speech is stale
+const SPOKEN_WORDS_PER_SECOND = 2.5;   // Estimate when the audio format carries no duration
+const PLAYBACK_MARGIN_MS = 250;        // Client decode and start-up latency
+
+export function speechPriorityForGesture(gesture: string): SpeechPriority {
+  return EMERGENCY_GESTURES.has(gesture) ? 'emergency' : 'normal';
+}
+
+// One utterance plays at a time per session. Playback happens on the client, so an
+// utterance counts as speaking for the duration of its audio before the next one is sent.
+export class SpeechQueueService {
+  private sessions: Map<string, SessionQueue> = new Map();
+  private utteranceCounter = 0;
+
+  public createSession(sessionId: string, listener: (event: SpeechQueueEvent) => void): void {
+    this.sessions.set(sessionId, { listener, pending: [], current: null });
+  }
+
+  public enqueue(
+    sessionId: string,
+    text: string,
+    synthesize: () => Promise<SynthesizedSpeech>,
+    priority: SpeechPriority = 'normal'
+  ): string | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    // The same words already waiting or playing are not said twice
+    const duplicate = [session.current?.utterance, ...session.pending].find(queued => queued && queued.text === text);
+    if (duplicate) {
+      return duplicate.id;
+    }
+
+    this.utteranceCounter = (this.utteranceCounter + 1) % 1000000;
+    const utterance: QueuedUtterance = { id: `${sessionId}-${Date.now()}-${this.utteranceCounter}`, text, priority, synthesize };
+
+    const position = session.pending.findIndex(queued => PRIORITY_RANK[queued.priority] > PRIORITY_RANK[priority]);
+    const index = position === -1 ? session.pending.length : position;
+    session.pending.splice(index, 0, utterance);
+    session.listener({ type: 'queued', utteranceId: utterance.id, text, priority, position: index });
+
+    if (session.pending.length > MAX_PENDING_UTTERANCES) {
+      const leastUrgent = Math.max(...session.pending.map(queued => PRIORITY_RANK[queued.priority]));
+      const [dropped] = session.pending.splice(session.pending.findIndex(queued => PRIORITY_RANK[queued.priority] === leastUrgent), 1);
+      session.listener({ type: 'cancelled', utteranceId: dropped.id, reason: 'overflow' });
+    }
+
+    // Emergency speech cuts off anything less urgent
+    const current = session.current?.utterance;
+    if (current && priority === 'emergency' && current.priority !== 'emergency') {
+      this.stopCurrent(session, 'preempted');
+    }
+
+    this.pump(session);
+    return utterance.id;
+  }
+
+  // Without an id, everything queued or playing for the session is cancelled
+  public cancel(sessionId: string, utteranceId?: string, reason: SpeechCancelReason = 'client'): number {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return 0;
+    }
+    const cancelled = this.cancelWhere(session, utterance => !utteranceId || utterance.id === utteranceId, reason);
+    this.pump(session);
+    return cancelled;
+  }
+
+  // The user started signing: stop talking over them. Emergency speech is kept.
+  public bargeIn(sessionId: string): number {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return 0;
+    }
+    const cancelled = this.cancelWhere(session, utterance => utterance.priority !== 'emergency', 'barge-in');
+    if (cancelled > 0) {
+      logger.debug(`Barge-in cancelled ${cancelled} utterance(s) for session ${sessionId}`);
+    }
+    this.pump(session);
+    return cancelled;
+  }
+
+  public isSpeaking(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    return Boolean(session && (session.current || session.pending.length > 0));
+  }
+
+  public resetSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.cancelWhere(session, () => true, 'disconnect');
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  private cancelWhere(session: SessionQueue, matches: (utterance: QueuedUtterance) => boolean, reason: SpeechCancelReason): number {
+    const cancelled = session.pending.filter(matches);
+    session.pending = session.pending.filter(utterance => !matches(utterance));
+    for (const utterance of cancelled) {
+      session.listener({ type: 'cancelled', utteranceId: utterance.id, reason });
+    }
+
+    if (session.current && matches(session.current.utterance)) {
+      this.stopCurrent(session, reason);
+      return cancelled.length + 1;
+    }
+    return cancelled.length;
+  }
+
+  private stopCurrent(session: SessionQueue, reason: SpeechCancelReason): void {
+    const current = session.current;
+    if (!current) {
+      return;
+    }
+    if (current.timer) {
+      clearTimeout(current.timer);
+    }
+    session.current = null;
+    session.listener({ type: 'cancelled', utteranceId: current.utterance.id, reason });
+  }
+
+  private pump(session: SessionQueue): void {
+    if (session.current || session.pending.length === 0) {
+      return;
+    }
+
+    const utterance = session.pending.shift()!;
+    const current: NonNullable<SessionQueue['current']> = { utterance, timer: null };
+    session.current = current;
+
+    utterance.synthesize()
+      .then(speech => {
+        // Cancelled while synthesizing: the audio is dropped unheard
+        if (session.current !== current) {
+          return;
+        }
+        session.listener({ type: 'started', utteranceId: utterance.id, text: utterance.text, priority: utterance.priority, speech });
+
+        const seconds = speech.duration ?? utterance.text.split(/\s+/).length / SPOKEN_WORDS_PER_SECOND;
+        current.timer = setTimeout(() => {
+          if (session.current === current) {
+            session.current = null;
+            session.listener({ type: 'finished', utteranceId: utterance.id });
+            this.pump(session);
+          }
+        }, seconds * 1000 + PLAYBACK_MARGIN_MS);
+      })
+      .catch(error => {
+        logger.error(`Speech synthesis failed for "${utterance.text}":`, error);
+        if (session.current === current) {
+          this.stopCurrent(session, 'error');
+          this.pump(session);
+        }
+      });
+  }
+}
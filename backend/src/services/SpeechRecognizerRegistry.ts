@@ -0,0 +1,88 @@
+import { logger } from '../utils/logger.js';
+import { WhisperCppRecognizer } from './WhisperCppRecognizer.js';
+import { SimulatedSpeechRecognizer } from './SimulatedSpeechRecognizer.js';
+import type { SpeechRecognizer } from '../types/index.js';
+
+const SPEECH_RECOGNIZER_FACTORIES: Record<string, { description: string; create: () => SpeechRecognizer }> = {
+  whisper: {
+    description: 'whisper.cpp running a local ggml model, with word timestamps',
+    create: () => new WhisperCppRecognizer()
+  },
+  simulator: {
+    description: 'Canned transcriptions, no model required',
+    create: () => new SimulatedSpeechRecognizer()
+  }
+};
+
+const DEFAULT_SPEECH_RECOGNIZER = 'whisper';
+const FALLBACK_SPEECH_RECOGNIZER = 'simulator';
+
+// Shared by both voice services; initialize() may be called by each of them
+export class SpeechRecognizerRegistry {
+  private activeRecognizer: SpeechRecognizer | null = null;
+  private initializing: Promise<void> | null = null;
+
+  public getAvailableRecognizers(): Array<{ name: string; description: string }> {
+    return Object.entries(SPEECH_RECOGNIZER_FACTORIES).map(([name, entry]) => ({
+      name,
+      description: entry.description
+    }));
+  }
+
+  public initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.loadConfiguredRecognizer();
+    }
+    return this.initializing;
+  }
+
+  public getActiveRecognizer(): SpeechRecognizer {
+    if (!this.activeRecognizer) {
+      throw new Error('Speech recognizer not initialized');
+    }
+    return this.activeRecognizer;
+  }
+
+  public getActiveRecognizerName(): string | null {
+    return this.activeRecognizer ? this.activeRecognizer.name : null;
+  }
+
+  // A missing binary or model falls back to the simulator so development setups still run
+  private async loadConfiguredRecognizer(): Promise<void> {
+    let requested = process.env.SPEECH_RECOGNIZER || DEFAULT_SPEECH_RECOGNIZER;
+    if (!SPEECH_RECOGNIZER_FACTORIES[requested]) {
+      logger.warn(`Unknown SPEECH_RECOGNIZER "${requested}", falling back to ${DEFAULT_SPEECH_RECOGNIZER}`);
+      requested = DEFAULT_SPEECH_RECOGNIZER;
+    }
+
+    try {
+      this.activeRecognizer = await this.create(requested);
+    } catch (error) {
+      if (requested === FALLBACK_SPEECH_RECOGNIZER) {
+        throw error;
+      }
+      logger.warn(`Speech recognizer "${requested}" unavailable, using ${FALLBACK_SPEECH_RECOGNIZER}`);
+      this.activeRecognizer = await this.create(FALLBACK_SPEECH_RECOGNIZER);
+    }
+
+    logger.info(`Speech recognizer active: ${this.activeRecognizer.name}`);
+  }
+
+  private async create(name: string): Promise<SpeechRecognizer> {
+    const recognizer = SPEECH_RECOGNIZER_FACTORIES[name].create();
+    await recognizer.initialize();
+    return recognizer;
+  }
+
+  public async dispose(): Promise<void> {
+    await this.initializing?.catch(() => {});
+    this.initializing = null;
+
+    if (this.activeRecognizer) {
+      await this.activeRecognizer.dispose();
+      this.activeRecognizer = null;
+    }
+  }
+}
+
+export const speechRecognizerRegistry = new SpeechRecognizerRegistry();
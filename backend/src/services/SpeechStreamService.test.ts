@@ -0,0 +1,133 @@
+import { SpeechStreamService } from './SpeechStreamService.js';
+import { speechRecognizerRegistry } from './SpeechRecognizerRegistry.js';
+import { voiced, silence, concatAudio, toPcm16 } from '../testing/audio.js';
+import type { SpeechRecognizer, SpeechRecognitionResult, SpeechStreamEvent } from '../types/index.js';
+
+const CHUNK_MS = 100;
+
+function result(text: string): SpeechRecognitionResult {
+  const words = text ? text.split(' ').map((word, i) => ({ word, start: i * 0.3, end: i * 0.3 + 0.25, confidence: 0.9 })) : [];
+  return { text, confidence: 0.9, words };
+}
+
+// Passes run asynchronously; let every pending one settle
+async function settle(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('SpeechStreamService', () => {
+  let service: SpeechStreamService;
+  let events: SpeechStreamEvent[];
+  let hypotheses: string[];
+  let transcribe: jest.Mock;
+
+  beforeEach(() => {
+    service = new SpeechStreamService();
+    events = [];
+    hypotheses = [];
+    transcribe = jest.fn(async () => result(hypotheses.length > 1 ? hypotheses.shift()! : hypotheses[0] || ''));
+    const recognizer: SpeechRecognizer = { name: 'scripted', initialize: async () => {}, transcribe, dispose: async () => {} };
+    jest.spyOn(speechRecognizerRegistry, 'getActiveRecognizer').mockReturnValue(recognizer);
+    service.createSession('test', event => events.push(event));
+  });
+
+  afterEach(() => {
+    service.resetSession('test');
+    jest.restoreAllMocks();
+  });
+
+  // Streams the audio in 100 ms chunks, in order unless told otherwise
+  async function stream(audio: Float32Array, order?: (sequences: number[]) => number[]): Promise<void> {
+    const chunkSamples = CHUNK_MS * 16;
+    const chunks = [];
+    for (let start = 0; start < audio.length; start += chunkSamples) {
+      chunks.push(toPcm16(audio.subarray(start, start + chunkSamples)));
+    }
+    const sequences = chunks.map((_, sequence) => sequence);
+    for (const sequence of order ? order(sequences) : sequences) {
+      service.pushChunk('test', { sequence, audio: chunks[sequence], sampleRate: 16000 });
+      await settle();
+    }
+  }
+
+  const types = () => events.map(event => event.type);
+  const boundaries = () => events.filter(event => event.type !== 'partial');
+  const stableTexts = () => events.flatMap(event => event.type === 'partial' ? [event.stableText] : []);
+  const newlyStable = () => events.flatMap(event => 'newlyStable' in event ? event.newlyStable.map(word => word.word) : []);
+
+  it('streams partial transcripts of an utterance and a final one at the endpoint', async () => {
+    hypotheses = ['I', 'I need', 'I need water', 'I need water please'];
+    await stream(concatAudio(silence(500), voiced(2000), silence(1000)));
+
+    expect(types()).toEqual(['speech-start', 'partial', 'partial', 'partial', 'partial', 'speech-end', 'final']);
+    expect(events[0]).toEqual({ type: 'speech-start', offsetMs: 500 });
+    expect(events[5]).toEqual({ type: 'speech-end', offsetMs: 2500, durationMs: 2000, reason: 'endpoint' });
+    expect(events[6]).toMatchObject({ type: 'final', text: 'I need water please', reason: 'endpoint' });
+  });
+
+  it.each([
+    ['a growing hypothesis', ['I', 'I need', 'I need water', 'I need water please'], ['', 'I', 'I need', 'I need water']],
+    ['a revised word', ['I need', 'I knead', 'I knead water', 'I knead water please'], ['', 'I', 'I knead', 'I knead water']]
+  ])('marks words stable once two passes agree, for %s', async (_name, passes, stable) => {
+    hypotheses = passes;
+    await stream(concatAudio(silence(500), voiced(2000), silence(1000)));
+
+    expect(stableTexts()).toEqual(stable);
+    // Every word of the final transcript is handed out as stable exactly once
+    expect(newlyStable()).toHaveLength(4);
+  });
+
+  it('puts chunks that arrive out of order back in sequence and drops duplicates', async () => {
+    hypotheses = ['I need water'];
+    await stream(concatAudio(silence(500), voiced(1000), silence(1000)), sequences => {
+      const shuffled = [...sequences];
+      for (let i = 0; i + 1 < shuffled.length; i += 2) {
+        [shuffled[i], shuffled[i + 1]] = [shuffled[i + 1], shuffled[i]];
+      }
+      return [...shuffled.slice(0, 6), 3, 4, ...shuffled.slice(6)];
+    });
+
+    expect(boundaries()).toEqual([
+      { type: 'speech-start', offsetMs: 500 },
+      { type: 'speech-end', offsetMs: 1500, durationMs: 1000, reason: 'endpoint' },
+      expect.objectContaining({ type: 'final', text: 'I need water' })
+    ]);
+  });
+
+  it('finishes the utterance when the stream ends mid-speech', async () => {
+    hypotheses = ['I need', 'I need water'];
+    await stream(concatAudio(silence(500), voiced(1000)));
+    service.endStream('test');
+    await settle();
+
+    expect(boundaries().map(event => event.type)).toEqual(['speech-start', 'speech-end', 'final']);
+    expect(boundaries()[1]).toMatchObject({ durationMs: 1000, reason: 'end-of-stream' });
+    expect(boundaries()[2]).toMatchObject({ text: 'I need water', reason: 'end-of-stream' });
+  });
+
+  it('splits sentences at pauses and never transcribes silence', async () => {
+    hypotheses = ['hello'];
+    await stream(concatAudio(silence(500), voiced(500), silence(1000), voiced(500), silence(1000)));
+
+    expect(boundaries().map(event => event.type)).toEqual(['speech-start', 'speech-end', 'final', 'speech-start', 'speech-end', 'final']);
+    expect(boundaries()[3]).toEqual({ type: 'speech-start', offsetMs: 2000 });
+
+    transcribe.mockClear();
+    await stream(silence(2000));
+    expect(transcribe).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a negative sequence', { sequence: -1, audio: Buffer.alloc(2), sampleRate: 16000 }, /sequence/],
+    ['an unsupported sample rate', { sequence: 0, audio: Buffer.alloc(2), sampleRate: 4000 }, /sample rate/],
+    ['an empty chunk', { sequence: 0, audio: Buffer.alloc(0), sampleRate: 16000 }, /empty/]
+  ])('rejects %s', (_name, chunk, message) => {
+    expect(() => service.pushChunk('test', chunk)).toThrow(message);
+  });
+
+  it('rejects chunks for a session without a stream', () => {
+    expect(() => service.pushChunk('other', { sequence: 0, audio: Buffer.alloc(2), sampleRate: 16000 })).toThrow(/No speech stream/);
+  });
+});
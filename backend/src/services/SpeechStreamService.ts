@@ -0,0 +1,323 @@
+import { logger } from '../utils/logger.js';
+import { speechRecognizerRegistry } from './SpeechRecognizerRegistry.js';
+import { encodeWav, resample, RECOGNIZER_SAMPLE_RATE } from './AudioDecoder.js';
+import { VoiceActivityDetector, PRE_ROLL_MS, TRAILING_PAD_MS } from './VoiceActivityDetector.js';
+import type { AudioChunk, RecognizedWord, SpeechStreamEvent, SpeechFinalReason } from '../types/index.js';
+
+interface StreamState {
+  listener: (event: SpeechStreamEvent) => void;
+  nextSequence: number;
+  pending: Map<number, Float32Array>;   // Chunks that arrived ahead of a gap
+  samples: Float32Array[];              // Current utterance at 16 kHz
+  sampleCount: number;
+  samplesAtLastPass: number;
+  vad: VoiceActivityDetector;
+  speechStarted: boolean;
+  speechStart: number;                  // Buffer index where speech began
+  utteranceEnd: number | null;          // Buffer index the final pass stops at
+  streamOffset: number;                 // Session audio dropped before the buffer, for event offsets
+  lastBlockLength: number;              // Where the detector's flush() offsets are measured from
+  lastSequence: number;
+  previousWords: string[];              // Previous hypothesis, for the stability check
+  stableWords: number;                  // Words already handed out as stable; never shrinks
+  recognizing: boolean;
+  finalizeRequested: SpeechFinalReason | null;
+  closed: boolean;
+}
+
+const PARTIAL_INTERVAL_MS = 600;                    // New audio needed before re-transcribing
+const MAX_UTTERANCE_MS = 30000;
+const MAX_PENDING_CHUNKS = 8;                       // Out-of-order chunks held before a gap is skipped
+
+const msToSamples = (ms: number) => Math.round(ms * RECOGNIZER_SAMPLE_RATE / 1000);
+const samplesToMs = (samples: number) => Math.round(samples * 1000 / RECOGNIZER_SAMPLE_RATE);
+
+// Turns a stream of sequenced PCM chunks into partial and final transcripts.
+// Each utterance is re-transcribed as it grows; a word is stable once two
+// consecutive hypotheses agree on it and everything before it. Utterance
+// boundaries come from the voice activity detector, so silence between
+// sentences is never sent to the recognizer.
+export class SpeechStreamService {
+  private sessions: Map<string, StreamState> = new Map();
+
+  public createSession(sessionId: string, listener: (event: SpeechStreamEvent) => void): void {
+    this.sessions.set(sessionId, {
+      listener,
+      nextSequence: 0,
+      pending: new Map(),
+      samples: [],
+      sampleCount: 0,
+      samplesAtLastPass: 0,
+      vad: new VoiceActivityDetector(),
+      speechStarted: false,
+      speechStart: 0,
+      utteranceEnd: null,
+      streamOffset: 0,
+      lastBlockLength: 0,
+      lastSequence: -1,
+      previousWords: [],
+      stableWords: 0,
+      recognizing: false,
+      finalizeRequested: null,
+      closed: false
+    });
+  }
+
+  public pushChunk(sessionId: string, chunk: AudioChunk): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`No speech stream for session ${sessionId}`);
+    }
+    if (!Number.isInteger(chunk.sequence) || chunk.sequence < 0) {
+      throw new Error('Audio chunk sequence must be a non-negative integer');
+    }
+    if (!(chunk.sampleRate >= 8000 && chunk.sampleRate <= 96000)) {
+      throw new Error('Audio chunk sample rate must be between 8000 and 96000 Hz');
+    }
+    if (!chunk.audio || chunk.audio.byteLength === 0) {
+      throw new Error('Audio chunk is empty');
+    }
+
+    if (chunk.sequence < session.nextSequence || session.pending.has(chunk.sequence)) {
+      logger.debug(`Dropping duplicate audio chunk ${chunk.sequence} for session ${sessionId}`);
+      return;
+    }
+
+    session.pending.set(chunk.sequence, decodeChunk(chunk));
+
+    // A chunk lost in transit must not stall the stream forever
+    if (!session.pending.has(session.nextSequence) && session.pending.size > MAX_PENDING_CHUNKS) {
+      const resumeAt = Math.min(...session.pending.keys());
+      logger.warn(`Audio chunks ${session.nextSequence}-${resumeAt - 1} missing for session ${sessionId}, skipping`);
+      session.nextSequence = resumeAt;
+    }
+
+    let samples = session.pending.get(session.nextSequence);
+    while (samples) {
+      session.pending.delete(session.nextSequence);
+      session.lastSequence = session.nextSequence;
+      session.nextSequence++;
+      this.appendSamples(session, samples);
+      samples = session.pending.get(session.nextSequence);
+    }
+
+    this.schedule(session);
+  }
+
+  // Client stopped sending: finish the current utterance and start the next stream at sequence 0
+  public endStream(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    for (const sequence of [...session.pending.keys()].sort((a, b) => a - b)) {
+      this.appendSamples(session, session.pending.get(sequence)!);
+      session.lastSequence = sequence;
+    }
+    session.pending.clear();
+    session.nextSequence = 0;
+
+    if (session.speechStarted && !session.finalizeRequested) {
+      const end = session.vad.flush().find(event => event.type === 'end');
+      const speechEnd = end ? session.sampleCount - session.lastBlockLength + end.offset : session.sampleCount;
+      this.endUtterance(session, Math.min(session.sampleCount, Math.max(session.speechStart, speechEnd)), 'end-of-stream');
+    }
+
+    if (session.speechStarted) {
+      this.schedule(session);
+    } else {
+      this.resetUtterance(session);
+    }
+  }
+
+  public resetSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.closed = true;
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  private appendSamples(session: StreamState, samples: Float32Array): void {
+    session.samples.push(samples);
+    session.sampleCount += samples.length;
+    session.lastBlockLength = samples.length;
+
+    // Once an utterance is closed the rest of the buffer is re-analysed after its final pass
+    const events = session.vad.process(samples);
+    if (session.finalizeRequested) {
+      return;
+    }
+
+    for (const event of events) {
+      // Measured from the block's current position, which moves when pre-roll is discarded
+      const index = Math.max(0, session.sampleCount - samples.length + event.offset);
+      if (event.type === 'start' && !session.speechStarted) {
+        session.speechStarted = true;
+        session.speechStart = index - this.discard(session, index - msToSamples(PRE_ROLL_MS));
+        session.listener({ type: 'speech-start', offsetMs: samplesToMs(session.streamOffset + session.speechStart) });
+      } else if (event.type === 'end' && session.speechStarted) {
+        this.endUtterance(session, index, 'endpoint');
+        return;
+      }
+    }
+
+    if (!session.speechStarted) {
+      this.trimPreRoll(session);
+    } else if (session.sampleCount - session.speechStart >= msToSamples(MAX_UTTERANCE_MS)) {
+      this.endUtterance(session, session.sampleCount, 'max-length');
+    }
+  }
+
+  private endUtterance(session: StreamState, speechEnd: number, reason: SpeechFinalReason): void {
+    session.finalizeRequested = reason;
+    session.utteranceEnd = Math.min(session.sampleCount, speechEnd + msToSamples(TRAILING_PAD_MS));
+    session.listener({
+      type: 'speech-end',
+      offsetMs: samplesToMs(session.streamOffset + speechEnd),
+      durationMs: samplesToMs(speechEnd - session.speechStart),
+      reason
+    });
+  }
+
+  // Recognition runs one pass at a time per session; audio keeps buffering meanwhile
+  private schedule(session: StreamState): void {
+    if (session.closed || session.recognizing || !session.speechStarted) {
+      return;
+    }
+
+    const dueForPartial = session.sampleCount - session.samplesAtLastPass >= msToSamples(PARTIAL_INTERVAL_MS);
+    if (!session.finalizeRequested && !dueForPartial) {
+      return;
+    }
+
+    session.recognizing = true;
+    this.runPass(session)
+      .catch(error => {
+        logger.error('Streaming speech recognition failed:', error);
+        session.listener({ type: 'error', message: error instanceof Error ? error.message : 'Recognition failed' });
+        this.resetUtterance(session);
+      })
+      .finally(() => {
+        session.recognizing = false;
+        this.schedule(session);
+      });
+  }
+
+  private async runPass(session: StreamState): Promise<void> {
+    const reason = session.finalizeRequested;
+    const buffered = concat(session.samples, session.sampleCount);
+    const audio = reason && session.utteranceEnd !== null ? buffered.subarray(0, session.utteranceEnd) : buffered;
+    session.samplesAtLastPass = session.sampleCount;
+
+    const result = await speechRecognizerRegistry.getActiveRecognizer().transcribe(encodeWav(audio, RECOGNIZER_SAMPLE_RATE));
+    const sequence = session.lastSequence;
+    if (session.closed) {
+      return;
+    }
+
+    if (reason) {
+      const newlyStable = result.words.slice(session.stableWords);
+      session.listener({ type: 'final', ...result, newlyStable, sequence, reason });
+      this.resetUtterance(session, audio.length);
+      return;
+    }
+
+    const current = result.words.map(word => normalizeWord(word.word));
+    let agreed = 0;
+    while (agreed < current.length && agreed < session.previousWords.length && current[agreed] === session.previousWords[agreed]) {
+      agreed++;
+    }
+    session.previousWords = current;
+
+    const newlyStable: RecognizedWord[] = agreed > session.stableWords ? result.words.slice(session.stableWords, agreed) : [];
+    session.stableWords = Math.max(session.stableWords, agreed);
+
+    session.listener({
+      type: 'partial',
+      text: result.text,
+      words: result.words,
+      stableText: result.words.slice(0, session.stableWords).map(word => word.word).join(' '),
+      newlyStable,
+      sequence
+    });
+  }
+
+  // Audio that arrived during the final pass belongs to the next utterance
+  private resetUtterance(session: StreamState, consumedSamples = session.sampleCount): void {
+    const leftover = concat(session.samples, session.sampleCount).subarray(consumedSamples);
+
+    session.streamOffset += consumedSamples;
+    session.samples = [];
+    session.sampleCount = 0;
+    session.samplesAtLastPass = 0;
+    session.vad.reset();
+    session.speechStarted = false;
+    session.speechStart = 0;
+    session.utteranceEnd = null;
+    session.previousWords = [];
+    session.stableWords = 0;
+    session.finalizeRequested = null;
+
+    if (leftover.length > 0) {
+      this.appendSamples(session, Float32Array.from(leftover));
+    }
+  }
+
+  private trimPreRoll(session: StreamState): void {
+    const keep = msToSamples(PRE_ROLL_MS);
+    if (session.sampleCount > keep * 2) {
+      this.discard(session, session.sampleCount - keep);
+    }
+  }
+
+  // Drops audio from the front of the buffer and returns how much went
+  private discard(session: StreamState, count: number): number {
+    count = Math.min(Math.max(0, count), session.sampleCount);
+    if (count === 0) {
+      return 0;
+    }
+    const audio = concat(session.samples, session.sampleCount);
+    session.samples = [audio.slice(count)];
+    session.sampleCount -= count;
+    session.streamOffset += count;
+    return count;
+  }
+}
+
+function decodeChunk(chunk: AudioChunk): Float32Array {
+  const buffer = Buffer.isBuffer(chunk.audio) ? chunk.audio : Buffer.from(chunk.audio);
+  let samples: Float32Array;
+
+  if (chunk.encoding === 'float32') {
+    samples = new Float32Array(Math.floor(buffer.length / 4));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = buffer.readFloatLE(i * 4);
+    }
+  } else {
+    samples = new Float32Array(Math.floor(buffer.length / 2));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = buffer.readInt16LE(i * 2) / 32768;
+    }
+  }
+
+  return resample(samples, chunk.sampleRate, RECOGNIZER_SAMPLE_RATE);
+}
+
+function concat(parts: Float32Array[], length: number): Float32Array {
+  if (parts.length === 1) {
+    return parts[0];
+  }
+  const output = new Float32Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
@@ -0,0 +1,110 @@
+import { logger } from '../utils/logger.js';
+import { PiperSynthesizer } from './PiperSynthesizer.js';
+import { EspeakNgSynthesizer } from './EspeakNgSynthesizer.js';
+import { MacSaySynthesizer } from './MacSaySynthesizer.js';
+import { GttsSynthesizer } from './GttsSynthesizer.js';
+import type { SpeechSynthesizer, SynthesizerVoice } from '../types/index.js';
+
+// In auto-detection order: local neural voices first, the network engine last
+const SPEECH_SYNTHESIZER_FACTORIES: Record<string, { description: string; create: () => SpeechSynthesizer }> = {
+  piper: {
+    description: 'Piper neural voices running local ONNX models',
+    create: () => new PiperSynthesizer()
+  },
+  'espeak-ng': {
+    description: 'eSpeak NG formant synthesizer',
+    create: () => new EspeakNgSynthesizer()
+  },
+  say: {
+    description: 'macOS system voices',
+    create: () => new MacSaySynthesizer()
+  },
+  gtts: {
+    description: 'Google Translate TTS (requires network access)',
+    create: () => new GttsSynthesizer()
+  }
+};
+
+// Shared by both voice services; initialize() may be called by each of them
+export class SpeechSynthesizerRegistry {
+  private activeSynthesizer: SpeechSynthesizer | null = null;
+  private initializing: Promise<void> | null = null;
+
+  public getAvailableSynthesizers(): Array<{ name: string; description: string }> {
+    return Object.entries(SPEECH_SYNTHESIZER_FACTORIES).map(([name, entry]) => ({
+      name,
+      description: entry.description
+    }));
+  }
+
+  public initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.loadConfiguredSynthesizer();
+    }
+    return this.initializing;
+  }
+
+  public getActiveSynthesizer(): SpeechSynthesizer {
+    if (!this.activeSynthesizer) {
+      throw new Error('Speech synthesizer not initialized');
+    }
+    return this.activeSynthesizer;
+  }
+
+  public getActiveSynthesizerName(): string | null {
+    return this.activeSynthesizer ? this.activeSynthesizer.name : null;
+  }
+
+  public getVoices(): SynthesizerVoice[] {
+    return this.activeSynthesizer ? this.activeSynthesizer.getVoices() : [];
+  }
+
+  // TTS_ENGINE picks an engine; 'auto' (or an engine that fails to start) tries each installed one in order
+  private async loadConfiguredSynthesizer(): Promise<void> {
+    const requested = process.env.TTS_ENGINE || 'auto';
+    const candidates = Object.keys(SPEECH_SYNTHESIZER_FACTORIES);
+
+    if (requested !== 'auto') {
+      if (SPEECH_SYNTHESIZER_FACTORIES[requested]) {
+        candidates.splice(candidates.indexOf(requested), 1);
+        candidates.unshift(requested);
+      } else {
+        logger.warn(`Unknown TTS_ENGINE "${requested}", detecting an installed engine`);
+      }
+    }
+
+    for (const name of candidates) {
+      try {
+        this.activeSynthesizer = await this.create(name);
+        break;
+      } catch {
+        if (name === requested) {
+          logger.warn(`Speech synthesizer "${requested}" unavailable, detecting an installed engine`);
+        }
+      }
+    }
+
+    if (!this.activeSynthesizer) {
+      throw new Error('No speech synthesizer available');
+    }
+    logger.info(`Speech synthesizer active: ${this.activeSynthesizer.name}`);
+  }
+
+  private async create(name: string): Promise<SpeechSynthesizer> {
+    const synthesizer = SPEECH_SYNTHESIZER_FACTORIES[name].create();
+    await synthesizer.initialize();
+    return synthesizer;
+  }
+
+  public async dispose(): Promise<void> {
+    await this.initializing?.catch(() => {});
+    this.initializing = null;
+
+    if (this.activeSynthesizer) {
+      await this.activeSynthesizer.dispose();
+      this.activeSynthesizer = null;
+    }
+  }
+}
+
+export const speechSynthesizerRegistry = new SpeechSynthesizerRegistry();
@@ -0,0 +1,88 @@
+import { normalizeSpeechText, resolveSpeechLocale, speakFingerspelledWord } from './SpeechTextNormalizer.js';
+
+describe('SpeechTextNormalizer', () => {
+  it.each([
+    ['en_gb', 'en-GB'],
+    ['fr', 'fr-FR'],
+    ['xx', 'en-US'],
+    [undefined, 'en-US']
+  ])('resolves %s to %s', (language, locale) => {
+    expect(resolveSpeechLocale(language)).toBe(locale);
+  });
+
+  it.each([
+    ['42 apples', 'en-US', 'forty-two apples'],
+    ['1,234,567 people', 'en-US', 'one million two hundred thirty-four thousand five hundred sixty-seven people'],
+    ['3.14', 'en-US', 'three point one four'],
+    ['1.234,5', 'de-DE', 'eintausendzweihundertvierunddreißig Komma fünf'],
+    ['10 000 euros', 'fr-FR', 'dix mille euros'],
+    ['Score -5', 'en-US', 'Score minus five'],
+    ['Pages 3-5', 'en-US', 'Pages three-five']
+  ])('reads quantities as cardinals: %s (%s)', (text, language, spoken) => {
+    expect(normalizeSpeechText(text, language)).toBe(spoken);
+  });
+
+  it.each([
+    ['Call 911 now', 'en-US', 'Call nine one one now'],
+    ['Call 999', 'en-GB', 'Call nine nine nine'],
+    ['Ruf 110 an', 'de-DE', 'Ruf eins eins null an'],
+    ['打119', 'zh-CN', '打一一九'],
+    ['Agent 007', 'en-US', 'Agent zero zero seven'],
+    ['Code 12345', 'en-US', 'Code one two three four five']
+  ])('reads emergency numbers, codes and long digit strings digit by digit: %s (%s)', (text, language, spoken) => {
+    expect(normalizeSpeechText(text, language)).toBe(spoken);
+  });
+
+  it.each([
+    ['Call 555-123-4567.', 'en-US', 'Call five five five, one two three, four five six seven.'],
+    ['Call (555) 123-4567', 'en-US', 'Call five five five, one two three, four five six seven'],
+    ['Call 1-800-555-1234', 'en-US', 'Call one, eight zero zero, five five five, one two three four'],
+    ['Ring 020 7946 0958', 'en-GB', 'Ring zero two zero, seven nine four six, zero nine five eight'],
+    ['Ring +44 20 7946 0958', 'en-GB', 'Ring +four four, two zero, seven nine four six, zero nine five eight'],
+    ['Appelez le 01 23 45 67 89', 'fr-FR', 'Appelez le zéro un, deux trois, quatre cinq, six sept, huit neuf']
+  ])('reads phone numbers group by group: %s (%s)', (text, language, spoken) => {
+    expect(normalizeSpeechText(text, language)).toBe(spoken);
+  });
+
+  it.each([
+    ['It costs $5.50', 'en-US', 'It costs five dollars and fifty cents'],
+    ['Es kostet 5,50 €', 'de-DE', 'Es kostet fünf Euro und fünfzig Cent'],
+    ['50% off', 'en-US', 'fifty percent off'],
+    ['the 21st', 'en-US', 'the twenty-first'],
+    ['Meet at 10:30 pm', 'en-US', 'Meet at ten thirty p m'],
+    ['15h30', 'fr-FR', 'quinze heures trente'],
+    ['Meet on 2024-03-15', 'en-US', 'Meet on March fifteenth, twenty twenty-four'],
+    ['Le 3/4/2024', 'fr-FR', 'Le trois avril deux mille vingt-quatre'],
+    ['2024年3月15日', 'zh-CN', '二零二四年三月十五日'],
+    ['Dr. Smith', 'en-US', 'Doctor Smith']
+  ])('expands currency, percentages, ordinals, times, dates and abbreviations: %s (%s)', (text, language, spoken) => {
+    expect(normalizeSpeechText(text, language)).toBe(spoken);
+  });
+
+  it.each([
+    ['NASA and FBI', 'Nasa and ef bee eye'],
+    ['Call the FBI', 'Call the ef bee eye'],
+    ['NASA, FBI and CIA agents', 'Nasa, ef bee eye and see eye ay agents'],
+    ['Meet at the U.S.A. border', 'Meet at the you ess ay border']
+  ])('expands acronyms among lowercase words: %s', (text, spoken) => {
+    expect(normalizeSpeechText(text, 'en-US')).toBe(spoken);
+  });
+
+  it.each(['HELP ME NOW', 'HELP ME NOW please', 'PLEASE CALL AN AMBULANCE now'])('leaves shouted text alone: %s', text => {
+    expect(normalizeSpeechText(text, 'en-US')).toBe(text);
+  });
+
+  it('leaves verbatim text alone and spells characters on request', () => {
+    expect(normalizeSpeechText('Call 911', 'en-US', 'verbatim')).toBe('Call 911');
+    expect(normalizeSpeechText('AB1!', 'en-US', 'characters')).toBe('ay bee one!');
+    expect(normalizeSpeechText('911', 'en-US', 'cardinal')).toBe('nine hundred eleven');
+  });
+
+  it.each([
+    ['water', true, 'water'],
+    ['BOB', false, 'Bob'],
+    ['XKCD', false, 'ex kay see dee']
+  ])('speaks the fingerspelled word %s', (word, known, spoken) => {
+    expect(speakFingerspelledWord(word, known)).toBe(spoken);
+  });
+});
@@ -0,0 +1,1050 @@
+// Rewrites what engines read badly into words before synthesis: numbers, ordinals,
+// currency, percentages, times, dates, abbreviations and acronyms. Rules are chosen
+// by language tag ('en-GB', 'fr', ...); unknown languages use American English.
+
+import type { SpeechInterpretation } from '../types/index.js';
+
+export const DEFAULT_SPEECH_LOCALE = 'en-US';
+
+type CurrencySymbol = '$' | '€' | '£' | '¥';
+
+interface LocaleRules {
+  cardinal(n: number): string;
+  ordinal(n: number, feminine?: boolean): string;
+  year(n: number): string;
+  date(day: number, month: number, year: number | null): string;
+  time(hours: number, minutes: number, meridiem: 'am' | 'pm' | null): string;
+  currency(symbol: CurrencySymbol, units: number, cents: number): string;
+  percent(amount: string): string;
+  minus: string;
+  decimalPoint: string;           // Word read for the decimal separator
+  separators: { thousands: string; decimal: string };
+  dayFirst: boolean;              // 3/4/2024 is the 3rd of April
+  hourMarker: boolean;            // Clock times may be written 15h30
+  ordinalPattern: RegExp | null;  // Captures the digits and the suffix
+  abbreviations: Record<string, string>;
+  letters: Record<string, string>;
+  emergencyNumbers: string[];     // Said digit by digit: 'nine one one', not 'nine hundred eleven'
+  cjk: boolean;
+}
+
+const MAX_SPOKEN_NUMBER = 999_999_999_999_999;
+
+// ---------------------------------------------------------------------------
+// English
+
+const EN_ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve',
+  'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EN_ORDINAL_WORDS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+};
+const EN_MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'
+];
+const EN_LETTERS = letterTable(
+  'ay bee see dee ee ef gee aitch eye jay kay el em en oh pee cue ar ess tee you vee double-you ex why zee'
+);
+
+function englishCardinal(n: number, british: boolean): string {
+  if (n < 20) {
+    return EN_ONES[n];
+  }
+  if (n < 100) {
+    return EN_TENS[Math.floor(n / 10)] + (n % 10 ? `-${EN_ONES[n % 10]}` : '');
+  }
+  if (n < 1000) {
+    const rest = n % 100;
+    return `${EN_ONES[Math.floor(n / 100)]} hundred${rest ? `${british ? ' and ' : ' '}${englishCardinal(rest, british)}` : ''}`;
+  }
+  return composeScales(n, [
+    [1e12, count => `${englishCardinal(count, british)} trillion`],
+    [1e9, count => `${englishCardinal(count, british)} billion`],
+    [1e6, count => `${englishCardinal(count, british)} million`],
+    [1e3, count => `${englishCardinal(count, british)} thousand`]
+  ], rest => `${british && rest < 100 ? 'and ' : ''}${englishCardinal(rest, british)}`);
+}
+
+function englishOrdinal(n: number, british: boolean): string {
+  return englishCardinal(n, british).replace(/([a-z]+)$/, word =>
+    EN_ORDINAL_WORDS[word] || (word.endsWith('y') ? `${word.slice(0, -1)}ieth` : `${word}th`));
+}
+
+// 1984 -> nineteen eighty-four, 2005 -> two thousand five, 1900 -> nineteen hundred
+function englishYear(n: number, british: boolean): string {
+  if (n < 1100 || n >= 10000 || (n >= 2000 && n < 2010)) {
+    return englishCardinal(n, british);
+  }
+  const high = Math.floor(n / 100);
+  const low = n % 100;
+  if (low === 0) {
+    return `${englishCardinal(high, british)} hundred`;
+  }
+  return `${englishCardinal(high, british)} ${low < 10 ? `oh ${EN_ONES[low]}` : englishCardinal(low, british)}`;
+}
+
+function englishRules(region: 'US' | 'GB' | 'AU' | 'IE'): LocaleRules {
+  const british = region !== 'US';
+  const cardinal = (n: number) => englishCardinal(n, british);
+  const names: Record<CurrencySymbol, [string, string, string, string]> = {
+    '$': ['dollar', 'dollars', 'cent', 'cents'],
+    '€': ['euro', 'euros', 'cent', 'cents'],
+    '£': ['pound', 'pounds', 'penny', 'pence'],
+    '¥': ['yen', 'yen', '', '']
+  };
+
+  return {
+    cardinal,
+    ordinal: n => englishOrdinal(n, british),
+    year: n => englishYear(n, british),
+    date: (day, month, year) => {
+      const spokenYear = year === null ? '' : ` ${englishYear(year, british)}`;
+      return british
+        ? `the ${englishOrdinal(day, british)} of ${EN_MONTHS[month - 1]}${spokenYear}`
+        : `${EN_MONTHS[month - 1]} ${englishOrdinal(day, british)}${year === null ? '' : `,${spokenYear}`}`;
+    },
+    time: (hours, minutes, meridiem) => {
+      const suffix = meridiem ? ` ${meridiem === 'am' ? 'a m' : 'p m'}` : '';
+      if (minutes === 0) {
+        return meridiem ? `${cardinal(hours)}${suffix}` : `${cardinal(hours)} o'clock`;
+      }
+      return `${cardinal(hours)} ${minutes < 10 ? `oh ${EN_ONES[minutes]}` : cardinal(minutes)}${suffix}`;
+    },
+    currency: (symbol, units, cents) => currencyPhrase(names[symbol], units, cents, ' and ', cardinal),
+    percent: amount => `${amount} percent`,
+    minus: 'minus',
+    decimalPoint: 'point',
+    separators: { thousands: ',', decimal: '.' },
+    dayFirst: british,
+    hourMarker: false,
+    ordinalPattern: /(\d+)(st|nd|rd|th)(?!\p{L})/giu,
+    abbreviations: {
+      'Dr.': 'Doctor', 'Mr.': 'Mister', 'Mrs.': 'Missus', 'Ms.': 'Miz', 'Prof.': 'Professor', 'Jr.': 'Junior',
+      'Sr.': 'Senior', 'Mt.': 'Mount', 'etc.': 'et cetera', 'vs.': 'versus', 'e.g.': 'for example', 'i.e.': 'that is',
+      'approx.': 'approximately'
+    },
+    letters: region === 'US' ? EN_LETTERS : { ...EN_LETTERS, Z: 'zed' },
+    emergencyNumbers: { US: ['911'], GB: ['999', '112'], IE: ['999', '112'], AU: ['000', '112'] }[region],
+    cjk: false
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Spanish
+
+const ES_UNITS = [
+  'cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez', 'once', 'doce', 'trece',
+  'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve', 'veinte', 'veintiuno', 'veintidós',
+  'veintitrés', 'veinticuatro', 'veinticinco', 'veintiséis', 'veintisiete', 'veintiocho', 'veintinueve'
+];
+const ES_TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'];
+const ES_HUNDREDS = [
+  '', 'ciento', 'doscientos', 'trescientos', 'cuatrocientos', 'quinientos', 'seiscientos', 'setecientos',
+  'ochocientos', 'novecientos'
+];
+const ES_ORDINALS = ['', 'primero', 'segundo', 'tercero', 'cuarto', 'quinto', 'sexto', 'séptimo', 'octavo', 'noveno', 'décimo'];
+const ES_MONTHS = [
+  'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'
+];
+const ES_LETTERS = letterTable(
+  'a be ce de e efe ge hache i jota ka ele eme ene o pe cu erre ese te u uve uve-doble equis ye zeta'
+);
+
+function spanishCardinal(n: number): string {
+  if (n < 30) {
+    return ES_UNITS[n];
+  }
+  if (n < 100) {
+    return ES_TENS[Math.floor(n / 10)] + (n % 10 ? ` y ${ES_UNITS[n % 10]}` : '');
+  }
+  if (n < 1000) {
+    return n === 100 ? 'cien' : ES_HUNDREDS[Math.floor(n / 100)] + (n % 100 ? ` ${spanishCardinal(n % 100)}` : '');
+  }
+  return composeScales(n, [
+    [1e12, count => count === 1 ? 'un billón' : `${spanishApocope(spanishCardinal(count))} billones`],
+    [1e6, count => count === 1 ? 'un millón' : `${spanishApocope(spanishCardinal(count))} millones`],
+    [1e3, count => count === 1 ? 'mil' : `${spanishApocope(spanishCardinal(count))} mil`]
+  ], spanishCardinal);
+}
+
+// 'uno' shortens before a noun: un dólar, veintiún euros
+function spanishApocope(words: string): string {
+  return words.replace(/veintiuno$/, 'veintiún').replace(/\buno$/, 'un');
+}
+
+function spanishRules(region: 'ES' | 'MX'): LocaleRules {
+  const ordinal = (n: number, feminine = false) => {
+    const word = n <= 10 ? ES_ORDINALS[n] : spanishCardinal(n);
+    return feminine && n <= 10 ? word.replace(/o$/, 'a') : word;
+  };
+  const names: Record<CurrencySymbol, [string, string, string, string]> = {
+    '$': ['dólar', 'dólares', 'centavo', 'centavos'],
+    '€': ['euro', 'euros', 'céntimo', 'céntimos'],
+    '£': ['libra', 'libras', 'penique', 'peniques'],
+    '¥': ['yen', 'yenes', '', '']
+  };
+
+  return {
+    cardinal: spanishCardinal,
+    ordinal,
+    year: spanishCardinal,
+    date: (day, month, year) =>
+      `${day === 1 && region === 'MX' ? 'primero' : spanishCardinal(day)} de ${ES_MONTHS[month - 1]}` +
+      (year === null ? '' : ` de ${spanishCardinal(year)}`),
+    time: (hours, minutes) => {
+      const hour = hours % 12 === 1 ? 'una' : spanishCardinal(hours);
+      return minutes === 0 ? `${hour} en punto` : `${hour} y ${spanishCardinal(minutes)}`;
+    },
+    currency: (symbol, units, cents) => currencyPhrase(names[symbol], units, cents, ' con ', n => spanishApocope(spanishCardinal(n))),
+    percent: amount => `${amount} por ciento`,
+    minus: 'menos',
+    decimalPoint: region === 'MX' ? 'punto' : 'coma',
+    separators: region === 'MX' ? { thousands: ',', decimal: '.' } : { thousands: '.', decimal: ',' },
+    dayFirst: true,
+    hourMarker: false,
+    ordinalPattern: /(\d+)\.?([oa])(?!\p{L})/gu,
+    abbreviations: {
+      'Sr.': 'señor', 'Sra.': 'señora', 'Srta.': 'señorita', 'Dr.': 'doctor', 'Dra.': 'doctora', 'Ud.': 'usted',
+      'Uds.': 'ustedes', 'etc.': 'etcétera', 'p. ej.': 'por ejemplo', 'núm.': 'número'
+    },
+    letters: ES_LETTERS,
+    emergencyNumbers: region === 'MX' ? ['911'] : ['112'],
+    cjk: false
+  };
+}
+
+// ---------------------------------------------------------------------------
+// French
+
+const FR_UNITS = [
+  'zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf', 'dix', 'onze', 'douze', 'treize',
+  'quatorze', 'quinze', 'seize'
+];
+const FR_TENS = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+const FR_MONTHS = [
+  'janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'
+];
+const FR_LETTERS = letterTable(
+  'a bé cé dé e effe gé ache i ji ka elle emme enne o pé ku erre esse té u vé double-vé ixe i-grec zède'
+);
+
+function frenchCardinal(n: number): string {
+  if (n <= 16) {
+    return FR_UNITS[n];
+  }
+  if (n < 20) {
+    return `dix-${FR_UNITS[n - 10]}`;
+  }
+  if (n < 70) {
+    const tens = FR_TENS[Math.floor(n / 10)];
+    const unit = n % 10;
+    return unit === 0 ? tens : unit === 1 ? `${tens} et un` : `${tens}-${FR_UNITS[unit]}`;
+  }
+  if (n < 80) {
+    return n === 71 ? 'soixante et onze' : `soixante-${frenchCardinal(n - 60)}`;
+  }
+  if (n < 100) {
+    return n === 80 ? 'quatre-vingts' : `quatre-vingt-${frenchCardinal(n - 80)}`;
+  }
+  if (n < 1000) {
+    const hundreds = Math.floor(n / 100);
+    const rest = n % 100;
+    const prefix = hundreds === 1 ? 'cent' : `${FR_UNITS[hundreds]} cent${rest ? '' : 's'}`;
+    return rest ? `${prefix} ${frenchCardinal(rest)}` : prefix;
+  }
+  return composeScales(n, [
+    [1e12, count => count === 1 ? 'un billion' : `${frenchCardinal(count)} billions`],
+    [1e9, count => count === 1 ? 'un milliard' : `${frenchCardinal(count)} milliards`],
+    [1e6, count => count === 1 ? 'un million' : `${frenchCardinal(count)} millions`],
+    // 'mille' never takes an s and stops the s of vingts and cents before it
+    [1e3, count => count === 1 ? 'mille' : `${frenchCardinal(count).replace(/(vingt|cent)s$/, '$1')} mille`]
+  ], frenchCardinal);
+}
+
+function frenchOrdinal(n: number, feminine = false): string {
+  if (n === 1) {
+    return feminine ? 'première' : 'premier';
+  }
+  return frenchCardinal(n)
+    .replace(/s$/, '')
+    .replace(/cinq$/, 'cinqu')
+    .replace(/neuf$/, 'neuv')
+    .replace(/e$/, '') + 'ième';
+}
+
+function frenchRules(): LocaleRules {
+  const names: Record<CurrencySymbol, [string, string, string, string]> = {
+    '$': ['dollar', 'dollars', 'cent', 'cents'],
+    '€': ['euro', 'euros', 'centime', 'centimes'],
+    '£': ['livre', 'livres', 'penny', 'pence'],
+    '¥': ['yen', 'yens', '', '']
+  };
+
+  return {
+    cardinal: frenchCardinal,
+    ordinal: frenchOrdinal,
+    year: frenchCardinal,
+    date: (day, month, year) =>
+      `${day === 1 ? 'premier' : frenchCardinal(day)} ${FR_MONTHS[month - 1]}${year === null ? '' : ` ${frenchCardinal(year)}`}`,
+    time: (hours, minutes) => {
+      const hour = `${frenchCardinal(hours).replace(/\bun$/, 'une')} ${hours === 1 ? 'heure' : 'heures'}`;
+      return minutes === 0 ? hour : `${hour} ${frenchCardinal(minutes)}`;
+    },
+    currency: (symbol, units, cents) => currencyPhrase(names[symbol], units, cents, ' et ', frenchCardinal, true),
+    percent: amount => `${amount} pour cent`,
+    minus: 'moins',
+    decimalPoint: 'virgule',
+    separators: { thousands: ' ', decimal: ',' },
+    dayFirst: true,
+    hourMarker: true,
+    ordinalPattern: /(\d+)(er|re|ère|ème|eme|e)(?!\p{L})/gu,
+    abbreviations: {
+      'M.': 'monsieur', 'MM.': 'messieurs', 'Mme': 'madame', 'Mlle': 'mademoiselle', 'Dr': 'docteur',
+      'etc.': 'et cetera', 'p. ex.': 'par exemple'
+    },
+    letters: FR_LETTERS,
+    emergencyNumbers: ['112', '911'],
+    cjk: false
+  };
+}
+
+// ---------------------------------------------------------------------------
+// German
+
+const DE_UNITS = [
+  'null', 'eins', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun', 'zehn', 'elf', 'zwölf',
+  'dreizehn', 'vierzehn', 'fünfzehn', 'sechzehn', 'siebzehn', 'achtzehn', 'neunzehn'
+];
+const DE_TENS = ['', '', 'zwanzig', 'dreißig', 'vierzig', 'fünfzig', 'sechzig', 'siebzig', 'achtzig', 'neunzig'];
+const DE_MONTHS = [
+  'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni', 'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'
+];
+const DE_IRREGULAR_ORDINALS: Record<string, string> = { eins: 'erste', drei: 'dritte', sieben: 'siebte', acht: 'achte' };
+const DE_LETTERS = letterTable('a be ce de e ef ge ha i jot ka el em en o pe ku er es te u fau we ix ypsilon zett');
+
+function germanBelowThousand(n: number): string {
+  if (n < 20) {
+    return DE_UNITS[n];
+  }
+  if (n < 100) {
+    const unit = n % 10;
+    return unit ? `${unit === 1 ? 'ein' : DE_UNITS[unit]}und${DE_TENS[Math.floor(n / 10)]}` : DE_TENS[Math.floor(n / 10)];
+  }
+  const hundreds = Math.floor(n / 100);
+  return `${hundreds === 1 ? 'ein' : DE_UNITS[hundreds]}hundert${n % 100 ? germanBelowThousand(n % 100) : ''}`;
+}
+
+// One word below a million; Million, Milliarde and Billion are nouns of their own
+function germanCardinal(n: number): string {
+  if (n < 1000) {
+    return germanBelowThousand(n);
+  }
+  if (n < 1e6) {
+    const thousands = Math.floor(n / 1000);
+    const rest = n % 1000;
+    return `${germanBelowThousand(thousands).replace(/eins$/, 'ein')}tausend${rest ? germanBelowThousand(rest) : ''}`;
+  }
+  return composeScales(n, [
+    [1e12, count => count === 1 ? 'eine Billion' : `${germanCardinal(count)} Billionen`],
+    [1e9, count => count === 1 ? 'eine Milliarde' : `${germanCardinal(count)} Milliarden`],
+    [1e6, count => count === 1 ? 'eine Million' : `${germanCardinal(count)} Millionen`]
+  ], germanCardinal);
+}
+
+// Nominative with the definite article: der erste, der dritte, der zwanzigste
+function germanOrdinal(n: number): string {
+  const cardinal = germanCardinal(n);
+  const irregular = cardinal.match(/(eins|drei|sieben|acht)$/);
+  if (irregular) {
+    return cardinal.slice(0, -irregular[1].length) + DE_IRREGULAR_ORDINALS[irregular[1]];
+  }
+  return `${cardinal}${n % 100 > 0 && n % 100 < 20 ? 'te' : 'ste'}`;
+}
+
+// 1984 -> neunzehnhundertvierundachtzig
+function germanYear(n: number): string {
+  return n >= 1100 && n < 2000
+    ? `${germanBelowThousand(Math.floor(n / 100))}hundert${n % 100 ? germanBelowThousand(n % 100) : ''}`
+    : germanCardinal(n);
+}
+
+function germanRules(): LocaleRules {
+  const names: Record<CurrencySymbol, [string, string, string, string]> = {
+    '$': ['Dollar', 'Dollar', 'Cent', 'Cent'],
+    '€': ['Euro', 'Euro', 'Cent', 'Cent'],
+    '£': ['Pfund', 'Pfund', 'Penny', 'Pence'],
+    '¥': ['Yen', 'Yen', '', '']
+  };
+
+  return {
+    cardinal: germanCardinal,
+    ordinal: germanOrdinal,
+    year: germanYear,
+    date: (day, month, year) =>
+      `${germanOrdinal(day)}r ${DE_MONTHS[month - 1]}${year === null ? '' : ` ${germanYear(year)}`}`,
+    time: (hours, minutes) => {
+      const hour = `${hours === 1 ? 'ein' : germanCardinal(hours)} Uhr`;
+      return minutes === 0 ? hour : `${hour} ${germanCardinal(minutes)}`;
+    },
+    currency: (symbol, units, cents) =>
+      currencyPhrase(names[symbol], units, cents, ' und ', n => germanCardinal(n).replace(/^eins$/, 'ein')),
+    percent: amount => `${amount} Prozent`,
+    minus: 'minus',
+    decimalPoint: 'Komma',
+    separators: { thousands: '.', decimal: ',' },
+    dayFirst: true,
+    hourMarker: false,
+    // '3.' is as often the end of a sentence as an ordinal; only dates read it as one
+    ordinalPattern: null,
+    abbreviations: {
+      'Hr.': 'Herr', 'Fr.': 'Frau', 'Dr.': 'Doktor', 'z. B.': 'zum Beispiel', 'z.B.': 'zum Beispiel',
+      'usw.': 'und so weiter', 'bzw.': 'beziehungsweise', 'd. h.': 'das heißt', 'd.h.': 'das heißt', 'ca.': 'circa',
+      'Nr.': 'Nummer', 'Str.': 'Straße'
+    },
+    letters: DE_LETTERS,
+    emergencyNumbers: ['110', '112'],
+    cjk: false
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Italian
+
+const IT_UNITS = [
+  'zero', 'uno', 'due', 'tre', 'quattro', 'cinque', 'sei', 'sette', 'otto', 'nove', 'dieci', 'undici', 'dodici',
+  'tredici', 'quattordici', 'quindici', 'sedici', 'diciassette', 'diciotto', 'diciannove'
+];
+const IT_TENS = ['', '', 'venti', 'trenta', 'quaranta', 'cinquanta', 'sessanta', 'settanta', 'ottanta', 'novanta'];
+const IT_ORDINALS = ['', 'primo', 'secondo', 'terzo', 'quarto', 'quinto', 'sesto', 'settimo', 'ottavo', 'nono', 'decimo'];
+const IT_MONTHS = [
+  'gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno', 'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre'
+];
+const IT_LETTERS = letterTable(
+  'a bi ci di e effe gi acca i i-lunga cappa elle emme enne o pi cu erre esse ti u vu doppia-vu ics ipsilon zeta'
+);
+
+function italianBelowThousand(n: number): string {
+  if (n < 20) {
+    return IT_UNITS[n];
+  }
+  if (n < 100) {
+    const unit = n % 10;
+    // The tens lose their vowel before uno and otto: ventuno, trentotto
+    const tens = unit === 1 || unit === 8 ? IT_TENS[Math.floor(n / 10)].slice(0, -1) : IT_TENS[Math.floor(n / 10)];
+    return tens + (unit ? IT_UNITS[unit] : '');
+  }
+  const hundreds = Math.floor(n / 100);
+  return `${hundreds === 1 ? '' : IT_UNITS[hundreds]}cento${n % 100 ? italianBelowThousand(n % 100) : ''}`;
+}
+
+function italianCardinal(n: number): string {
+  let words: string;
+  if (n < 1000) {
+    words = italianBelowThousand(n);
+  } else if (n < 1e6) {
+    const thousands = Math.floor(n / 1000);
+    words = `${thousands === 1 ? 'mille' : `${italianCardinal(thousands)}mila`}${n % 1000 ? italianBelowThousand(n % 1000) : ''}`;
+  } else {
+    words = composeScales(n, [
+      [1e12, count => count === 1 ? 'un bilione' : `${italianCardinal(count)} bilioni`],
+      [1e9, count => count === 1 ? 'un miliardo' : `${italianCardinal(count)} miliardi`],
+      [1e6, count => count === 1 ? 'un milione' : `${italianCardinal(count)} milioni`]
+    ], italianCardinal);
+  }
+  // A final 'tre' in a compound is stressed: ventitré, centotré
+  return n > 20 ? words.replace(/(\S)tre$/, '$1tré') : words;
+}
+
+function italianOrdinal(n: number, feminine = false): string {
+  let word: string;
+  if (n <= 10) {
+    word = IT_ORDINALS[n];
+  } else {
+    const cardinal = italianCardinal(n);
+    word = cardinal.endsWith('tré') ? `${cardinal.slice(0, -1)}eesimo`
+      : cardinal.endsWith('sei') ? `${cardinal}esimo`
+        : `${cardinal.slice(0, -1)}esimo`;
+  }
+  return feminine ? word.replace(/o$/, 'a') : word;
+}
+
+function italianRules(): LocaleRules {
+  const names: Record<CurrencySymbol, [string, string, string, string]> = {
+    '$': ['dollaro', 'dollari', 'centesimo', 'centesimi'],
+    '€': ['euro', 'euro', 'centesimo', 'centesimi'],
+    '£': ['sterlina', 'sterline', 'penny', 'pence'],
+    '¥': ['yen', 'yen', '', '']
+  };
+
+  return {
+    cardinal: italianCardinal,
+    ordinal: italianOrdinal,
+    year: italianCardinal,
+    date: (day, month, year) =>
+      `${day === 1 ? 'primo' : italianCardinal(day)} ${IT_MONTHS[month - 1]}${year === null ? '' : ` ${italianCardinal(year)}`}`,
+    time: (hours, minutes) => {
+      const hour = hours === 1 ? 'una' : italianCardinal(hours);
+      return minutes === 0 ? hour : `${hour} e ${italianCardinal(minutes)}`;
+    },
+    currency: (symbol, units, cents) =>
+      currencyPhrase(names[symbol], units, cents, ' e ', n => n === 1 ? 'un' : italianCardinal(n)),
+    percent: amount => `${amount} per cento`,
+    minus: 'meno',
+    decimalPoint: 'virgola',
+    separators: { thousands: '.', decimal: ',' },
+    dayFirst: true,
+    hourMarker: false,
+    ordinalPattern: /(\d+)\.?([oa])(?!\p{L})/gu,
+    abbreviations: {
+      'Sig.': 'signor', 'Sig.ra': 'signora', 'Dott.': 'dottor', 'Dott.ssa': 'dottoressa', 'ecc.': 'eccetera',
+      'p.es.': 'per esempio'
+    },
+    letters: IT_LETTERS,
+    emergencyNumbers: ['112', '113', '118'],
+    cjk: false
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Portuguese
+
+const PT_UNITS_BR = [
+  'zero', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove', 'dez', 'onze', 'doze', 'treze',
+  'catorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove'
+];
+const PT_UNITS_PT = [...PT_UNITS_BR.slice(0, 16), 'dezasseis', 'dezassete', 'dezoito', 'dezanove'];
+const PT_TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const PT_HUNDREDS = [
+  '', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos'
+];
+const PT_ORDINALS = ['', 'primeiro', 'segundo', 'terceiro', 'quarto', 'quinto', 'sexto', 'sétimo', 'oitavo', 'nono', 'décimo'];
+const PT_MONTHS = [
+  'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'
+];
+const PT_LETTERS = letterTable(
+  'a bê cê dê é efe gê agá i jota cá ele eme ene ó pê quê erre esse tê u vê dáblio xis ípsilon zê'
+);
+
+function portugueseCardinal(n: number, units: string[]): string {
+  if (n < 20) {
+    return units[n];
+  }
+  if (n < 100) {
+    return PT_TENS[Math.floor(n / 10)] + (n % 10 ? ` e ${units[n % 10]}` : '');
+  }
+  if (n < 1000) {
+    return n === 100 ? 'cem' : PT_HUNDREDS[Math.floor(n / 100)] + (n % 100 ? ` e ${portugueseCardinal(n % 100, units)}` : '');
+  }
+  const european = units === PT_UNITS_PT;
+  // 'e' joins the last group when it is below a hundred or a round hundred: mil e vinte, mil e trezentos
+  const below = (rest: number) => `${rest < 100 || rest % 100 === 0 ? 'e ' : ''}${portugueseCardinal(rest, units)}`;
+  return composeScales(n, [
+    [1e12, count => count === 1 ? (european ? 'um bilião' : 'um trilhão') : `${portugueseCardinal(count, units)} ${european ? 'biliões' : 'trilhões'}`],
+    ...(european ? [] : [[1e9, (count: number) => count === 1 ? 'um bilhão' : `${portugueseCardinal(count, units)} bilhões`] as [number, (count: number) => string]]),
+    [1e6, count => count === 1 ? 'um milhão' : `${portugueseCardinal(count, units)} milhões`],
+    [1e3, count => count === 1 ? 'mil' : `${portugueseCardinal(count, units)} mil`]
+  ], below);
+}
+
+function portugueseRules(region: 'BR' | 'PT'): LocaleRules {
+  const units = region === 'PT' ? PT_UNITS_PT : PT_UNITS_BR;
+  const cardinal = (n: number) => portugueseCardinal(n, units);
+  const names: Record<CurrencySymbol, [string, string, string, string]> = {
+    '$': ['dólar', 'dólares', 'centavo', 'centavos'],
+    '€': ['euro', 'euros', region === 'PT' ? 'cêntimo' : 'centavo', region === 'PT' ? 'cêntimos' : 'centavos'],
+    '£': ['libra', 'libras', 'pêni', 'pence'],
+    '¥': ['iene', 'ienes', '', '']
+  };
+
+  return {
+    cardinal,
+    ordinal: (n, feminine = false) => {
+      const word = n <= 10 ? PT_ORDINALS[n] : cardinal(n);
+      return feminine && n <= 10 ? word.replace(/o$/, 'a') : word;
+    },
+    year: cardinal,
+    date: (day, month, year) =>
+      `${day === 1 && region === 'BR' ? 'primeiro' : cardinal(day)} de ${PT_MONTHS[month - 1]}` +
+      (year === null ? '' : ` de ${cardinal(year)}`),
+    time: (hours, minutes) => {
+      // Hours are feminine: uma hora, duas horas
+      const hour = cardinal(hours).replace(/\bum$/, 'uma').replace(/\bdois$/, 'duas');
+      return minutes === 0 ? `${hour} ${hours === 1 ? 'hora' : 'horas'}` : `${hour} e ${cardinal(minutes)}`;
+    },
+    currency: (symbol, units, cents) => currencyPhrase(names[symbol], units, cents, ' e ', cardinal),
+    percent: amount => `${amount} por cento`,
+    minus: 'menos',
+    decimalPoint: 'vírgula',
+    separators: { thousands: '.', decimal: ',' },
+    dayFirst: true,
+    hourMarker: false,
+    ordinalPattern: /(\d+)\.?([oa])(?!\p{L})/gu,
+    abbreviations: {
+      'Sr.': 'senhor', 'Sra.': 'senhora', 'Dr.': 'doutor', 'Dra.': 'doutora', 'etc.': 'et cetera', 'p. ex.': 'por exemplo'
+    },
+    letters: PT_LETTERS,
+    emergencyNumbers: region === 'BR' ? ['190', '192', '193'] : ['112'],
+    cjk: false
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Chinese and Japanese: numerals are written out in kanji, which both engines read natively
+
+const CJK_DIGITS = '零一二三四五六七八九';
+
+function cjkGroup(n: number, japanese: boolean): string {
+  let words = '';
+  let zero = false;
+  for (const [size, unit] of [[1000, '千'], [100, '百'], [10, '十'], [1, '']] as Array<[number, string]>) {
+    const digit = Math.floor(n / size) % 10;
+    if (digit === 0) {
+      zero = words.length > 0;
+      continue;
+    }
+    if (zero && !japanese) {
+      words += '零';
+    }
+    zero = false;
+    // Japanese drops the 一 before 十, 百 and 千
+    words += digit === 1 && unit && japanese ? unit : `${CJK_DIGITS[digit]}${unit}`;
+  }
+  return words;
+}
+
+function cjkCardinal(n: number, japanese: boolean): string {
+  if (n === 0) {
+    return '零';
+  }
+  const units = japanese ? ['', '万', '億', '兆'] : ['', '万', '亿', '万亿'];
+  const groups: number[] = [];
+  for (let rest = n; rest > 0; rest = Math.floor(rest / 10000)) {
+    groups.push(rest % 10000);
+  }
+
+  let words = '';
+  let skipped = false;
+  for (let index = groups.length - 1; index >= 0; index--) {
+    const group = groups[index];
+    if (group === 0) {
+      skipped = words.length > 0;
+      continue;
+    }
+    if (!japanese && words && (group < 1000 || skipped)) {
+      words += '零';
+    }
+    skipped = false;
+    words += cjkGroup(group, japanese) + units[index];
+  }
+  return japanese ? words : words.replace(/^一十/, '十');
+}
+
+// Chinese reads years digit by digit: 二零二四年
+function cjkYear(n: number, japanese: boolean): string {
+  return japanese ? cjkCardinal(n, true) : String(n).split('').map(digit => CJK_DIGITS[Number(digit)]).join('');
+}
+
+function cjkRules(japanese: boolean): LocaleRules {
+  const cardinal = (n: number) => cjkCardinal(n, japanese);
+  const names: Record<CurrencySymbol, [string, string]> = japanese
+    ? { '$': ['ドル', 'セント'], '€': ['ユーロ', 'セント'], '£': ['ポンド', 'ペンス'], '¥': ['円', ''] }
+    : { '$': ['美元', '美分'], '€': ['欧元', '欧分'], '£': ['英镑', '便士'], '¥': ['日元', ''] };
+
+  return {
+    cardinal,
+    ordinal: n => `第${cardinal(n)}`,
+    year: n => cjkYear(n, japanese),
+    date: (day, month, year) => `${year === null ? '' : `${cjkYear(year, japanese)}年`}${cardinal(month)}月${cardinal(day)}日`,
+    time: (hours, minutes) => {
+      const hour = japanese ? `${cardinal(hours)}時` : `${hours === 2 ? '两' : cardinal(hours)}点`;
+      return minutes === 0 ? hour : `${hour}${cardinal(minutes)}分`;
+    },
+    currency: (symbol, units, cents) => {
+      const [unit, cent] = names[symbol];
+      return `${cardinal(units)}${unit}${cents > 0 && cent ? `${cardinal(cents)}${cent}` : ''}`;
+    },
+    percent: amount => japanese ? `${amount}パーセント` : `百分之${amount}`,
+    minus: japanese ? 'マイナス' : '负',
+    decimalPoint: '点',
+    separators: { thousands: ',', decimal: '.' },
+    dayFirst: false,
+    hourMarker: false,
+    ordinalPattern: null,
+    abbreviations: {},
+    letters: {},
+    emergencyNumbers: japanese ? ['110', '119'] : ['110', '119', '120'],
+    cjk: true
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+const LOCALES: Record<string, () => LocaleRules> = {
+  'en-US': () => englishRules('US'),
+  'en-GB': () => englishRules('GB'),
+  'en-AU': () => englishRules('AU'),
+  'en-IE': () => englishRules('IE'),
+  'es-ES': () => spanishRules('ES'),
+  'es-MX': () => spanishRules('MX'),
+  'fr-FR': frenchRules,
+  'fr-CA': frenchRules,
+  'de-DE': germanRules,
+  'it-IT': italianRules,
+  'pt-BR': () => portugueseRules('BR'),
+  'pt-PT': () => portugueseRules('PT'),
+  'zh-CN': () => cjkRules(false),
+  'ja-JP': () => cjkRules(true)
+};
+
+const rulesCache = new Map<string, LocaleRules>();
+
+// Acronyms that are said as words rather than letter by letter
+const WORD_ACRONYMS = new Set([
+  'NASA', 'NATO', 'UNESCO', 'UNICEF', 'OPEC', 'FIFA', 'COVID', 'AIDS', 'LASER', 'RADAR', 'SCUBA', 'ASAP', 'PIN', 'GIF'
+]);
+
+export function getSpeechLocales(): string[] {
+  return Object.keys(LOCALES);
+}
+
+// 'en_gb' -> en-GB, 'fr' -> fr-FR, unknown -> en-US
+export function resolveSpeechLocale(language?: string): string {
+  if (!language) {
+    return DEFAULT_SPEECH_LOCALE;
+  }
+  const [base, region] = language.replace('_', '-').split('-');
+  const tag = region ? `${base.toLowerCase()}-${region.toUpperCase()}` : base.toLowerCase();
+  if (LOCALES[tag]) {
+    return tag;
+  }
+  return Object.keys(LOCALES).find(locale => locale.startsWith(`${base.toLowerCase()}-`)) || DEFAULT_SPEECH_LOCALE;
+}
+
+export function normalizeSpeechText(text: string, language?: string, interpretAs?: SpeechInterpretation): string {
+  const rules = getRules(language);
+
+  switch (interpretAs) {
+    case 'verbatim':
+      return text;
+    case 'characters': {
+      // Punctuation after the spelled letters still shapes the intonation
+      const [, letters, punctuation] = text.match(/^(.*?)([\p{P}\s]*)$/su) || [text, text, ''];
+      return `${spellCharacters(letters.replace(/[^\p{L}\p{N}]/gu, ''), rules)}${punctuation.trim()}`;
+    }
+    case 'cardinal':
+    case 'ordinal': {
+      const digits = text.replace(/[^\d]/g, '');
+      const value = Number(digits);
+      if (digits && value <= MAX_SPOKEN_NUMBER) {
+        return interpretAs === 'cardinal' ? rules.cardinal(value) : rules.ordinal(value);
+      }
+      break;
+    }
+  }
+
+  let normalized = text;
+  normalized = expandDates(normalized, rules);
+  normalized = expandTimes(normalized, rules);
+  normalized = expandPhoneNumbers(normalized, rules);
+  normalized = expandCurrency(normalized, rules);
+  normalized = expandPercentages(normalized, rules);
+  normalized = expandOrdinals(normalized, rules);
+  normalized = expandAbbreviations(normalized, rules);
+  normalized = expandAcronyms(normalized, rules);
+  normalized = expandNumbers(normalized, rules);
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+// Fingerspelling spells names and unknown words as well as acronyms. Words the lexicon
+// knows and names that can be pronounced are read as words, the rest letter by letter.
+export function speakFingerspelledWord(word: string, known: boolean, language?: string): string {
+  const letters = word.replace(/[^\p{L}]/gu, '');
+  if (!letters) {
+    return word;
+  }
+  if (known && letters.length > 1) {
+    return letters.toLowerCase();
+  }
+  if (letters.length >= 3 && isPronounceable(letters)) {
+    return `${letters.charAt(0).toUpperCase()}${letters.slice(1).toLowerCase()}`;
+  }
+  return spellCharacters(letters, getRules(language));
+}
+
+function getRules(language?: string): LocaleRules {
+  const locale = resolveSpeechLocale(language);
+  let rules = rulesCache.get(locale);
+  if (!rules) {
+    rules = LOCALES[locale]();
+    rulesCache.set(locale, rules);
+  }
+  return rules;
+}
+
+function spellCharacters(text: string, rules: LocaleRules): string {
+  return Array.from(text.replace(/\s+/g, ''))
+    .map(character => {
+      if (/\d/.test(character)) {
+        return rules.cardinal(Number(character));
+      }
+      const upper = character.toUpperCase();
+      return rules.letters[upper] || upper;
+    })
+    .join(' ');
+}
+
+// Digits touching Latin letters ('mp3', 'COVID19') are left alone; CJK text runs straight into numbers
+function numberBoundary(rules: LocaleRules): { before: string; after: string } {
+  return rules.cjk
+    ? { before: '(?<![A-Za-z\\d.,])', after: '(?![A-Za-z\\d])' }
+    : { before: '(?<![\\p{L}\\d.,])', after: '(?![\\p{L}\\d])' };
+}
+
+// Matches a number in the locale's own notation: 1,234.5 in English, 1.234,5 in German
+function numberPattern(rules: LocaleRules): string {
+  const thousands = escapeRegExp(rules.separators.thousands);
+  const decimal = escapeRegExp(rules.separators.decimal);
+  return `\\d{1,3}(?:${thousands}\\d{3})+(?:${decimal}\\d+)?|\\d+(?:${decimal}\\d+)?`;
+}
+
+function parseNumber(text: string, rules: LocaleRules): { integer: number; fraction: string } | null {
+  const [integerPart, fraction = ''] = text.split(rules.separators.decimal);
+  const digits = integerPart.split(rules.separators.thousands).join('');
+  const integer = Number(digits);
+  return Number.isSafeInteger(integer) && integer <= MAX_SPOKEN_NUMBER ? { integer, fraction } : null;
+}
+
+function speakNumber(text: string, rules: LocaleRules): string {
+  const parsed = parseNumber(text, rules);
+  const digitString = text.replace(/[^\d]/g, '');
+  // Long unseparated digit strings, codes with leading zeros and oversized numbers are read digit by digit
+  if (!parsed || /^\d{5,}$/.test(text) ||
+      (digitString.length > 1 && digitString.startsWith('0') && !text.includes(rules.separators.decimal))) {
+    return readDigits(digitString, rules);
+  }
+  const whole = rules.cardinal(parsed.integer);
+  if (!parsed.fraction) {
+    return whole;
+  }
+  return rules.cjk
+    ? `${whole}${rules.decimalPoint}${readDigits(parsed.fraction, rules)}`
+    : `${whole} ${rules.decimalPoint} ${readDigits(parsed.fraction, rules)}`;
+}
+
+function readDigits(digits: string, rules: LocaleRules): string {
+  return digits.split('').map(digit => rules.cardinal(Number(digit))).join(rules.cjk ? '' : ' ');
+}
+
+function expandNumbers(text: string, rules: LocaleRules): string {
+  const { before, after } = numberBoundary(rules);
+  const pattern = new RegExp(`${before}(-|−)?(${numberPattern(rules)})${after}`, 'gu');
+  return text.replace(pattern, (_match, sign: string | undefined, number: string, offset: number, whole: string) => {
+    // A hyphen is a minus sign only where a word could not have ended: '-5' but not '3-5'
+    const negative = Boolean(sign) && (offset === 0 || /[\s(]/.test(whole.charAt(offset - 1)));
+    const spoken = rules.emergencyNumbers.includes(number) ? readDigits(number, rules) : speakNumber(number, rules);
+    if (sign && !negative) {
+      return `${sign}${spoken}`;
+    }
+    return negative ? `${rules.minus} ${spoken}` : spoken;
+  });
+}
+
+function expandDates(text: string, rules: LocaleRules): string {
+  const { before, after } = numberBoundary(rules);
+  const speak = (match: string, day: number, month: number, year: number | null) =>
+    month >= 1 && month <= 12 && day >= 1 && day <= 31 ? rules.date(day, month, year) : match;
+
+  // ISO 2024-03-15 first; it is unambiguous
+  let expanded = text.replace(new RegExp(`${before}(\\d{4})-(\\d{2})-(\\d{2})${after}`, 'gu'),
+    (match, year: string, month: string, day: string) => speak(match, Number(day), Number(month), Number(year)));
+
+  // 15/03/2024, 3/15/24 and German 15.03.2024
+  expanded = expanded.replace(new RegExp(`${before}(\\d{1,2})([/.])(\\d{1,2})\\2(\\d{4}|\\d{2})${after}`, 'gu'),
+    (match, first: string, separator: string, second: string, year: string) => {
+      if (separator === '.' && rules.dayFirst === false) {
+        return match;
+      }
+      const [day, month] = rules.dayFirst ? [first, second] : [second, first];
+      const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+      return speak(match, Number(day), Number(month), fullYear);
+    });
+
+  if (rules.cjk) {
+    // 2024年3月15日 keeps its characters; only the year needs its own reading
+    expanded = expanded.replace(/(\d{4})年/g, (_match, year: string) => `${rules.year(Number(year))}年`);
+  }
+  return expanded;
+}
+
+function expandTimes(text: string, rules: LocaleRules): string {
+  const { before, after } = numberBoundary(rules);
+  const speak = (match: string, hours: number, minutes: number, meridiem?: string) => {
+    const period = meridiem ? (meridiem.toLowerCase().startsWith('a') ? 'am' : 'pm') : null;
+    if (hours > 23 || minutes > 59 || (period && (hours === 0 || hours > 12))) {
+      return match;
+    }
+    return rules.time(hours, minutes, period);
+  };
+  const meridiem = '\\s*(a\\.?m\\.?|p\\.?m\\.?)(?![\\p{L}])';
+
+  // 10:30, 10:30:15, 10:30 pm
+  let expanded = text.replace(new RegExp(`${before}(\\d{1,2}):(\\d{2})(?::\\d{2})?(?:${meridiem})?${after}`, 'giu'),
+    (match, hours: string, minutes: string, period?: string) => speak(match, Number(hours), Number(minutes), period));
+
+  // 3pm, 3 a.m.
+  expanded = expanded.replace(new RegExp(`${before}(\\d{1,2})${meridiem}`, 'giu'),
+    (match, hours: string, period: string) => speak(match, Number(hours), 0, period));
+
+  // French 15h30 and 15h
+  if (rules.hourMarker) {
+    expanded = expanded.replace(new RegExp(`${before}(\\d{1,2})\\s?h\\s?(\\d{2})?${after}`, 'gu'),
+      (match, hours: string, minutes?: string) => speak(match, Number(hours), Number(minutes || 0)));
+  }
+  return expanded;
+}
+
+// +44 20 7946 0958, (555) 123-4567, 555-123-4567 and 01 23 45 67 89 are read group by group, digit by digit.
+// Two hyphenated groups stay a range ('1990-2000'), and space-grouped numbers need a leading zero or an
+// area code so French thousands ('10 000') are left to expandNumbers.
+function expandPhoneNumbers(text: string, rules: LocaleRules): string {
+  const { after } = numberBoundary(rules);
+  const phone = [
+    '\\+\\d{1,3}(?:[\\s.-]\\(?\\d{1,4}\\)?){2,5}',
+    '\\(\\d{2,5}\\)\\s?\\d{2,4}(?:[\\s.-]\\d{2,4}){1,2}',
+    '\\d{1,5}(?:-\\d{2,5}){2,4}',
+    '0\\d{1,4}(?:[\\s.]\\d{2,4}){2,4}'
+  ].join('|');
+  return text.replace(new RegExp(`(?<![\\p{L}\\d.,+-])(${phone})${after}`, 'gu'), (number: string) => {
+    const groups = number.match(/\d+/g) || [];
+    const spoken = groups.map(group => readDigits(group, rules)).join(rules.cjk ? '' : ', ');
+    return number.startsWith('+') ? `+${spoken}` : spoken;
+  });
+}
+
+function expandCurrency(text: string, rules: LocaleRules): string {
+  const number = numberPattern(rules);
+  const speak = (match: string, symbol: string, amount: string) => {
+    const parsed = parseNumber(amount, rules);
+    if (!parsed) {
+      return match;
+    }
+    const cents = parsed.fraction ? Number(parsed.fraction.padEnd(2, '0').slice(0, 2)) : 0;
+    return rules.currency(symbol as CurrencySymbol, parsed.integer, cents);
+  };
+
+  // $5.50 and 5,50 € / 5€
+  return text
+    .replace(new RegExp(`([$€£¥])\\s?(${number})(?!\\d)`, 'gu'), (match, symbol: string, amount: string) => speak(match, symbol, amount))
+    .replace(new RegExp(`(?<![\\d.,])(${number})\\s?([$€£¥])`, 'gu'), (match, amount: string, symbol: string) => speak(match, symbol, amount));
+}
+
+function expandPercentages(text: string, rules: LocaleRules): string {
+  const { before } = numberBoundary(rules);
+  return text.replace(new RegExp(`${before}(${numberPattern(rules)})\\s?%`, 'gu'),
+    (_match, amount: string) => rules.percent(speakNumber(amount, rules)));
+}
+
+function expandOrdinals(text: string, rules: LocaleRules): string {
+  if (!rules.ordinalPattern) {
+    return text;
+  }
+  return text.replace(rules.ordinalPattern, (match, digits: string, suffix: string, offset: number, whole: string) => {
+    const value = Number(digits);
+    if (offset > 0 && /[\p{L}\d]/u.test(whole.charAt(offset - 1)) || value > MAX_SPOKEN_NUMBER) {
+      return match;
+    }
+    const feminine = suffix === 'a' || suffix === 're' || suffix === 'ère';
+    return rules.ordinal(value, feminine);
+  });
+}
+
+function expandAbbreviations(text: string, rules: LocaleRules): string {
+  let expanded = text;
+  // Longest first, so 'Sig.ra' wins over 'Sig.'
+  const abbreviations = Object.keys(rules.abbreviations).sort((a, b) => b.length - a.length);
+  for (const abbreviation of abbreviations) {
+    const pattern = new RegExp(`(?<![\\p{L}.])${escapeRegExp(abbreviation)}(?=\\s|$|[,;:!?])`, 'gu');
+    expanded = expanded.replace(pattern, (_match, offset: number, whole: string) => {
+      const spoken = rules.abbreviations[abbreviation];
+      // An abbreviation's full stop may also end the sentence
+      return abbreviation.endsWith('.') && offset + abbreviation.length === whole.length ? `${spoken}.` : spoken;
+    });
+  }
+  return expanded;
+}
+
+// Capitalized tokens like FBI or U.S.A. are spelled out; text written mostly in capitals is shouting, not acronyms.
+// A few acronyms can outnumber the lowercase words of a short sentence, so capitals only count as shouting
+// when they also outnumber the lowercase words two to one: 'NASA and FBI' is expanded, 'HELP ME NOW please' is not.
+function expandAcronyms(text: string, rules: LocaleRules): string {
+  const words = text.match(/\p{L}+/gu) || [];
+  const capitalized = words.filter(word => word.length > 1 && word === word.toUpperCase() && word !== word.toLowerCase());
+  const lowercase = words.filter(word => word !== word.toUpperCase());
+  if (words.length > 2 && capitalized.length > words.length / 2 && capitalized.length > lowercase.length * 2) {
+    return text;
+  }
+
+  return text.replace(/(?<![\p{L}\d])((?:[A-Z]\.){2,}|[A-Z]{2,6})(?![\p{L}\d])/gu, (match: string) => {
+    const letters = match.replace(/\./g, '');
+    if (WORD_ACRONYMS.has(letters) || (letters.length >= 4 && !match.includes('.') && isPronounceable(letters))) {
+      return `${letters.charAt(0)}${letters.slice(1).toLowerCase()}`;
+    }
+    return spellCharacters(letters, rules);
+  });
+}
+
+// A vowel, no run of three consonants and no doubled-up vowel clusters: NATO, Bob, Zoe but not HTML or XKCD
+function isPronounceable(letters: string): boolean {
+  const lower = letters.toLowerCase();
+  return /[aeiouy]/.test(lower) && !/[^aeiouy]{3}/.test(lower) && !/[aeiou]{3}/.test(lower);
+}
+
+// Scales largest first; each group is spoken by its formatter, the remainder by `below`
+function composeScales(n: number, scales: Array<[number, (count: number) => string]>, below: (rest: number) => string): string {
+  const parts: string[] = [];
+  let rest = n;
+  for (const [size, format] of scales) {
+    if (rest >= size) {
+      parts.push(format(Math.floor(rest / size)));
+      rest %= size;
+    }
+  }
+  if (rest > 0) {
+    parts.push(below(rest));
+  }
+  return parts.join(' ');
+}
+
+// Amount in units and minor units; French also reads zero with the singular
+function currencyPhrase(
+  names: [string, string, string, string],
+  units: number,
+  cents: number,
+  join: string,
+  cardinal: (n: number) => string,
+  zeroIsSingular = false
+): string {
+  const [one, many, cent, centsWord] = names;
+  const parts: string[] = [];
+  if (units > 0 || cents === 0) {
+    parts.push(`${cardinal(units)} ${units === 1 || (units === 0 && zeroIsSingular) ? one : many}`);
+  }
+  if (cents > 0 && cent) {
+    parts.push(`${cardinal(cents)} ${cents === 1 ? cent : centsWord}`);
+  }
+  return parts.join(join);
+}
+
+function letterTable(names: string): Record<string, string> {
+  const table: Record<string, string> = {};
+  names.split(' ').forEach((name, index) => {
+    table[String.fromCharCode(65 + index)] = name.replace(/-/g, ' ');
+  });
+  return table;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
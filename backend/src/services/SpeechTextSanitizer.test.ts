@@ -0,0 +1,127 @@
+import { sanitizeSpeechText, sanitizeTTSOptions, SpeechInputError, MAX_SPEECH_TEXT_LENGTH } from './SpeechTextSanitizer.js';
+import { EspeakNgSynthesizer } from './EspeakNgSynthesizer.js';
+import { runProcess } from './ExternalProcess.js';
+import type { SynthesizerVoice, TTSOptions } from '../types/index.js';
+
+jest.mock('./ExternalProcess.js', () => ({ runProcess: jest.fn() }));
+jest.mock('./AudioDecoder.js', () => ({ describeWav: () => ({ sampleRate: 22050, duration: 1 }) }));
+
+const VOICES: SynthesizerVoice[] = [
+  { name: 'en-us', language: 'en-us', description: 'eSpeak NG English (America)' },
+  { name: 'fr-fr', language: 'fr-fr', description: 'eSpeak NG French' }
+];
+
+function errorCode(action: () => unknown): string | undefined {
+  try {
+    action();
+  } catch (error) {
+    return error instanceof SpeechInputError ? error.code : 'not a SpeechInputError';
+  }
+  return undefined;
+}
+
+describe('sanitizeSpeechText', () => {
+  it('keeps shell metacharacters as plain text', () => {
+    const text = 'hello; rm -rf / && $(whoami) `id` | cat > /etc/passwd';
+    expect(sanitizeSpeechText(text)).toBe(text);
+  });
+
+  it('removes the brackets of embedded say commands', () => {
+    const clean = sanitizeSpeechText('hello [[rate 600]] world [[inpt PHON]]');
+    expect(clean).not.toMatch(/\[\[|\]\]/);
+    expect(clean).toBe('hello rate 600 world inpt PHON');
+  });
+
+  it('strips bidi overrides and zero-width characters', () => {
+    expect(sanitizeSpeechText('he\u200Bllo \u202Edlrow\u202C\u2066 \uFEFFthere\u200D')).toBe('hello dlrow there');
+  });
+
+  it('replaces control characters and collapses whitespace', () => {
+    expect(sanitizeSpeechText('hello\u0000\u0007world\r\n\tagain\u001B[31m')).toBe('hello world again [31m');
+  });
+
+  it('cuts text over the length limit at a word boundary', () => {
+    const clean = sanitizeSpeechText('word '.repeat(400));
+    expect(clean.length).toBeLessThanOrEqual(MAX_SPEECH_TEXT_LENGTH);
+    expect(clean.endsWith('word')).toBe(true);
+  });
+
+  it('cuts a single overlong word at the limit', () => {
+    expect(sanitizeSpeechText('a'.repeat(50), 20)).toBe('a'.repeat(20));
+  });
+
+  it.each([42, null, undefined, { text: 'hello' }, ['hello'], Buffer.from('hello')])('rejects non-string input %p', input => {
+    expect(errorCode(() => sanitizeSpeechText(input))).toBe('INVALID_TEXT');
+  });
+
+  it.each(['', '   ', '\u200B\u200C\u0000', '[[ ]]', '!?;'])('rejects text with nothing to speak %p', input => {
+    expect(errorCode(() => sanitizeSpeechText(input))).toBe('EMPTY_TEXT');
+  });
+});
+
+describe('sanitizeTTSOptions', () => {
+  it('keeps a voice the engine listed', () => {
+    expect(sanitizeTTSOptions({ voice: 'fr-fr' }, VOICES)).toEqual({ voice: 'fr-fr' });
+  });
+
+  it.each([
+    'klingon',
+    'en-us; rm -rf /',
+    'en-us --stdout /tmp/x',
+    '-v',
+    '$(whoami)',
+    'en-us\u0000',
+    'EN-US'
+  ])('rejects the unknown or injected voice %p', voice => {
+    expect(errorCode(() => sanitizeTTSOptions({ voice }, VOICES))).toBe('INVALID_VOICE');
+  });
+
+  it('rejects a voice that is not a string', () => {
+    expect(errorCode(() => sanitizeTTSOptions({ voice: 42 } as unknown as TTSOptions, VOICES))).toBe('INVALID_VOICE');
+  });
+
+  it('drops malformed language tags, emotions and numbers', () => {
+    const options = {
+      language: 'en-US; rm -rf /',
+      speed: Number.NaN,
+      pitch: Infinity,
+      emotion: 'furious',
+      ssml: 'true',
+      question: 1
+    } as unknown as TTSOptions;
+    expect(sanitizeTTSOptions(options, VOICES)).toEqual({});
+  });
+
+  it('clamps speed and pitch to their ranges', () => {
+    expect(sanitizeTTSOptions({ speed: 100, pitch: -300, language: 'en-GB', emotion: 'happy' }, VOICES))
+      .toEqual({ speed: 4, pitch: -20, language: 'en-GB', emotion: 'happy' });
+  });
+});
+
+describe('synthesizer process arguments', () => {
+  const mockedRunProcess = runProcess as jest.MockedFunction<typeof runProcess>;
+
+  beforeEach(() => {
+    mockedRunProcess.mockReset();
+    mockedRunProcess.mockResolvedValue({
+      stdout: Buffer.from('Pty Language Age/Gender VoiceName File Other Languages\n 5  en-us --/M English_(America) gmw/en-US\n'),
+      stderr: ''
+    });
+  });
+
+  it('passes text on stdin and options as an argument array, never through a shell', async () => {
+    const synthesizer = new EspeakNgSynthesizer();
+    await synthesizer.initialize();
+
+    const text = sanitizeSpeechText('hello; rm -rf / && $(whoami) [[rate 600]]');
+    const options = sanitizeTTSOptions({ voice: 'en-us', speed: 1.5 }, synthesizer.getVoices());
+    await synthesizer.synthesize(text, options);
+
+    const [binary, args, processOptions] = mockedRunProcess.mock.calls[mockedRunProcess.mock.calls.length - 1];
+    expect(binary).toBe('espeak-ng');
+    expect(Array.isArray(args)).toBe(true);
+    args.forEach(arg => expect(typeof arg).toBe('string'));
+    expect(args.join(' ')).not.toContain('rm -rf');
+    expect(processOptions).toEqual({ input: text });
+  });
+});
@@ -0,0 +1,95 @@
+import { logger } from '../utils/logger.js';
+import type { SpeechEmotion, SynthesizerVoice, TTSOptions } from '../types/index.js';
+
+export const MAX_SPEECH_TEXT_LENGTH = 1000;
+
+export const MAX_SPEECH_PITCH = 20; // Semitones either way
+
+export type SpeechInputErrorCode = 'INVALID_TEXT' | 'EMPTY_TEXT' | 'INVALID_VOICE' | 'INVALID_MARKUP';
+
+export class SpeechInputError extends Error {
+  constructor(message: string, public readonly code: SpeechInputErrorCode) {
+    super(message);
+    this.name = 'SpeechInputError';
+  }
+}
+
+// Bidi overrides and zero-width characters: invisible, and able to disguise what gets spoken
+const INVISIBLE_FORMATTING = /[\u00AD\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+// Control characters, lone surrogates, private-use and unassigned code points
+const UNSPEAKABLE = /[\p{Cc}\p{Cs}\p{Co}\p{Cn}]/gu;
+// macOS `say` runs [[...]] embedded commands (rate, volume, input mode) found in the text
+const EMBEDDED_COMMAND = /\[\[|\]\]/g;
+const LANGUAGE_TAG = /^[A-Za-z]{2,3}([-_][A-Za-z0-9]{2,8})*$/;
+const EMOTIONS: SpeechEmotion[] = ['neutral', 'happy', 'excited', 'sad', 'concerned', 'urgent'];
+
+// Invisible, control and `say` command characters removed and whitespace collapsed; may come back empty
+export function cleanSpeechText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(INVISIBLE_FORMATTING, '')
+    .replace(UNSPEAKABLE, ' ')
+    .replace(EMBEDDED_COMMAND, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Client text becomes plain, visible, single-line speech no longer than `maxLength`
+export function sanitizeSpeechText(text: unknown, maxLength: number = MAX_SPEECH_TEXT_LENGTH): string {
+  if (typeof text !== 'string') {
+    throw new SpeechInputError('Text must be a string', 'INVALID_TEXT');
+  }
+
+  let clean = cleanSpeechText(text);
+
+  if (!/[\p{L}\p{N}]/u.test(clean)) {
+    throw new SpeechInputError('Text has nothing to speak', 'EMPTY_TEXT');
+  }
+
+  if (clean.length > maxLength) {
+    // Cut at the last word boundary unless that loses most of the text
+    const cut = clean.lastIndexOf(' ', maxLength);
+    clean = clean.slice(0, cut > maxLength * 0.8 ? cut : maxLength).trim();
+    logger.warn(`Speech text truncated to ${clean.length} characters`);
+  }
+
+  return clean;
+}
+
+// Voices must be one the engine listed; malformed language tags, speeds, pitches and emotions are dropped
+export function sanitizeTTSOptions(options: TTSOptions, voices: SynthesizerVoice[]): TTSOptions {
+  const sanitized: TTSOptions = {};
+
+  if (options.voice !== undefined && options.voice !== null && options.voice !== '') {
+    if (typeof options.voice !== 'string' || !voices.some(voice => voice.name === options.voice)) {
+      throw new SpeechInputError(`Unknown voice: ${String(options.voice).slice(0, 64)}`, 'INVALID_VOICE');
+    }
+    sanitized.voice = options.voice;
+  }
+
+  if (typeof options.language === 'string' && LANGUAGE_TAG.test(options.language)) {
+    sanitized.language = options.language;
+  }
+
+  if (typeof options.speed === 'number' && Number.isFinite(options.speed)) {
+    sanitized.speed = Math.max(0.25, Math.min(4, options.speed));
+  }
+
+  if (typeof options.pitch === 'number' && Number.isFinite(options.pitch)) {
+    sanitized.pitch = Math.max(-MAX_SPEECH_PITCH, Math.min(MAX_SPEECH_PITCH, options.pitch));
+  }
+
+  if (options.ssml === true) {
+    sanitized.ssml = true;
+  }
+
+  if (options.question === true) {
+    sanitized.question = true;
+  }
+
+  if (typeof options.emotion === 'string' && EMOTIONS.includes(options.emotion)) {
+    sanitized.emotion = options.emotion;
+  }
+
+  return sanitized;
+}
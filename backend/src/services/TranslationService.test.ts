@@ -0,0 +1,33 @@
+import { TranslationService } from './TranslationService.js';
+
+const service = new TranslationService();
+
+describe('TranslationService.textToSign', () => {
+  it.each([
+    ['please help', ['please', 'help']],
+    ['stop', ['stop']],
+    ['I need water', ['water', 'me', 'need']]
+  ])('signs %p even when its signs have no keyframe animation', async (text, gestures) => {
+    const result = await service.textToSign(text, 'ASL');
+    expect(result?.gestures).toEqual(gestures);
+  });
+
+  it('plays lexicon signs by id and fingerspells names', async () => {
+    const result = await service.textToSign('thank you, my name is Sarah', 'ASL');
+    expect(result?.gloss).toEqual(['THANK-YOU', 'MY', 'NAME', 'fs-SARAH']);
+    expect(result?.gestures).toEqual(['thank_you', 'my', 'name', 'sarah']);
+  });
+
+  it.each([
+    ['Call 911', 'ASL', ['call', 'nine', 'one', 'one']],
+    ['Call 999', 'BSL', ['call', 'nine', 'nine', 'nine']]
+  ])('signs the digits of %p', async (text, language, gestures) => {
+    const result = await service.textToSign(text, language);
+    expect(result?.gestures).toEqual(gestures);
+    expect(result?.signDescription).toContain('Sign the digits');
+  });
+
+  it('has nothing to sign for empty text', async () => {
+    expect(await service.textToSign('', 'ASL')).toBeNull();
+  });
+});
@@ -1,5 +1,14 @@
 import { logger } from '../utils/logger.js';
-import type { SignLanguageData } from '../types/index.js';
+import { HandshapeClassifier, orderHands } from './HandshapeClassifier.js';
+import { getLetterHandshape, getFingerExtension, type HandshapePose, type SupportingHand } from './ManualAlphabet.js';
+import { GlossTranslator, type GlossSentence, type GlossToken } from './GlossTranslator.js';
+import { EnglishSentenceBuilder } from './EnglishSentenceBuilder.js';
+import { signLexicon, DEFAULT_SIGN_LANGUAGE, type LexiconEntry } from './SignLexicon.js';
+import { getGlossGrammar } from './SignLanguages.js';
+import type { SignLanguageData, Handedness, SpeechEmotion } from '../types/index.js';
+
+// Numbers are signed digit by digit, with the lexicon sign of each digit's name
+const DIGIT_SIGNS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
 
 interface SignTranslationResult {
   text: string;
@@ -9,6 +18,9 @@ interface SignTranslationResult {
 
 interface TextToSignResult {
   signDescription: string;
+  gloss: string[];            // Signs in the sign language's order, across all sentences
+  gestures: string[];         // The same signs as the avatar plays them: lexicon ids, or words to fingerspell
+  sentences: GlossSentence[];
   animations: SignAnimation[];
   confidence: number;
 }
@@ -24,92 +36,29 @@ interface AnimationKeyframe {
   timestamp: number;
   handPosition: { x: number; y: number; z: number };
   fingerPositions: number[];
+  handshape?: HandshapePose;
+  nonDominant?: {             // Supporting hand of a two-handed letter
+    handPosition: { x: number; y: number; z: number };
+    fingerPositions: number[];
+    handshape: HandshapePose;
+  };
   description: string;
 }
 
+// Signs that carry the signer's affect; in sign languages the face shows it alongside them
+const SIGN_EMOTIONS: Record<string, SpeechEmotion> = {
+  happy: 'happy', i_love_you: 'happy', thank_you: 'happy', excited: 'excited',
+  sad: 'sad', sorry: 'sad', tired: 'sad', bad: 'sad',
+  confused: 'concerned', dont_understand: 'concerned', scared: 'concerned', sick: 'concerned',
+  emergency: 'urgent', help: 'urgent', pain: 'urgent', angry: 'urgent'
+};
+
 export class TranslationService {
-  private gestureSequenceBuffer: Array<{ gesture: string; timestamp: number }> = [];
+  private gestureSequenceBuffers: Map<string, Array<{ gesture: string; timestamp: number; fingerspelled: boolean }>> = new Map();
   private readonly sequenceTimeoutMs = 3000; // 3 seconds to complete a gesture sequence
-
-  // Sign language vocabulary and descriptions
-  private readonly signLanguageDictionary = new Map([
-    // Greetings
-    ['hello', {
-      description: 'Wave hand with open palm, fingers extended',
-      animations: TranslationService.createWaveAnimation(),
-      category: 'greeting'
-    }],
-    ['goodbye', {
-      description: 'Wave hand back and forth with palm facing forward',
-      animations: TranslationService.createGoodbyeAnimation(),
-      category: 'greeting'
-    }],
-    ['good_morning', {
-      description: 'Touch fingertips to forehead, then extend hand forward',
-      animations: TranslationService.createMorningAnimation(),
-      category: 'greeting'
-    }],
-    
-    // Common phrases
-    ['thank_you', {
-      description: 'Touch fingertips to chin, then move hand forward and down',
-      animations: TranslationService.createThankYouAnimation(),
-      category: 'courtesy'
-    }],
-    ['please', {
-      description: 'Place palm on chest and move in circular motion',
-      animations: TranslationService.createPleaseAnimation(),
-      category: 'courtesy'
-    }],
-    ['sorry', {
-      description: 'Make fist, place on chest, move in circular motion',
-      animations: TranslationService.createSorryAnimation(),
-      category: 'courtesy'
-    }],
-    
-    // Basic responses
-    ['yes', {
-      description: 'Make fist and nod up and down',
-      animations: TranslationService.createYesAnimation(),
-      category: 'response'
-    }],
-    ['no', {
-      description: 'Extend index and middle finger, shake side to side',
-      animations: TranslationService.createNoAnimation(),
-      category: 'response'
-    }],
-    
-    // Actions
-    ['help', {
-      description: 'Place one hand palm up, place other hand on top, lift both',
-      animations: TranslationService.createHelpAnimation(),
-      category: 'action'
-    }],
-    ['stop', {
-      description: 'Extend palm forward, fingers up, firm gesture',
-      animations: TranslationService.createStopAnimation(),
-      category: 'action'
-    }]
-  ]);
-
-  // Common word-to-gesture mappings
-  private readonly wordToGestureMap = new Map([
-    ['hello', 'hello'],
-    ['hi', 'hello'],
-    ['hey', 'hello'],
-    ['goodbye', 'goodbye'],
-    ['bye', 'goodbye'],
-    ['thanks', 'thank_you'],
-    ['thank you', 'thank_you'],
-    ['please', 'please'],
-    ['sorry', 'sorry'],
-    ['yes', 'yes'],
-    ['no', 'no'],
-    ['help', 'help'],
-    ['stop', 'stop'],
-    ['good morning', 'good_morning'],
-    ['morning', 'good_morning']
-  ]);
+  private readonly handshapeClassifier = new HandshapeClassifier();
+  private readonly glossTranslator = new GlossTranslator();
+  private readonly sentenceBuilder = new EnglishSentenceBuilder();
 
   public async signToText(signData: SignLanguageData): Promise<SignTranslationResult | null> {
     try {
@@ -118,20 +67,14 @@ export class TranslationService {
       // For demonstration, we'll use a simple gesture recognition
       // In production, this would involve sophisticated ML models
       
-      const gesture = this.recognizeGestureFromLandmarks(signData.landmarks);
-      if (!gesture) {
+      const gesture = this.recognizeGestureFromLandmarks(signData.landmarks, signData.handedness, signData.signLanguage);
+      if (!gesture || gesture.gesture === 'unknown') {
         return null;
       }
 
-      // Add to gesture sequence buffer
-      this.gestureSequenceBuffer.push({ gesture: gesture.gesture, timestamp: Date.now() });
-      
-      // Clean old gestures from buffer
-      this.cleanGestureBuffer();
+      // Build a sentence from everything signed within the sequence window
+      const translatedText = this.addToSequence(signData.sessionId, gesture.gesture);
 
-      // Try to form meaningful phrases from gesture sequence
-      const translatedText = this.gestureSequenceToText();
-      
       if (translatedText) {
         return {
           text: translatedText,
@@ -148,51 +91,68 @@ export class TranslationService {
     }
   }
 
-  public async textToSign(text: string): Promise<TextToSignResult | null> {
+  public async textToSign(text: string, language: string = DEFAULT_SIGN_LANGUAGE): Promise<TextToSignResult | null> {
     try {
-      logger.debug('Converting text to sign language:', { text });
+      logger.debug('Converting text to sign language:', { text, language });
 
-      const words = text.toLowerCase().split(/\s+/);
+      const sentences = this.glossTranslator.translate(text, getGlossGrammar(language));
+      const glosses = sentences.flatMap(sentence => sentence.glosses);
       const signAnimations: SignAnimation[] = [];
+      const gestures: string[] = [];
       let overallConfidence = 0;
       let matchCount = 0;
 
-      for (const word of words) {
-        // Check for exact matches first
-        const gesture = this.wordToGestureMap.get(word);
-        if (gesture && this.signLanguageDictionary.has(gesture)) {
-          const signData = this.signLanguageDictionary.get(gesture)!;
-          signAnimations.push(...signData.animations);
+      for (const token of glosses) {
+        const entry = this.glossToEntry(token, language);
+        if (entry) {
+          gestures.push(entry.id);
+          if (entry.animation) {
+            signAnimations.push(this.toSignAnimation(entry));
+          }
           overallConfidence += 0.9;
           matchCount++;
           continue;
         }
 
-        // Check for partial matches
-        const partialMatch = this.findPartialGestureMatch(word);
-        if (partialMatch) {
-          const signData = this.signLanguageDictionary.get(partialMatch)!;
-          signAnimations.push(...signData.animations);
-          overallConfidence += 0.6;
+        // Phone and emergency numbers are read out digit by digit; a digit with no sign
+        // of its own is fingerspelled by name, as the avatar does
+        if (/^\d+$/.test(token.gloss)) {
+          for (const digit of token.gloss) {
+            const name = DIGIT_SIGNS[Number(digit)];
+            const digitEntry = signLexicon.getEntry(name, language);
+            gestures.push(name);
+            signAnimations.push(digitEntry?.animation ? this.toSignAnimation(digitEntry) : this.createFingerspellingAnimation(name, language));
+          }
+          overallConfidence += 0.8;
           matchCount++;
           continue;
         }
 
-        // Fallback: create fingerspelling animation
-        const fingerspellingAnimation = this.createFingerspellingAnimation(word);
+        // No lexical sign available: fingerspell it
+        const spelling = this.getFingerspelling(token);
+        const fingerspellingAnimation = this.createFingerspellingAnimation(spelling, language);
+        if (fingerspellingAnimation.keyframes.length === 0) {
+          continue;
+        }
+        gestures.push(spelling.toLowerCase().replace(/[^a-z]/g, ''));
         signAnimations.push(fingerspellingAnimation);
-        overallConfidence += 0.4;
+        overallConfidence += token.fingerspell ? 0.8 : 0.4;
         matchCount++;
       }
 
-      if (signAnimations.length === 0) {
+      // The avatar plays the gestures from its own poses, so a sentence of signs without
+      // keyframe animations is still signed
+      if (gestures.length === 0) {
         return null;
       }
 
       const finalConfidence = matchCount > 0 ? overallConfidence / matchCount : 0;
 
       return {
-        signDescription: this.generateSignDescription(text, words),
+        signDescription: this.generateSignDescription(sentences, language),
+        gloss: glosses.map(token => this.glossToEntry(token, language)?.gloss || token.gloss),
+        gestures,
+        sentences,
         animations: signAnimations,
         confidence: Math.min(1, finalConfidence)
       };
@@ -203,13 +163,26 @@ export class TranslationService {
     }
   }
 
-  private recognizeGestureFromLandmarks(landmarks: number[][]): { gesture: string; confidence: number } | null {
-    if (landmarks.length === 0 || landmarks[0].length < 21 * 3) {
+  private recognizeGestureFromLandmarks(
+    landmarks: number[][],
+    handedness?: Handedness[],
+    language: string = DEFAULT_SIGN_LANGUAGE
+  ): { gesture: string; confidence: number } | null {
+    const hands = orderHands(landmarks, handedness);
+    if (hands.length === 0) {
       return null;
     }
 
-    // Simple gesture recognition based on hand landmarks
-    const handPoints = landmarks[0];
+    // Two-handed signs depend on both handshapes and where the hands sit relative to each other
+    if (hands.length > 1) {
+      const twoHanded = this.handshapeClassifier.classifyTwoHanded(hands[0].points, hands[1].points, language);
+      if (twoHanded) {
+        return twoHanded;
+      }
+    }
+
+    // Simple gesture recognition based on the dominant hand's landmarks
+    const handPoints = hands[0].points;
     
     // Extract key landmark positions
     const thumbTip = { x: handPoints[4 * 3], y: handPoints[4 * 3 + 1], z: handPoints[4 * 3 + 2] };
@@ -238,142 +211,176 @@ export class TranslationService {
     return { gesture: 'unknown', confidence: 0.3 };
   }
 
-  private gestureSequenceToText(): string | null {
-    if (this.gestureSequenceBuffer.length === 0) {
-      return null;
+  // Appends a recognized sign or fingerspelled word and returns the sentence built so far
+  public addToSequence(sessionId: string, gesture: string, fingerspelled: boolean = false): string | null {
+    this.cleanGestureBuffer(sessionId);
+
+    const buffer = this.gestureSequenceBuffers.get(sessionId) || [];
+    const last = buffer[buffer.length - 1];
+    const now = Date.now();
+
+    // A held sign arrives on every frame; only a change of sign extends the sequence
+    if (last && last.gesture === gesture && last.fingerspelled === fingerspelled) {
+      last.timestamp = now;
+    } else {
+      buffer.push({ gesture, timestamp: now, fingerspelled });
     }
+    this.gestureSequenceBuffers.set(sessionId, buffer);
 
-    // Get the most recent gesture
-    const latestGesture = this.gestureSequenceBuffer[this.gestureSequenceBuffer.length - 1];
-    
-    // Map gesture to text
-    const gestureToText = new Map([
-      ['hello', 'Hello'],
-      ['goodbye', 'Goodbye'],
-      ['thank_you', 'Thank you'],
-      ['please', 'Please'],
-      ['yes', 'Yes'],
-      ['no', 'No'],
-      ['help', 'Help'],
-      ['stop', 'Stop'],
-      ['good_morning', 'Good morning']
-    ]);
-
-    return gestureToText.get(latestGesture.gesture) || null;
+    return this.gestureSequenceToText(sessionId);
   }
 
-  private cleanGestureBuffer(): void {
-    const now = Date.now();
-    this.gestureSequenceBuffer = this.gestureSequenceBuffer.filter(
-      gesture => now - gesture.timestamp < this.sequenceTimeoutMs
-    );
+  // The sign the sequence ends with, unless it has timed out or was fingerspelled
+  public getLastSign(sessionId: string): string | null {
+    this.cleanGestureBuffer(sessionId);
+    const buffer = this.gestureSequenceBuffers.get(sessionId) || [];
+    const last = buffer[buffer.length - 1];
+    return last && !last.fingerspelled ? last.gesture : null;
   }
 
-  private findPartialGestureMatch(word: string): string | null {
-    for (const [key] of this.wordToGestureMap) {
-      if (key.includes(word) || word.includes(key)) {
-        return this.wordToGestureMap.get(key) || null;
-      }
-    }
-    return null;
+  // Prosody for speaking the latest sign: a question when its sentence is one, and the
+  // emotion of the most recent affective sign in the sequence
+  public getSpeechCues(sessionId: string): { question: boolean; emotion: SpeechEmotion } {
+    const buffer = this.gestureSequenceBuffers.get(sessionId) || [];
+    const sentences = this.gestureSequenceToText(sessionId)?.match(/[^.?!]+[.?!]/g) || [];
+    const emotional = [...buffer].reverse().find(entry => !entry.fingerspelled && SIGN_EMOTIONS[entry.gesture]);
+
+    return {
+      question: sentences.length > 0 && sentences[sentences.length - 1].endsWith('?'),
+      emotion: emotional ? SIGN_EMOTIONS[emotional.gesture] : 'neutral'
+    };
   }
 
-  private generateSignDescription(originalText: string, words: string[]): string {
-    const knownGestures = words.filter(word => 
-      this.wordToGestureMap.has(word) || this.findPartialGestureMatch(word)
-    );
+  public resetSession(sessionId: string): void {
+    this.gestureSequenceBuffers.delete(sessionId);
+  }
 
-    if (knownGestures.length === 0) {
-      return `Fingerspell: "${originalText}"`;
+  private gestureSequenceToText(sessionId: string): string | null {
+    const buffer = this.gestureSequenceBuffers.get(sessionId);
+    if (!buffer || buffer.length === 0) {
+      return null;
     }
 
-    const gestureDescriptions = knownGestures.map(word => {
-      const gesture = this.wordToGestureMap.get(word) || this.findPartialGestureMatch(word);
-      if (gesture && this.signLanguageDictionary.has(gesture)) {
-        return this.signLanguageDictionary.get(gesture)!.description;
-      }
-      return `Fingerspell "${word}"`;
-    });
+    return this.sentenceBuilder.build(buffer.map(entry => ({ gloss: entry.gesture, fingerspelled: entry.fingerspelled })));
+  }
+
+  // The window runs from the latest sign, so a steady stream of signs keeps building one sentence
+  private cleanGestureBuffer(sessionId: string): void {
+    const buffer = this.gestureSequenceBuffers.get(sessionId);
+    if (!buffer || buffer.length === 0) {
+      return;
+    }
 
-    return gestureDescriptions.join(', then ');
+    if (Date.now() - buffer[buffer.length - 1].timestamp >= this.sequenceTimeoutMs) {
+      this.gestureSequenceBuffers.delete(sessionId);
+    }
   }
 
-  // Animation creation methods (simplified)
-  private static createWaveAnimation(): SignAnimation[] {
-    return [{
-      gesture: 'wave',
-      duration: 2000,
-      keyframes: [
-        { timestamp: 0, handPosition: { x: 0, y: 0, z: 0 }, fingerPositions: [1,1,1,1,1], description: 'Raise hand' },
-        { timestamp: 500, handPosition: { x: 0.2, y: 0, z: 0 }, fingerPositions: [1,1,1,1,1], description: 'Wave right' },
-        { timestamp: 1000, handPosition: { x: -0.2, y: 0, z: 0 }, fingerPositions: [1,1,1,1,1], description: 'Wave left' },
-        { timestamp: 1500, handPosition: { x: 0, y: 0, z: 0 }, fingerPositions: [1,1,1,1,1], description: 'Center' },
-        { timestamp: 2000, handPosition: { x: 0, y: -0.3, z: 0 }, fingerPositions: [0,0,0,0,0], description: 'Lower hand' }
-      ],
-      description: 'Wave hand side to side'
-    }];
+  // Glosses name lexicon signs directly: THANK-YOU -> thank_you. Other languages
+  // key their signs by the same English concept, so the id is tried as well
+  private glossToEntry(token: GlossToken, language: string): LexiconEntry | null {
+    if (token.fingerspell) {
+      return null;
+    }
+    return signLexicon.getEntryByGloss(token.gloss, language) ||
+      signLexicon.getEntry(token.gloss.toLowerCase().replace(/-/g, '_'), language) ||
+      null;
   }
 
-  private static createThankYouAnimation(): SignAnimation[] {
-    return [{
-      gesture: 'thank_you',
-      duration: 1500,
-      keyframes: [
-        { timestamp: 0, handPosition: { x: 0, y: 0.2, z: -0.1 }, fingerPositions: [1,1,1,1,1], description: 'Touch chin' },
-        { timestamp: 1000, handPosition: { x: 0, y: -0.1, z: 0.2 }, fingerPositions: [1,1,1,1,1], description: 'Move forward' },
-        { timestamp: 1500, handPosition: { x: 0, y: -0.2, z: 0.3 }, fingerPositions: [1,1,1,1,1], description: 'Complete motion' }
-      ],
-      description: 'Touch chin and move forward'
-    }];
+  private getFingerspelling(token: GlossToken): string {
+    // Names keep their spelling, fixed phrases spell the English words, everything else the sign's base form
+    if (token.fingerspell || token.source.length > 1) {
+      return token.source.join('');
+    }
+    return token.gloss.toLowerCase();
   }
 
-  private static createYesAnimation(): SignAnimation[] {
-    return [{
-      gesture: 'yes',
-      duration: 1000,
-      keyframes: [
-        { timestamp: 0, handPosition: { x: 0, y: 0, z: 0 }, fingerPositions: [0,0,0,0,0], description: 'Fist position' },
-        { timestamp: 250, handPosition: { x: 0, y: 0.1, z: 0 }, fingerPositions: [0,0,0,0,0], description: 'Nod up' },
-        { timestamp: 500, handPosition: { x: 0, y: -0.1, z: 0 }, fingerPositions: [0,0,0,0,0], description: 'Nod down' },
-        { timestamp: 750, handPosition: { x: 0, y: 0.05, z: 0 }, fingerPositions: [0,0,0,0,0], description: 'Nod up again' },
-        { timestamp: 1000, handPosition: { x: 0, y: 0, z: 0 }, fingerPositions: [0,0,0,0,0], description: 'Return center' }
-      ],
-      description: 'Nod fist up and down'
-    }];
+  private generateSignDescription(sentences: GlossSentence[], language: string): string {
+    return sentences.map(sentence => {
+      const glossLine = sentence.glosses.map(token => this.glossToEntry(token, language)?.gloss || token.gloss).join(' ');
+      const markers = sentence.nonManualMarkers.length > 0 ? ` [${sentence.nonManualMarkers.join(', ')}]` : '';
+
+      const steps = sentence.glosses.map(token => {
+        const entry = this.glossToEntry(token, language);
+        if (entry) {
+          return entry.description;
+        }
+        if (/^\d+$/.test(token.gloss)) {
+          return `Sign the digits ${token.gloss.split('').join(' ')}`;
+        }
+        return `Fingerspell "${this.getFingerspelling(token)}"`;
+      });
+
+      return `${glossLine}${markers}: ${steps.join(', then ')}`;
+    }).join(' / ');
   }
 
-  // Additional animation methods would be implemented similarly...
-  private static createGoodbyeAnimation(): SignAnimation[] { return []; }
-  private static createMorningAnimation(): SignAnimation[] { return []; }
-  private static createPleaseAnimation(): SignAnimation[] { return []; }
-  private static createSorryAnimation(): SignAnimation[] { return []; }
-  private static createNoAnimation(): SignAnimation[] { return []; }
-  private static createHelpAnimation(): SignAnimation[] { return []; }
-  private static createStopAnimation(): SignAnimation[] { return []; }
+  private toSignAnimation(entry: LexiconEntry): SignAnimation {
+    const animation = entry.animation!;
+    return {
+      gesture: entry.id,
+      duration: animation.durationMs,
+      keyframes: animation.keyframes.map(keyframe => ({ ...keyframe, handPosition: { ...keyframe.handPosition } })),
+      description: animation.description
+    };
+  }
+
+  private createFingerspellingAnimation(word: string, language: string): SignAnimation {
+    const letterDurationMs = 800;
+    const keyframes: AnimationKeyframe[] = [];
+    const letters = word.toLowerCase().replace(/[^a-z]/g, '').split('');
+
+    letters.forEach((letter, index) => {
+      const shape = getLetterHandshape(letter, language)!;
+      const start = index * letterDurationMs;
+      // Doubled letters are shown with a small slide to the side
+      const slide = index > 0 && letters[index - 1] === letter ? 0.03 : 0;
+      const fingerPositions = getFingerExtension(shape);
+      const nonDominant = shape.nonDominant ? this.getSupportingHandKeyframe(shape.nonDominant) : undefined;
+
+      if (!shape.motion) {
+        keyframes.push({
+          timestamp: start,
+          handPosition: { x: slide, y: 0, z: 0 },
+          fingerPositions,
+          handshape: shape,
+          nonDominant,
+          description: `Spell letter: ${letter.toUpperCase()} - ${shape.description}`
+        });
+        return;
+      }
+
+      const path = shape.motion.path;
+      const step = Math.min(shape.motion.durationMs, letterDurationMs) / Math.max(1, path.length - 1);
+      path.forEach((offset, pathIndex) => {
+        keyframes.push({
+          timestamp: Math.round(start + pathIndex * step),
+          handPosition: { x: offset.x + slide, y: offset.y, z: offset.z },
+          fingerPositions,
+          handshape: shape,
+          nonDominant,
+          description: pathIndex === 0
+            ? `Spell letter: ${letter.toUpperCase()} - ${shape.description}`
+            : shape.motion!.description
+        });
+      });
+    });
 
-  private createFingerspellingAnimation(word: string): SignAnimation {
     return {
       gesture: 'fingerspell',
-      duration: word.length * 800,
-      keyframes: word.split('').map((letter, index) => ({
-        timestamp: index * 800,
-        handPosition: { x: 0, y: 0, z: 0 },
-        fingerPositions: this.getLetterFingerPosition(letter),
-        description: `Spell letter: ${letter.toUpperCase()}`
-      })),
+      duration: letters.length * letterDurationMs,
+      keyframes,
       description: `Fingerspell the word: ${word}`
     };
   }
 
-  private getLetterFingerPosition(letter: string): number[] {
-    // Simplified finger positions for ASL alphabet
-    // In production, this would be more detailed
-    const positions: { [key: string]: number[] } = {
-      'a': [0, 1, 1, 1, 1],
-      'b': [1, 1, 1, 1, 0],
-      'c': [0.5, 0.5, 0.5, 0.5, 0.5],
-      // ... more letters would be defined
+  // The supporting hand holds still while the dominant hand moves against it
+  private getSupportingHandKeyframe(hand: SupportingHand): AnimationKeyframe['nonDominant'] {
+    const { offset, ...handshape } = hand;
+    return {
+      handPosition: { ...offset },
+      fingerPositions: getFingerExtension(handshape),
+      handshape
     };
-    return positions[letter.toLowerCase()] || [1, 1, 1, 1, 1];
   }
 }
\ No newline at end of file
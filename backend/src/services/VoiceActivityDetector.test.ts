@@ -0,0 +1,48 @@
+import { VoiceActivityDetector, detectSpeechSpans, type VadEvent } from './VoiceActivityDetector.js';
+import { voiced, silence, tone, concatAudio } from '../testing/audio.js';
+
+const ms = (milliseconds: number) => milliseconds * 16;
+
+describe('VoiceActivityDetector', () => {
+  it('finds speech between silences, with pre-roll before and a short tail after', () => {
+    const spans = detectSpeechSpans(concatAudio(silence(500), voiced(800), silence(1000)));
+    expect(spans).toEqual([{ start: ms(500 - 300), end: ms(1300 + 200) }]);
+  });
+
+  it.each([
+    ['two sentences a second apart', concatAudio(silence(500), voiced(600), silence(1000), voiced(600), silence(1000)), 2],
+    ['a pause shorter than the endpoint', concatAudio(silence(500), voiced(600), silence(300), voiced(600), silence(1000)), 1],
+    ['loud white noise', concatAudio(silence(500), silence(1000, 0.3), silence(500)), 0],
+    ['mains hum', concatAudio(silence(500), tone(1000, 50), silence(500)), 0],
+    ['a click', concatAudio(silence(500), voiced(80), silence(1000)), 0]
+  ])('splits %s into the right number of utterances', (_name, audio, count) => {
+    expect(detectSpeechSpans(audio)).toHaveLength(count);
+  });
+
+  it('reports the same boundaries when fed in small blocks', () => {
+    const audio = concatAudio(silence(500), voiced(800), silence(1000));
+    const detector = new VoiceActivityDetector();
+    const events: VadEvent[] = [];
+    for (let start = 0; start < audio.length; start += 1000) {
+      events.push(...detector.process(audio.subarray(start, start + 1000)).map(event => ({ ...event, offset: start + event.offset })));
+    }
+    expect(events).toEqual([{ type: 'start', offset: ms(500) }, { type: 'end', offset: ms(1300) }]);
+  });
+
+  it('closes an utterance still in progress on flush', () => {
+    const detector = new VoiceActivityDetector();
+    expect(detector.process(concatAudio(silence(500), voiced(500)))).toEqual([{ type: 'start', offset: ms(500) }]);
+    expect(detector.speaking).toBe(true);
+    expect(detector.flush()).toEqual([{ type: 'end', offset: ms(1000) }]);
+    expect(detector.speaking).toBe(false);
+    expect(detector.flush()).toEqual([]);
+  });
+
+  it('forgets the utterance on reset', () => {
+    const detector = new VoiceActivityDetector();
+    detector.process(concatAudio(silence(500), voiced(500)));
+    detector.reset();
+    expect(detector.speaking).toBe(false);
+    expect(detector.flush()).toEqual([]);
+  });
+});
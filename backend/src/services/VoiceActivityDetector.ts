@@ -0,0 +1,258 @@
+import { RECOGNIZER_SAMPLE_RATE } from './AudioDecoder.js';
+
+export interface VadEvent {
+  type: 'start' | 'end';
+  offset: number;   // Sample index into the block just processed; negative when it lies in an earlier block
+}
+
+export interface SpeechSpan {
+  start: number;    // Sample indices, padded and clamped to the clip
+  end: number;
+}
+
+const FRAME_MS = 20;
+const FFT_SIZE = 512;
+const SPEECH_BAND_HZ: [number, number] = [300, 3400];
+
+const ONSET_WINDOW = 5;           // Frames looked at for an onset...
+const ONSET_FRAMES = 3;           // ...of which this many must be speech
+const ENDPOINT_SILENCE_MS = 700;  // Pause that ends an utterance
+const MIN_SPEECH_MS = 120;        // Shorter bursts (coughs, clicks) are dropped from clips
+
+const ABSOLUTE_FLOOR_DB = -50;    // Quieter than this is never speech
+const SPEECH_SNR_DB = 10;         // Frames must rise this far above the noise floor
+const MIN_BAND_RATIO = 0.45;      // Share of energy in the speech band
+const MAX_FLATNESS = 0.45;        // Noise is flat (about 0.56 for white noise); voices are peaky
+
+export const PRE_ROLL_MS = 300;   // Audio kept before speech starts
+export const TRAILING_PAD_MS = 200;
+
+// Frame-level speech detection on 16 kHz mono: energy against an adaptive noise floor,
+// plus the share of energy in the speech band and how flat the spectrum is, so steady
+// noise and hum do not trigger it. Onsets need 3 of 5 speech frames; an utterance ends
+// after 700 ms without speech. Works incrementally; events point at sample offsets.
+export class VoiceActivityDetector {
+  private readonly frameSamples: number;
+  private readonly window: Float32Array;
+  private readonly bandBins: [number, number];
+  private readonly endpointFrames: number;
+
+  private carry = new Float32Array(0);  // Partial frame left over from the last block
+  private noiseFloorDb = -60;
+  private calibrated = false;
+  private recent: boolean[] = [];
+  private inSpeech = false;
+  private silentFrames = 0;
+  private lastSpeechEnd = 0;            // Offset, relative to the current block, just after the last speech frame
+  private lastBlockLength = 0;
+
+  constructor(private readonly sampleRate: number = RECOGNIZER_SAMPLE_RATE) {
+    this.frameSamples = Math.round(sampleRate * FRAME_MS / 1000);
+    this.window = hannWindow(this.frameSamples);
+    this.bandBins = [
+      Math.floor(SPEECH_BAND_HZ[0] * FFT_SIZE / sampleRate),
+      Math.min(FFT_SIZE / 2, Math.ceil(SPEECH_BAND_HZ[1] * FFT_SIZE / sampleRate))
+    ];
+    this.endpointFrames = Math.ceil(ENDPOINT_SILENCE_MS / FRAME_MS);
+  }
+
+  public get speaking(): boolean {
+    return this.inSpeech;
+  }
+
+  public process(samples: Float32Array): VadEvent[] {
+    const events: VadEvent[] = [];
+    const carried = this.carry.length;
+    const audio = carried > 0 ? concatSamples(this.carry, samples) : samples;
+    // Offsets computed during the last block are rebased onto this one
+    this.lastSpeechEnd -= this.lastBlockLength;
+    this.lastBlockLength = samples.length;
+
+    let start = 0;
+    for (; start + this.frameSamples <= audio.length; start += this.frameSamples) {
+      const offset = start - carried;
+      const speech = this.classify(audio.subarray(start, start + this.frameSamples));
+      this.recent.push(speech);
+      if (this.recent.length > ONSET_WINDOW) {
+        this.recent.shift();
+      }
+
+      if (!this.inSpeech) {
+        if (this.recent.filter(Boolean).length >= ONSET_FRAMES) {
+          // The onset is the first speech frame in the window
+          const first = this.recent.indexOf(true);
+          this.inSpeech = true;
+          this.silentFrames = 0;
+          this.lastSpeechEnd = offset + this.frameSamples;
+          events.push({ type: 'start', offset: offset - (this.recent.length - 1 - first) * this.frameSamples });
+        }
+        continue;
+      }
+
+      if (speech) {
+        this.silentFrames = 0;
+        this.lastSpeechEnd = offset + this.frameSamples;
+      } else if (++this.silentFrames >= this.endpointFrames) {
+        this.inSpeech = false;
+        this.recent = [];
+        events.push({ type: 'end', offset: this.lastSpeechEnd });
+      }
+    }
+
+    this.carry = audio.slice(start);
+    return events;
+  }
+
+  // End of input: closes an utterance still in progress at the last speech frame
+  public flush(): VadEvent[] {
+    this.carry = new Float32Array(0);
+    this.recent = [];
+    if (!this.inSpeech) {
+      return [];
+    }
+    this.inSpeech = false;
+    return [{ type: 'end', offset: this.lastSpeechEnd }];
+  }
+
+  // Forgets the current utterance but keeps the learned noise floor
+  public reset(): void {
+    this.carry = new Float32Array(0);
+    this.recent = [];
+    this.inSpeech = false;
+    this.silentFrames = 0;
+    this.lastSpeechEnd = 0;
+    this.lastBlockLength = 0;
+  }
+
+  private classify(frame: Float32Array): boolean {
+    let energy = 0;
+    for (let i = 0; i < frame.length; i++) {
+      energy += frame[i] * frame[i];
+    }
+    const energyDb = 10 * Math.log10(energy / frame.length + 1e-10);
+
+    if (!this.calibrated) {
+      // The first frame seeds the floor; a recording rarely starts mid-word
+      this.noiseFloorDb = Math.max(this.noiseFloorDb, Math.min(energyDb, ABSOLUTE_FLOOR_DB));
+      this.calibrated = true;
+    }
+
+    const snr = energyDb - this.noiseFloorDb;
+    let speech = false;
+    if (energyDb > ABSOLUTE_FLOOR_DB && snr > SPEECH_SNR_DB) {
+      const { bandRatio, flatness } = this.spectralFeatures(frame);
+      speech = bandRatio >= MIN_BAND_RATIO && flatness <= MAX_FLATNESS;
+    }
+
+    // The floor follows quiet frames quickly and noisy non-speech frames slowly
+    if (energyDb < this.noiseFloorDb) {
+      this.noiseFloorDb = 0.8 * this.noiseFloorDb + 0.2 * energyDb;
+    } else if (!speech) {
+      this.noiseFloorDb = 0.97 * this.noiseFloorDb + 0.03 * energyDb;
+    }
+    return speech;
+  }
+
+  private spectralFeatures(frame: Float32Array): { bandRatio: number; flatness: number } {
+    const real = new Float64Array(FFT_SIZE);
+    const imaginary = new Float64Array(FFT_SIZE);
+    for (let i = 0; i < frame.length; i++) {
+      real[i] = frame[i] * this.window[i];
+    }
+    fft(real, imaginary);
+
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    const [low, high] = this.bandBins;
+    for (let bin = 1; bin <= FFT_SIZE / 2; bin++) {
+      const power = real[bin] * real[bin] + imaginary[bin] * imaginary[bin] + 1e-12;
+      total += power;
+      if (bin >= low && bin <= high) {
+        band += power;
+        logSum += Math.log(power);
+      }
+    }
+
+    const bins = high - low + 1;
+    return { bandRatio: band / total, flatness: Math.exp(logSum / bins) / (band / bins) };
+  }
+}
+
+// Speech in a whole clip, with pre-roll and a short tail kept around each utterance
+export function detectSpeechSpans(samples: Float32Array, sampleRate: number = RECOGNIZER_SAMPLE_RATE): SpeechSpan[] {
+  const detector = new VoiceActivityDetector(sampleRate);
+  const events = [...detector.process(samples), ...detector.flush()];
+  const preRoll = Math.round(PRE_ROLL_MS * sampleRate / 1000);
+  const tail = Math.round(TRAILING_PAD_MS * sampleRate / 1000);
+  const minLength = Math.round(MIN_SPEECH_MS * sampleRate / 1000);
+
+  const segments: SpeechSpan[] = [];
+  let start: number | null = null;
+  for (const event of events) {
+    if (event.type === 'start') {
+      start = event.offset;
+    } else if (start !== null) {
+      if (event.offset - start >= minLength) {
+        const segment = { start: Math.max(0, start - preRoll), end: Math.min(samples.length, event.offset + tail) };
+        const previous = segments[segments.length - 1];
+        if (previous && segment.start <= previous.end) {
+          previous.end = segment.end;
+        } else {
+          segments.push(segment);
+        }
+      }
+      start = null;
+    }
+  }
+  return segments;
+}
+
+function hannWindow(length: number): Float32Array {
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (length - 1));
+  }
+  return window;
+}
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+function fft(real: Float64Array, imaginary: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imaginary[i], imaginary[j]] = [imaginary[j], imaginary[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = real[b] * cos - imaginary[b] * sin;
+        const ti = real[b] * sin + imaginary[b] * cos;
+        real[b] = real[a] - tr;
+        imaginary[b] = imaginary[a] - ti;
+        real[a] += tr;
+        imaginary[a] += ti;
+      }
+    }
+  }
+}
+
+function concatSamples(a: Float32Array, b: Float32Array): Float32Array {
+  const output = new Float32Array(a.length + b.length);
+  output.set(a);
+  output.set(b, a.length);
+  return output;
+}
@@ -1,18 +1,21 @@
 import { logger } from '../utils/logger.js';
-import gtts from 'node-gtts';
 import axios from 'axios';
-import type { VoiceData, TTSOptions } from '../types/index.js';
+import { speechRecognizerRegistry } from './SpeechRecognizerRegistry.js';
+import { speechSynthesizerRegistry } from './SpeechSynthesizerRegistry.js';
+import { validateAudio } from './AudioDecoder.js';
+import { AudioDecodeError, type AudioInfo } from './AudioContainers.js';
+import { prepareSpeechRequest } from './SpeechMarkup.js';
+import type { TTSOptions, SpeechRecognitionResult, SynthesizedSpeech } from '../types/index.js';
 
 export class VoiceService {
-  private ttsEngine: any;
   private isInitialized = false;
 
   public async initialize(): Promise<void> {
     try {
       logger.info('Initializing Voice Service...');
       
-      // Initialize Google TTS
-      this.ttsEngine = gtts;
+      await speechSynthesizerRegistry.initialize();
+      await speechRecognizerRegistry.initialize();
       this.isInitialized = true;
       
       logger.info('Voice Service initialized successfully');
@@ -22,7 +25,8 @@ export class VoiceService {
     }
   }
 
-  public async speechToText(audioBuffer: ArrayBuffer): Promise<{ text: string; confidence: number } | null> {
+  // Audio that breaks off or cannot be decoded throws AudioDecodeError; recognizer failures return null
+  public async speechToText(audioBuffer: ArrayBuffer | Buffer): Promise<SpeechRecognitionResult | null> {
     try {
       if (!this.isInitialized) {
         throw new Error('Voice Service not initialized');
@@ -30,100 +34,35 @@ export class VoiceService {
 
       logger.debug('Processing speech to text conversion');
 
-      // In a production environment, you would integrate with services like:
-      // - Google Speech-to-Text API
-      // - Azure Speech Services
-      // - AWS Transcribe
-      // - OpenAI Whisper API
-      
-      // For demonstration, we'll simulate the process
-      // Here's where you would implement the actual API call:
-      
-      /*
-      Example with Google Speech-to-Text:
-      
-      const speech = require('@google-cloud/speech');
-      const client = new speech.SpeechClient();
-      
-      const audio = {
-        content: Buffer.from(audioBuffer).toString('base64'),
-      };
-      
-      const config = {
-        encoding: 'WEBM_OPUS',
-        sampleRateHertz: 16000,
-        languageCode: 'en-US',
-      };
-      
-      const request = {
-        audio: audio,
-        config: config,
-      };
-      
-      const [response] = await client.recognize(request);
-      const transcription = response.results
-        .map(result => result.alternatives[0].transcript)
-        .join('\n');
-      */
-
-      // Simulated response for development
-      const simulatedResults = [
-        { text: 'Hello, how are you?', confidence: 0.95 },
-        { text: 'Thank you for your help', confidence: 0.88 },
-        { text: 'I need assistance', confidence: 0.92 },
-        { text: 'Good morning', confidence: 0.90 },
-        { text: 'Please help me', confidence: 0.85 }
-      ];
+      const result = await speechRecognizerRegistry.getActiveRecognizer().transcribe(toBuffer(audioBuffer));
+      logger.debug('Speech-to-text result:', { text: result.text, confidence: result.confidence });
 
-      const randomResult = simulatedResults[Math.floor(Math.random() * simulatedResults.length)];
-      logger.debug('Speech-to-text result:', randomResult);
-      
-      return randomResult;
+      return result;
 
     } catch (error) {
+      if (error instanceof AudioDecodeError) {
+        throw error;
+      }
       logger.error('Error converting speech to text:', error);
       return null;
     }
   }
 
-  public async textToSpeech(text: string, options: TTSOptions = {}): Promise<Buffer | null> {
+  // Invalid client input throws SpeechInputError; engine failures return null
+  public async textToSpeech(text: string, options: TTSOptions = {}): Promise<SynthesizedSpeech | null> {
+    const { text: speechText, segments, options: speechOptions } = prepareSpeechRequest(text, options, speechSynthesizerRegistry.getVoices());
+
     try {
       if (!this.isInitialized) {
         throw new Error('Voice Service not initialized');
       }
 
-      logger.debug('Converting text to speech:', { text, options });
+      logger.debug('Converting text to speech:', { text: speechText, options: speechOptions });
 
-      const {
-        voice = 'en',
-        speed = 1.0,
-        language = 'en'
-      } = options;
+      const speech = await speechSynthesizerRegistry.getActiveSynthesizer().synthesize(speechText, speechOptions, segments);
+      logger.debug('TTS conversion completed', { textLength: speechText.length, engine: speech.engine, audioSize: speech.audio.length });
 
-      // Using node-gtts for text-to-speech
-      const gttsInstance = new this.ttsEngine(language, false);
-      
-      return new Promise((resolve, reject) => {
-        gttsInstance.stream(text, (err: any, stream: any) => {
-          if (err) {
-            logger.error('TTS error:', err);
-            reject(err);
-            return;
-          }
-
-          const chunks: Buffer[] = [];
-          stream.on('data', (chunk: Buffer) => chunks.push(chunk));
-          stream.on('end', () => {
-            const audioBuffer = Buffer.concat(chunks);
-            logger.debug('TTS conversion completed', { textLength: text.length, audioSize: audioBuffer.length });
-            resolve(audioBuffer);
-          });
-          stream.on('error', (error: any) => {
-            logger.error('TTS stream error:', error);
-            reject(error);
-          });
-        });
-      });
+      return speech;
 
     } catch (error) {
       logger.error('Error converting text to speech:', error);
@@ -163,35 +102,21 @@ export class VoiceService {
     return ['en-US', 'en-GB', 'es-ES', 'fr-FR', 'de-DE', 'it-IT', 'pt-BR', 'ru-RU', 'ja-JP', 'ko-KR'];
   }
 
-  public async validateAudioFormat(audioBuffer: ArrayBuffer): Promise<boolean> {
-    try {
-      // Basic audio format validation
-      const buffer = Buffer.from(audioBuffer);
-      
-      // Check for common audio format headers
-      const webmHeader = buffer.slice(0, 4).toString('hex');
-      const wavHeader = buffer.slice(0, 4).toString('ascii');
-      const mp3Header = buffer.slice(0, 3).toString('hex');
-
-      return (
-        webmHeader === '1a45dfa3' || // WebM
-        wavHeader === 'RIFF' ||      // WAV
-        mp3Header === '494433' ||    // MP3 ID3
-        buffer[0] === 0xFF && (buffer[1] & 0xE0) === 0xE0 // MP3 frame sync
-      );
-
-    } catch (error) {
-      logger.error('Error validating audio format:', error);
-      return false;
-    }
+  // Parses the container for its real format, sample rate, channels and duration; throws AudioDecodeError
+  public validateAudioFormat(audioBuffer: ArrayBuffer | Buffer): AudioInfo {
+    return validateAudio(toBuffer(audioBuffer));
   }
 
   public async dispose(): Promise<void> {
     logger.info('Disposing Voice Service...');
     
-    this.ttsEngine = null;
     this.isInitialized = false;
     
     logger.info('Voice Service disposed');
   }
-}
\ No newline at end of file
+}
+
+// Multer hands over Buffers, socket clients send ArrayBuffers
+function toBuffer(audio: ArrayBuffer | Buffer): Buffer {
+  return Buffer.isBuffer(audio) ? audio : Buffer.from(audio);
+}
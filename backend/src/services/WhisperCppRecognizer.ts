@@ -0,0 +1,132 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { logger } from '../utils/logger.js';
+import { decodeForRecognition, encodeWav, RECOGNIZER_SAMPLE_RATE } from './AudioDecoder.js';
+import type { SpeechRecognizer, SpeechRecognitionOptions, SpeechRecognitionResult, RecognizedWord } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+// Shape of whisper.cpp's --output-json-full file, only the parts read here
+interface WhisperJson {
+  result?: { language?: string };
+  transcription: Array<{
+    offsets: { from: number; to: number };   // Milliseconds
+    text: string;
+    tokens?: Array<{ text: string; p: number }>;
+  }>;
+}
+
+// Runs the whisper.cpp CLI on a local ggml model. One segment per word
+// (--max-len 1 --split-on-word) gives word timestamps; token probabilities give confidence.
+export class WhisperCppRecognizer implements SpeechRecognizer {
+  public readonly name = 'whisper';
+  private readonly binary = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+  private readonly modelPath = process.env.WHISPER_MODEL || path.join(process.cwd(), 'models', 'ggml-base.en.bin');
+  private readonly defaultLanguage = process.env.WHISPER_LANGUAGE || 'en';
+  private readonly threads = Math.max(1, Number(process.env.WHISPER_THREADS) || Math.min(4, os.cpus().length));
+  private readonly timeoutMs = 60000;
+  private workDir: string | null = null;
+  private fileCounter = 0;
+
+  public async initialize(): Promise<void> {
+    try {
+      logger.info('Initializing whisper.cpp speech recognizer...');
+
+      await fs.access(this.modelPath);
+      await execFileAsync(this.binary, ['--help'], { timeout: 10000 });
+      this.workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gesturevoice-stt-'));
+
+      logger.info(`whisper.cpp speech recognizer initialized (${path.basename(this.modelPath)})`);
+    } catch (error) {
+      logger.error('Failed to initialize whisper.cpp speech recognizer:', error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  public async transcribe(audio: Buffer, options: SpeechRecognitionOptions = {}): Promise<SpeechRecognitionResult> {
+    if (!this.workDir) {
+      throw new Error('whisper.cpp speech recognizer not initialized');
+    }
+
+    const decoded = await decodeForRecognition(audio);
+    this.fileCounter = (this.fileCounter + 1) % 100000;
+    const base = path.join(this.workDir, `utterance_${Date.now()}_${this.fileCounter}`);
+    const language = options.language || this.defaultLanguage;
+
+    try {
+      await fs.writeFile(`${base}.wav`, encodeWav(decoded.samples, RECOGNIZER_SAMPLE_RATE));
+
+      await execFileAsync(this.binary, [
+        '--model', this.modelPath,
+        '--file', `${base}.wav`,
+        '--language', language,
+        '--threads', String(this.threads),
+        '--max-len', '1',
+        '--split-on-word',
+        '--output-json-full',
+        '--output-file', base,
+        '--no-prints'
+      ], { timeout: this.timeoutMs, maxBuffer: 16 * 1024 * 1024 });
+
+      const output = JSON.parse(await fs.readFile(`${base}.json`, 'utf-8')) as WhisperJson;
+      return this.toResult(output, language);
+
+    } finally {
+      await Promise.all([`${base}.wav`, `${base}.json`].map(file => fs.rm(file, { force: true })));
+    }
+  }
+
+  private toResult(output: WhisperJson, language: string): SpeechRecognitionResult {
+    const words: RecognizedWord[] = [];
+
+    for (const segment of output.transcription || []) {
+      const word = segment.text.trim();
+      // Non-speech annotations such as [BLANK_AUDIO] or (music)
+      if (!word || /^[[(].*[\])]$/.test(word)) {
+        continue;
+      }
+
+      // Punctuation gets its own segment; it belongs to the word before it
+      const previous = words[words.length - 1];
+      if (/^[^\p{L}\p{N}]+$/u.test(word)) {
+        if (previous) {
+          previous.word += word;
+          previous.end = segment.offsets.to / 1000;
+        }
+        continue;
+      }
+
+      // Special tokens ([_BEG_], [_TT_50]) carry no information about the word
+      const probabilities = (segment.tokens || [])
+        .filter(token => !/^\[_.*\]$/.test(token.text.trim()))
+        .map(token => token.p);
+      const confidence = probabilities.length > 0
+        ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length
+        : 0.5;
+
+      words.push({
+        word,
+        start: segment.offsets.from / 1000,
+        end: segment.offsets.to / 1000,
+        confidence
+      });
+    }
+
+    return {
+      text: words.map(entry => entry.word).join(' '),
+      confidence: words.length > 0 ? words.reduce((sum, entry) => sum + entry.confidence, 0) / words.length : 0,
+      words,
+      language: output.result?.language || language
+    };
+  }
+
+  public async dispose(): Promise<void> {
+    if (this.workDir) {
+      await fs.rm(this.workDir, { recursive: true, force: true });
+      this.workDir = null;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// Synthetic 16 kHz mono audio for tests: a voiced sound the detector reads as speech,
+// a quiet room, and the noises it should not
+const SAMPLE_RATE = 16000;
+
+const samplesFor = (ms: number) => Math.round(ms * SAMPLE_RATE / 1000);
+
+// Seeded, so every run hears the same room
+function noiseSource(seed = 1): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+}
+
+// A 200 Hz voice with harmonics up into the speech band
+export function voiced(ms: number, amplitude = 0.1): Float32Array {
+  return Float32Array.from({ length: samplesFor(ms) }, (_, i) => {
+    let value = 0;
+    for (let harmonic = 1; harmonic <= 15; harmonic++) {
+      value += Math.sin(2 * Math.PI * 200 * harmonic * i / SAMPLE_RATE) / Math.sqrt(harmonic);
+    }
+    return amplitude * value;
+  });
+}
+
+export function silence(ms: number, amplitude = 0.001): Float32Array {
+  const random = noiseSource();
+  return Float32Array.from({ length: samplesFor(ms) }, () => amplitude * random());
+}
+
+export function tone(ms: number, frequency: number, amplitude = 0.3): Float32Array {
+  return Float32Array.from({ length: samplesFor(ms) }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE));
+}
+
+export function concatAudio(...parts: Float32Array[]): Float32Array {
+  const output = new Float32Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+// Little-endian 16-bit PCM, as clients stream it
+export function toPcm16(samples: Float32Array): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 32767), i * 2));
+  return buffer;
+}
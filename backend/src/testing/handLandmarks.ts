@@ -0,0 +1,72 @@
+// Synthetic MediaPipe hand landmarks for tests: a right hand, palm to the camera, fingers up,
+// posed by the same finger and thumb states the classifiers read back
+type FingerName = 'index' | 'middle' | 'ring' | 'pinky';
+type FingerState = 'extended' | 'bent' | 'curled';
+
+export interface HandPose {
+  fingers?: Partial<Record<FingerName, FingerState>>;  // Missing fingers are extended
+  thumb?: 'out' | 'side' | 'across';
+  spread?: boolean;
+  palm?: 'forward' | 'side';
+  location?: 'head' | 'mouth' | 'chest' | 'low';
+  offset?: { x: number; y: number };                  // Moves the whole hand in the image
+}
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const FINGER_ORDER: FingerName[] = ['index', 'middle', 'ring', 'pinky'];
+const KNUCKLE_X: Record<FingerName, number> = { index: 0.03, middle: 0.01, ring: -0.01, pinky: -0.03 };
+const SPREAD_DEGREES: Record<FingerName, number> = { index: 18, middle: 6, ring: -6, pinky: -18 };
+const SEGMENTS = [0.04, 0.03, 0.025];
+const LOCATION_Y = { head: 0.2, mouth: 0.38, chest: 0.58, low: 0.85 };
+
+export function handLandmarks(pose: HandPose = {}): number[] {
+  const wrist: Point = { x: 0, y: 0.1, z: 0 };
+  const points: Point[] = new Array(21);
+  points[0] = wrist;
+
+  FINGER_ORDER.forEach((finger, index) => {
+    const state = pose.fingers?.[finger] || 'extended';
+    const angle = (pose.spread ? SPREAD_DEGREES[finger] : 0) * Math.PI / 180;
+    const up = { x: Math.sin(angle), y: -Math.cos(angle), z: 0 };
+    const towardCamera = { x: 0, y: 0, z: -1 };
+    const down = { x: 0, y: 1, z: 0 };
+    const directions = state === 'extended' ? [up, up, up]
+      : state === 'bent' ? [towardCamera, towardCamera, towardCamera]
+        : [towardCamera, down, { x: 0, y: 0.7, z: 0.7 }];
+
+    let joint: Point = { x: KNUCKLE_X[finger], y: 0, z: 0 };
+    const base = 5 + index * 4;
+    points[base] = joint;
+    directions.forEach((direction, segment) => {
+      joint = { x: joint.x + direction.x * SEGMENTS[segment], y: joint.y + direction.y * SEGMENTS[segment], z: joint.z + direction.z * SEGMENTS[segment] };
+      points[base + segment + 1] = joint;
+    });
+  });
+
+  // Thumb from the base of the palm towards where its tip rests
+  const thumbTip: Point = pose.thumb === 'out' ? { x: 0.11, y: 0.02, z: 0 }
+    : pose.thumb === 'across' ? { x: 0.0, y: 0.02, z: -0.02 }
+      : { x: 0.05, y: 0.03, z: 0 };
+  const thumbBase: Point = { x: 0.03, y: 0.08, z: 0 };
+  for (let i = 1; i <= 4; i++) {
+    const t = i / 4;
+    points[i] = {
+      x: thumbBase.x + (thumbTip.x - thumbBase.x) * t,
+      y: thumbBase.y + (thumbTip.y - thumbBase.y) * t,
+      z: thumbBase.z + (thumbTip.z - thumbBase.z) * t
+    };
+  }
+
+  // A side-on palm turns the hand a quarter turn about the vertical axis
+  const turned = pose.palm === 'side' ? points.map(p => ({ x: p.z, y: p.y, z: -p.x })) : points;
+
+  const centroidY = turned.reduce((sum, p) => sum + p.y, 0) / turned.length;
+  const shiftX = 0.5 + (pose.offset?.x || 0);
+  const shiftY = LOCATION_Y[pose.location || 'chest'] - centroidY + (pose.offset?.y || 0);
+  return turned.flatMap(p => [p.x + shiftX, p.y + shiftY, p.z]);
+}
@@ -1,16 +1,20 @@
+export type Handedness = 'left' | 'right';
+
 export interface SignLanguageData {
   landmarks: number[][];
+  handedness?: Handedness[]; // Parallel to landmarks; without it the first hand is the dominant right hand
   confidence: number;
   timestamp: number;
   sessionId: string;
   recognizedGesture?: string;
   gestureDescription?: string;
+  signLanguage?: string;     // Lexicon the gesture id belongs to; ASL when absent
 }
 
 export interface VoiceData {
   audioBuffer: ArrayBuffer;
-  duration: number;
-  sampleRate: number;
+  duration?: number;        // As measured by the client; checked against the decoded audio
+  sampleRate?: number;
   timestamp: number;
   sessionId: string;
 }
@@ -21,25 +25,257 @@ export interface TranslationResult {
   confidence: number;
   timestamp: number;
   sessionId: string;
+  signLanguage: string;      // Sign language of the session that produced the result
+}
+
+export interface RecognizedLetter {
+  letter: string;
+  confidence: number;
+  timestamp: number;
+}
+
+export interface FingerspelledWord {
+  word: string;     // After lexicon correction
+  raw: string;      // Letters as recognized
+  corrected: boolean;
+  letters: RecognizedLetter[];
+  confidence: number;
+  startTime: number;
+  endTime: number;
+}
+
+export type LexiconChangeAction = 'create' | 'update' | 'delete' | 'import' | 'reload';
+
+export interface LexiconChange {
+  language: string;
+  version: string;    // Lexicon version after the change
+  action: LexiconChangeAction;
+  ids: string[];      // Entries touched by the change; empty for a reload
 }
 
 export interface SocketEvents {
-  'video-frame': (data: { frame: string; timestamp: number; sessionId: string }) => void;
+  'set-sign-language': (data: { signLanguage: string }) => void;
+  'sign-language-changed': (data: { signLanguage: string; name: string; supportedGestures: SupportedGesture[]; avatarModel: unknown; timestamp: number }) => void;
+  'video-frame': (data: { frame: string; timestamp: number; sessionId: string; landmarks?: number[][]; handedness?: Handedness[] }) => void;
   'audio-data': (data: VoiceData) => void;
   'sign-detected': (data: SignLanguageData) => void;
-  'text-recognized': (data: { text: string; confidence: number; sessionId: string }) => void;
+  'fingerspelled-word': (data: FingerspelledWord & { sessionId: string; timestamp: number }) => void;
+  'audio-chunk': (data: AudioChunk) => void;
+  'audio-end': () => void;
+  'speech-start': (data: { offsetMs: number; sessionId: string; timestamp: number }) => void;
+  'speech-end': (data: { offsetMs: number; durationMs: number; reason: SpeechFinalReason; sessionId: string; timestamp: number }) => void;
+  'text-partial': (data: { text: string; words: RecognizedWord[]; stableText: string; sequence: number; sessionId: string; timestamp: number }) => void;
+  'text-final': (data: SpeechRecognitionResult & { sequence: number; reason: SpeechFinalReason; sessionId: string; timestamp: number }) => void;
+  'text-recognized': (data: { text: string; confidence: number; words: RecognizedWord[]; sessionId: string }) => void;
   'translation-result': (data: TranslationResult) => void;
+  'avatar-clip-start': (data: Extract<AvatarAnimationEvent, { type: 'clip-start' }> & { sessionId: string; timestamp: number }) => void;
+  'avatar-frame': (data: Extract<AvatarAnimationEvent, { type: 'frame' }> & { sessionId: string; timestamp: number }) => void;
+  'avatar-clip-end': (data: Extract<AvatarAnimationEvent, { type: 'clip-end' }> & { sessionId: string; timestamp: number }) => void;
+  'speech-audio': (data: SpeechAudioChunk) => void;
+  'speak-text': (data: { text: string; voice?: string; language?: string; speed?: number; pitch?: number; ssml?: boolean; question?: boolean; emotion?: SpeechEmotion; priority?: SpeechPriority }) => void;
+  'cancel-speech': (data?: { utteranceId?: string }) => void;
+  'speech-queued': (data: { utteranceId: string; text: string; priority: SpeechPriority; position: number; sessionId: string; timestamp: number }) => void;
+  'speech-started': (data: { utteranceId: string; text: string; priority: SpeechPriority; engine: string; duration: number | null; sessionId: string; timestamp: number }) => void;
+  'speech-finished': (data: { utteranceId: string; sessionId: string; timestamp: number }) => void;
+  'speech-cancelled': (data: { utteranceId: string; reason: SpeechCancelReason; sessionId: string; timestamp: number }) => void;
+  'lexicon-updated': (data: LexiconChange & { timestamp: number }) => void;
   'error': (error: { message: string; code: string }) => void;
 }
 
+export interface SignDetectionInput {
+  frame?: string;
+  landmarks?: number[][];
+  handedness?: Handedness[];
+  sessionId: string;
+  signLanguage?: string;
+}
+
+export interface SupportedGesture {
+  name: string;
+  description: string;
+  confidence: number;
+}
+
 export interface SignDetectionModel {
-  predict(frameData: string): Promise<SignLanguageData>;
+  readonly name: string;
+  predict(input: SignDetectionInput): Promise<SignLanguageData | null>;
+  initialize(): Promise<void>;
+  dispose(): Promise<void>;
+  getSupportedGestures(signLanguage?: string): SupportedGesture[];
+  getGestureDescription(gesture: string, signLanguage?: string): string;
+  resetSession?(sessionId: string): void;
+  getHeldGesture?(sessionId: string): string | null; // Sign the session's latest frame matched, reported or not
+}
+
+export interface RecognizedWord {
+  word: string;
+  start: number;          // Seconds from the start of the audio
+  end: number;
+  confidence: number;
+}
+
+export interface SpeechRecognitionResult {
+  text: string;
+  confidence: number;
+  words: RecognizedWord[];
+  language?: string;
+}
+
+// One sentence of an uploaded clip, as cut out by the voice activity detector
+export interface RecognizedUtterance extends SpeechRecognitionResult {
+  startMs: number;        // Speech boundaries within the clip
+  endMs: number;
+}
+
+// One piece of a live microphone stream: raw little-endian PCM, mono
+export interface AudioChunk {
+  sequence: number;       // Starts at 0 for every stream
+  audio: ArrayBuffer | Buffer;
+  sampleRate: number;
+  encoding?: 'pcm16' | 'float32'; // Defaults to pcm16
+}
+
+export type SpeechFinalReason = 'endpoint' | 'end-of-stream' | 'max-length';
+
+// newlyStable holds words no earlier event reported as stable, in order
+export type SpeechStreamEvent =
+  | { type: 'partial'; text: string; words: RecognizedWord[]; stableText: string; newlyStable: RecognizedWord[]; sequence: number }
+  | (SpeechRecognitionResult & { type: 'final'; newlyStable: RecognizedWord[]; sequence: number; reason: SpeechFinalReason })
+  | { type: 'speech-start'; offsetMs: number }
+  | { type: 'speech-end'; offsetMs: number; durationMs: number; reason: SpeechFinalReason }
+  | { type: 'error'; message: string };
+
+export interface SpeechRecognitionOptions {
+  language?: string;      // ISO 639-1 code, e.g. 'en'
+}
+
+// Recognizers run on the local machine; none of them may need network access
+export interface SpeechRecognizer {
+  readonly name: string;
   initialize(): Promise<void>;
-  dispose(): void;
+  transcribe(audio: Buffer, options?: SpeechRecognitionOptions): Promise<SpeechRecognitionResult>;
+  dispose(): Promise<void>;
 }
 
 export interface TTSOptions {
   voice?: string;
   speed?: number;
   language?: string;
-}
\ No newline at end of file
+  pitch?: number;           // Semitones from the voice's own pitch
+  ssml?: boolean;           // Text is markup: <emphasis>, <break>, <prosody rate pitch>, <s>, <p>
+  question?: boolean;       // Rising intonation at the end
+  emotion?: SpeechEmotion;
+}
+
+export type SpeechEmotion = 'neutral' | 'happy' | 'excited' | 'sad' | 'concerned' | 'urgent';
+
+export type SpeechEmphasis = 'strong' | 'moderate' | 'reduced';
+
+// How a segment's text is read out; the default expands numbers, dates, abbreviations and acronyms
+export type SpeechInterpretation = 'characters' | 'cardinal' | 'ordinal' | 'date' | 'time' | 'verbatim';
+
+// A stretch of speech with one prosody; engines render what they support and fall back to punctuation
+export interface SpeechSegment {
+  text: string;
+  emphasis?: SpeechEmphasis;
+  rate?: number;            // Multiplier on the utterance speed
+  pitch?: number;           // Semitones on top of the utterance pitch
+  pauseAfterMs?: number;
+  rising?: boolean;         // Ends with question intonation
+  interpretAs?: SpeechInterpretation;
+}
+
+export type SpeechAudioFormat = 'wav' | 'mp3' | 'webm';
+
+// What clients receive: the engine's own format, or re-encoded by ffmpeg ('opus' is Opus in WebM)
+export type SpeechDeliveryFormat = 'native' | 'wav' | 'mp3' | 'opus';
+
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  format: SpeechAudioFormat;
+  mimeType: string;
+  sampleRate: number;
+  duration: number | null;  // Seconds; null when the encoded stream does not say
+  engine: string;
+}
+
+// Synthesized speech goes to the client in order-preserving chunks of one utterance;
+// the chunk with `final` set completes it
+export interface SpeechAudioChunk {
+  utteranceId: string;
+  sequence: number;         // 0-based within the utterance
+  final: boolean;
+  audioData: Buffer;
+  format: SpeechAudioFormat;
+  mimeType: string;
+  sampleRate: number;
+  duration: number | null;
+  text: string;
+  sessionId: string;
+  timestamp: number;
+}
+
+export type SpeechPriority = 'emergency' | 'high' | 'normal';
+
+export interface AvatarBone {
+  name: string;
+  position: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number };  // Euler angles in radians, applied X then Y then Z
+}
+
+export interface AvatarPose {
+  timestamp: number;
+  bones: AvatarBone[];
+  facialExpression?: string;
+  duration: number;
+}
+
+export type AvatarClipEndReason = 'completed' | 'interrupted';
+
+// Where one sign sits on a clip's timeline (ms); fingerspelled words are marked letter by letter
+export interface AvatarClipSign {
+  gesture: string;
+  word?: string;                      // The fingerspelled word the letter belongs to
+  start: number;
+  end: number;
+}
+
+// One session's avatar playback. Clips are numbered per session; frames are numbered within their clip
+// and carry their time on the clip's timeline, so captions can be lined up with `signs`.
+export type AvatarAnimationEvent =
+  | {
+    type: 'clip-start';
+    sequence: number;
+    gestures: string[];               // Empty for the return to rest
+    signs: AvatarClipSign[];
+    duration: number;
+    fps: number;
+    caption?: string;                 // Text the clip signs
+  }
+  | { type: 'frame'; sequence: number; frame: number; time: number; bones: AvatarBone[]; facialExpression?: string }
+  | { type: 'clip-end'; sequence: number; reason: AvatarClipEndReason; frames: number };
+
+export type SpeechCancelReason = 'barge-in' | 'preempted' | 'client' | 'error' | 'disconnect' | 'overflow';
+
+// Lifecycle of one queued utterance; 'started' carries the audio to deliver
+export type SpeechQueueEvent =
+  | { type: 'queued'; utteranceId: string; text: string; priority: SpeechPriority; position: number }
+  | { type: 'started'; utteranceId: string; text: string; priority: SpeechPriority; speech: SynthesizedSpeech }
+  | { type: 'finished'; utteranceId: string }
+  | { type: 'cancelled'; utteranceId: string; reason: SpeechCancelReason };
+
+export interface SynthesizerVoice {
+  name: string;
+  language: string;
+  description: string;
+}
+
+// Text-to-speech engines; speed 1.0 is each engine's normal speaking rate
+export interface SpeechSynthesizer {
+  readonly name: string;
+  initialize(): Promise<void>;
+  // `text` is the plain rendering of `segments`, for engines without prosody control
+  synthesize(text: string, options?: TTSOptions, segments?: SpeechSegment[]): Promise<SynthesizedSpeech>;
+  getVoices(): SynthesizerVoice[];
+  dispose(): Promise<void>;
+}
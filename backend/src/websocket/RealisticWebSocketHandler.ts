@@ -1,26 +1,73 @@
 import { Server, Socket } from 'socket.io';
 import { logger } from '../utils/logger.js';
-import { SimpleRealisticSignLanguageService } from '../services/SimpleRealisticSignLanguageService.js';
+import { signModelRegistry, SignModelRegistry } from '../services/SignModelRegistry.js';
 import { RealisticVoiceService } from '../services/RealisticVoiceService.js';
 import { Avatar3DService } from '../services/Avatar3DService.js';
 import { TranslationService } from '../services/TranslationService.js';
-import type { SignLanguageData, VoiceData, TranslationResult } from '../types/index.js';
+import { FingerspellingService } from '../services/FingerspellingService.js';
+import { SpeechStreamService } from '../services/SpeechStreamService.js';
+import { SpeechQueueService, speechPriorityForGesture } from '../services/SpeechQueueService.js';
+import { AvatarPlayerService } from '../services/AvatarPlayerService.js';
+import { resolveDeliveryFormat } from '../services/SpeechAudioEncoder.js';
+import { SpeechInputError } from '../services/SpeechTextSanitizer.js';
+import { AudioDecodeError } from '../services/AudioContainers.js';
+import { sendSpeechAudio } from './SpeechAudioSender.js';
+import { signLexicon, DEFAULT_SIGN_LANGUAGE } from '../services/SignLexicon.js';
+import { getSignLanguage, getAvailableSignLanguages, resolveSignLanguage } from '../services/SignLanguages.js';
+import type {
+  SignDetectionModel,
+  SignLanguageData,
+  VoiceData,
+  TranslationResult,
+  Handedness,
+  AudioChunk,
+  RecognizedWord,
+  SpeechStreamEvent,
+  SpeechDeliveryFormat,
+  SpeechEmotion,
+  SpeechPriority,
+  SpeechQueueEvent,
+  SynthesizedSpeech,
+  TTSOptions,
+  AvatarAnimationEvent
+} from '../types/index.js';
+
+const SPEECH_PRIORITIES: SpeechPriority[] = ['emergency', 'high', 'normal'];
 
 export class RealisticWebSocketHandler {
   private io: Server;
-  private signLanguageService: SimpleRealisticSignLanguageService;
+  private signModels: SignModelRegistry;
   private voiceService: RealisticVoiceService;
   private avatarService: Avatar3DService;
   private translationService: TranslationService;
-  private connectedClients: Map<string, { id: string; sessionId: string; lastActivity: number }> = new Map();
+  private fingerspellingService: FingerspellingService;
+  private speechStreamService: SpeechStreamService;
+  private speechQueue: SpeechQueueService;
+  private avatarPlayer: AvatarPlayerService;
+  private connectedClients: Map<string, {
+    id: string;
+    sessionId: string;
+    signLanguage: string;
+    speechFormat: SpeechDeliveryFormat;
+    handsVisible: boolean;
+    lastActivity: number;
+  }> = new Map();
+  private readonly defaultSpeechFormat: SpeechDeliveryFormat = resolveDeliveryFormat(process.env.SPEECH_AUDIO_FORMAT) || 'native';
   private processingQueue: Map<string, boolean> = new Map();
+  // Streamed speech waiting to be signed, and the chain that keeps each session's signs in order
+  private speechSigning: Map<string, { pendingWords: string[]; queue: Promise<void> }> = new Map();
+  private unsubscribeLexicon: (() => void) | null = null;
 
   constructor(io: Server) {
     this.io = io;
-    this.signLanguageService = new SimpleRealisticSignLanguageService();
+    this.signModels = signModelRegistry;
     this.voiceService = new RealisticVoiceService();
     this.avatarService = new Avatar3DService();
     this.translationService = new TranslationService();
+    this.fingerspellingService = new FingerspellingService();
+    this.speechStreamService = new SpeechStreamService();
+    this.speechQueue = new SpeechQueueService();
+    this.avatarPlayer = new AvatarPlayerService(this.avatarService);
   }
 
   public async initialize(): Promise<void> {
@@ -29,13 +76,19 @@ export class RealisticWebSocketHandler {
       
       // Initialize all services (note: TranslationService doesn't need initialization)
       await Promise.all([
-        this.signLanguageService.initialize(),
+        this.signModels.initialize(),
         this.voiceService.initialize(),
-        this.avatarService.initialize()
+        this.avatarService.initialize(),
+        this.fingerspellingService.initialize()
       ]);
       
       // Setup WebSocket connection handlers
       this.setupSocketHandlers();
+
+      // Services read the lexicon live, so clients only need to refresh their gesture lists
+      this.unsubscribeLexicon = signLexicon.onChange(change => {
+        this.io.emit('lexicon-updated', { ...change, timestamp: Date.now() });
+      });
       
       logger.info('Realistic WebSocket Handler initialized successfully');
     } catch (error) {
@@ -48,27 +101,77 @@ export class RealisticWebSocketHandler {
     this.io.on('connection', (socket: Socket) => {
       const clientId = socket.id;
       const sessionId = this.generateSessionId();
+
+      // Clients pick their sign language in the handshake; unknown codes fall back to ASL
+      const requestedLanguage = socket.handshake.auth?.signLanguage ?? socket.handshake.query.signLanguage;
+      const initialLanguage = resolveSignLanguage(requestedLanguage) || DEFAULT_SIGN_LANGUAGE;
+      if (requestedLanguage && initialLanguage !== String(requestedLanguage).toUpperCase()) {
+        logger.warn(`Client ${clientId} requested unsupported sign language "${requestedLanguage}", using ${initialLanguage}`);
+      }
+
+      // Audio format for synthesized speech, e.g. 'opus' to save bandwidth
+      const speechFormat = resolveDeliveryFormat(socket.handshake.auth?.speechFormat ?? socket.handshake.query.speechFormat) ||
+                           this.defaultSpeechFormat;
       
-      logger.info(`Client connected: ${clientId} (Session: ${sessionId})`);
+      logger.info(`Client connected: ${clientId} (Session: ${sessionId}, ${initialLanguage})`);
       
       // Store client info
       this.connectedClients.set(clientId, {
         id: clientId,
         sessionId,
+        signLanguage: initialLanguage,
+        speechFormat,
+        handsVisible: false,
         lastActivity: Date.now()
       });
+      this.fingerspellingService.setSessionLanguage(sessionId, initialLanguage);
+      this.speechStreamService.createSession(sessionId, event => this.handleSpeechStreamEvent(event, socket, sessionId, clientId));
+      this.speechQueue.createSession(sessionId, event => this.handleSpeechQueueEvent(event, socket, sessionId, clientId));
+      this.avatarPlayer.createSession(sessionId, event => this.handleAvatarAnimationEvent(event, socket, sessionId));
 
       // Send initial configuration to client
       socket.emit('system-ready', {
-        avatarModel: this.avatarService.getAvatarModel(),
-        supportedGestures: this.signLanguageService.getSupportedGestures(),
+        avatarModel: this.avatarService.getAvatarModel(initialLanguage),
+        supportedGestures: this.signModels.getActiveModel().getSupportedGestures(initialLanguage),
         availableVoices: this.voiceService.getAvailableVoices(),
+        signLanguage: initialLanguage,
+        supportedSignLanguages: getAvailableSignLanguages().map(({ code, name }) => ({ code, name })),
+        speechAudio: { format: speechFormat, serverPlayback: this.voiceService.isKioskMode() },
         sessionId,
         timestamp: Date.now()
       });
 
+      // Switch the session's sign language; buffered signs and letters belong to the old one
+      socket.on('set-sign-language', (data: { signLanguage: string }) => {
+        const signLanguage = resolveSignLanguage(data?.signLanguage);
+        if (!signLanguage) {
+          socket.emit('error', {
+            message: `Unsupported sign language: ${data?.signLanguage}`,
+            code: 'UNSUPPORTED_SIGN_LANGUAGE'
+          });
+          return;
+        }
+
+        const client = this.connectedClients.get(clientId);
+        if (client) {
+          client.signLanguage = signLanguage;
+        }
+        this.signModels.getActiveModel().resetSession?.(sessionId);
+        this.fingerspellingService.setSessionLanguage(sessionId, signLanguage);
+        this.translationService.resetSession(sessionId);
+
+        socket.emit('sign-language-changed', {
+          signLanguage,
+          name: getSignLanguage(signLanguage)!.name,
+          supportedGestures: this.signModels.getActiveModel().getSupportedGestures(signLanguage),
+          avatarModel: this.avatarService.getAvatarModel(signLanguage),
+          timestamp: Date.now()
+        });
+        logger.info(`Client ${clientId} switched sign language to ${signLanguage}`);
+      });
+
       // Handle video frame processing for realistic sign language detection
-      socket.on('video-frame', async (data: { frame: string; timestamp: number; sessionId: string }) => {
+      socket.on('video-frame', async (data: { frame: string; timestamp: number; sessionId: string; landmarks?: number[][]; handedness?: Handedness[] }) => {
         try {
           if (this.processingQueue.get(`sign-${clientId}`)) {
             return; // Skip if already processing to prevent overload
@@ -78,16 +181,43 @@ export class RealisticWebSocketHandler {
           this.updateClientActivity(clientId);
 
           logger.debug(`Processing video frame for client ${clientId}`);
+          const signLanguage = this.getClientSignLanguage(clientId);
+
+          // Hands coming back into view means the user is signing again: stop talking over them
+          const handsVisible = Boolean(data.landmarks && data.landmarks.length > 0);
+          const client = this.connectedClients.get(clientId);
+          if (client) {
+            if (handsVisible && !client.handsVisible) {
+              this.speechQueue.bargeIn(sessionId);
+            }
+            client.handsVisible = handsVisible;
+          }
           
-          // Process frame for realistic sign language detection
-          const signData = await this.signLanguageService.processFrame(data.frame);
+          // Process frame with the currently selected sign detection model
+          const signModel = this.signModels.getActiveModel();
+          const signData = await signModel.predict({
+            frame: data.frame,
+            landmarks: data.landmarks,
+            handedness: data.handedness,
+            sessionId,
+            signLanguage
+          });
+
+          // Fingerspelling reads the same landmark stream, but a held sign is not a letter
+          const heldSign = this.getHeldSign(signModel, signData, sessionId, signLanguage);
+          if (heldSign) {
+            this.fingerspellingService.holdForSign(sessionId, data.timestamp || Date.now());
+          } else {
+            this.processFingerspelling(socket, clientId, sessionId, signLanguage, data);
+          }
           
           if (signData) {
             signData.sessionId = sessionId;
+            signData.signLanguage = signLanguage;
             
             // Add gesture description if available
             if (signData.recognizedGesture && signData.recognizedGesture !== 'unknown') {
-              signData.gestureDescription = this.signLanguageService.getGestureDescription(signData.recognizedGesture);
+              signData.gestureDescription = signModel.getGestureDescription(signData.recognizedGesture, signLanguage);
             }
             
             // Emit sign detection result
@@ -130,31 +260,42 @@ export class RealisticWebSocketHandler {
 
           logger.debug(`Processing audio data for client ${clientId}`);
           
-          // Validate audio data format
-          if (!this.voiceService.validateAudioFormat(data)) {
-            socket.emit('error', { 
-              message: 'Invalid audio format', 
-              code: 'AUDIO_FORMAT_ERROR' 
-            });
+          // Format, sample rate and duration are read from the audio itself
+          const audioInfo = this.voiceService.validateAudioFormat(data);
+          logger.debug(`Audio from client ${clientId}: ${audioInfo.format}/${audioInfo.codec}, ${audioInfo.sampleRate} Hz, ` +
+            `${audioInfo.channels} ch, ${audioInfo.duration.toFixed(2)} s`);
+
+          // Silence is cut out before recognition; each sentence is signed on its own
+          const utterances = await this.voiceService.transcribeUtterances(data);
+          if (utterances.length === 0) {
+            socket.emit('error', { message: 'No speech detected in audio', code: 'NO_SPEECH' });
             return;
           }
 
-          // Convert speech to text with realistic processing
-          const speechResult = await this.voiceService.speechToText(data);
-          
-          socket.emit('text-recognized', {
-            text: speechResult.text,
-            confidence: speechResult.confidence,
-            sessionId,
-            timestamp: Date.now()
-          });
+          for (const utterance of utterances) {
+            const { startMs, endMs, ...speechResult } = utterance;
+            socket.emit('speech-start', { offsetMs: startMs, sessionId, timestamp: Date.now() });
+            socket.emit('speech-end', { offsetMs: endMs, durationMs: endMs - startMs, reason: 'endpoint', sessionId, timestamp: Date.now() });
+            socket.emit('text-recognized', {
+              text: speechResult.text,
+              confidence: speechResult.confidence,
+              words: speechResult.words,
+              sessionId,
+              timestamp: Date.now()
+            });
+
+            logger.info(`Speech recognized for client ${clientId}: "${speechResult.text}" (confidence: ${speechResult.confidence.toFixed(2)})`);
+
+            // Generate sign language representation with 3D avatar
+            await this.processVoiceToSignAuto(speechResult.text, socket, sessionId, this.getClientSignLanguage(clientId));
+          }
 
-          logger.info(`Speech recognized for client ${clientId}: "${speechResult.text}" (confidence: ${speechResult.confidence.toFixed(2)})`);
-          
-          // Generate sign language representation with 3D avatar
-          await this.processVoiceToSignAuto(speechResult.text, socket, sessionId);
-          
         } catch (error) {
+          if (error instanceof AudioDecodeError) {
+            logger.warn(`Rejected audio from client ${clientId}: ${error.message}`);
+            socket.emit('error', { message: error.message, code: error.code });
+            return;
+          }
           logger.error(`Error processing audio data for client ${clientId}:`, error);
           socket.emit('error', { 
             message: 'Failed to process audio data', 
@@ -165,20 +306,41 @@ export class RealisticWebSocketHandler {
         }
       });
 
+      // Live microphone audio: sequenced PCM chunks, transcribed while the user is still speaking
+      socket.on('audio-chunk', (data: AudioChunk) => {
+        try {
+          this.updateClientActivity(clientId);
+          this.speechStreamService.pushChunk(sessionId, data);
+        } catch (error) {
+          logger.warn(`Rejected audio chunk from client ${clientId}:`, error instanceof Error ? error.message : error);
+          socket.emit('error', {
+            message: error instanceof Error ? error.message : 'Invalid audio chunk',
+            code: 'AUDIO_CHUNK_ERROR'
+          });
+        }
+      });
+
+      socket.on('audio-end', () => {
+        this.speechStreamService.endStream(sessionId);
+      });
+
       // Handle manual gesture playback requests
       socket.on('play-gesture', async (data: { gesture: string }) => {
         try {
           logger.info(`Manual gesture playback requested by client ${clientId}: ${data.gesture}`);
+          const signLanguage = this.getClientSignLanguage(clientId);
           
           // Play gesture animation on 3D avatar
-          await this.avatarService.playGestureSequence(data.gesture);
+          await this.avatarPlayer.play(sessionId, [data.gesture], signLanguage);
           
-          // Generate and auto-play voice for the gesture
-          const voiceText = await this.voiceService.generateVoiceFromGesture(data.gesture);
+          // Speak the gesture on the client
+          const voiceText = this.voiceService.getGestureVoiceText(data.gesture, signLanguage);
+          const utteranceId = this.queueSpeech(sessionId, voiceText, {}, speechPriorityForGesture(data.gesture));
           
           socket.emit('gesture-played', {
             gesture: data.gesture,
             voiceText,
+            utteranceId,
             avatarAnimation: true,
             timestamp: Date.now()
           });
@@ -194,25 +356,37 @@ export class RealisticWebSocketHandler {
         }
       });
 
-      // Handle text-to-speech requests with auto-play
-      socket.on('speak-text', async (data: { text: string; voice?: string; speed?: number }) => {
+      // Handle text-to-speech requests; progress is reported through the speech queue events
+      // and the audio follows as speech-audio chunks once the utterance starts
+      socket.on('speak-text', (data: {
+        text: string;
+        voice?: string;
+        speed?: number;
+        pitch?: number;
+        ssml?: boolean;
+        question?: boolean;
+        emotion?: SpeechEmotion;
+        priority?: SpeechPriority;
+      }) => {
         try {
           logger.info(`Text-to-speech requested by client ${clientId}: "${data.text}"`);
+
+          const { text, priority = 'normal', ...options } = data;
+          if (!SPEECH_PRIORITIES.includes(priority)) {
+            socket.emit('error', {
+              message: `Unsupported speech priority: ${priority}`,
+              code: 'INVALID_SPEECH_PRIORITY'
+            });
+            return;
+          }
           
-          // Generate and auto-play speech
-          const audioPath = await this.voiceService.textToSpeech(data.text, {
-            voice: data.voice,
-            speed: data.speed
-          });
-          
-          socket.emit('speech-generated', {
-            text: data.text,
-            audioPath,
-            autoPlayed: true,
-            timestamp: Date.now()
-          });
+          this.queueSpeech(sessionId, text, options, priority);
           
         } catch (error) {
+          if (error instanceof SpeechInputError) {
+            socket.emit('error', { message: error.message, code: error.code });
+            return;
+          }
           logger.error(`Error generating speech for client ${clientId}:`, error);
           socket.emit('error', { 
             message: 'Failed to generate speech', 
@@ -221,10 +395,17 @@ export class RealisticWebSocketHandler {
         }
       });
 
+      // Stop one utterance, or everything queued for the session when no id is given
+      socket.on('cancel-speech', (data?: { utteranceId?: string }) => {
+        const cancelled = this.speechQueue.cancel(sessionId, data?.utteranceId, 'client');
+        logger.debug(`Client ${clientId} cancelled ${cancelled} utterance(s)`);
+      });
+
       // Handle translation requests
       socket.on('request-translation', async (data: { text: string; targetType: 'sign' | 'voice' }) => {
         try {
           logger.info(`Translation requested for client ${clientId}: "${data.text}" -> ${data.targetType}`);
+          const signLanguage = this.getClientSignLanguage(clientId);
           
           let translationResult: TranslationResult;
           
@@ -235,34 +416,39 @@ export class RealisticWebSocketHandler {
               translatedText: data.text,
               confidence: 0.9,
               timestamp: Date.now(),
-              sessionId
+              sessionId,
+              signLanguage
             };
             
-            // Auto-play voice
-            await this.voiceService.textToSpeech(data.text);
+            // Speak the text on the client
+            this.queueSpeech(sessionId, data.text);
           } else {
             // Convert voice/text to sign
-            const signResult = await this.translationService.textToSign(data.text);
+            const signResult = await this.translationService.textToSign(data.text, signLanguage);
             
             translationResult = {
               originalType: 'voice',
               translatedText: signResult ? signResult.signDescription : `Sign representation: ${data.text}`,
               confidence: signResult ? signResult.confidence : 0.7,
               timestamp: Date.now(),
-              sessionId
+              sessionId,
+              signLanguage
             };
             
-            // Auto-show avatar animation
-            const gesture = this.extractGestureFromText(data.text);
-            if (gesture) {
-              await this.avatarService.playGestureSequence(gesture);
-              socket.emit('avatar-gesture', { gesture, text: data.text });
+            // Auto-show avatar animation for the whole sentence, in the sign language's order
+            if (signResult) {
+              await this.avatarPlayer.play(sessionId, signResult.gestures, signLanguage, data.text);
+              socket.emit('avatar-gesture', { gestures: signResult.gestures, gloss: signResult.gloss, text: data.text });
             }
           }
           
           socket.emit('translation-result', translationResult);
           
         } catch (error) {
+          if (error instanceof SpeechInputError) {
+            socket.emit('error', { message: error.message, code: error.code });
+            return;
+          }
           logger.error(`Error processing translation for client ${clientId}:`, error);
           socket.emit('error', { 
             message: 'Failed to process translation', 
@@ -278,7 +464,7 @@ export class RealisticWebSocketHandler {
           
           // Send updated avatar model
           socket.emit('avatar-customized', {
-            avatarModel: this.avatarService.getAvatarModel(),
+            avatarModel: this.avatarService.getAvatarModel(this.getClientSignLanguage(clientId)),
             settings: data.settings,
             timestamp: Date.now()
           });
@@ -298,6 +484,13 @@ export class RealisticWebSocketHandler {
         
         // Cleanup client data
         this.connectedClients.delete(clientId);
+        this.signModels.getActiveModel().resetSession?.(sessionId);
+        this.fingerspellingService.resetSession(sessionId);
+        this.translationService.resetSession(sessionId);
+        this.speechStreamService.resetSession(sessionId);
+        this.speechQueue.resetSession(sessionId);
+        this.avatarPlayer.resetSession(sessionId);
+        this.speechSigning.delete(sessionId);
         this.processingQueue.delete(`sign-${clientId}`);
         this.processingQueue.delete(`voice-${clientId}`);
       });
@@ -315,7 +508,8 @@ export class RealisticWebSocketHandler {
             connectedClients: this.connectedClients.size,
             processingStatus: {
               signProcessing: this.processingQueue.get(`sign-${clientId}`) || false,
-              voiceProcessing: this.processingQueue.get(`voice-${clientId}`) || false
+              voiceProcessing: this.processingQueue.get(`voice-${clientId}`) || false,
+              speaking: this.speechQueue.isSpeaking(sessionId)
             },
             systemStatus: 'operational'
           });
@@ -326,24 +520,194 @@ export class RealisticWebSocketHandler {
     });
   }
 
+  private handleSpeechStreamEvent(event: SpeechStreamEvent, socket: Socket, sessionId: string, clientId: string): void {
+    if (event.type === 'error') {
+      socket.emit('error', { message: event.message, code: 'STREAMING_SPEECH_ERROR' });
+      return;
+    }
+
+    if (event.type === 'speech-start' || event.type === 'speech-end') {
+      const { type, ...boundary } = event;
+      socket.emit(type, { ...boundary, sessionId, timestamp: Date.now() });
+      return;
+    }
+
+    if (event.type === 'partial') {
+      socket.emit('text-partial', {
+        text: event.text,
+        words: event.words,
+        stableText: event.stableText,
+        sequence: event.sequence,
+        sessionId,
+        timestamp: Date.now()
+      });
+    } else {
+      const { type, newlyStable, ...result } = event;
+      socket.emit('text-final', { ...result, sessionId, timestamp: Date.now() });
+      logger.info(`Streamed speech final for client ${clientId}: "${event.text}" (${event.reason})`);
+    }
+
+    if (event.newlyStable.length > 0 || event.type === 'final') {
+      this.signStableWords(event.newlyStable, event.type === 'final', socket, sessionId, clientId);
+    }
+  }
+
+  private handleAvatarAnimationEvent(event: AvatarAnimationEvent, socket: Socket, sessionId: string): void {
+    const { type, ...data } = event;
+    socket.emit(`avatar-${type}`, { ...data, sessionId, timestamp: Date.now() });
+  }
+
+  private handleSpeechQueueEvent(event: SpeechQueueEvent, socket: Socket, sessionId: string, clientId: string): void {
+    const timestamp = Date.now();
+
+    switch (event.type) {
+      case 'queued': {
+        const { type, ...queued } = event;
+        socket.emit('speech-queued', { ...queued, sessionId, timestamp });
+        break;
+      }
+      case 'started': {
+        const { type, speech, ...started } = event;
+        socket.emit('speech-started', { ...started, engine: speech.engine, duration: speech.duration, sessionId, timestamp });
+        this.sendSpeech(socket, clientId, sessionId, speech, event.text, event.utteranceId).catch(error => {
+          logger.error(`Error sending speech to client ${clientId}:`, error);
+          this.speechQueue.cancel(sessionId, event.utteranceId, 'error');
+        });
+        break;
+      }
+      case 'finished':
+        socket.emit('speech-finished', { utteranceId: event.utteranceId, sessionId, timestamp });
+        break;
+      case 'cancelled':
+        socket.emit('speech-cancelled', { utteranceId: event.utteranceId, reason: event.reason, sessionId, timestamp });
+        break;
+    }
+  }
+
+  // Stable words are signed as soon as they complete a lexicon sign, so the avatar
+  // trails the speaker by a few words; whatever is left is handled at the end of the utterance
+  private signStableWords(words: RecognizedWord[], final: boolean, socket: Socket, sessionId: string, clientId: string): void {
+    let state = this.speechSigning.get(sessionId);
+    if (!state) {
+      state = { pendingWords: [], queue: Promise.resolve() };
+      this.speechSigning.set(sessionId, state);
+    }
+    const signing = state;
+
+    signing.queue = signing.queue.then(async () => {
+      const signLanguage = this.getClientSignLanguage(clientId);
+
+      for (const { word } of words) {
+        signing.pendingWords.push(word);
+        const text = signing.pendingWords.join(' ');
+        if (this.extractGestureFromText(text, signLanguage)) {
+          signing.pendingWords = [];
+          await this.processVoiceToSignAuto(text, socket, sessionId, signLanguage);
+        }
+      }
+
+      if (final && signing.pendingWords.length > 0) {
+        const rest = signing.pendingWords.join(' ');
+        signing.pendingWords = [];
+        await this.processVoiceToSignAuto(rest, socket, sessionId, signLanguage);
+      }
+    }).catch(error => {
+      logger.error('Error signing streamed speech:', error);
+    });
+  }
+
+  // A lexical sign the hand is holding, which keeps fingerspelling from reading it as a letter. Signs
+  // that are themselves letters of the manual alphabet, and frames inside a word, stay with spelling.
+  private getHeldSign(signModel: SignDetectionModel, signData: SignLanguageData | null, sessionId: string, signLanguage: string): string | null {
+    const recognized = signData?.recognizedGesture && signData.recognizedGesture !== 'unknown'
+      ? signData.recognizedGesture
+      : signModel.getHeldGesture?.(sessionId) || null;
+
+    if (!recognized || this.fingerspellingService.isSpelling(sessionId) ||
+        this.fingerspellingService.getSupportedLetters(signLanguage).includes(recognized)) {
+      return null;
+    }
+    return recognized;
+  }
+
+  private processFingerspelling(
+    socket: Socket,
+    clientId: string,
+    sessionId: string,
+    signLanguage: string,
+    data: { timestamp: number; landmarks?: number[][]; handedness?: Handedness[] }
+  ): void {
+    const spelledWord = this.fingerspellingService.processFrame(
+      data.landmarks,
+      sessionId,
+      data.handedness,
+      data.timestamp || Date.now()
+    );
+    if (!spelledWord) {
+      return;
+    }
+
+    socket.emit('fingerspelled-word', { ...spelledWord, sessionId, timestamp: Date.now() });
+    logger.info(`Fingerspelled word for client ${clientId}: "${spelledWord.word}"${spelledWord.corrected ? ` (spelled "${spelledWord.raw}")` : ''}`);
+
+    // Spoken as the word when the lexicon knows it or it can be pronounced as a name
+    const known = spelledWord.corrected || this.fingerspellingService.isKnownWord(spelledWord.word, signLanguage);
+    try {
+      this.queueSpeech(sessionId, this.voiceService.getFingerspelledVoiceText(spelledWord.word, known, signLanguage));
+    } catch (error) {
+      logger.warn(`Could not speak fingerspelled word "${spelledWord.word}":`, error);
+    }
+
+    // Spelled words join the signed sentence, usually as names or nouns
+    const sentence = this.translationService.addToSequence(sessionId, spelledWord.word, true);
+    if (sentence) {
+      const translationResult: TranslationResult = {
+        originalType: 'sign',
+        translatedText: sentence,
+        confidence: spelledWord.confidence,
+        timestamp: Date.now(),
+        sessionId,
+        signLanguage
+      };
+      socket.emit('translation-result', translationResult);
+    }
+  }
+
   private async processSignToVoiceAuto(signData: SignLanguageData, socket: Socket): Promise<void> {
     try {
       if (!signData.recognizedGesture || signData.recognizedGesture === 'unknown') {
         return;
       }
 
-      logger.info(`Auto-converting sign to voice: ${signData.recognizedGesture}`);
-      
-      // Generate natural voice from gesture (automatically plays)
-      const voiceText = await this.voiceService.generateVoiceFromGesture(signData.recognizedGesture);
+      const signLanguage = signData.signLanguage || DEFAULT_SIGN_LANGUAGE;
       
+      // The text result reads the whole signed sequence as a sentence. A held sign arrives on
+      // every frame but is only spoken when it first extends the sequence.
+      const held = this.translationService.getLastSign(signData.sessionId) === signData.recognizedGesture;
+      const sentence = this.translationService.addToSequence(signData.sessionId, signData.recognizedGesture);
+      if (held) {
+        return;
+      }
+      logger.info(`Auto-converting sign to voice: ${signData.recognizedGesture}`);
+
+      // Queue the natural voice for the gesture, with the sequence's question and emotion cues;
+      // emergency signs jump ahead of small talk
+      const voiceText = this.voiceService.getGestureVoiceText(signData.recognizedGesture, signLanguage);
+      const utteranceId = this.queueSpeech(
+        signData.sessionId,
+        voiceText,
+        this.translationService.getSpeechCues(signData.sessionId),
+        speechPriorityForGesture(signData.recognizedGesture)
+      );
+
       // Create translation result
       const translationResult: TranslationResult = {
         originalType: 'sign',
-        translatedText: voiceText,
+        translatedText: sentence || voiceText,
         confidence: signData.confidence,
         timestamp: Date.now(),
-        sessionId: signData.sessionId
+        sessionId: signData.sessionId,
+        signLanguage
       };
       
       // Emit translation result to client
@@ -351,6 +715,7 @@ export class RealisticWebSocketHandler {
       socket.emit('auto-voice-played', {
         gesture: signData.recognizedGesture,
         voiceText,
+        utteranceId,
         confidence: signData.confidence,
         timestamp: Date.now()
       });
@@ -366,35 +731,37 @@ export class RealisticWebSocketHandler {
     }
   }
 
-  private async processVoiceToSignAuto(text: string, socket: Socket, sessionId: string): Promise<void> {
+  private async processVoiceToSignAuto(text: string, socket: Socket, sessionId: string, signLanguage: string): Promise<void> {
     try {
-      logger.info(`Auto-converting voice to sign: "${text}"`);
+      logger.info(`Auto-converting voice to sign: "${text}" (${signLanguage})`);
       
-      // Extract potential gestures from recognized text
-      const gesture = this.extractGestureFromText(text);
+      // Translate the whole utterance into a gloss sequence
+      const signResult = await this.translationService.textToSign(text, signLanguage);
       
-      if (gesture) {
-        // Automatically play gesture animation on 3D avatar
-        await this.avatarService.playGestureSequence(gesture);
+      if (signResult) {
+        // Automatically sign the sequence on the 3D avatar, co-articulated and fingerspelling what has no sign
+        await this.avatarPlayer.play(sessionId, signResult.gestures, signLanguage, text);
         
         // Create translation result
         const translationResult: TranslationResult = {
           originalType: 'voice',
-          translatedText: `Sign gesture: ${gesture}`,
-          confidence: 0.85,
+          translatedText: signResult.signDescription,
+          confidence: signResult.confidence,
           timestamp: Date.now(),
-          sessionId
+          sessionId,
+          signLanguage
         };
         
         socket.emit('translation-result', translationResult);
         socket.emit('auto-avatar-gesture', { 
-          gesture, 
+          gestures: signResult.gestures, 
+          gloss: signResult.gloss,
           originalText: text,
-          gestureDescription: this.signLanguageService.getGestureDescription(gesture),
+          gestureDescription: signResult.signDescription,
           timestamp: Date.now()
         });
         
-        logger.info(`Auto voice-to-sign completed: gesture "${gesture}"`);
+        logger.info(`Auto voice-to-sign completed: ${signResult.gloss.join(' ')}`);
       } else {
         // No direct gesture match, provide text-based sign description
         const signDescription = this.generateSignDescription(text);
@@ -404,7 +771,8 @@ export class RealisticWebSocketHandler {
           translatedText: signDescription,
           confidence: 0.6,
           timestamp: Date.now(),
-          sessionId
+          sessionId,
+          signLanguage
         };
         
         socket.emit('translation-result', translationResult);
@@ -424,77 +792,10 @@ export class RealisticWebSocketHandler {
     }
   }
 
-  private extractGestureFromText(text: string): string | null {
-    const lowerText = text.toLowerCase();
-    
-    // Comprehensive gesture keyword mappings
-    const gestureKeywords: { [key: string]: string } = {
-      // Greetings
-      'hello': 'hello', 'hi': 'hello', 'hey': 'hello',
-      'goodbye': 'goodbye', 'bye': 'goodbye', 'see you': 'goodbye',
-      'good morning': 'good_morning', 'good afternoon': 'good_afternoon', 
-      'good evening': 'good_evening', 'good night': 'good_night',
-      
-      // Courtesy
-      'thank you': 'thank_you', 'thanks': 'thank_you', 'thank': 'thank_you',
-      'please': 'please', 'sorry': 'sorry', 'excuse me': 'excuse_me',
-      
-      // Basic responses
-      'yes': 'yes', 'yeah': 'yes', 'okay': 'yes', 'ok': 'yes',
-      'no': 'no', 'nope': 'no', 'not': 'no',
-      
-      // Actions
-      'help': 'help', 'stop': 'stop', 'wait': 'stop',
-      
-      // Needs
-      'water': 'water', 'drink': 'water', 'thirsty': 'water',
-      'food': 'food', 'eat': 'food', 'hungry': 'food',
-      'bathroom': 'bathroom', 'restroom': 'bathroom', 'toilet': 'bathroom',
-      
-      // Emotions
-      'happy': 'happy', 'sad': 'sad', 'tired': 'tired',
-      'pain': 'pain', 'hurt': 'pain',
-      
-      // Relationships
-      'love you': 'i_love_you', 'love': 'i_love_you',
-      'family': 'family', 'friend': 'friend',
-      
-      // Places
-      'home': 'home', 'work': 'work', 'school': 'school',
-      
-      // Time
-      'time': 'time', 'today': 'today', 'tomorrow': 'tomorrow', 'yesterday': 'yesterday',
-      
-      // Understanding
-      'understand': 'understand', 'confused': 'confused', 'repeat': 'repeat',
-      'dont understand': 'dont_understand', "don't understand": 'dont_understand',
-      'slow down': 'slow_down', 'slower': 'slow_down'
-    };
-    
-    // Check for gesture keywords in text
-    for (const [keyword, gesture] of Object.entries(gestureKeywords)) {
-      if (lowerText.includes(keyword)) {
-        return gesture;
-      }
-    }
-    
-    // Check for numbers (0-10)
-    const numbers = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
-    for (let i = 0; i < numbers.length; i++) {
-      if (lowerText.includes(numbers[i]) || lowerText.includes(i.toString())) {
-        return numbers[i];
-      }
-    }
-    
-    // Check for common letters
-    const letters = ['a', 'b', 'c', 'd', 'e'];
-    for (const letter of letters) {
-      if (lowerText.includes(`letter ${letter}`) || lowerText === letter) {
-        return letter;
-      }
-    }
-    
-    return null;
+  private extractGestureFromText(text: string, signLanguage: string): string | null {
+    // English words and phrases for every sign live in the lexicon
+    const entry = signLexicon.findInText(text, signLanguage);
+    return entry ? entry.id : null;
   }
 
   private generateSignDescription(text: string): string {
@@ -509,6 +810,27 @@ export class RealisticWebSocketHandler {
     }
   }
 
+  // Validates up front so bad input is reported to the caller; synthesis waits for the session's turn.
+  // Clients are shown the text as written, the engine gets the markup, prosody and spelled-out numbers
+  private queueSpeech(sessionId: string, text: string, options: TTSOptions = {}, priority: SpeechPriority = 'normal'): string | null {
+    const prepared = this.voiceService.prepareSpeech(text, options);
+    return this.speechQueue.enqueue(
+      sessionId,
+      prepared.displayText,
+      () => this.voiceService.textToSpeech(text, options),
+      priority
+    );
+  }
+
+  private sendSpeech(socket: Socket, clientId: string, sessionId: string, speech: SynthesizedSpeech, text: string, utteranceId: string): Promise<string> {
+    const deliveryFormat = this.connectedClients.get(clientId)?.speechFormat || this.defaultSpeechFormat;
+    return sendSpeechAudio(socket, speech, { text, sessionId, deliveryFormat, utteranceId });
+  }
+
+  private getClientSignLanguage(clientId: string): string {
+    return this.connectedClients.get(clientId)?.signLanguage || DEFAULT_SIGN_LANGUAGE;
+  }
+
   private updateClientActivity(clientId: string): void {
     const client = this.connectedClients.get(clientId);
     if (client) {
@@ -550,15 +872,19 @@ export class RealisticWebSocketHandler {
   public async dispose(): Promise<void> {
     logger.info('Disposing Realistic WebSocket Handler...');
     
+    this.unsubscribeLexicon?.();
+    this.unsubscribeLexicon = null;
+
     // Clear all processing queues and connections
     this.processingQueue.clear();
     this.connectedClients.clear();
     
     // Dispose all services (TranslationService doesn't need disposal)
     await Promise.all([
-      this.signLanguageService.dispose(),
+      this.signModels.dispose(),
       this.voiceService.dispose(),
-      this.avatarService.dispose()
+      this.avatarService.dispose(),
+      this.fingerspellingService.dispose()
     ]);
     
     logger.info('Realistic WebSocket Handler disposed successfully');
@@ -0,0 +1,43 @@
+import type { Socket } from 'socket.io';
+import { encodeForDelivery } from '../services/SpeechAudioEncoder.js';
+import type { SpeechAudioChunk, SpeechDeliveryFormat, SynthesizedSpeech } from '../types/index.js';
+
+// Small enough to keep other socket traffic (frames, partial transcripts) flowing between chunks
+const SPEECH_CHUNK_BYTES = 32 * 1024;
+
+let utteranceCounter = 0;
+
+// Sends one synthesized utterance as ordered `speech-audio` chunks and returns its id;
+// queued speech passes the id it was announced under
+export async function sendSpeechAudio(
+  socket: Socket,
+  speech: SynthesizedSpeech,
+  details: { text: string; sessionId: string; deliveryFormat: SpeechDeliveryFormat; utteranceId?: string }
+): Promise<string> {
+  const encoded = await encodeForDelivery(speech, details.deliveryFormat);
+  let utteranceId = details.utteranceId;
+  if (!utteranceId) {
+    utteranceCounter = (utteranceCounter + 1) % 1000000;
+    utteranceId = `${details.sessionId}-${Date.now()}-${utteranceCounter}`;
+  }
+  const chunkCount = Math.max(1, Math.ceil(encoded.audio.length / SPEECH_CHUNK_BYTES));
+
+  for (let sequence = 0; sequence < chunkCount; sequence++) {
+    const chunk: SpeechAudioChunk = {
+      utteranceId,
+      sequence,
+      final: sequence === chunkCount - 1,
+      audioData: encoded.audio.subarray(sequence * SPEECH_CHUNK_BYTES, (sequence + 1) * SPEECH_CHUNK_BYTES),
+      format: encoded.format,
+      mimeType: encoded.mimeType,
+      sampleRate: encoded.sampleRate,
+      duration: encoded.duration,
+      text: details.text,
+      sessionId: details.sessionId,
+      timestamp: Date.now()
+    };
+    socket.emit('speech-audio', chunk);
+  }
+
+  return utteranceId;
+}
@@ -3,6 +3,8 @@ import { logger } from '../utils/logger.js';
 import { SignLanguageService } from '../services/SignLanguageService.js';
 import { VoiceService } from '../services/VoiceService.js';
 import { TranslationService } from '../services/TranslationService.js';
+import { DEFAULT_SIGN_LANGUAGE } from '../services/SignLexicon.js';
+import { sendSpeechAudio } from './SpeechAudioSender.js';
 import type { SocketEvents, VoiceData } from '../types/index.js';
 
 export class WebSocketHandler {
@@ -57,14 +59,15 @@ export class WebSocketHandler {
             });
 
             // If we have a complete gesture, translate it to text
-            const translationResult = await this.translationService.signToText(signData);
+            const translationResult = await this.translationService.signToText({ ...signData, sessionId });
             if (translationResult) {
               socket.emit('translation-result', {
                 originalType: 'sign',
                 translatedText: translationResult.text,
                 confidence: translationResult.confidence,
                 timestamp: Date.now(),
-                sessionId: data.sessionId
+                sessionId: data.sessionId,
+                signLanguage: DEFAULT_SIGN_LANGUAGE
               });
             }
           }
@@ -89,6 +92,7 @@ export class WebSocketHandler {
             socket.emit('text-recognized', {
               text: textResult.text,
               confidence: textResult.confidence,
+              words: textResult.words,
               sessionId: data.sessionId
             });
 
@@ -100,7 +104,8 @@ export class WebSocketHandler {
                 translatedText: signTranslation.signDescription,
                 confidence: signTranslation.confidence,
                 timestamp: Date.now(),
-                sessionId: data.sessionId
+                sessionId: data.sessionId,
+                signLanguage: DEFAULT_SIGN_LANGUAGE
               });
             }
           }
@@ -141,14 +146,9 @@ export class WebSocketHandler {
         try {
           logger.debug('Converting text to speech', { text: data.text, sessionId: data.sessionId });
           
-          const audioBuffer = await this.voiceService.textToSpeech(data.text, data.options);
-          if (audioBuffer) {
-            socket.emit('speech-audio', {
-              audioData: audioBuffer,
-              text: data.text,
-              sessionId: data.sessionId,
-              timestamp: Date.now()
-            });
+          const speech = await this.voiceService.textToSpeech(data.text, data.options);
+          if (speech) {
+            await sendSpeechAudio(socket, speech, { text: data.text, sessionId: data.sessionId, deliveryFormat: 'native' });
           }
         } catch (error) {
           logger.error('Error converting text to speech:', error);
@@ -163,6 +163,7 @@ export class WebSocketHandler {
       socket.on('disconnect', () => {
         logger.info(`Client disconnected: ${sessionId}`);
         this.activeConnections.delete(sessionId);
+        this.translationService.resetSession(sessionId);
       });
 
       // Send initial connection success message
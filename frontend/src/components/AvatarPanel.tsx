@@ -1,43 +1,131 @@
-import React, { useEffect, useState } from 'react';
-import { Bot, Hand } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Bot, Pause, Play, RotateCcw } from 'lucide-react';
+import { webSocketService, type AvatarClipStart, type AvatarFrame, type AvatarModel } from '../services/WebSocketService';
+import { AvatarPlayback } from './avatar/AvatarPlayback';
+import { buildAvatarScene } from './avatar/avatarScene';
+import { createAvatarRenderer, type AvatarRenderer, type AvatarRendererMode } from './avatar/avatarRenderers';
 
 interface AvatarPanelProps {
   isAnimating: boolean;
   translatedContent: string;
 }
 
+const SPEEDS = [0.5, 0.75, 1, 1.5];
+
 const AvatarPanel: React.FC<AvatarPanelProps> = ({ isAnimating, translatedContent }) => {
-  const [currentSign, setCurrentSign] = useState('');
-  const [animationFrame, setAnimationFrame] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playbackRef = useRef(new AvatarPlayback());
+  const modelRef = useRef<AvatarModel | null>(webSocketService.getAvatarModel());
+  const [hasModel, setHasModel] = useState(modelRef.current !== null);
+  const [software, setSoftware] = useState(false);
+  const [rendererMode, setRendererMode] = useState<AvatarRendererMode | null>(null);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [canReplay, setCanReplay] = useState(false);
+  const [gloss, setGloss] = useState('');
+  const [letter, setLetter] = useState('');
+  const [caption, setCaption] = useState('');
 
+  // Clips are buffered as they stream in, even while paused
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (isAnimating) {
-      interval = setInterval(() => {
-        setAnimationFrame(prev => (prev + 1) % 4);
-      }, 500);
-    }
+    const playback = playbackRef.current;
 
-    return () => {
-      if (interval) clearInterval(interval);
+    const handleModel = (data: { avatarModel: AvatarModel }) => {
+      modelRef.current = data.avatarModel;
+      setHasModel(true);
     };
-  }, [isAnimating]);
+    const handleClipStart = (data: AvatarClipStart) => {
+      playback.addClip(data);
+      setCanReplay(playback.canReplay);
+    };
+    const handleFrame = (data: AvatarFrame) => playback.addFrame(data);
+    const handleClipEnd = (data: { sequence: number; reason: 'completed' | 'interrupted' }) => playback.endClip(data.sequence, data.reason);
 
-  const mockSigns = ['Hello', 'How', 'Are', 'You', 'Today'];
+    webSocketService.on('system-ready', handleModel);
+    webSocketService.on('sign-language-changed', handleModel);
+    webSocketService.on('avatar-clip-start', handleClipStart);
+    webSocketService.on('avatar-frame', handleFrame);
+    webSocketService.on('avatar-clip-end', handleClipEnd);
 
+    return () => {
+      webSocketService.off('system-ready', handleModel);
+      webSocketService.off('sign-language-changed', handleModel);
+      webSocketService.off('avatar-clip-start', handleClipStart);
+      webSocketService.off('avatar-frame', handleFrame);
+      webSocketService.off('avatar-clip-end', handleClipEnd);
+    };
+  }, []);
+
+  // Render loop; the canvas is remounted with software rendering if WebGL fails or is lost
   useEffect(() => {
-    if (isAnimating) {
-      const signInterval = setInterval(() => {
-        const randomSign = mockSigns[Math.floor(Math.random() * mockSigns.length)];
-        setCurrentSign(randomSign);
-      }, 1000);
-
-      return () => clearInterval(signInterval);
-    } else {
-      setCurrentSign('');
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let renderer: AvatarRenderer;
+    try {
+      renderer = createAvatarRenderer(canvas, software);
+    } catch (error) {
+      console.warn('WebGL avatar renderer unavailable, using software rendering:', error);
+      setSoftware(true);
+      return;
     }
-  }, [isAnimating]);
+    setRendererMode(renderer.mode);
+
+    const handleContextLost = (event: Event) => {
+      event.preventDefault();
+      setSoftware(true);
+    };
+    canvas.addEventListener('webglcontextlost', handleContextLost);
+
+    let frameId = 0;
+    let last = performance.now();
+    const draw = (now: number) => {
+      const playback = playbackRef.current;
+      playback.advance(now - last);
+      last = now;
+
+      const width = Math.round(canvas.clientWidth * window.devicePixelRatio);
+      const height = Math.round(canvas.clientHeight * window.devicePixelRatio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      const state = playback.current();
+      if (modelRef.current || state.bones) {
+        renderer.render(buildAvatarScene(modelRef.current, state.bones), width, height);
+      }
+
+      const sign = state.sign;
+      setGloss(sign ? (sign.word ? `fs-${sign.word.toUpperCase()}` : sign.gesture.replace(/_/g, '-').toUpperCase()) : '');
+      setLetter(sign?.word ? sign.gesture.toUpperCase() : '');
+      setCaption(state.caption || '');
+
+      frameId = requestAnimationFrame(draw);
+    };
+    frameId = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      canvas.removeEventListener('webglcontextlost', handleContextLost);
+      renderer.dispose();
+    };
+  }, [software]);
+
+  const togglePlaying = () => {
+    playbackRef.current.playing = !playing;
+    setPlaying(!playing);
+  };
+
+  const replay = () => {
+    playbackRef.current.replay();
+    setPlaying(true);
+  };
+
+  const changeSpeed = (value: number) => {
+    playbackRef.current.speed = value;
+    setSpeed(value);
+  };
 
   return (
     <div className="bg-gray-800 rounded-xl p-6 shadow-2xl border border-gray-700 h-full">
@@ -46,61 +134,78 @@ const AvatarPanel: React.FC<AvatarPanelProps> = ({ isAnimating, translatedConten
         <div className="flex items-center space-x-2 text-sm text-gray-400">
           <Bot className="w-4 h-4" />
           <span>Sign Language</span>
+          {rendererMode && (
+            <span className="px-2 py-0.5 rounded-full bg-gray-700 text-xs uppercase">{rendererMode}</span>
+          )}
         </div>
       </div>
 
       <div className="relative aspect-video bg-gradient-to-br from-gray-900 to-gray-800 rounded-lg overflow-hidden mb-4">
-        {/* 3D Avatar Placeholder */}
-        <div className="flex items-center justify-center h-full">
-          <div className={`transition-all duration-300 ${isAnimating ? 'scale-110' : 'scale-100'}`}>
-            <div className="relative">
-              {/* Avatar Figure */}
-              <div className="w-32 h-48 bg-gradient-to-b from-blue-500 to-blue-600 rounded-full relative mx-auto">
-                {/* Head */}
-                <div className="w-16 h-16 bg-gradient-to-b from-amber-400 to-amber-500 rounded-full absolute -top-2 left-1/2 transform -translate-x-1/2 border-4 border-gray-800">
-                  {/* Eyes */}
-                  <div className="flex space-x-2 justify-center mt-4">
-                    <div className="w-2 h-2 bg-gray-800 rounded-full"></div>
-                    <div className="w-2 h-2 bg-gray-800 rounded-full"></div>
-                  </div>
-                  {/* Mouth */}
-                  <div className="w-4 h-1 bg-gray-800 rounded-full mx-auto mt-2"></div>
-                </div>
-                
-                {/* Arms/Hands */}
-                <div className={`absolute top-8 -left-6 transition-all duration-300 ${
-                  isAnimating ? 'animate-pulse' : ''
-                }`}>
-                  <Hand className={`w-8 h-8 text-amber-400 transform ${
-                    animationFrame % 2 === 0 ? 'rotate-12' : '-rotate-12'
-                  } transition-transform duration-300`} />
-                </div>
-                <div className={`absolute top-8 -right-6 transition-all duration-300 ${
-                  isAnimating ? 'animate-pulse' : ''
-                }`}>
-                  <Hand className={`w-8 h-8 text-amber-400 transform ${
-                    animationFrame % 2 === 1 ? 'rotate-12' : '-rotate-12'
-                  } transition-transform duration-300`} />
-                </div>
-              </div>
-            </div>
+        <canvas
+          key={software ? 'software' : 'webgl'}
+          ref={canvasRef}
+          className="w-full h-full"
+          aria-label="Signing avatar"
+        />
+
+        {!hasModel && (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-500 text-sm">
+            Waiting for the avatar model...
           </div>
-        </div>
+        )}
 
-        {isAnimating && (
+        {letter && (
+          <div className="absolute top-4 right-4 w-14 h-14 rounded-lg bg-emerald-600/90 flex items-center justify-center">
+            <span className="text-white text-3xl font-bold">{letter}</span>
+          </div>
+        )}
+
+        {gloss && (
           <div className="absolute inset-x-0 bottom-0 p-4 bg-gradient-to-t from-gray-900/90 to-transparent">
             <div className="text-center">
               <div className="inline-flex items-center space-x-2 bg-blue-600/90 backdrop-blur-sm rounded-full px-4 py-2">
                 <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
-                <span className="text-white text-sm font-medium">
-                  {currentSign || 'Signing...'}
-                </span>
+                <span className="text-white text-sm font-medium">{gloss}</span>
               </div>
             </div>
           </div>
         )}
       </div>
 
+      {/* Playback Controls */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={togglePlaying}
+            className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+            aria-label={playing ? 'Pause avatar' : 'Play avatar'}
+          >
+            {playing ? <Pause className="w-4 h-4 text-white" /> : <Play className="w-4 h-4 text-white" />}
+          </button>
+          <button
+            onClick={replay}
+            disabled={!canReplay}
+            className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Replay last sign"
+          >
+            <RotateCcw className="w-4 h-4 text-white" />
+          </button>
+        </div>
+        <div className="flex items-center space-x-1">
+          {SPEEDS.map(value => (
+            <button
+              key={value}
+              onClick={() => changeSpeed(value)}
+              className={`px-2 py-1 rounded text-xs transition-colors ${
+                speed === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {value}x
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Translation Text */}
       <div className="bg-gray-900 rounded-lg p-4 min-h-[100px]">
         <div className="flex items-center justify-between mb-2">
@@ -114,7 +219,9 @@ const AvatarPanel: React.FC<AvatarPanelProps> = ({ isAnimating, translatedConten
           )}
         </div>
         <div className="text-white">
-          {isAnimating ? (
+          {caption ? (
+            <p className="text-lg leading-relaxed">{caption}</p>
+          ) : isAnimating ? (
             <p className="text-lg leading-relaxed">
               {translatedContent || "Converting speech to sign language..."}
             </p>
@@ -127,4 +234,4 @@ const AvatarPanel: React.FC<AvatarPanelProps> = ({ isAnimating, translatedConten
   );
 };
 
-export default AvatarPanel;
\ No newline at end of file
+export default AvatarPanel;
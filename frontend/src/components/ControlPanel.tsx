@@ -49,22 +49,35 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     webSocketService.on('translation-result', (data) => {
       console.log('🔄 Translation result from backend:', data);
       onTranslationUpdate(data.translatedText);
-      
-      // If it's speech-to-text, also speak it out
-      if (data.originalType === 'sign') {
-        webSocketService.textToSpeech(data.translatedText);
-      }
+      // Recognized signs are spoken by the backend; the audio arrives as speech-audio
     });
 
+    // Audio still playing per utterance, so a barge-in or cancel can cut it off
+    const playingSpeech = new Map<string, HTMLAudioElement>();
+
     webSocketService.on('speech-audio', (data) => {
       console.log('🔊 Speech audio received from backend');
       // Play the audio
-      const audioBlob = new Blob([data.audioData], { type: 'audio/mpeg' });
-      const audioUrl = URL.createObjectURL(audioBlob);
+      const audioUrl = URL.createObjectURL(data.audioData);
       const audio = new Audio(audioUrl);
+      playingSpeech.set(data.utteranceId, audio);
+      audio.onended = () => {
+        playingSpeech.delete(data.utteranceId);
+        URL.revokeObjectURL(audioUrl);
+      };
       audio.play().catch(console.error);
     });
 
+    webSocketService.on('speech-cancelled', (data) => {
+      const audio = playingSpeech.get(data.utteranceId);
+      if (audio) {
+        console.log(`🔇 Speech cancelled (${data.reason})`);
+        audio.pause();
+        playingSpeech.delete(data.utteranceId);
+        URL.revokeObjectURL(audio.src);
+      }
+    });
+
     webSocketService.on('sign-animation', (data) => {
       console.log('👋 Sign animation received:', data);
       onTranslationUpdate(data.text);
@@ -0,0 +1,126 @@
+import type { AvatarBone, AvatarClipSign, AvatarClipStart, AvatarFrame } from '../../services/WebSocketService';
+
+interface BufferedClip {
+  start: AvatarClipStart;
+  frames: AvatarFrame[];
+  duration: number;       // Cut short to the last frame when the server interrupted the clip
+  ended: boolean;
+}
+
+export interface PlaybackState {
+  bones: AvatarBone[] | null;
+  facialExpression?: string;
+  sign: AvatarClipSign | null;
+  caption?: string;
+}
+
+const MAX_CLIPS = 20;
+
+// Buffers the clips streamed for this session and plays them back on its own clock, so the
+// viewer can pause, slow down or replay while new frames keep arriving.
+export class AvatarPlayback {
+  public playing = true;
+  public speed = 1;
+
+  private clips: BufferedClip[] = [];
+  private index = -1;
+  private playhead = 0;   // ms into the clip at `index`
+
+  public addClip(start: AvatarClipStart): void {
+    this.clips.push({ start, frames: [], duration: start.duration, ended: false });
+    if (this.index === -1) {
+      this.index = this.clips.length - 1;
+      this.playhead = 0;
+    }
+
+    // Old clips are only needed for replay
+    while (this.clips.length > MAX_CLIPS && this.index > 0) {
+      this.clips.shift();
+      this.index--;
+    }
+  }
+
+  public addFrame(frame: AvatarFrame): void {
+    this.find(frame.sequence)?.frames.push(frame);
+  }
+
+  public endClip(sequence: number, reason: 'completed' | 'interrupted'): void {
+    const clip = this.find(sequence);
+    if (clip) {
+      clip.ended = true;
+      if (reason === 'interrupted') {
+        clip.duration = clip.frames.length > 0 ? clip.frames[clip.frames.length - 1].time : 0;
+      }
+    }
+  }
+
+  // Moves on to the next clip once the current one has fully arrived and played
+  public advance(elapsedMs: number): void {
+    if (!this.playing || this.index === -1) {
+      return;
+    }
+    this.playhead += elapsedMs * this.speed;
+
+    let clip = this.clips[this.index];
+    while (clip.ended && this.playhead >= clip.duration && this.index < this.clips.length - 1) {
+      this.playhead -= clip.duration;
+      clip = this.clips[++this.index];
+    }
+    this.playhead = Math.min(this.playhead, clip.duration);
+  }
+
+  // Last sign clip from the start; the return to rest is not worth replaying
+  public replay(): void {
+    for (let i = this.clips.length - 1; i >= 0; i--) {
+      if (this.clips[i].start.gestures.length > 0) {
+        this.index = i;
+        this.playhead = 0;
+        this.playing = true;
+        return;
+      }
+    }
+  }
+
+  public get canReplay(): boolean {
+    return this.clips.some(clip => clip.start.gestures.length > 0);
+  }
+
+  public current(): PlaybackState {
+    const clip = this.clips[this.index];
+    if (!clip) {
+      return { bones: null, sign: null };
+    }
+
+    // Latest frame at or before the playhead; the playhead can run ahead of a live stream
+    let frame: AvatarFrame | undefined;
+    for (const candidate of clip.frames) {
+      if (candidate.time > this.playhead) {
+        break;
+      }
+      frame = candidate;
+    }
+    frame = frame || clip.frames[0];
+
+    return {
+      bones: frame ? frame.bones : null,
+      facialExpression: frame?.facialExpression,
+      sign: clip.start.signs.find(sign => this.playhead >= sign.start && this.playhead <= sign.end) || null,
+      caption: clip.start.caption
+    };
+  }
+
+  public clear(): void {
+    this.clips = [];
+    this.index = -1;
+    this.playhead = 0;
+  }
+
+  private find(sequence: number): BufferedClip | undefined {
+    for (let i = this.clips.length - 1; i >= 0; i--) {
+      if (this.clips[i].start.sequence === sequence) {
+        return this.clips[i];
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,193 @@
+import { createCamera, type AvatarScene } from './avatarScene';
+
+export type AvatarRendererMode = 'webgl' | 'software';
+
+export interface AvatarRenderer {
+  readonly mode: AvatarRendererMode;
+  render(scene: AvatarScene, width: number, height: number): void;
+  dispose(): void;
+}
+
+// WebGL when the browser has it; headless test browsers without a GPU get the canvas 2D renderer.
+// `?avatarRenderer=software` forces the fallback. Throws when WebGL exists but cannot be set up;
+// a canvas keeps its first context type, so the caller retries with software on a fresh canvas.
+export function createAvatarRenderer(canvas: HTMLCanvasElement, software = false): AvatarRenderer {
+  const forceSoftware = software || new URLSearchParams(window.location.search).get('avatarRenderer') === 'software';
+  const gl = forceSoftware ? null : canvas.getContext('webgl', { antialias: true, premultipliedAlpha: false });
+  return gl ? new WebGLAvatarRenderer(gl) : new SoftwareAvatarRenderer(canvas);
+}
+
+const VERTEX_SHADER = `
+attribute vec3 a_point;
+attribute float a_size;
+attribute vec3 a_color;
+uniform vec2 u_viewport;
+varying vec3 v_color;
+
+void main() {
+  gl_Position = vec4(a_point.x / u_viewport.x * 2.0 - 1.0, 1.0 - a_point.y / u_viewport.y * 2.0, a_point.z * 2.0 - 1.0, 1.0);
+  gl_PointSize = a_size;
+  v_color = a_color;
+}`;
+
+// Point sprites shaded as spheres; limbs are strings of them
+const FRAGMENT_SHADER = `
+precision mediump float;
+varying vec3 v_color;
+
+void main() {
+  vec2 offset = gl_PointCoord * 2.0 - 1.0;
+  float r2 = dot(offset, offset);
+  if (r2 > 1.0) discard;
+  float light = 0.65 + 0.35 * sqrt(1.0 - r2) - 0.15 * offset.y;
+  gl_FragColor = vec4(v_color * light, 1.0);
+}`;
+
+class WebGLAvatarRenderer implements AvatarRenderer {
+  public readonly mode = 'webgl';
+  private readonly program: WebGLProgram;
+  private readonly buffer: WebGLBuffer;
+  private readonly maxPointSize: number;
+
+  constructor(private readonly gl: WebGLRenderingContext) {
+    this.program = linkProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER);
+    const buffer = gl.createBuffer();
+    if (!buffer) {
+      throw new Error('Could not create a WebGL buffer');
+    }
+    this.buffer = buffer;
+    this.maxPointSize = (gl.getParameter(gl.ALIASED_POINT_SIZE_RANGE) as Float32Array)[1];
+  }
+
+  public render(scene: AvatarScene, width: number, height: number): void {
+    const { gl } = this;
+    const project = createCamera(width, height);
+    // x, y, depth, size, r, g, b per point
+    const points: number[] = [];
+
+    const addPoint = (at: { x: number; y: number; z: number }, radius: number, color: [number, number, number]) => {
+      const p = project(at);
+      points.push(p.x, p.y, p.depth, Math.min(this.maxPointSize, Math.max(1, radius * 2 * p.scale)), ...color);
+    };
+
+    for (const limb of scene.limbs) {
+      const color = parseColor(limb.color);
+      const length = Math.hypot(limb.to.x - limb.from.x, limb.to.y - limb.from.y, limb.to.z - limb.from.z);
+      const steps = Math.max(1, Math.ceil(length / (limb.width * 0.3)));
+      for (let i = 0; i <= steps; i++) {
+        const t = i / steps;
+        addPoint({
+          x: limb.from.x + (limb.to.x - limb.from.x) * t,
+          y: limb.from.y + (limb.to.y - limb.from.y) * t,
+          z: limb.from.z + (limb.to.z - limb.from.z) * t
+        }, limb.width / 2, color);
+      }
+    }
+    for (const joint of scene.joints) {
+      addPoint(joint.at, joint.radius, parseColor(joint.color));
+    }
+
+    gl.viewport(0, 0, width, height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+    gl.enable(gl.DEPTH_TEST);
+    gl.useProgram(this.program);
+    gl.uniform2f(gl.getUniformLocation(this.program, 'u_viewport'), width, height);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(points), gl.DYNAMIC_DRAW);
+    const stride = 7 * 4;
+    this.attribute('a_point', 3, stride, 0);
+    this.attribute('a_size', 1, stride, 3 * 4);
+    this.attribute('a_color', 3, stride, 4 * 4);
+    gl.drawArrays(gl.POINTS, 0, points.length / 7);
+  }
+
+  public dispose(): void {
+    this.gl.deleteBuffer(this.buffer);
+    this.gl.deleteProgram(this.program);
+  }
+
+  private attribute(name: string, size: number, stride: number, offset: number): void {
+    const location = this.gl.getAttribLocation(this.program, name);
+    this.gl.enableVertexAttribArray(location);
+    this.gl.vertexAttribPointer(location, size, this.gl.FLOAT, false, stride, offset);
+  }
+}
+
+class SoftwareAvatarRenderer implements AvatarRenderer {
+  public readonly mode = 'software';
+  private readonly context: CanvasRenderingContext2D | null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.context = canvas.getContext('2d');
+  }
+
+  public render(scene: AvatarScene, width: number, height: number): void {
+    const ctx = this.context;
+    if (!ctx) {
+      return;
+    }
+    const project = createCamera(width, height);
+
+    // Painter's algorithm: farthest first
+    const shapes = [
+      ...scene.limbs.map(limb => {
+        const from = project(limb.from);
+        const to = project(limb.to);
+        return { depth: (from.depth + to.depth) / 2, draw: () => {
+          ctx.strokeStyle = limb.color;
+          ctx.lineWidth = Math.max(1, limb.width * (from.scale + to.scale) / 2);
+          ctx.beginPath();
+          ctx.moveTo(from.x, from.y);
+          ctx.lineTo(to.x, to.y);
+          ctx.stroke();
+        } };
+      }),
+      ...scene.joints.map(joint => {
+        const at = project(joint.at);
+        return { depth: at.depth, draw: () => {
+          ctx.fillStyle = joint.color;
+          ctx.beginPath();
+          ctx.arc(at.x, at.y, Math.max(1, joint.radius * at.scale), 0, Math.PI * 2);
+          ctx.fill();
+        } };
+      })
+    ].sort((a, b) => b.depth - a.depth);
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.lineCap = 'round';
+    shapes.forEach(shape => shape.draw());
+  }
+
+  public dispose(): void {}
+}
+
+function linkProgram(gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error('Could not create a WebGL program');
+  }
+  for (const [type, source] of [[gl.VERTEX_SHADER, vertexSource], [gl.FRAGMENT_SHADER, fragmentSource]] as const) {
+    const shader = gl.createShader(type);
+    if (!shader) {
+      throw new Error('Could not create a WebGL shader');
+    }
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Shader compilation failed: ${gl.getShaderInfoLog(shader)}`);
+    }
+    gl.attachShader(program, shader);
+  }
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader linking failed: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+function parseColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16 & 255) / 255, (value >> 8 & 255) / 255, (value & 255) / 255];
+}
@@ -0,0 +1,192 @@
+import type { AvatarBone, AvatarModel } from '../../services/WebSocketService';
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Sizes are in world units (metres); renderers project them
+export interface Limb {
+  from: Vec3;
+  to: Vec3;
+  width: number;
+  color: string;
+}
+
+export interface Joint {
+  at: Vec3;
+  radius: number;
+  color: string;
+}
+
+export interface AvatarScene {
+  limbs: Limb[];
+  joints: Joint[];
+}
+
+export interface ProjectedPoint {
+  x: number;          // Canvas pixels
+  y: number;
+  depth: number;      // 0 (near) to 1 (far)
+  scale: number;      // Pixels per world unit at this depth
+}
+
+const SKIN = '#f5c08a';
+const SHIRT = '#3b82f6';
+
+// Bone hierarchy by name; finger joints chain out from their hand, anything else on a side hangs off that hand
+const PARENTS: Record<string, string> = {
+  Head: 'Neck',
+  Neck: 'Chest',
+  Chest: 'Spine',
+  LeftShoulder: 'Neck',
+  LeftUpperArm: 'LeftShoulder',
+  LeftForearm: 'LeftUpperArm',
+  LeftHand: 'LeftForearm',
+  RightShoulder: 'Neck',
+  RightUpperArm: 'RightShoulder',
+  RightForearm: 'RightUpperArm',
+  RightHand: 'RightForearm'
+};
+
+const LIMB_WIDTHS: Record<string, number> = {
+  Neck: 0.06,
+  Chest: 0.16,
+  Shoulder: 0.06,
+  UpperArm: 0.055,
+  Forearm: 0.045,
+  Hand: 0.04
+};
+
+// Joints of each finger from the hand outwards
+const FINGER_CHAINS: Record<string, string[]> = {
+  Thumb: ['CMC', 'MCP', 'IP', 'Tip'],
+  Index: ['MCP', 'PIP', 'DIP', 'Tip'],
+  Middle: ['MCP', 'PIP', 'DIP', 'Tip'],
+  Ring: ['MCP', 'PIP', 'DIP', 'Tip'],
+  Pinky: ['MCP', 'PIP', 'DIP', 'Tip']
+};
+
+const FINGER_JOINT = /^(Left|Right)(Thumb|Index|Middle|Ring|Pinky)(CMC|MCP|PIP|DIP|IP|Tip)$/;
+
+function parentOf(name: string): string | null {
+  if (PARENTS[name]) {
+    return PARENTS[name];
+  }
+  const joint = FINGER_JOINT.exec(name);
+  if (joint) {
+    const [, side, finger, part] = joint;
+    const index = FINGER_CHAINS[finger].indexOf(part);
+    return index > 0 ? `${side}${finger}${FINGER_CHAINS[finger][index - 1]}` : `${side}Hand`;
+  }
+  const side = /^(Left|Right)/.exec(name);
+  return side ? `${side[1]}Hand` : null;
+}
+
+// Streamed bones override the skeleton's rest positions; bones a frame leaves out stay at rest
+export function buildAvatarScene(model: AvatarModel | null, bones: AvatarBone[] | null): AvatarScene {
+  const pose = new Map<string, AvatarBone>();
+  for (const { name, defaultPosition } of Object.values(model?.skeleton || {})) {
+    pose.set(name, { name, position: defaultPosition, rotation: { x: 0, y: 0, z: 0 } });
+  }
+  for (const bone of bones || []) {
+    pose.set(bone.name, bone);
+  }
+  if (model) {
+    placeFingerJoints(pose, model);
+  }
+
+  const limbs: Limb[] = [];
+  const joints: Joint[] = [];
+
+  for (const bone of pose.values()) {
+    const parentName = parentOf(bone.name);
+    const parent = parentName ? pose.get(parentName) : undefined;
+
+    if (FINGER_JOINT.test(bone.name)) {
+      if (parent) {
+        limbs.push({ from: parent.position, to: bone.position, width: 0.012, color: SKIN });
+      }
+      joints.push({ at: bone.position, radius: 0.007, color: SKIN });
+      continue;
+    }
+
+    if (parent) {
+      const part = bone.name.replace(/^(Left|Right)/, '');
+      const skin = part === 'Hand' || bone.name === 'Head';
+      limbs.push({ from: parent.position, to: bone.position, width: LIMB_WIDTHS[part] ?? 0.05, color: skin ? SKIN : SHIRT });
+    }
+    joints.push({
+      at: bone.position,
+      radius: bone.name === 'Head' ? 0.1 : bone.name.endsWith('Hand') ? 0.03 : 0.035,
+      color: bone.name === 'Head' || bone.name.endsWith('Hand') ? SKIN : SHIRT
+    });
+  }
+
+  return { limbs, joints };
+}
+
+// Finger joints are placed from the wrist by their rotations, each segment keeping its length in the
+// skeleton, so the hand holds its shape while the server interpolates between keyframes
+function placeFingerJoints(pose: Map<string, AvatarBone>, model: AvatarModel): void {
+  const rest = new Map(Object.values(model.skeleton).map(({ name, defaultPosition }) => [name, defaultPosition]));
+
+  for (const side of ['Left', 'Right']) {
+    for (const [finger, chain] of Object.entries(FINGER_CHAINS)) {
+      let parent = pose.get(`${side}Hand`);
+      let parentRest = rest.get(`${side}Hand`);
+      const rotations: Vec3[] = parent ? [parent.rotation] : [];
+
+      for (const part of chain) {
+        const name = `${side}${finger}${part}`;
+        const bone = pose.get(name);
+        const boneRest = rest.get(name);
+        if (!parent || !parentRest || !bone || !boneRest) {
+          break;
+        }
+
+        const offset = rotations.reduceRight(rotate, {
+          x: boneRest.x - parentRest.x,
+          y: boneRest.y - parentRest.y,
+          z: boneRest.z - parentRest.z
+        });
+        const placed = {
+          ...bone,
+          position: { x: parent.position.x + offset.x, y: parent.position.y + offset.y, z: parent.position.z + offset.z }
+        };
+        pose.set(name, placed);
+        rotations.push(bone.rotation);
+        parent = placed;
+        parentRest = boneRest;
+      }
+    }
+  }
+}
+
+// Perspective camera in front of the avatar at chest height. The image is mirrored so the
+// avatar faces the viewer: its right hand appears on the viewer's left.
+export function createCamera(width: number, height: number): (point: Vec3) => ProjectedPoint {
+  const eye = { x: 0, y: 1.2, z: 2.2 };
+  const focal = height / (2 * Math.tan((40 * Math.PI / 180) / 2));
+  const [near, far] = [0.5, 5];
+
+  return point => {
+    const distance = Math.max(near, eye.z - point.z);
+    const scale = focal / distance;
+    return {
+      x: width / 2 - (point.x - eye.x) * scale,
+      y: height / 2 - (point.y - eye.y) * scale,
+      depth: Math.min(1, (distance - near) / (far - near)),
+      scale
+    };
+  };
+}
+
+// Euler angles in radians, applied X then Y then Z
+function rotate(v: Vec3, { x, y, z }: Vec3): Vec3 {
+  const [cx, sx, cy, sy, cz, sz] = [Math.cos(x), Math.sin(x), Math.cos(y), Math.sin(y), Math.cos(z), Math.sin(z)];
+  const afterX = { x: v.x, y: v.y * cx - v.z * sx, z: v.y * sx + v.z * cx };
+  const afterY = { x: afterX.x * cy + afterX.z * sy, y: afterX.y, z: -afterX.x * sy + afterX.z * cy };
+  return { x: afterY.x * cz - afterY.y * sz, y: afterY.x * sz + afterY.y * cz, z: afterY.z };
+}
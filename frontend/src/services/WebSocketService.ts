@@ -1,13 +1,99 @@
 import { io, Socket } from 'socket.io-client';
 
+export interface RecognizedWord {
+  word: string;
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+// One utterance of synthesized speech, reassembled from the server's chunks
+export interface SpeechAudio {
+  utteranceId: string;
+  audioData: Blob;
+  mimeType: string;
+  format: 'wav' | 'mp3' | 'webm';
+  duration: number | null;
+  text: string;
+  sessionId: string;
+}
+
+export type SpeechPriority = 'emergency' | 'high' | 'normal';
+
+export interface AvatarBone {
+  name: string;
+  position: { x: number; y: number; z: number };
+  rotation: { x: number; y: number; z: number };  // Radians, applied X then Y then Z
+}
+
+// Bones of the avatar at rest, keyed by body part
+export interface AvatarModel {
+  skeleton: Record<string, { name: string; defaultPosition: { x: number; y: number; z: number } }>;
+  signLanguage: string;
+  availableGestures: string[];
+  facialExpressions: string[];
+}
+
+// Where one sign sits on a clip's timeline (ms); letters of a fingerspelled word carry the `word`
+export interface AvatarClipSign {
+  gesture: string;
+  word?: string;
+  start: number;
+  end: number;
+}
+
+// Announces a clip of streamed avatar frames
+export interface AvatarClipStart {
+  sequence: number;
+  gestures: string[];
+  signs: AvatarClipSign[];
+  duration: number;
+  fps: number;
+  caption?: string;
+  sessionId: string;
+  timestamp: number;
+}
+
+export interface AvatarFrame {
+  sequence: number;
+  frame: number;
+  time: number;
+  bones: AvatarBone[];
+  facialExpression?: string;
+  sessionId: string;
+  timestamp: number;
+}
+
+interface SpeechAudioChunk extends Omit<SpeechAudio, 'audioData'> {
+  sequence: number;
+  final: boolean;
+  audioData: ArrayBuffer;
+  sampleRate: number;
+  timestamp: number;
+}
+
 export interface WebSocketEvents {
   'video-frame': (data: { frame: string; timestamp: number; sessionId: string }) => void;
-  'audio-data': (data: { audioBuffer: ArrayBuffer; duration: number; sessionId: string }) => void;
+  'audio-data': (data: { audioBuffer: ArrayBuffer; duration?: number; sessionId: string }) => void;
   'sign-detected': (data: { landmarks: number[][]; confidence: number; sessionId: string; timestamp: number }) => void;
   'text-recognized': (data: { text: string; confidence: number; sessionId: string }) => void;
-  'translation-result': (data: { originalType: 'sign' | 'voice'; translatedText: string; confidence: number; sessionId: string }) => void;
-  'speech-audio': (data: { audioData: ArrayBuffer; text: string; sessionId: string }) => void;
+  'speech-start': (data: { offsetMs: number; sessionId: string; timestamp: number }) => void;
+  'speech-end': (data: { offsetMs: number; durationMs: number; reason: 'endpoint' | 'end-of-stream' | 'max-length'; sessionId: string; timestamp: number }) => void;
+  'text-partial': (data: { text: string; words: RecognizedWord[]; stableText: string; sequence: number; sessionId: string; timestamp: number }) => void;
+  'text-final': (data: { text: string; confidence: number; words: RecognizedWord[]; sequence: number; reason: 'endpoint' | 'end-of-stream' | 'max-length'; sessionId: string; timestamp: number }) => void;
+  'translation-result': (data: { originalType: 'sign' | 'voice'; translatedText: string; confidence: number; sessionId: string; signLanguage: string }) => void;
+  'speech-audio': (data: SpeechAudio) => void;
+  'speech-queued': (data: { utteranceId: string; text: string; priority: SpeechPriority; position: number; sessionId: string; timestamp: number }) => void;
+  'speech-started': (data: { utteranceId: string; text: string; priority: SpeechPriority; engine: string; duration: number | null; sessionId: string; timestamp: number }) => void;
+  'speech-finished': (data: { utteranceId: string; sessionId: string; timestamp: number }) => void;
+  'speech-cancelled': (data: { utteranceId: string; reason: 'barge-in' | 'preempted' | 'client' | 'error' | 'disconnect' | 'overflow'; sessionId: string; timestamp: number }) => void;
+  'avatar-clip-start': (data: AvatarClipStart) => void;
+  'avatar-frame': (data: AvatarFrame) => void;
+  'avatar-clip-end': (data: { sequence: number; reason: 'completed' | 'interrupted'; frames: number; sessionId: string; timestamp: number }) => void;
   'sign-animation': (data: { animations: any[]; text: string; sessionId: string }) => void;
+  'lexicon-updated': (data: { language: string; version: string; action: 'create' | 'update' | 'delete' | 'import' | 'reload'; ids: string[]; timestamp: number }) => void;
+  'sign-language-changed': (data: { signLanguage: string; name: string; supportedGestures: Array<{ name: string; description: string; confidence: number }>; avatarModel: AvatarModel; timestamp: number }) => void;
+  'system-ready': (data: { avatarModel: AvatarModel; signLanguage: string; sessionId: string; timestamp: number }) => void;
   'connected': (data: { sessionId: string; message: string }) => void;
   'error': (error: { message: string; code: string }) => void;
 }
@@ -17,12 +103,20 @@ class WebSocketService {
   private sessionId: string = '';
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private speechChunks = new Map<string, ArrayBuffer[]>();
+  // Sent once on connect, so components mounted later read it from here
+  private avatarModel: AvatarModel | null = null;
 
-  connect(serverUrl: string = 'http://localhost:3001'): Promise<string> {
+  // speechFormat: 'native' (engine output), 'wav', 'mp3' or 'opus'; the server default when omitted
+  connect(serverUrl: string = 'http://localhost:3001', signLanguage?: string, speechFormat?: string): Promise<string> {
     return new Promise((resolve, reject) => {
       this.socket = io(serverUrl, {
         transports: ['websocket', 'polling'],
         timeout: 10000,
+        auth: {
+          ...(signLanguage ? { signLanguage } : {}),
+          ...(speechFormat ? { speechFormat } : {}),
+        },
       });
 
       this.socket.on('connect', () => {
@@ -67,14 +161,66 @@ class WebSocketService {
       this.emit('text-recognized', data);
     });
 
+    this.socket.on('speech-start', (data) => {
+      this.emit('speech-start', data);
+    });
+
+    this.socket.on('speech-end', (data) => {
+      this.emit('speech-end', data);
+    });
+
+    this.socket.on('text-partial', (data) => {
+      this.emit('text-partial', data);
+    });
+
+    this.socket.on('text-final', (data) => {
+      console.log('Final transcript:', data);
+      this.emit('text-final', data);
+    });
+
     this.socket.on('translation-result', (data) => {
       console.log('Translation result:', data);
       this.emit('translation-result', data);
     });
 
-    this.socket.on('speech-audio', (data) => {
-      console.log('Speech audio received');
-      this.emit('speech-audio', data);
+    // Chunks of an utterance arrive in order; play only once the last one is in
+    this.socket.on('speech-audio', (chunk: SpeechAudioChunk) => {
+      const parts = this.speechChunks.get(chunk.utteranceId) || [];
+      parts.push(chunk.audioData);
+      if (!chunk.final) {
+        this.speechChunks.set(chunk.utteranceId, parts);
+        return;
+      }
+
+      this.speechChunks.delete(chunk.utteranceId);
+      console.log('Speech audio received:', chunk.text);
+      this.emit('speech-audio', {
+        utteranceId: chunk.utteranceId,
+        audioData: new Blob(parts, { type: chunk.mimeType }),
+        mimeType: chunk.mimeType,
+        format: chunk.format,
+        duration: chunk.duration,
+        text: chunk.text,
+        sessionId: chunk.sessionId
+      });
+    });
+
+    // Queued speech plays one utterance at a time; a cancelled one must stop even mid-playback
+    this.socket.on('speech-queued', (data) => {
+      this.emit('speech-queued', data);
+    });
+
+    this.socket.on('speech-started', (data) => {
+      this.emit('speech-started', data);
+    });
+
+    this.socket.on('speech-finished', (data) => {
+      this.emit('speech-finished', data);
+    });
+
+    this.socket.on('speech-cancelled', (data) => {
+      this.speechChunks.delete(data.utteranceId);
+      this.emit('speech-cancelled', data);
     });
 
     this.socket.on('sign-animation', (data) => {
@@ -82,6 +228,34 @@ class WebSocketService {
       this.emit('sign-animation', data);
     });
 
+    this.socket.on('lexicon-updated', (data) => {
+      console.log('Sign lexicon updated:', data);
+      this.emit('lexicon-updated', data);
+    });
+
+    this.socket.on('system-ready', (data) => {
+      this.avatarModel = data.avatarModel;
+      this.emit('system-ready', data);
+    });
+
+    this.socket.on('sign-language-changed', (data) => {
+      this.avatarModel = data.avatarModel;
+      console.log('Sign language changed:', data);
+      this.emit('sign-language-changed', data);
+    });
+
+    this.socket.on('avatar-clip-start', (data) => {
+      this.emit('avatar-clip-start', data);
+    });
+
+    this.socket.on('avatar-frame', (data) => {
+      this.emit('avatar-frame', data);
+    });
+
+    this.socket.on('avatar-clip-end', (data) => {
+      this.emit('avatar-clip-end', data);
+    });
+
     this.socket.on('error', (error) => {
       console.error('Server error:', error);
       this.emit('error', error);
@@ -112,19 +286,38 @@ class WebSocketService {
     }
   }
 
-  // Send audio data for speech recognition
-  sendAudioData(audioBuffer: ArrayBuffer, duration: number): void {
+  // Send a recorded clip (WAV, WebM/Ogg Opus or MP3) for speech recognition; the server reads
+  // the real sample rate and length from the container and checks `duration` against it
+  sendAudioData(audioBuffer: ArrayBuffer, duration?: number): void {
     if (this.socket && this.socket.connected) {
       this.socket.emit('audio-data', {
         audioBuffer,
         duration,
-        sampleRate: 16000,
         timestamp: Date.now(),
         sessionId: this.sessionId
       });
     }
   }
 
+  // Stream live microphone audio as little-endian 16-bit mono PCM; sequence starts at 0 for each stream
+  sendAudioChunk(sequence: number, pcm: ArrayBuffer, sampleRate: number): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('audio-chunk', {
+        sequence,
+        audio: pcm,
+        sampleRate,
+        encoding: 'pcm16'
+      });
+    }
+  }
+
+  // Microphone stopped: flush the current utterance
+  endAudioStream(): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('audio-end');
+    }
+  }
+
   // Request sign language animation for text
   generateSignLanguage(text: string): void {
     if (this.socket && this.socket.connected) {
@@ -135,6 +328,13 @@ class WebSocketService {
     }
   }
 
+  // Switch the session to another sign language ('ASL', 'BSL', 'ISL', 'LSF')
+  setSignLanguage(signLanguage: string): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('set-sign-language', { signLanguage });
+    }
+  }
+
   // Request text-to-speech conversion
   textToSpeech(text: string, options?: any): void {
     if (this.socket && this.socket.connected) {
@@ -146,6 +346,20 @@ class WebSocketService {
     }
   }
 
+  // Speak text through the session's speech queue; 'emergency' interrupts anything less urgent
+  speakText(text: string, priority: SpeechPriority = 'normal'): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('speak-text', { text, priority });
+    }
+  }
+
+  // Cancel one utterance, or all queued and playing speech when no id is given
+  cancelSpeech(utteranceId?: string): void {
+    if (this.socket && this.socket.connected) {
+      this.socket.emit('cancel-speech', utteranceId ? { utteranceId } : {});
+    }
+  }
+
   // Event handling
   private eventListeners: { [key: string]: Function[] } = {};
 
@@ -177,13 +391,19 @@ class WebSocketService {
     return this.sessionId;
   }
 
+  getAvatarModel(): AvatarModel | null {
+    return this.avatarModel;
+  }
+
   // Disconnect
   disconnect(): void {
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
       this.sessionId = '';
+      this.avatarModel = null;
       this.eventListeners = {};
+      this.speechChunks.clear();
     }
   }
 }